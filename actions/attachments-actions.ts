@@ -0,0 +1,83 @@
+"use server";
+
+import {
+  deleteAttachment,
+  getAttachmentById,
+  getAttachmentUsageByWorkspaceId,
+  getAttachmentsByNoteId,
+} from "@/db/queries/attachments-queries";
+import type { ActionResult } from "@/types";
+import type { AttachmentInfo, AttachmentUsage } from "@/lib/attachments";
+import { deleteAttachmentFiles } from "@/lib/attachment-storage";
+import { notFoundResult, requireNoteAccess } from "@/lib/authorization";
+
+/**
+ * Server actions for the files attached to notes.
+ * Uploads and downloads go through /api/attachments, since they carry file
+ * bodies; listing and deleting happen here. Anyone a note is shared with can
+ * list its files; its owner and editors can delete them.
+ * Location: /actions/attachments-actions.ts
+ */
+
+export async function getNoteAttachmentsAction(
+  noteId: string
+): Promise<ActionResult<{ attachments: AttachmentInfo[]; usage: AttachmentUsage }>> {
+  try {
+    const guard = await requireNoteAccess(noteId, "view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const [attachments, usage] = await Promise.all([
+      getAttachmentsByNoteId(noteId),
+      getAttachmentUsageByWorkspaceId(guard.data.note.workspaceId),
+    ]);
+    return {
+      isSuccess: true,
+      message: `${attachments.length} attachment(s) found`,
+      // Storage keys stay on the server
+      data: {
+        attachments: attachments.map(({ id, noteId: attachmentNoteId, fileName, contentType, size }) => ({
+          id,
+          noteId: attachmentNoteId,
+          fileName,
+          contentType,
+          size,
+        })),
+        usage,
+      },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving attachments";
+    console.error("getNoteAttachmentsAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function deleteAttachmentAction(
+  id: string
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const attachment = await getAttachmentById(id);
+    if (!attachment) {
+      return notFoundResult("attachment");
+    }
+    const guard = await requireNoteAccess(attachment.noteId, "edit");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const deletedAttachment = await deleteAttachment(id);
+    if (!deletedAttachment) {
+      return notFoundResult("attachment");
+    }
+    await deleteAttachmentFiles([deletedAttachment.storageKey]);
+    return {
+      isSuccess: true,
+      message: "Attachment deleted",
+      data: { id },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error deleting attachment";
+    console.error("deleteAttachmentAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
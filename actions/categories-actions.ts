@@ -3,27 +3,86 @@
 import {
   createCategory,
   deleteCategory,
-  getCategoriesByUserId,
-  getCategoryById,
+  getCategoriesByWorkspaceId,
   updateCategory,
-  getCategoriesForUserAndBase,
+  getCategoriesForWorkspaceAndBase,
+  getManagedCategoriesForWorkspace,
+  ManagedCategory,
 } from "@/db/queries/categories-queries";
+import { setCategoryHidden, setCategoryOrder } from "@/db/queries/category-preferences-queries";
 import type { InsertCategory, SelectCategory } from "@/db/schema/categories-schema";
 import type { ActionResult } from "@/types"; 
+import { forbiddenResult, isCategoryInWorkspace, requireCategoryAccess, requireWorkspace } from "@/lib/authorization";
+import { validateCategoryFields } from "@/lib/categories";
+import { wouldCreateCycle } from "@/lib/category-tree";
 import { revalidatePath } from "next/cache";
 
 /**
  * Server actions for managing categories.
  * These actions interact with the database queries and handle cache revalidation.
+ * Base categories (workspaceId IS NULL) are readable by every user but
+ * editable by none; workspace categories are visible to the workspace's
+ * members and editable by its owners and editors. Lists follow the active
+ * workspace. Column order and hiding are per-user preferences, so they apply
+ * to base categories too. Workspace categories can be nested under a base
+ * category or another category of the same workspace, as long as that doesn't
+ * nest a category inside itself.
  * Location: /actions/categories-actions.ts
  */
 
+/**
+ * Checks that `parentId` can hold `categoryId` (null for a new category) in
+ * `workspaceId`: the parent must be readable by the user, a base category or
+ * one of the workspace's, and not inside the category.
+ * Returns a failed result to hand back, or null if the nesting is fine.
+ */
+async function checkCategoryParent(
+  workspaceId: string,
+  categoryId: string | null,
+  parentId: string
+): Promise<ActionResult<never> | null> {
+  const parentGuard = await requireCategoryAccess(parentId, "read");
+  if (!parentGuard.ok) {
+    return parentGuard.result;
+  }
+  if (!isCategoryInWorkspace(parentGuard.data, workspaceId)) {
+    return forbiddenResult("category");
+  }
+  const categories = await getCategoriesForWorkspaceAndBase(workspaceId, parentGuard.userId);
+  if (categoryId && wouldCreateCycle(categories, categoryId, parentId)) {
+    return { isSuccess: false, message: "A category can't be nested inside itself or one of its subcategories." };
+  }
+  return null;
+}
+
 export async function createCategoryAction(
-  data: InsertCategory
+  data: Pick<InsertCategory, "name" | "color" | "parentId">
 ): Promise<ActionResult<SelectCategory>> {
   try {
-    const newCategory = await createCategory(data);
-    revalidatePath("/notes"); // Revalidate path where categories are displayed
+    const guard = await requireWorkspace("edit");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const { workspace } = guard.data;
+    const validationError = validateCategoryFields({ name: data.name, color: data.color });
+    if (validationError) {
+      return { isSuccess: false, message: validationError };
+    }
+    if (data.parentId) {
+      const parentError = await checkCategoryParent(workspace.id, null, data.parentId);
+      if (parentError) {
+        return parentError;
+      }
+    }
+    // userId and workspaceId always come from the session, never from the client payload
+    const newCategory = await createCategory({
+      name: data.name.trim(),
+      color: data.color,
+      parentId: data.parentId ?? null,
+      userId: guard.userId,
+      workspaceId: workspace.id,
+    });
+    revalidateCategoryPaths();
     return {
       isSuccess: true,
       message: "Category created successfully",
@@ -40,14 +99,14 @@ export async function getCategoryByIdAction(
   id: string
 ): Promise<ActionResult<SelectCategory>> {
   try {
-    const category = await getCategoryById(id);
-    if (!category) {
-      return { isSuccess: false, message: "Category not found" };
+    const guard = await requireCategoryAccess(id, "read");
+    if (!guard.ok) {
+      return guard.result;
     }
     return {
       isSuccess: true,
       message: "Category retrieved successfully",
-      data: category,
+      data: guard.data,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving category";
@@ -56,11 +115,14 @@ export async function getCategoryByIdAction(
   }
 }
 
-export async function getCategoriesByUserIdAction(
-  userId: string
-): Promise<ActionResult<SelectCategory[]>> {
+// The active workspace's own categories, without the base ones
+export async function getWorkspaceCategoriesAction(): Promise<ActionResult<SelectCategory[]>> {
   try {
-    const categories = await getCategoriesByUserId(userId);
+    const guard = await requireWorkspace("view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const categories = await getCategoriesByWorkspaceId(guard.data.workspace.id);
     return {
       isSuccess: true,
       message: "Categories retrieved successfully",
@@ -68,36 +130,59 @@ export async function getCategoriesByUserIdAction(
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving categories";
-    console.error("getCategoriesByUserIdAction Error: ", errorMessage);
+    console.error("getWorkspaceCategoriesAction Error: ", errorMessage);
     return { isSuccess: false, message: errorMessage };
   }
 }
 
-export async function getCategoriesForUserAndBaseAction(
-  userId: string
+export async function getCategoriesForWorkspaceAndBaseAction(
+  options: { includeHidden?: boolean } = {}
 ): Promise<ActionResult<SelectCategory[]>> {
   try {
-    const categories = await getCategoriesForUserAndBase(userId);
+    const guard = await requireWorkspace("view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const categories = await getCategoriesForWorkspaceAndBase(guard.data.workspace.id, guard.userId, options);
     return {
       isSuccess: true,
-      message: "User and base categories retrieved successfully",
+      message: "Workspace and base categories retrieved successfully",
       data: categories,
     };
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving user and base categories";
-    console.error("getCategoriesForUserAndBaseAction Error: ", errorMessage);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving workspace and base categories";
+    console.error("getCategoriesForWorkspaceAndBaseAction Error: ", errorMessage);
     return { isSuccess: false, message: errorMessage };
   }
 }
 
 export async function updateCategoryAction(
   id: string,
-  data: Partial<InsertCategory>
+  data: Partial<Omit<InsertCategory, "id" | "userId" | "workspaceId" | "deletedAt">>
 ): Promise<ActionResult<SelectCategory>> {
   try {
-    const updatedCategory = await updateCategory(id, data);
-    revalidatePath("/notes"); // Revalidate relevant paths
-    // Potentially revalidate a specific note page if category is displayed there /notes/[note-id]
+    const guard = await requireCategoryAccess(id, "write");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    // Strip ownership and trash fields in case the client sent them anyway
+    const { id: _id, userId: _userId, workspaceId: _workspaceId, deletedAt: _deletedAt, ...updates } = data as Partial<InsertCategory>;
+    const validationError = validateCategoryFields({ name: updates.name, color: updates.color });
+    if (validationError) {
+      return { isSuccess: false, message: validationError };
+    }
+    if (updates.name !== undefined) {
+      updates.name = updates.name.trim();
+    }
+    if (updates.parentId) {
+      // Writable categories always belong to a workspace
+      const parentError = await checkCategoryParent(guard.data.workspaceId!, id, updates.parentId);
+      if (parentError) {
+        return parentError;
+      }
+    }
+    const updatedCategory = await updateCategory(id, updates);
+    revalidateCategoryPaths();
     return {
       isSuccess: true,
       message: "Category updated successfully",
@@ -110,15 +195,40 @@ export async function updateCategoryAction(
   }
 }
 
+/**
+ * Moves a category to the trash. With `moveNotesTo`, its notes move to that
+ * category (a base category or another of the workspace's) and stay active;
+ * otherwise they go to the trash with it.
+ */
 export async function deleteCategoryAction(
-  id: string
-): Promise<ActionResult<{ id: string }>> {
+  id: string,
+  { moveNotesTo }: { moveNotesTo?: string | null } = {}
+): Promise<ActionResult<{ id: string; movedNotes: number }>> {
   try {
-    const deletedCategoryInfo = await deleteCategory(id);
-    revalidatePath("/notes"); // Revalidate relevant paths
+    const guard = await requireCategoryAccess(id, "write");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    if (moveNotesTo) {
+      if (moveNotesTo === id) {
+        return { isSuccess: false, message: "Choose a different category to move the notes to." };
+      }
+      const targetGuard = await requireCategoryAccess(moveNotesTo, "read");
+      if (!targetGuard.ok) {
+        return targetGuard.result;
+      }
+      if (!isCategoryInWorkspace(targetGuard.data, guard.data.workspaceId!)) {
+        return forbiddenResult("category");
+      }
+    }
+    const deletedCategoryInfo = await deleteCategory(id, { moveNotesTo: moveNotesTo ?? undefined });
+    revalidateCategoryPaths();
+    revalidatePath("/dashboard/trash"); // The category (and maybe its notes) go to the trash
     return {
       isSuccess: true,
-      message: "Category deleted successfully",
+      message: moveNotesTo
+        ? `Category moved to trash; ${deletedCategoryInfo.movedNotes} note(s) moved`
+        : "Category and its notes moved to trash",
       data: deletedCategoryInfo,
     };
   } catch (error) {
@@ -126,4 +236,94 @@ export async function deleteCategoryAction(
     console.error("deleteCategoryAction Error: ", errorMessage);
     return { isSuccess: false, message: errorMessage };
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Base and active workspace categories in the user's order, with hidden flags
+ * and note counts, for the category manager.
+ */
+export async function getManagedCategoriesAction(): Promise<ActionResult<ManagedCategory[]>> {
+  try {
+    const guard = await requireWorkspace("view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const categories = await getManagedCategoriesForWorkspace(guard.data.workspace.id, guard.userId);
+    return {
+      isSuccess: true,
+      message: "Categories retrieved successfully",
+      data: categories,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving categories";
+    console.error("getManagedCategoriesAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Saves the user's column order for the active workspace. `orderedIds` must
+ * list exactly the categories the user can see there (hidden ones included).
+ */
+export async function reorderCategoriesAction(
+  orderedIds: string[]
+): Promise<ActionResult<{ ids: string[] }>> {
+  try {
+    const guard = await requireWorkspace("view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const categories = await getCategoriesForWorkspaceAndBase(guard.data.workspace.id, guard.userId);
+    const visibleIds = new Set(categories.map(category => category.id));
+    const isSameSet =
+      orderedIds.length === visibleIds.size &&
+      new Set(orderedIds).size === orderedIds.length &&
+      orderedIds.every(id => visibleIds.has(id));
+    if (!isSameSet) {
+      return { isSuccess: false, message: "The category list has changed. Refresh and try again." };
+    }
+    await setCategoryOrder(guard.userId, orderedIds);
+    revalidateCategoryPaths();
+    return {
+      isSuccess: true,
+      message: "Categories reordered successfully",
+      data: { ids: orderedIds },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error reordering categories";
+    console.error("reorderCategoriesAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Hides or shows a category's column for the current user. Works for base
+ * categories too, since it only changes the user's own preferences.
+ */
+export async function setCategoryHiddenAction(
+  id: string,
+  hidden: boolean
+): Promise<ActionResult<{ id: string; hidden: boolean }>> {
+  try {
+    const guard = await requireCategoryAccess(id, "read");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    await setCategoryHidden(guard.userId, id, hidden);
+    revalidateCategoryPaths();
+    return {
+      isSuccess: true,
+      message: hidden ? "Category hidden" : "Category shown",
+      data: { id, hidden },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error updating category";
+    console.error("setCategoryHiddenAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+// The sidebar's category tree, the board's columns and the category manager
+function revalidateCategoryPaths() {
+  revalidatePath("/dashboard", "layout");
+}
@@ -0,0 +1,157 @@
+"use server";
+
+import {
+  createNoteComment,
+  getNoteCommentById,
+  getNoteCommentsByNoteId,
+  setNoteCommentThreadResolved,
+} from "@/db/queries/note-comments-queries";
+import type { NoteComment } from "@/db/queries/note-comments-queries";
+import { getProfileByUserId } from "@/db/queries/profiles-queries";
+import type { SelectNoteComment } from "@/db/schema/note-comments-schema";
+import type { ActionResult } from "@/types";
+import { notFoundResult, requireNoteAccess } from "@/lib/authorization";
+import { normalizeCommentQuote, validateCommentContent } from "@/lib/note-comments";
+
+/**
+ * Server actions for inline comment threads on notes.
+ * Everyone who can open a note can read its threads and reply. Starting a
+ * thread marks the note's text and resolving one changes what the note
+ * shows, so both need edit access. The editor adds the comment mark to the
+ * content once startCommentThreadAction returns the thread's ID.
+ * Location: /actions/note-comments-actions.ts
+ */
+
+// The new comment as the comments sidebar lists it
+async function withAuthorEmail(comment: SelectNoteComment): Promise<NoteComment> {
+  const profile = await getProfileByUserId(comment.userId);
+  return { ...comment, authorEmail: profile?.email ?? null };
+}
+
+export async function getNoteCommentsAction(
+  noteId: string
+): Promise<ActionResult<NoteComment[]>> {
+  try {
+    const guard = await requireNoteAccess(noteId, "view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const comments = await getNoteCommentsByNoteId(noteId);
+    return {
+      isSuccess: true,
+      message: `${comments.length} comment(s) found`,
+      data: comments,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving comments";
+    console.error("getNoteCommentsAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Starts a thread on the passage `quote` of a note with its first comment.
+ */
+export async function startCommentThreadAction(
+  noteId: string,
+  quote: string,
+  content: string
+): Promise<ActionResult<NoteComment>> {
+  try {
+    const guard = await requireNoteAccess(noteId, "edit");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const validationError = validateCommentContent(content);
+    if (validationError) {
+      return { isSuccess: false, message: validationError };
+    }
+    const normalizedQuote = normalizeCommentQuote(quote);
+    if (!normalizedQuote) {
+      return { isSuccess: false, message: "Select the text you want to comment on." };
+    }
+    const comment = await createNoteComment({
+      noteId,
+      userId: guard.userId,
+      content: content.trim(),
+      quote: normalizedQuote,
+    });
+    return {
+      isSuccess: true,
+      message: "Comment added",
+      data: await withAuthorEmail(comment),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error starting comment thread";
+    console.error("startCommentThreadAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function replyToCommentThreadAction(
+  threadId: string,
+  content: string
+): Promise<ActionResult<NoteComment>> {
+  try {
+    const thread = await getNoteCommentById(threadId);
+    if (!thread || thread.parentId) {
+      return notFoundResult("thread");
+    }
+    const guard = await requireNoteAccess(thread.noteId, "view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const validationError = validateCommentContent(content);
+    if (validationError) {
+      return { isSuccess: false, message: validationError };
+    }
+    const reply = await createNoteComment({
+      noteId: thread.noteId,
+      parentId: thread.id,
+      userId: guard.userId,
+      content: content.trim(),
+    });
+    return {
+      isSuccess: true,
+      message: "Reply added",
+      data: await withAuthorEmail(reply),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error replying to comment thread";
+    console.error("replyToCommentThreadAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Resolves a thread, which hides it (and its highlight) but keeps it, or
+ * reopens a resolved one.
+ */
+export async function setCommentThreadResolvedAction(
+  threadId: string,
+  resolved: boolean
+): Promise<ActionResult<SelectNoteComment>> {
+  try {
+    const thread = await getNoteCommentById(threadId);
+    if (!thread || thread.parentId) {
+      return notFoundResult("thread");
+    }
+    const guard = await requireNoteAccess(thread.noteId, "edit");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const updatedThread = await setNoteCommentThreadResolved(threadId, resolved ? guard.userId : null);
+    if (!updatedThread) {
+      return notFoundResult("thread");
+    }
+    return {
+      isSuccess: true,
+      message: resolved ? "Thread resolved" : "Thread reopened",
+      data: updatedThread,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error updating comment thread";
+    console.error("setCommentThreadResolvedAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
@@ -0,0 +1,43 @@
+"use server";
+
+import { getBacklinksByNoteId } from "@/db/queries/note-links-queries";
+import { getSharedNoteIds } from "@/db/queries/note-shares-queries";
+import { getWorkspaceRole } from "@/db/queries/workspaces-queries";
+import type { SelectNote } from "@/db/schema/notes-schema";
+import type { ActionResult } from "@/types";
+import { requireNoteAccess } from "@/lib/authorization";
+
+/**
+ * Server actions for links between notes.
+ * Outgoing links are maintained by the note save actions; this file only
+ * exposes reads. Someone a note is shared with from outside its workspace only
+ * sees backlinks from notes they can open too.
+ * Location: /actions/note-links-actions.ts
+ */
+
+export async function getBacklinksAction(
+  noteId: string
+): Promise<ActionResult<SelectNote[]>> {
+  try {
+    const guard = await requireNoteAccess(noteId, "view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const { note } = guard.data;
+    let backlinks = await getBacklinksByNoteId(noteId, note.workspaceId);
+    const isMember = (await getWorkspaceRole(note.workspaceId, guard.userId)) !== null;
+    if (!isMember) {
+      const sharedIds = await getSharedNoteIds(guard.userId, backlinks.map(backlink => backlink.id));
+      backlinks = backlinks.filter(backlink => sharedIds.includes(backlink.id));
+    }
+    return {
+      isSuccess: true,
+      message: "Backlinks retrieved successfully",
+      data: backlinks,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving backlinks";
+    console.error("getBacklinksAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
@@ -0,0 +1,155 @@
+"use server";
+
+import {
+  deleteNotePublication,
+  getNotePublicationByNoteId,
+  getPublishedNoteBySlug,
+  upsertNotePublication,
+} from "@/db/queries/note-publications-queries";
+import type { ActionResult } from "@/types";
+import { notFoundResult, requireNoteOwner } from "@/lib/authorization";
+import {
+  createPublishedSlug,
+  getPublishedNotePath,
+  isPublicationExpired,
+  NotePublicationInfo,
+  PublishSettings,
+  toNotePublicationInfo,
+  validatePublishSettings,
+} from "@/lib/note-publishing";
+import {
+  allowPublicationUnlockAttempt,
+  grantPublicationAccess,
+  hashPublishPassword,
+  verifyPublishPassword,
+} from "@/lib/note-publishing-access";
+import { revalidatePath } from "next/cache";
+
+/**
+ * Server actions for publishing notes as public read-only pages at /p/<slug>.
+ * Only a note's owner can publish or unpublish it. Unlocking a
+ * password-protected page is open to anyone, signed in or not.
+ * Location: /actions/note-publications-actions.ts
+ */
+
+export async function getNotePublicationAction(
+  noteId: string
+): Promise<ActionResult<NotePublicationInfo | null>> {
+  try {
+    const guard = await requireNoteOwner(noteId);
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const publication = await getNotePublicationByNoteId(noteId);
+    return {
+      isSuccess: true,
+      message: publication ? "Note is published" : "Note is not published",
+      data: publication ? toNotePublicationInfo(publication) : null,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving note publication";
+    console.error("getNotePublicationAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Publishes the note, or saves new settings for its existing page (which
+ * keeps its URL).
+ */
+export async function publishNoteAction(
+  noteId: string,
+  settings: PublishSettings
+): Promise<ActionResult<NotePublicationInfo>> {
+  try {
+    const guard = await requireNoteOwner(noteId);
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const validationError = validatePublishSettings(settings);
+    if (validationError) {
+      return { isSuccess: false, message: validationError };
+    }
+
+    const existing = await getNotePublicationByNoteId(noteId);
+    let passwordHash = existing?.passwordHash ?? null;
+    if (settings.password === null) {
+      passwordHash = null;
+    } else if (typeof settings.password === "string") {
+      passwordHash = await hashPublishPassword(settings.password);
+    }
+    const publication = await upsertNotePublication({
+      noteId,
+      userId: guard.userId,
+      publishedSlug: existing?.publishedSlug ?? createPublishedSlug(guard.data.title),
+      expiresAt: settings.expiresAt,
+      passwordHash,
+    });
+    revalidatePath(getPublishedNotePath(publication.publishedSlug));
+    return {
+      isSuccess: true,
+      message: existing ? "Publish settings saved" : "Note published",
+      data: toNotePublicationInfo(publication),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error publishing note";
+    console.error("publishNoteAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function unpublishNoteAction(noteId: string): Promise<ActionResult<{ noteId: string }>> {
+  try {
+    const guard = await requireNoteOwner(noteId);
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const existing = await getNotePublicationByNoteId(noteId);
+    const deleted = await deleteNotePublication(noteId);
+    if (!existing || !deleted) {
+      return notFoundResult("publication");
+    }
+    revalidatePath(getPublishedNotePath(existing.publishedSlug));
+    return {
+      isSuccess: true,
+      message: "Note unpublished",
+      data: deleted,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error unpublishing note";
+    console.error("unpublishNoteAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Checks the password of a protected public page and, if it's right,
+ * remembers it in a cookie so the page (and its images) can be read. Attempts
+ * are rate limited (see allowPublicationUnlockAttempt).
+ */
+export async function unlockPublishedNoteAction(
+  slug: string,
+  password: string
+): Promise<ActionResult<null>> {
+  try {
+    const published = await getPublishedNoteBySlug(slug);
+    if (!published || isPublicationExpired(published.publication)) {
+      return notFoundResult("page");
+    }
+    const { publication } = published;
+    if (publication.passwordHash) {
+      if (!(await allowPublicationUnlockAttempt(publication.publishedSlug))) {
+        return { isSuccess: false, message: "Too many attempts. Try again in a few minutes." };
+      }
+      if (!(await verifyPublishPassword(password, publication.passwordHash))) {
+        return { isSuccess: false, message: "That password isn't right." };
+      }
+    }
+    grantPublicationAccess(publication);
+    return { isSuccess: true, message: "Page unlocked", data: null };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error unlocking page";
+    console.error("unlockPublishedNoteAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
@@ -0,0 +1,208 @@
+"use server";
+
+import {
+  deleteNoteShare,
+  getNoteShareById,
+  getNoteSharesByNoteId,
+  getSharedNotesByUserId,
+  getUserIdByEmail,
+  upsertNoteShare,
+  updateNoteShareRole,
+} from "@/db/queries/note-shares-queries";
+import type { SharedNote } from "@/db/queries/note-shares-queries";
+import type { NoteShareRole, SelectNoteShare } from "@/db/schema/note-shares-schema";
+import type { ActionResult } from "@/types";
+import { notFoundResult, requireNoteOwner, requireUser } from "@/lib/authorization";
+import {
+  getVerifiedEmails,
+  isNoteShareRole,
+  MAX_SHARES_PER_NOTE,
+  normalizeShareEmail,
+  validateShareEmail,
+} from "@/lib/note-sharing";
+import { currentUser } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+
+/**
+ * Server actions for sharing notes with other people.
+ * Only a note's owner can see or change who it is shared with. Sharing with
+ * an email nobody has signed up with yet leaves an invite that is claimed
+ * when they sign up (see claimNoteShares).
+ * Location: /actions/note-shares-actions.ts
+ */
+
+export async function getNoteSharesAction(
+  noteId: string
+): Promise<ActionResult<SelectNoteShare[]>> {
+  try {
+    const guard = await requireNoteOwner(noteId);
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const shares = await getNoteSharesByNoteId(noteId);
+    return {
+      isSuccess: true,
+      message: "Note shares retrieved successfully",
+      data: shares,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving note shares";
+    console.error("getNoteSharesAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Shares a note with `email` as viewer or editor. Sharing again with the
+ * same email changes the role.
+ */
+export async function shareNoteAction(
+  noteId: string,
+  email: string,
+  role: NoteShareRole
+): Promise<ActionResult<SelectNoteShare>> {
+  try {
+    const guard = await requireNoteOwner(noteId);
+    if (!guard.ok) {
+      return guard.result;
+    }
+    if (!isNoteShareRole(role)) {
+      return { isSuccess: false, message: "Choose whether they can view or edit the note." };
+    }
+    const granteeEmail = normalizeShareEmail(email);
+    const validationError = validateShareEmail(granteeEmail);
+    if (validationError) {
+      return { isSuccess: false, message: validationError };
+    }
+
+    const user = await currentUser();
+    const ownEmails = getVerifiedEmails(user);
+    const granteeUserId = await getUserIdByEmail(granteeEmail);
+    if (ownEmails.includes(granteeEmail) || granteeUserId === guard.userId) {
+      return { isSuccess: false, message: "You already own this note." };
+    }
+    const existingShares = await getNoteSharesByNoteId(noteId);
+    const isNewShare = !existingShares.some(share => share.granteeEmail === granteeEmail);
+    if (isNewShare && existingShares.length >= MAX_SHARES_PER_NOTE) {
+      return {
+        isSuccess: false,
+        message: `A note can be shared with at most ${MAX_SHARES_PER_NOTE} people.`,
+      };
+    }
+
+    const share = await upsertNoteShare({
+      noteId,
+      ownerId: guard.userId,
+      granteeEmail,
+      granteeUserId,
+      role,
+    });
+    revalidatePath(`/dashboard/notes/${noteId}`);
+    return {
+      isSuccess: true,
+      message: share.granteeUserId
+        ? `Shared with ${granteeEmail}`
+        : `Invited ${granteeEmail}; they'll get access when they sign up`,
+      data: share,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error sharing note";
+    console.error("shareNoteAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function updateNoteShareRoleAction(
+  shareId: string,
+  role: NoteShareRole
+): Promise<ActionResult<SelectNoteShare>> {
+  try {
+    const share = await getNoteShareById(shareId);
+    if (!share) {
+      return notFoundResult("share");
+    }
+    const guard = await requireNoteOwner(share.noteId);
+    if (!guard.ok) {
+      return guard.result;
+    }
+    if (!isNoteShareRole(role)) {
+      return { isSuccess: false, message: "Choose whether they can view or edit the note." };
+    }
+    const updatedShare = await updateNoteShareRole(shareId, role);
+    if (!updatedShare) {
+      return notFoundResult("share");
+    }
+    revalidatePath(`/dashboard/notes/${share.noteId}`);
+    return {
+      isSuccess: true,
+      message: "Access updated",
+      data: updatedShare,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error updating note share";
+    console.error("updateNoteShareRoleAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Stops sharing a note with someone. The owner can remove anyone; people the
+ * note is shared with can remove themselves ("leave" the note).
+ */
+export async function removeNoteShareAction(
+  shareId: string
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const session = await requireUser();
+    if (!session.ok) {
+      return session.result;
+    }
+    const share = await getNoteShareById(shareId);
+    if (!share) {
+      return notFoundResult("share");
+    }
+    if (share.granteeUserId !== session.userId) {
+      const guard = await requireNoteOwner(share.noteId);
+      if (!guard.ok) {
+        return guard.result;
+      }
+    }
+    const deletedShare = await deleteNoteShare(shareId);
+    if (!deletedShare) {
+      return notFoundResult("share");
+    }
+    revalidatePath(`/dashboard/notes/${share.noteId}`);
+    revalidatePath("/dashboard/notes");
+    return {
+      isSuccess: true,
+      message: "Access removed",
+      data: deletedShare,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error removing note share";
+    console.error("removeNoteShareAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Notes other people have shared with the signed-in user, for "Shared with me".
+ */
+export async function getSharedNotesAction(): Promise<ActionResult<SharedNote[]>> {
+  try {
+    const session = await requireUser();
+    if (!session.ok) {
+      return session.result;
+    }
+    const sharedNotes = await getSharedNotesByUserId(session.userId);
+    return {
+      isSuccess: true,
+      message: `${sharedNotes.length} shared note(s) found`,
+      data: sharedNotes,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving shared notes";
+    console.error("getSharedNotesAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
@@ -0,0 +1,59 @@
+"use server";
+
+import {
+  getOpenTasksByWorkspaceId,
+  getTaskProgressByWorkspaceId,
+} from "@/db/queries/note-tasks-queries";
+import type { OpenNoteTask } from "@/db/queries/note-tasks-queries";
+import type { ActionResult } from "@/types";
+import type { NoteTaskProgress } from "@/lib/note-tasks";
+import { requireWorkspace } from "@/lib/authorization";
+
+/**
+ * Server actions for the checklist items extracted from notes.
+ * Tasks are read-only here: they change by editing the note itself. Both
+ * lists cover the notes of the active workspace.
+ * Location: /actions/note-tasks-actions.ts
+ */
+
+export async function getOpenTasksAction(): Promise<ActionResult<OpenNoteTask[]>> {
+  try {
+    const guard = await requireWorkspace("view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const tasks = await getOpenTasksByWorkspaceId(guard.data.workspace.id);
+    return {
+      isSuccess: true,
+      message: `${tasks.length} open task(s) found`,
+      data: tasks,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving open tasks";
+    console.error("getOpenTasksAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Done/total task counts for all of the workspace's notes, keyed by note ID,
+ * for the notes board.
+ */
+export async function getTaskProgressByNoteIdAction(): Promise<ActionResult<Record<string, NoteTaskProgress>>> {
+  try {
+    const guard = await requireWorkspace("view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const progressByNoteId = await getTaskProgressByWorkspaceId(guard.data.workspace.id);
+    return {
+      isSuccess: true,
+      message: "Task progress retrieved successfully",
+      data: progressByNoteId,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving task progress";
+    console.error("getTaskProgressByNoteIdAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
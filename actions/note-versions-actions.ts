@@ -0,0 +1,82 @@
+"use server";
+
+import {
+  getNoteVersionById,
+  getNoteVersionsByNoteId,
+  snapshotNoteVersion,
+} from "@/db/queries/note-versions-queries";
+import { updateNote } from "@/db/queries/notes-queries";
+import { syncNoteLinksFromContent } from "@/db/queries/note-links-queries";
+import { syncNoteTasksFromContent } from "@/db/queries/note-tasks-queries";
+import type { SelectNoteVersion } from "@/db/schema/note-versions-schema";
+import type { SelectNote } from "@/db/schema/notes-schema";
+import type { ActionResult } from "@/types";
+import { notFoundResult, requireNoteAccess } from "@/lib/authorization";
+import { revalidatePath } from "next/cache";
+import { sanitizeNoteHtml } from "@/lib/note-html-sanitizer";
+
+/**
+ * Server actions for a note's version history.
+ * Versions are only reachable through their note, so every action checks
+ * access to the note first: anyone who can open it sees its history, and
+ * its owner and editors can restore.
+ * Location: /actions/note-versions-actions.ts
+ */
+
+export async function getNoteVersionsAction(
+  noteId: string
+): Promise<ActionResult<SelectNoteVersion[]>> {
+  try {
+    const guard = await requireNoteAccess(noteId, "view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const versions = await getNoteVersionsByNoteId(noteId);
+    return {
+      isSuccess: true,
+      message: "Note history retrieved successfully",
+      data: versions,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving note history";
+    console.error("getNoteVersionsAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function restoreNoteVersionAction(
+  noteId: string,
+  versionId: string
+): Promise<ActionResult<SelectNote>> {
+  try {
+    const guard = await requireNoteAccess(noteId, "edit");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const version = await getNoteVersionById(versionId);
+    if (!version || version.noteId !== noteId) {
+      return notFoundResult("version");
+    }
+
+    // Snapshot the current text first so the restore itself can be undone
+    await snapshotNoteVersion(guard.data.note, { force: true });
+    const restoredNote = await updateNote(noteId, {
+      title: version.title,
+      content: sanitizeNoteHtml(version.content), // Versions saved before sanitization may hold anything
+    });
+    if (restoredNote) {
+      await syncNoteLinksFromContent(restoredNote); // The restored text may link to different notes
+      await syncNoteTasksFromContent(restoredNote);
+    }
+    revalidatePath(`/dashboard/notes/${noteId}`);
+    return {
+      isSuccess: true,
+      message: "Note restored successfully",
+      data: restoredNote,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error restoring note version";
+    console.error("restoreNoteVersionAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
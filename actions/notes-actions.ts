@@ -4,26 +4,84 @@ import {
   createNote,
   deleteNote,
   deleteNotes, // For bulk delete
-  getNoteById,
   getNotesByCategoryId,
-  getNotesByUserId,
+  getNoteById,
+  getNotesByIds,
+  getNotesByWorkspaceId,
+  moveNote,
+  renumberNotePositions,
+  searchNotes,
+  setNoteFlags,
   updateNote,
 } from "@/db/queries/notes-queries";
+import type { NoteFlags, NoteSearchHit } from "@/db/queries/notes-queries";
+import { getCategoriesForWorkspaceAndBase } from "@/db/queries/categories-queries";
+import { snapshotNoteVersion } from "@/db/queries/note-versions-queries";
+import { syncNoteLinksFromContent } from "@/db/queries/note-links-queries";
+import { syncNoteTasksFromContent } from "@/db/queries/note-tasks-queries";
 import type { InsertNote, SelectNote } from "@/db/schema/notes-schema";
 import type { ActionResult } from "@/types";
+import {
+  forbiddenResult,
+  isCategoryInWorkspace,
+  NoteAccess,
+  notFoundResult,
+  requireCategoryAccess,
+  requireNoteAccess,
+  requireNoteOwner,
+  requireNotesOwner,
+  requireWorkspace,
+} from "@/lib/authorization";
 import { revalidatePath } from "next/cache";
+import { sanitizeNoteHtml } from "@/lib/note-html-sanitizer";
+import { hasRoomBetween, positionBetween } from "@/lib/note-order";
+import { getSubtreeIds } from "@/lib/category-tree";
 
 /**
  * Server actions for managing notes.
  * These actions interact with the database queries and handle cache revalidation.
+ * Every action resolves the user from the Clerk session and checks access
+ * through the guards in /lib/authorization.ts before touching a row: reading
+ * and editing are open to the people a note is shared with, everything else
+ * (trash, flags, moving between categories) to its workspace's owners and
+ * editors only. New notes and lists belong to the active workspace.
  * Location: /actions/notes-actions.ts
  */
 
+// Every note write goes through this, so stored content only ever holds
+// what the editor's schema allows (see /lib/note-html-sanitizer.ts)
+function withSanitizedContent<T extends { content?: string | null }>(data: T): T {
+  return typeof data.content === "string" ? { ...data, content: sanitizeNoteHtml(data.content) } : data;
+}
+
 export async function createNoteAction(
-  data: InsertNote
+  data: Pick<InsertNote, "title" | "content" | "categoryId">
 ): Promise<ActionResult<SelectNote>> {
   try {
-    const newNote = await createNote(data);
+    const workspaceAccess = await requireWorkspace("edit");
+    if (!workspaceAccess.ok) {
+      return workspaceAccess.result;
+    }
+    const { workspace } = workspaceAccess.data;
+    const categoryAccess = await requireCategoryAccess(data.categoryId, "read");
+    if (!categoryAccess.ok) {
+      return categoryAccess.result;
+    }
+    if (!isCategoryInWorkspace(categoryAccess.data, workspace.id)) {
+      return forbiddenResult("category");
+    }
+    // userId and workspaceId always come from the session, never from the client payload
+    const newNote = await createNote(withSanitizedContent({
+      title: data.title,
+      content: data.content,
+      categoryId: data.categoryId,
+      userId: categoryAccess.userId,
+      workspaceId: workspace.id,
+    }));
+    if (newNote.content) {
+      await syncNoteLinksFromContent(newNote);
+      await syncNoteTasksFromContent(newNote);
+    }
     revalidatePath("/notes"); // Revalidate the main notes listing page
     if (data.categoryId) {
       revalidatePath(`/notes?categoryId=${data.categoryId}`); // If filtering by category
@@ -40,15 +98,19 @@ export async function createNoteAction(
   }
 }
 
+/**
+ * A note in one of the user's workspaces or shared with them, with their
+ * role on it.
+ */
 export async function getNoteByIdAction(
   id: string
-): Promise<ActionResult<SelectNote>> {
+): Promise<ActionResult<NoteAccess>> {
   try {
-    const note = await getNoteById(id);
-    if (!note) {
-      return { isSuccess: false, message: "Note not found" };
+    const guard = await requireNoteAccess(id, "view");
+    if (!guard.ok) {
+      return guard.result;
     }
-    return { isSuccess: true, message: "Note retrieved successfully", data: note };
+    return { isSuccess: true, message: "Note retrieved successfully", data: guard.data };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving note";
     console.error("getNoteByIdAction Error: ", errorMessage);
@@ -56,11 +118,14 @@ export async function getNoteByIdAction(
   }
 }
 
-export async function getNotesByUserIdAction(
-  userId: string
-): Promise<ActionResult<SelectNote[]>> {
+// The active workspace's notes
+export async function getWorkspaceNotesAction(): Promise<ActionResult<SelectNote[]>> {
   try {
-    const notes = await getNotesByUserId(userId);
+    const guard = await requireWorkspace("view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const notes = await getNotesByWorkspaceId(guard.data.workspace.id);
     return {
       isSuccess: true,
       message: "Notes retrieved successfully",
@@ -68,21 +133,24 @@ export async function getNotesByUserIdAction(
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving notes";
-    console.error("getNotesByUserIdAction Error: ", errorMessage);
+    console.error("getWorkspaceNotesAction Error: ", errorMessage);
     return { isSuccess: false, message: errorMessage };
   }
 }
 
 export async function getNotesByCategoryIdAction(
-  categoryId: string,
-  userId: string
+  categoryId: string
 ): Promise<ActionResult<SelectNote[]>> {
   try {
-    if (!userId) {
-      console.error("getNotesByCategoryIdAction Error: userId was not provided.");
-      return { isSuccess: false, message: "User identification is required to fetch notes by category." };
+    const guard = await requireWorkspace("view");
+    if (!guard.ok) {
+      return guard.result;
     }
-    const notes = await getNotesByCategoryId(categoryId, userId);
+    const categoryAccess = await requireCategoryAccess(categoryId, "read");
+    if (!categoryAccess.ok) {
+      return categoryAccess.result;
+    }
+    const notes = await getNotesByCategoryId(categoryId, guard.data.workspace.id);
     return {
       isSuccess: true,
       message: "Notes for category retrieved successfully",
@@ -95,14 +163,117 @@ export async function getNotesByCategoryIdAction(
   }
 }
 
+/**
+ * Full-text search over the active workspace's notes. With `categoryId`, only
+ * that category and the categories nested inside it are searched.
+ */
+export async function searchNotesAction(
+  query: string,
+  { categoryId }: { categoryId?: string | null } = {}
+): Promise<ActionResult<NoteSearchHit[]>> {
+  try {
+    const guard = await requireWorkspace("view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const { workspace } = guard.data;
+    let categoryIds: string[] | undefined;
+    if (categoryId) {
+      const categoryAccess = await requireCategoryAccess(categoryId, "read");
+      if (!categoryAccess.ok) {
+        return categoryAccess.result;
+      }
+      categoryIds = getSubtreeIds(await getCategoriesForWorkspaceAndBase(workspace.id, guard.userId), categoryId);
+    }
+    const hits = await searchNotes(workspace.id, query, { categoryIds });
+    return {
+      isSuccess: true,
+      message: `${hits.length} matching note(s) found`,
+      data: hits,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error searching notes";
+    console.error("searchNotesAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Updates a note. When `expectedUpdatedAt` (the last `updatedAt` the client
+ * saw) is given, the write is rejected with a "conflict" result carrying the
+ * current note if someone else saved in the meantime. Owners can change the
+ * title, content and category; editors the note is shared with only the title
+ * and content.
+ */
 export async function updateNoteAction(
   id: string,
-  data: Partial<InsertNote>
+  data: Partial<Pick<InsertNote, "title" | "content" | "categoryId">>,
+  { expectedUpdatedAt }: { expectedUpdatedAt?: Date } = {}
 ): Promise<ActionResult<SelectNote>> {
   try {
-    const updatedNote = await updateNote(id, data);
+    const guard = await requireNoteAccess(id, "edit");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const { note, role } = guard.data;
+    const conflictResult: ActionResult<SelectNote> = {
+      isSuccess: false,
+      code: "conflict",
+      message: "This note was changed somewhere else since you opened it.",
+    };
+    if (expectedUpdatedAt && note.updatedAt.getTime() !== new Date(expectedUpdatedAt).getTime()) {
+      return { ...conflictResult, data: note };
+    }
+    // Copy only the editable fields in case the client sent others anyway; flags,
+    // positions and the derived text stats have actions and writers of their own
+    const updates = withSanitizedContent(
+      role === "owner"
+        ? { title: data.title, content: data.content, categoryId: data.categoryId }
+        : { title: data.title, content: data.content }
+    );
+    if (updates.categoryId && updates.categoryId !== note.categoryId) {
+      const categoryAccess = await requireCategoryAccess(updates.categoryId, "read");
+      if (!categoryAccess.ok) {
+        return categoryAccess.result;
+      }
+      if (!isCategoryInWorkspace(categoryAccess.data, note.workspaceId)) {
+        return forbiddenResult("category");
+      }
+    }
+    // Keep the text being overwritten in the note's version history
+    const isTextChange =
+      (updates.title !== undefined && updates.title !== note.title) ||
+      (updates.content !== undefined && updates.content !== note.content);
+    if (isTextChange) {
+      try {
+        await snapshotNoteVersion(note);
+      } catch (snapshotError) {
+        // A failed snapshot must not block the save itself
+        console.error("updateNoteAction: failed to snapshot note version", snapshotError);
+      }
+    }
+    const updatedNote = await updateNote(id, updates, { expectedUpdatedAt });
+    if (!updatedNote) {
+      // Lost a race with another save between the check above and the write
+      const latestNote = await getNoteById(id);
+      return { ...conflictResult, data: latestNote };
+    }
+    if (updates.content !== undefined && updates.content !== note.content) {
+      try {
+        await syncNoteLinksFromContent(updatedNote);
+      } catch (linksError) {
+        // Stale backlinks are preferable to failing a save that already happened
+        console.error("updateNoteAction: failed to sync note links", linksError);
+      }
+      try {
+        await syncNoteTasksFromContent(updatedNote);
+      } catch (tasksError) {
+        console.error("updateNoteAction: failed to sync note tasks", tasksError);
+      }
+    }
     revalidatePath("/notes"); // Revalidate main listing
     revalidatePath(`/notes/${id}`); // Revalidate specific note page
+    revalidatePath("/dashboard/tasks"); // Task items may have changed
     if (updatedNote.categoryId) {
       revalidatePath(`/notes?categoryId=${updatedNote.categoryId}`);
     }
@@ -118,16 +289,125 @@ export async function updateNoteAction(
   }
 }
 
+/**
+ * Pins/unpins a note or adds/removes it from the favourites. Doesn't count as
+ * an edit: `updatedAt` stays the same, so open editors don't see a conflict.
+ */
+export async function setNoteFlagsAction(
+  id: string,
+  flags: NoteFlags
+): Promise<ActionResult<SelectNote>> {
+  try {
+    const guard = await requireNoteOwner(id);
+    if (!guard.ok) {
+      return guard.result;
+    }
+    // Only the flags themselves, whatever else the client sent
+    const updates: NoteFlags = {};
+    if (typeof flags.pinned === "boolean") updates.pinned = flags.pinned;
+    if (typeof flags.favorite === "boolean") updates.favorite = flags.favorite;
+    if (Object.keys(updates).length === 0) {
+      return { isSuccess: true, message: "Nothing to update", data: guard.data };
+    }
+    const updatedNote = await setNoteFlags(id, updates);
+    if (!updatedNote) {
+      return notFoundResult("note");
+    }
+    revalidatePath("/dashboard", "layout"); // The sidebar lists the favourites
+    return {
+      isSuccess: true,
+      message: "Note updated successfully",
+      data: updatedNote,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error updating note";
+    console.error("setNoteFlagsAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Moves a note to `categoryId`, between the notes the user dropped it
+ * between (either may be missing at the ends of the column). The position is
+ * worked out from the neighbours as they are stored, not from what the client
+ * last saw. `positions` is set when the category had to be renumbered, so the
+ * client can update every note in it.
+ */
+export async function moveNoteAction(
+  id: string,
+  { categoryId, previousNoteId, nextNoteId }: { categoryId: string; previousNoteId?: string | null; nextNoteId?: string | null }
+): Promise<ActionResult<{ note: SelectNote; positions?: Record<string, number> }>> {
+  try {
+    const guard = await requireNoteOwner(id);
+    if (!guard.ok) {
+      return guard.result;
+    }
+    if (categoryId !== guard.data.categoryId) {
+      const categoryAccess = await requireCategoryAccess(categoryId, "read");
+      if (!categoryAccess.ok) {
+        return categoryAccess.result;
+      }
+      if (!isCategoryInWorkspace(categoryAccess.data, guard.data.workspaceId)) {
+        return forbiddenResult("category");
+      }
+    }
+
+    const neighbourIds = [previousNoteId, nextNoteId].filter((noteId): noteId is string => !!noteId && noteId !== id);
+    const findNeighbours = async () => {
+      // Neighbours from another workspace or category are ignored, not trusted
+      const neighbours = (await getNotesByIds(neighbourIds)).filter(
+        note => note.workspaceId === guard.data.workspaceId && note.categoryId === categoryId
+      );
+      return {
+        before: neighbours.find(note => note.id === previousNoteId)?.position,
+        after: neighbours.find(note => note.id === nextNoteId)?.position,
+      };
+    };
+
+    let { before, after } = await findNeighbours();
+    let positions: Record<string, number> | undefined;
+    if (!hasRoomBetween(before, after)) {
+      positions = await renumberNotePositions(categoryId, guard.data.workspaceId);
+      ({ before, after } = await findNeighbours());
+    }
+
+    const movedNote = await moveNote(id, { categoryId, position: positionBetween(before, after) });
+    if (!movedNote) {
+      return notFoundResult("note");
+    }
+    if (positions) {
+      positions[movedNote.id] = movedNote.position;
+    }
+    revalidatePath("/dashboard/notes");
+    revalidatePath("/dashboard/tasks"); // Open tasks show their note's category
+    return {
+      isSuccess: true,
+      message: "Note moved successfully",
+      data: { note: movedNote, positions },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error moving note";
+    console.error("moveNoteAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
 export async function deleteNoteAction(
   id: string
 ): Promise<ActionResult<{ id: string }>> {
   try {
+    const guard = await requireNoteOwner(id);
+    if (!guard.ok) {
+      return guard.result;
+    }
     const deletedNoteInfo = await deleteNote(id);
     revalidatePath("/notes"); // Revalidate main listing
+    revalidatePath("/dashboard/trash"); // Deleted notes go to the trash
+    revalidatePath("/dashboard", "layout"); // Trashed notes leave the sidebar's favourites
     // Potentially revalidate category view if note was listed there
     return {
       isSuccess: true,
-      message: "Note deleted successfully",
+      message: "Note moved to trash",
       data: deletedNoteInfo,
     };
   } catch (error) {
@@ -141,12 +421,21 @@ export async function deleteNotesAction(
   ids: string[]
 ): Promise<ActionResult<{ count: number }>> {
   try {
+    if (ids.length === 0) {
+      return { isSuccess: true, message: "0 note(s) deleted successfully", data: { count: 0 } };
+    }
+    const guard = await requireNotesOwner(ids);
+    if (!guard.ok) {
+      return guard.result;
+    }
     const result = await deleteNotes(ids);
     revalidatePath("/notes");
+    revalidatePath("/dashboard/trash"); // Deleted notes go to the trash
+    revalidatePath("/dashboard", "layout");
     // Could also revalidate specific category paths if known
     return {
       isSuccess: true,
-      message: `${result.count} note(s) deleted successfully`,
+      message: `${result.count} note(s) moved to trash`,
       data: result,
     };
   } catch (error) {
@@ -158,28 +447,37 @@ export async function deleteNotesAction(
 
 export async function createQuickNoteAction(
   categoryId: string,
-  userId: string,
   title?: string // Optional title, can default in the action
 ): Promise<ActionResult<SelectNote>> {
-  if (!userId) {
-    console.error("createQuickNoteAction Error: User not authenticated.");
-    return { isSuccess: false, message: "User not authenticated." };
-  }
   if (!categoryId) {
     console.error("createQuickNoteAction Error: Category ID is required.");
     return { isSuccess: false, message: "Category ID is required." };
   }
 
-  const noteData: InsertNote = {
-    title: title || "Untitled Note", // Default title if not provided
-    content: "", // Default empty content
-    categoryId: categoryId,
-    userId: userId,
-    // createdAt and updatedAt will be handled by the DB schema defaults (e.g., defaultNow())
-  };
-
   try {
-    const newNote = await createNote(noteData); // Reuse existing createNote query
+    const workspaceAccess = await requireWorkspace("edit");
+    if (!workspaceAccess.ok) {
+      return workspaceAccess.result;
+    }
+    const { workspace } = workspaceAccess.data;
+    const categoryAccess = await requireCategoryAccess(categoryId, "read");
+    if (!categoryAccess.ok) {
+      return categoryAccess.result;
+    }
+    if (!isCategoryInWorkspace(categoryAccess.data, workspace.id)) {
+      return forbiddenResult("category");
+    }
+
+    const noteData: InsertNote = {
+      title: title || "Untitled Note", // Default title if not provided
+      content: "", // Default empty content
+      categoryId: categoryId,
+      userId: categoryAccess.userId,
+      workspaceId: workspace.id,
+      // createdAt and updatedAt will be handled by the DB schema defaults (e.g., defaultNow())
+    };
+
+    const newNote = await createNote(withSanitizedContent(noteData)); // Reuse existing createNote query
     
     // Revalidate paths
     revalidatePath("/dashboard/notes"); // Main notes board
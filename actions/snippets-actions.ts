@@ -0,0 +1,128 @@
+"use server";
+
+import {
+  createSnippet,
+  deleteSnippet,
+  getSnippetsByUserId,
+  updateSnippet,
+} from "@/db/queries/snippets-queries";
+import type { SelectSnippet } from "@/db/schema/snippets-schema";
+import type { ActionResult } from "@/types";
+import { notFoundResult, requireUser } from "@/lib/authorization";
+import { MAX_SNIPPETS_PER_USER, validateSnippet } from "@/lib/snippets";
+import { revalidatePath } from "next/cache";
+
+/**
+ * Server actions for editor snippets.
+ * Snippets belong to a single user; the user ID always comes from the session
+ * and every query is scoped to it.
+ * Location: /actions/snippets-actions.ts
+ */
+
+export async function getSnippetsAction(): Promise<ActionResult<SelectSnippet[]>> {
+  try {
+    const session = await requireUser();
+    if (!session.ok) {
+      return session.result;
+    }
+    const snippets = await getSnippetsByUserId(session.userId);
+    return {
+      isSuccess: true,
+      message: "Snippets retrieved successfully",
+      data: snippets,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving snippets";
+    console.error("getSnippetsAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function createSnippetAction(
+  data: { name: string; body: string }
+): Promise<ActionResult<SelectSnippet>> {
+  try {
+    const session = await requireUser();
+    if (!session.ok) {
+      return session.result;
+    }
+    const validationError = validateSnippet(data);
+    if (validationError) {
+      return { isSuccess: false, message: validationError };
+    }
+    const existingSnippets = await getSnippetsByUserId(session.userId);
+    if (existingSnippets.length >= MAX_SNIPPETS_PER_USER) {
+      return { isSuccess: false, message: `You can have at most ${MAX_SNIPPETS_PER_USER} snippets.` };
+    }
+    const snippet = await createSnippet({
+      userId: session.userId,
+      name: data.name.trim(),
+      body: data.body,
+    });
+    revalidatePath("/dashboard/settings");
+    return {
+      isSuccess: true,
+      message: "Snippet created successfully",
+      data: snippet,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error creating snippet";
+    console.error("createSnippetAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function updateSnippetAction(
+  id: string,
+  data: { name: string; body: string }
+): Promise<ActionResult<SelectSnippet>> {
+  try {
+    const session = await requireUser();
+    if (!session.ok) {
+      return session.result;
+    }
+    const validationError = validateSnippet(data);
+    if (validationError) {
+      return { isSuccess: false, message: validationError };
+    }
+    const snippet = await updateSnippet(id, session.userId, { name: data.name.trim(), body: data.body });
+    if (!snippet) {
+      return notFoundResult("snippet");
+    }
+    revalidatePath("/dashboard/settings");
+    return {
+      isSuccess: true,
+      message: "Snippet updated successfully",
+      data: snippet,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error updating snippet";
+    console.error("updateSnippetAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function deleteSnippetAction(
+  id: string
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const session = await requireUser();
+    if (!session.ok) {
+      return session.result;
+    }
+    const deleted = await deleteSnippet(id, session.userId);
+    if (!deleted) {
+      return notFoundResult("snippet");
+    }
+    revalidatePath("/dashboard/settings");
+    return {
+      isSuccess: true,
+      message: "Snippet deleted successfully",
+      data: deleted,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error deleting snippet";
+    console.error("deleteSnippetAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
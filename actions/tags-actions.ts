@@ -0,0 +1,122 @@
+"use server";
+
+import {
+  getNoteTagsByWorkspaceId,
+  getTagsByNoteId,
+  getTagsByWorkspaceId,
+  setNoteTags,
+} from "@/db/queries/tags-queries";
+import type { SelectTag } from "@/db/schema/tags-schema";
+import type { ActionResult } from "@/types";
+import { requireNoteAccess, requireNoteOwner, requireWorkspace } from "@/lib/authorization";
+import { MAX_TAGS_PER_NOTE, normalizeTagNames } from "@/lib/tags";
+import { revalidatePath } from "next/cache";
+
+/**
+ * Server actions for note tags.
+ * Tags belong to a workspace and are shared by its members; tags on a note can
+ * be read by anyone who can open the note, but only changed by its
+ * workspace's owners and editors.
+ * Location: /actions/tags-actions.ts
+ */
+
+/**
+ * Tags of the active workspace, for autocomplete and the board filter.
+ */
+export async function getTagsAction(): Promise<ActionResult<SelectTag[]>> {
+  try {
+    const guard = await requireWorkspace("view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const tags = await getTagsByWorkspaceId(guard.data.workspace.id);
+    return {
+      isSuccess: true,
+      message: "Tags retrieved successfully",
+      data: tags,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving tags";
+    console.error("getTagsAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function getNoteTagsAction(
+  noteId: string
+): Promise<ActionResult<SelectTag[]>> {
+  try {
+    const guard = await requireNoteAccess(noteId, "view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const tags = await getTagsByNoteId(noteId);
+    return {
+      isSuccess: true,
+      message: "Note tags retrieved successfully",
+      data: tags,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving note tags";
+    console.error("getNoteTagsAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Tags on all of the active workspace's notes, keyed by note ID, for the
+ * notes board.
+ */
+export async function getTagsByNoteIdAction(): Promise<ActionResult<Record<string, SelectTag[]>>> {
+  try {
+    const guard = await requireWorkspace("view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const tagsByNoteId = await getNoteTagsByWorkspaceId(guard.data.workspace.id);
+    return {
+      isSuccess: true,
+      message: "Note tags retrieved successfully",
+      data: tagsByNoteId,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving note tags";
+    console.error("getTagsByNoteIdAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Replaces the tags on a note. Names are normalized, so "Client X" and
+ * "client-x" end up as the same tag.
+ */
+export async function setNoteTagsAction(
+  noteId: string,
+  names: string[]
+): Promise<ActionResult<SelectTag[]>> {
+  try {
+    const guard = await requireNoteOwner(noteId);
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const normalizedNames = normalizeTagNames(names);
+    if (normalizedNames.length > MAX_TAGS_PER_NOTE) {
+      return {
+        isSuccess: false,
+        message: `A note can have at most ${MAX_TAGS_PER_NOTE} tags.`,
+      };
+    }
+    const tags = await setNoteTags(guard.data, guard.userId, normalizedNames);
+    revalidatePath("/dashboard/notes");
+    revalidatePath(`/dashboard/notes/${noteId}`);
+    return {
+      isSuccess: true,
+      message: "Note tags updated successfully",
+      data: tags,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error updating note tags";
+    console.error("setNoteTagsAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
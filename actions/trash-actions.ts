@@ -0,0 +1,172 @@
+"use server";
+
+import {
+  getCategoryById,
+  getTrashedCategoriesByWorkspaceId,
+  permanentlyDeleteCategory,
+  restoreCategory,
+  updateCategory,
+} from "@/db/queries/categories-queries";
+import {
+  getTrashedNotesByWorkspaceId,
+  permanentlyDeleteNotes,
+  restoreNotes,
+} from "@/db/queries/notes-queries";
+import type { SelectCategory } from "@/db/schema/categories-schema";
+import type { SelectNote } from "@/db/schema/notes-schema";
+import type { ActionResult } from "@/types";
+import {
+  notFoundResult,
+  requireCategoryAccess,
+  requireNoteOwner,
+  requireWorkspace,
+} from "@/lib/authorization";
+import { deleteAttachmentFiles } from "@/lib/attachment-storage";
+import { revalidatePath } from "next/cache";
+
+/**
+ * Server actions for the trash: listing trashed notes and categories,
+ * restoring them, and deleting them permanently. The trash is the active
+ * workspace's; its owners and editors can empty or restore it.
+ * Location: /actions/trash-actions.ts
+ */
+
+export async function getTrashAction(): Promise<
+  ActionResult<{ notes: SelectNote[]; categories: SelectCategory[] }>
+> {
+  try {
+    const guard = await requireWorkspace("view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const { workspace } = guard.data;
+    const [notes, categories] = await Promise.all([
+      getTrashedNotesByWorkspaceId(workspace.id),
+      getTrashedCategoriesByWorkspaceId(workspace.id),
+    ]);
+    return {
+      isSuccess: true,
+      message: "Trash retrieved successfully",
+      data: { notes, categories },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving trash";
+    console.error("getTrashAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function restoreNoteAction(
+  id: string
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const guard = await requireNoteOwner(id, { includeDeleted: true });
+    if (!guard.ok) {
+      return guard.result;
+    }
+    if (!guard.data.deletedAt) {
+      return notFoundResult("trashed note");
+    }
+
+    // A note can't come back into a trashed category, so bring the category back too
+    const category = await getCategoryById(guard.data.categoryId, { includeDeleted: true });
+    if (category?.deletedAt) {
+      await updateCategory(category.id, { deletedAt: null });
+    }
+
+    await restoreNotes([id]);
+    revalidatePath("/dashboard/notes");
+    revalidatePath("/dashboard/trash");
+    revalidatePath("/dashboard", "layout"); // Restored favourites show up in the sidebar again
+    return {
+      isSuccess: true,
+      message: category?.deletedAt
+        ? `Note restored along with its category "${category.name}"`
+        : "Note restored successfully",
+      data: { id },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error restoring note";
+    console.error("restoreNoteAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function permanentlyDeleteNoteAction(
+  id: string
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const guard = await requireNoteOwner(id, { includeDeleted: true });
+    if (!guard.ok) {
+      return guard.result;
+    }
+    if (!guard.data.deletedAt) {
+      return notFoundResult("trashed note");
+    }
+    const { attachmentKeys } = await permanentlyDeleteNotes([id]);
+    await deleteAttachmentFiles(attachmentKeys);
+    revalidatePath("/dashboard/trash");
+    return {
+      isSuccess: true,
+      message: "Note permanently deleted",
+      data: { id },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error permanently deleting note";
+    console.error("permanentlyDeleteNoteAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function restoreCategoryAction(
+  id: string
+): Promise<ActionResult<{ id: string; restoredNotes: number }>> {
+  try {
+    const guard = await requireCategoryAccess(id, "write", { includeDeleted: true });
+    if (!guard.ok) {
+      return guard.result;
+    }
+    if (!guard.data.deletedAt) {
+      return notFoundResult("trashed category");
+    }
+    const result = await restoreCategory(id);
+    revalidatePath("/dashboard/notes");
+    revalidatePath("/dashboard/trash");
+    revalidatePath("/dashboard", "layout");
+    return {
+      isSuccess: true,
+      message: `Category restored with ${result.restoredNotes} note(s)`,
+      data: result,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error restoring category";
+    console.error("restoreCategoryAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function permanentlyDeleteCategoryAction(
+  id: string
+): Promise<ActionResult<{ id: string; deletedNotes: number }>> {
+  try {
+    const guard = await requireCategoryAccess(id, "write", { includeDeleted: true });
+    if (!guard.ok) {
+      return guard.result;
+    }
+    if (!guard.data.deletedAt) {
+      return notFoundResult("trashed category");
+    }
+    const { attachmentKeys, ...result } = await permanentlyDeleteCategory(id);
+    await deleteAttachmentFiles(attachmentKeys);
+    revalidatePath("/dashboard/trash");
+    return {
+      isSuccess: true,
+      message: `Category and ${result.deletedNotes} note(s) permanently deleted`,
+      data: result,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error permanently deleting category";
+    console.error("permanentlyDeleteCategoryAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
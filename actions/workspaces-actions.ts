@@ -0,0 +1,463 @@
+"use server";
+
+import {
+  createWorkspace,
+  deleteWorkspace,
+  getWorkspaceMemberById,
+  getWorkspaceMembers,
+  getWorkspaceRole,
+  removeWorkspaceMember,
+  updateWorkspace,
+  updateWorkspaceMemberRole,
+} from "@/db/queries/workspaces-queries";
+import type { WorkspaceMember } from "@/db/queries/workspaces-queries";
+import {
+  acceptWorkspaceInvitation,
+  deleteWorkspaceInvitation,
+  getWorkspaceInvitationById,
+  getWorkspaceInvitationsByWorkspaceId,
+  upsertWorkspaceInvitation,
+} from "@/db/queries/workspace-invitations-queries";
+import { getUserIdByEmail } from "@/db/queries/note-shares-queries";
+import type { SelectWorkspace } from "@/db/schema/workspaces-schema";
+import type { SelectWorkspaceInvitation } from "@/db/schema/workspace-invitations-schema";
+import type { SelectWorkspaceMember, WorkspaceRole } from "@/db/schema/workspace-members-schema";
+import type { ActionResult } from "@/types";
+import { notFoundResult, requireUser, requireWorkspaceAccess } from "@/lib/authorization";
+import { getVerifiedEmails, normalizeShareEmail, validateShareEmail } from "@/lib/note-sharing";
+import {
+  isInvitableWorkspaceRole,
+  MAX_WORKSPACE_MEMBERS,
+  validateWorkspaceName,
+  WorkspaceWithRole,
+} from "@/lib/workspaces";
+import { setActiveWorkspace } from "@/lib/active-workspace";
+import { currentUser } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+
+/**
+ * Server actions for workspaces, their members and invitations.
+ * Any member can see who is in a workspace; only its owner can rename or
+ * delete it, change roles and invite people. Invites are sent to an email and
+ * show up in the workspace switcher of whoever signs in with it.
+ * Location: /actions/workspaces-actions.ts
+ */
+
+// The signed-in user's verified email addresses, lowercased like invite emails
+async function getOwnEmails(): Promise<string[]> {
+  return getVerifiedEmails(await currentUser());
+}
+
+// Everything on the dashboard follows the active workspace
+function revalidateDashboard() {
+  revalidatePath("/dashboard", "layout");
+}
+
+/**
+ * Makes `workspaceId` the workspace the dashboard shows.
+ */
+export async function switchWorkspaceAction(
+  workspaceId: string
+): Promise<ActionResult<WorkspaceWithRole>> {
+  try {
+    const guard = await requireWorkspaceAccess(workspaceId, "view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    setActiveWorkspace(workspaceId);
+    revalidateDashboard();
+    return {
+      isSuccess: true,
+      message: `Switched to ${guard.data.workspace.name}`,
+      data: guard.data,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error switching workspace";
+    console.error("switchWorkspaceAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Creates a workspace owned by the signed-in user and switches to it.
+ */
+export async function createWorkspaceAction(
+  name: string
+): Promise<ActionResult<SelectWorkspace>> {
+  try {
+    const session = await requireUser();
+    if (!session.ok) {
+      return session.result;
+    }
+    const { name: workspaceName, error } = validateWorkspaceName(name);
+    if (error) {
+      return { isSuccess: false, message: error };
+    }
+    const workspace = await createWorkspace({ name: workspaceName, ownerId: session.userId });
+    setActiveWorkspace(workspace.id);
+    revalidateDashboard();
+    return {
+      isSuccess: true,
+      message: `Created ${workspace.name}`,
+      data: workspace,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error creating workspace";
+    console.error("createWorkspaceAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function renameWorkspaceAction(
+  workspaceId: string,
+  name: string
+): Promise<ActionResult<SelectWorkspace>> {
+  try {
+    const guard = await requireWorkspaceAccess(workspaceId, "manage");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const { name: workspaceName, error } = validateWorkspaceName(name);
+    if (error) {
+      return { isSuccess: false, message: error };
+    }
+    const workspace = await updateWorkspace(workspaceId, { name: workspaceName });
+    if (!workspace) {
+      return notFoundResult("workspace");
+    }
+    revalidateDashboard();
+    return {
+      isSuccess: true,
+      message: "Workspace renamed",
+      data: workspace,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error renaming workspace";
+    console.error("renameWorkspaceAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Deletes a workspace along with its categories, members and invitations.
+ * Personal workspaces can't be deleted, and neither can workspaces that still
+ * hold notes (trashed ones included), so nobody loses notes by accident.
+ * Members who had it open fall back to their personal workspace.
+ */
+export async function deleteWorkspaceAction(
+  workspaceId: string
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const guard = await requireWorkspaceAccess(workspaceId, "manage");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    if (guard.data.workspace.personal) {
+      return { isSuccess: false, message: "Your personal workspace can't be deleted." };
+    }
+    const deletedWorkspace = await deleteWorkspace(workspaceId);
+    if (!deletedWorkspace) {
+      return {
+        isSuccess: false,
+        message: "Delete this workspace's notes, and empty them from the trash, before deleting it.",
+      };
+    }
+    revalidateDashboard();
+    return {
+      isSuccess: true,
+      message: `Deleted ${guard.data.workspace.name}`,
+      data: deletedWorkspace,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error deleting workspace";
+    console.error("deleteWorkspaceAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * The members of a workspace, plus its pending invitations for its owner.
+ */
+export async function getWorkspaceMembersAction(
+  workspaceId: string
+): Promise<ActionResult<{ members: WorkspaceMember[]; invitations: SelectWorkspaceInvitation[] }>> {
+  try {
+    const guard = await requireWorkspaceAccess(workspaceId, "view");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const [members, invitations] = await Promise.all([
+      getWorkspaceMembers(workspaceId),
+      guard.data.role === "owner" ? getWorkspaceInvitationsByWorkspaceId(workspaceId) : Promise.resolve([]),
+    ]);
+    return {
+      isSuccess: true,
+      message: `${members.length} member(s) found`,
+      data: { members, invitations },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error retrieving workspace members";
+    console.error("getWorkspaceMembersAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function updateWorkspaceMemberRoleAction(
+  memberId: string,
+  role: WorkspaceRole
+): Promise<ActionResult<SelectWorkspaceMember>> {
+  try {
+    const member = await getWorkspaceMemberById(memberId);
+    if (!member) {
+      return notFoundResult("member");
+    }
+    const guard = await requireWorkspaceAccess(member.workspaceId, "manage");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    if (!isInvitableWorkspaceRole(role)) {
+      return { isSuccess: false, message: "Choose whether they can view or edit the workspace." };
+    }
+    if (member.role === "owner") {
+      return { isSuccess: false, message: "The owner's role can't be changed." };
+    }
+    const updatedMember = await updateWorkspaceMemberRole(memberId, role);
+    if (!updatedMember) {
+      return notFoundResult("member");
+    }
+    revalidateDashboard();
+    return {
+      isSuccess: true,
+      message: "Role updated",
+      data: updatedMember,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error updating workspace member";
+    console.error("updateWorkspaceMemberRoleAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Removes someone from a workspace. The owner can remove anyone else;
+ * members can remove themselves ("leave" the workspace). The owner can't
+ * leave their own workspace.
+ */
+export async function removeWorkspaceMemberAction(
+  memberId: string
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const session = await requireUser();
+    if (!session.ok) {
+      return session.result;
+    }
+    const member = await getWorkspaceMemberById(memberId);
+    if (!member) {
+      return notFoundResult("member");
+    }
+    if (member.userId !== session.userId) {
+      const guard = await requireWorkspaceAccess(member.workspaceId, "manage");
+      if (!guard.ok) {
+        return guard.result;
+      }
+    }
+    if (member.role === "owner") {
+      return { isSuccess: false, message: "The owner can't leave the workspace; delete it instead." };
+    }
+    const removedMember = await removeWorkspaceMember(memberId);
+    if (!removedMember) {
+      return notFoundResult("member");
+    }
+    revalidateDashboard();
+    return {
+      isSuccess: true,
+      message: member.userId === session.userId ? "You left the workspace" : "Member removed",
+      data: removedMember,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error removing workspace member";
+    console.error("removeWorkspaceMemberAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Invites `email` to a workspace as editor or viewer. Inviting the same email
+ * again changes the role of the invite.
+ */
+export async function inviteToWorkspaceAction(
+  workspaceId: string,
+  email: string,
+  role: WorkspaceRole
+): Promise<ActionResult<SelectWorkspaceInvitation>> {
+  try {
+    const guard = await requireWorkspaceAccess(workspaceId, "manage");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    if (!isInvitableWorkspaceRole(role)) {
+      return { isSuccess: false, message: "Choose whether they can view or edit the workspace." };
+    }
+    if (guard.data.workspace.personal) {
+      return { isSuccess: false, message: "Create a shared workspace to invite people." };
+    }
+    const inviteeEmail = normalizeShareEmail(email);
+    const validationError = validateShareEmail(inviteeEmail);
+    if (validationError) {
+      return { isSuccess: false, message: validationError };
+    }
+
+    const inviteeUserId = await getUserIdByEmail(inviteeEmail);
+    if (inviteeUserId && (await getWorkspaceRole(workspaceId, inviteeUserId))) {
+      return { isSuccess: false, message: `${inviteeEmail} is already a member.` };
+    }
+    const [members, invitations] = await Promise.all([
+      getWorkspaceMembers(workspaceId),
+      getWorkspaceInvitationsByWorkspaceId(workspaceId),
+    ]);
+    const isNewInvitation = !invitations.some(invitation => invitation.email === inviteeEmail);
+    if (isNewInvitation && members.length + invitations.length >= MAX_WORKSPACE_MEMBERS) {
+      return {
+        isSuccess: false,
+        message: `A workspace can have at most ${MAX_WORKSPACE_MEMBERS} members.`,
+      };
+    }
+
+    const invitation = await upsertWorkspaceInvitation({
+      workspaceId,
+      email: inviteeEmail,
+      role,
+      invitedBy: guard.userId,
+    });
+    return {
+      isSuccess: true,
+      message: `Invited ${inviteeEmail}; they'll see the invite when they sign in`,
+      data: invitation,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error inviting to workspace";
+    console.error("inviteToWorkspaceAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function revokeWorkspaceInvitationAction(
+  invitationId: string
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const invitation = await getWorkspaceInvitationById(invitationId);
+    if (!invitation) {
+      return notFoundResult("invitation");
+    }
+    const guard = await requireWorkspaceAccess(invitation.workspaceId, "manage");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const deletedInvitation = await deleteWorkspaceInvitation(invitationId);
+    if (!deletedInvitation) {
+      return notFoundResult("invitation");
+    }
+    return {
+      isSuccess: true,
+      message: "Invitation revoked",
+      data: deletedInvitation,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error revoking invitation";
+    console.error("revokeWorkspaceInvitationAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Joins the workspace an invite was sent for and switches to it. Only works
+ * for invites sent to one of the signed-in user's email addresses.
+ */
+export async function acceptWorkspaceInvitationAction(
+  invitationId: string
+): Promise<ActionResult<SelectWorkspaceMember>> {
+  try {
+    const session = await requireUser();
+    if (!session.ok) {
+      return session.result;
+    }
+    const invitation = await getWorkspaceInvitationById(invitationId);
+    if (!invitation || !(await getOwnEmails()).includes(invitation.email)) {
+      return notFoundResult("invitation");
+    }
+    const member = await acceptWorkspaceInvitation(invitation, session.userId);
+    if (!member) {
+      return notFoundResult("invitation");
+    }
+    setActiveWorkspace(member.workspaceId);
+    revalidateDashboard();
+    return {
+      isSuccess: true,
+      message: "You joined the workspace",
+      data: member,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error accepting invitation";
+    console.error("acceptWorkspaceInvitationAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+export async function declineWorkspaceInvitationAction(
+  invitationId: string
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const session = await requireUser();
+    if (!session.ok) {
+      return session.result;
+    }
+    const invitation = await getWorkspaceInvitationById(invitationId);
+    if (!invitation || !(await getOwnEmails()).includes(invitation.email)) {
+      return notFoundResult("invitation");
+    }
+    const deletedInvitation = await deleteWorkspaceInvitation(invitationId);
+    if (!deletedInvitation) {
+      return notFoundResult("invitation");
+    }
+    revalidateDashboard();
+    return {
+      isSuccess: true,
+      message: "Invitation declined",
+      data: deletedInvitation,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error declining invitation";
+    console.error("declineWorkspaceInvitationAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
+
+/**
+ * Puts the workspace on the signed-in user's plan: its attachment storage
+ * quota follows their membership from then on. Owners and editors can do
+ * this; billing goes back to the owner if the paying member leaves.
+ */
+export async function attachWorkspaceBillingAction(
+  workspaceId: string
+): Promise<ActionResult<SelectWorkspace>> {
+  try {
+    const guard = await requireWorkspaceAccess(workspaceId, "edit");
+    if (!guard.ok) {
+      return guard.result;
+    }
+    const workspace = await updateWorkspace(workspaceId, { billingUserId: guard.userId });
+    if (!workspace) {
+      return notFoundResult("workspace");
+    }
+    revalidateDashboard();
+    return {
+      isSuccess: true,
+      message: "This workspace now uses your plan",
+      data: workspace,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error updating workspace billing";
+    console.error("attachWorkspaceBillingAction Error: ", errorMessage);
+    return { isSuccess: false, message: errorMessage };
+  }
+}
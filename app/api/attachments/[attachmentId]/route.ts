@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { getGuardHttpStatus, requireNoteAccess } from "@/lib/authorization";
+import { isInlineAttachment } from "@/lib/attachments";
+import { getAttachmentStorage } from "@/lib/attachment-storage";
+import { getAttachmentById } from "@/db/queries/attachments-queries";
+import { getNotePublicationByNoteId } from "@/db/queries/note-publications-queries";
+import { getNoteById } from "@/db/queries/notes-queries";
+import { canReadPublication } from "@/lib/note-publishing-access";
+
+/**
+ * Attachment download.
+ * Streams the file to anyone who can open the attachment's note (its owner
+ * also while the note is in the trash), and to anyone who can read the note's
+ * public page (see /p/[slug]). Images and PDFs are shown inline, everything else is
+ * downloaded; the stored content type is never sniffed by the browser.
+ */
+
+// Whether the note is published and the visitor may read its public page
+async function canReadThroughPublication(noteId: string): Promise<boolean> {
+  const publication = await getNotePublicationByNoteId(noteId);
+  if (!publication || !canReadPublication(publication)) return false;
+  return !!(await getNoteById(noteId)); // Not in the trash
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(_req: Request, { params }: { params: { attachmentId: string } }) {
+  if (!UUID_PATTERN.test(params.attachmentId)) {
+    return NextResponse.json({ error: "Attachment not found" }, { status: 404 }); // Postgres would reject the ID
+  }
+  try {
+    const attachment = await getAttachmentById(params.attachmentId);
+    if (!attachment) {
+      return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+    }
+    const guard = await requireNoteAccess(attachment.noteId, "view", { includeDeleted: true });
+    if (!guard.ok && !(await canReadThroughPublication(attachment.noteId))) {
+      return NextResponse.json({ error: guard.result.message }, { status: getGuardHttpStatus(guard.result) });
+    }
+
+    const stored = await getAttachmentStorage().get(attachment.storageKey);
+    if (!stored) {
+      console.error(`Attachment ${attachment.id} has no stored file at ${attachment.storageKey}`);
+      return NextResponse.json({ error: "Attachment file is missing" }, { status: 404 });
+    }
+
+    const disposition = isInlineAttachment(attachment.contentType) ? "inline" : "attachment";
+    const headers = new Headers({
+      "Content-Type": attachment.contentType,
+      "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": "private, max-age=3600",
+    });
+    if (stored.size !== undefined) {
+      headers.set("Content-Length", String(stored.size));
+    }
+    return new Response(stored.body, { headers });
+  } catch (error) {
+    console.error("Error downloading attachment:", error);
+    return NextResponse.json({ error: "Failed to download attachment" }, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { getGuardHttpStatus, requireNoteAccess } from "@/lib/authorization";
+import {
+  AttachmentInfo,
+  AttachmentUsage,
+  MAX_ATTACHMENT_MB,
+  formatFileSize,
+  matchesAttachmentSignature,
+  resolveAttachmentType,
+} from "@/lib/attachments";
+import { createAttachmentStorageKey, deleteAttachmentFiles, getAttachmentStorage } from "@/lib/attachment-storage";
+import { createAttachmentWithinQuota, getAttachmentUsageByWorkspaceId } from "@/db/queries/attachments-queries";
+
+/**
+ * Attachment upload.
+ * Accepts a multipart form with the `noteId` and one `file`. The file must be
+ * one of ATTACHMENT_TYPES (checked by extension, declared type and leading
+ * bytes), at most MAX_ATTACHMENT_MB, and fit in the quota of the plan paying for
+ * the note's workspace.
+ * The note's owner and editors can upload.
+ * Responds with the new attachment's AttachmentInfo.
+ */
+
+const MAX_ATTACHMENT_BYTES = MAX_ATTACHMENT_MB * 1024 * 1024;
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024; // Room for the form fields around the file
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function quotaExceededResponse(usage: AttachmentUsage) {
+  return NextResponse.json(
+    {
+      error: `Not enough storage left: ${formatFileSize(usage.usedBytes)} of ${formatFileSize(usage.quotaBytes)} used. Delete attachments or upgrade the plan paying for this workspace for more space.`,
+    },
+    { status: 413 }
+  );
+}
+
+export async function POST(req: Request) {
+  const contentLength = Number(req.headers.get("content-length") || 0);
+  if (contentLength > MAX_ATTACHMENT_BYTES + MULTIPART_OVERHEAD_BYTES) {
+    return NextResponse.json({ error: `Attachments are limited to ${MAX_ATTACHMENT_MB} MB` }, { status: 413 });
+  }
+
+  try {
+    const formData = await req.formData();
+    const noteId = formData.get("noteId");
+    const file = formData.get("file");
+    if (typeof noteId !== "string" || !noteId) {
+      return NextResponse.json({ error: "Missing note ID" }, { status: 400 });
+    }
+    if (!UUID_PATTERN.test(noteId)) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file was uploaded" }, { status: 400 });
+    }
+    const guard = await requireNoteAccess(noteId, "edit");
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.result.message }, { status: getGuardHttpStatus(guard.result) });
+    }
+
+    if (file.size === 0) {
+      return NextResponse.json({ error: `"${file.name}" is empty` }, { status: 400 });
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      return NextResponse.json({ error: `Attachments are limited to ${MAX_ATTACHMENT_MB} MB` }, { status: 413 });
+    }
+    const contentType = resolveAttachmentType(file.name, file.type);
+    if (!contentType) {
+      return NextResponse.json({ error: `"${file.name}" is not a supported file type` }, { status: 415 });
+    }
+    const data = new Uint8Array(await file.arrayBuffer());
+    if (!matchesAttachmentSignature(contentType, data)) {
+      return NextResponse.json({ error: `"${file.name}" doesn't look like a valid ${contentType} file` }, { status: 415 });
+    }
+
+    // Spares storing a file that can't fit; the save below checks again for real
+    const { workspaceId } = guard.data.note;
+    const usage = await getAttachmentUsageByWorkspaceId(workspaceId);
+    if (usage.usedBytes + file.size > usage.quotaBytes) {
+      return quotaExceededResponse(usage);
+    }
+
+    const storageKey = createAttachmentStorageKey(guard.userId, file.name);
+    await getAttachmentStorage().put(storageKey, data, contentType);
+    try {
+      const { attachment, usage: usageAtSave } = await createAttachmentWithinQuota(workspaceId, {
+        noteId,
+        userId: guard.userId,
+        fileName: file.name.slice(0, 255),
+        contentType,
+        size: file.size,
+        storageKey,
+      });
+      if (!attachment) {
+        // Parallel uploads filled the quota meanwhile
+        await deleteAttachmentFiles([storageKey]);
+        return quotaExceededResponse(usageAtSave);
+      }
+      const info: AttachmentInfo = {
+        id: attachment.id,
+        noteId: attachment.noteId,
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+        size: attachment.size,
+      };
+      return NextResponse.json(info, { status: 201 });
+    } catch (error) {
+      // Don't leave a stored file behind that no row points to
+      await deleteAttachmentFiles([storageKey]);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error uploading attachment:", error);
+    return NextResponse.json({ error: "Failed to upload attachment" }, { status: 500 });
+  }
+}
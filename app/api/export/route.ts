@@ -0,0 +1,145 @@
+import { NextResponse } from "next/server";
+import { format } from "date-fns";
+import { getNotesByWorkspaceId } from "@/db/queries/notes-queries";
+import { getCategoriesForWorkspaceAndBase, getCategoryById } from "@/db/queries/categories-queries";
+import { getNoteTagsByWorkspaceId, getTagsByNoteId } from "@/db/queries/tags-queries";
+import type { SelectCategory, SelectNote, SelectTag } from "@/db/schema";
+import type { ActionResult } from "@/types";
+import { getGuardHttpStatus, requireCategoryAccess, requireNoteAccess, requireWorkspace } from "@/lib/authorization";
+import { noteToMarkdown } from "@/lib/markdown";
+import { createZipStream, ZipEntry } from "@/lib/zip";
+import { createUniquePathAllocator, getAttachmentDisposition, toSafeFileName } from "@/lib/export";
+import { getCategoryPath, getSubtreeIds } from "@/lib/category-tree";
+
+/**
+ * Markdown export.
+ * - `?noteId=...`     → a single .md file (also for notes shared with the user)
+ * - `?categoryId=...` → a zip of the category's notes and those of the
+ *                       categories nested in it, one subfolder per category
+ * - no parameters     → a zip of every note, one folder per category (nested
+ *                       categories become nested folders)
+ * Category and full exports cover the notes of the active workspace.
+ * Each file is CommonMark with YAML front-matter (title, category, tags,
+ * timestamps). Zips are streamed as they are built.
+ */
+
+function guardErrorResponse(result: ActionResult<never>) {
+  return NextResponse.json({ error: result.message }, { status: getGuardHttpStatus(result) });
+}
+
+function toMarkdownFile(note: SelectNote, category: SelectCategory | undefined, tags: SelectTag[] = []) {
+  return noteToMarkdown(note.content, {
+    title: note.title,
+    category: category?.name,
+    tags: tags.map(tag => tag.name),
+    created: note.createdAt,
+    updated: note.updatedAt,
+  });
+}
+
+// Folders follow the category tree; with `rootCategoryId` they start at that category
+function* buildZipEntries(
+  notes: SelectNote[],
+  categories: SelectCategory[],
+  tagsByNoteId: Record<string, SelectTag[]>,
+  rootCategoryId?: string
+): Generator<ZipEntry> {
+  const allocatePath = createUniquePathAllocator();
+  const categoriesById = new Map(categories.map(category => [category.id, category]));
+  const rootDepth = rootCategoryId ? getCategoryPath(categories, rootCategoryId).length - 1 : 0;
+  const folderByCategoryId = new Map<string, string>();
+  const getFolder = (categoryId: string) => {
+    let folder = folderByCategoryId.get(categoryId);
+    if (folder === undefined) {
+      const path = getCategoryPath(categories, categoryId).slice(rootDepth);
+      folder = path.length > 0 ? path.map(name => toSafeFileName(name, "Untitled")).join("/") : "Uncategorized";
+      folderByCategoryId.set(categoryId, folder);
+    }
+    return folder;
+  };
+  for (const note of notes) {
+    const category = categoriesById.get(note.categoryId);
+    const folder = getFolder(note.categoryId);
+    yield {
+      path: allocatePath(folder, toSafeFileName(note.title), ".md"),
+      content: toMarkdownFile(note, category, tagsByNoteId[note.id]),
+      modifiedAt: note.updatedAt,
+    };
+  }
+}
+
+function zipResponse(entries: Iterable<ZipEntry>, fileName: string) {
+  return new Response(createZipStream(entries), {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": getAttachmentDisposition(fileName),
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const noteId = searchParams.get("noteId");
+  const categoryId = searchParams.get("categoryId");
+  const dateStamp = format(new Date(), "yyyy-MM-dd");
+
+  try {
+    if (noteId) {
+      const guard = await requireNoteAccess(noteId, "view");
+      if (!guard.ok) {
+        return guardErrorResponse(guard.result);
+      }
+      const { note, role } = guard.data;
+      const [category, tags] = await Promise.all([
+        // The owner's categories aren't shown to the people a note is shared with
+        role === "owner" ? getCategoryById(note.categoryId, { includeDeleted: true }) : undefined,
+        getTagsByNoteId(note.id),
+      ]);
+      return new Response(toMarkdownFile(note, category, tags), {
+        headers: {
+          "Content-Type": "text/markdown; charset=utf-8",
+          "Content-Disposition": getAttachmentDisposition(`${toSafeFileName(note.title)}.md`),
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    const workspaceGuard = await requireWorkspace("view");
+    if (!workspaceGuard.ok) {
+      return guardErrorResponse(workspaceGuard.result);
+    }
+    const workspaceId = workspaceGuard.data.workspace.id;
+
+    if (categoryId) {
+      const guard = await requireCategoryAccess(categoryId, "read");
+      if (!guard.ok) {
+        return guardErrorResponse(guard.result);
+      }
+      const [allNotes, categories, tagsByNoteId] = await Promise.all([
+        getNotesByWorkspaceId(workspaceId),
+        getCategoriesForWorkspaceAndBase(workspaceId, guard.userId),
+        getNoteTagsByWorkspaceId(workspaceId),
+      ]);
+      const subtreeIds = new Set(getSubtreeIds(categories, categoryId));
+      const notes = allNotes.filter(note => subtreeIds.has(note.categoryId));
+      return zipResponse(
+        buildZipEntries(notes, categories, tagsByNoteId, categoryId),
+        `${toSafeFileName(guard.data.name, "notes")}-${dateStamp}.zip`
+      );
+    }
+
+    const [notes, categories, tagsByNoteId] = await Promise.all([
+      getNotesByWorkspaceId(workspaceId),
+      getCategoriesForWorkspaceAndBase(workspaceId, workspaceGuard.userId),
+      getNoteTagsByWorkspaceId(workspaceId),
+    ]);
+    return zipResponse(
+      buildZipEntries(notes, categories, tagsByNoteId),
+      `notes-export-${dateStamp}.zip`
+    );
+  } catch (error) {
+    console.error("Error exporting notes:", error);
+    return NextResponse.json({ error: "Failed to export notes" }, { status: 500 });
+  }
+}
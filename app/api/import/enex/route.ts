@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { revalidatePath } from "next/cache";
+import type { ImportReport } from "@/types";
+import { getGuardHttpStatus, isCategoryInWorkspace, requireCategoryAccess, requireWorkspace } from "@/lib/authorization";
+import { parseEnexStream } from "@/lib/enex-import";
+import { MAX_ENEX_UPLOAD_MB } from "@/lib/import";
+import { importNoteDrafts } from "@/lib/note-import";
+
+/**
+ * Evernote import.
+ * The request body is the raw .enex file (not a multipart form), so it can be
+ * parsed while it streams in. `fileName` (used as the notebook/category name)
+ * and `categoryId` (for exports without a notebook name) come in the query
+ * string. Responds with an ImportReport like the Markdown/HTML import.
+ */
+
+const MAX_ENEX_UPLOAD_BYTES = MAX_ENEX_UPLOAD_MB * 1024 * 1024;
+
+export async function POST(req: Request) {
+  const contentLength = Number(req.headers.get("content-length") || 0);
+  if (contentLength > MAX_ENEX_UPLOAD_BYTES) {
+    return NextResponse.json(
+      { error: `Evernote exports are limited to ${MAX_ENEX_UPLOAD_MB} MB per file` },
+      { status: 413 }
+    );
+  }
+
+  const { searchParams } = new URL(req.url);
+  const categoryId = searchParams.get("categoryId");
+  const fileName = searchParams.get("fileName") || "Evernote.enex";
+  if (!categoryId) {
+    return NextResponse.json({ error: "Choose a category for notes outside notebooks" }, { status: 400 });
+  }
+
+  try {
+    const workspaceGuard = await requireWorkspace("edit");
+    if (!workspaceGuard.ok) {
+      return NextResponse.json({ error: workspaceGuard.result.message }, { status: getGuardHttpStatus(workspaceGuard.result) });
+    }
+    const { workspace } = workspaceGuard.data;
+    const guard = await requireCategoryAccess(categoryId, "read");
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.result.message }, { status: getGuardHttpStatus(guard.result) });
+    }
+    if (!isCategoryInWorkspace(guard.data, workspace.id)) {
+      return NextResponse.json({ error: "Choose a category of this workspace" }, { status: 403 });
+    }
+    if (!req.body) {
+      return NextResponse.json({ error: "No file was uploaded" }, { status: 400 });
+    }
+
+    let parsed: Awaited<ReturnType<typeof parseEnexStream>>;
+    try {
+      parsed = await parseEnexStream(req.body, fileName, MAX_ENEX_UPLOAD_BYTES);
+    } catch (parseError) {
+      console.error(`Error reading Evernote export ${fileName}:`, parseError);
+      const message = parseError instanceof Error ? parseError.message : "Could not read the Evernote export";
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    const report: ImportReport = await importNoteDrafts(guard.userId, workspace.id, parsed.drafts, guard.data, parsed.results);
+    if (report.importedCount > 0) {
+      revalidatePath("/dashboard/notes");
+    }
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error importing Evernote export:", error);
+    return NextResponse.json({ error: "Failed to import the Evernote export" }, { status: 500 });
+  }
+}
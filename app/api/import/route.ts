@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { revalidatePath } from "next/cache";
+import type { ImportFileResult, ImportReport } from "@/types";
+import { getGuardHttpStatus, isCategoryInWorkspace, requireCategoryAccess, requireWorkspace } from "@/lib/authorization";
+import { MAX_IMPORT_UPLOAD_MB } from "@/lib/import";
+import {
+  ImportNoteDraft,
+  expandImportUploads,
+  importNoteDrafts,
+  parseImportFile,
+} from "@/lib/note-import";
+
+/**
+ * Markdown/HTML import.
+ * Accepts a multipart form with one or more `files` (.md, .html or .zip) and
+ * the `categoryId` used for notes that aren't in a folder. Responds with an
+ * ImportReport listing what happened to every file. Notes go to the active
+ * workspace.
+ */
+
+const MAX_IMPORT_UPLOAD_BYTES = MAX_IMPORT_UPLOAD_MB * 1024 * 1024;
+
+export async function POST(req: Request) {
+  const contentLength = Number(req.headers.get("content-length") || 0);
+  if (contentLength > MAX_IMPORT_UPLOAD_BYTES) {
+    return NextResponse.json(
+      { error: `Uploads are limited to ${MAX_IMPORT_UPLOAD_MB} MB per import` },
+      { status: 413 }
+    );
+  }
+
+  try {
+    const formData = await req.formData();
+    const categoryId = formData.get("categoryId");
+    if (typeof categoryId !== "string" || !categoryId) {
+      return NextResponse.json({ error: "Choose a category for notes outside folders" }, { status: 400 });
+    }
+    const workspaceGuard = await requireWorkspace("edit");
+    if (!workspaceGuard.ok) {
+      return NextResponse.json({ error: workspaceGuard.result.message }, { status: getGuardHttpStatus(workspaceGuard.result) });
+    }
+    const { workspace } = workspaceGuard.data;
+    const guard = await requireCategoryAccess(categoryId, "read");
+    if (!guard.ok) {
+      return NextResponse.json({ error: guard.result.message }, { status: getGuardHttpStatus(guard.result) });
+    }
+    if (!isCategoryInWorkspace(guard.data, workspace.id)) {
+      return NextResponse.json({ error: "Choose a category of this workspace" }, { status: 403 });
+    }
+
+    const uploads = formData.getAll("files").filter((value): value is File => value instanceof File);
+    if (uploads.length === 0) {
+      return NextResponse.json({ error: "No files were uploaded" }, { status: 400 });
+    }
+    const totalBytes = uploads.reduce((sum, file) => sum + file.size, 0);
+    if (totalBytes > MAX_IMPORT_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `Uploads are limited to ${MAX_IMPORT_UPLOAD_MB} MB per import` },
+        { status: 413 }
+      );
+    }
+
+    const sourceFiles = await Promise.all(
+      uploads.map(async file => ({ path: file.name, data: new Uint8Array(await file.arrayBuffer()) }))
+    );
+    const { files, results } = expandImportUploads(sourceFiles);
+
+    const drafts: ImportNoteDraft[] = [];
+    const parseResults: ImportFileResult[] = [...results];
+    for (const file of files) {
+      const parsed = parseImportFile(file);
+      if ("status" in parsed) {
+        parseResults.push(parsed);
+      } else {
+        drafts.push(parsed);
+      }
+    }
+
+    const report: ImportReport = await importNoteDrafts(guard.userId, workspace.id, drafts, guard.data, parseResults);
+    if (report.importedCount > 0) {
+      revalidatePath("/dashboard/notes");
+    }
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error importing notes:", error);
+    return NextResponse.json({ error: "Failed to import notes" }, { status: 500 });
+  }
+}
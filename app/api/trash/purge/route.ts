@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { purgeTrashedNotes } from "@/db/queries/notes-queries";
+import { purgeTrashedCategories } from "@/db/queries/categories-queries";
+import { getTrashPurgeCutoff, TRASH_RETENTION_DAYS } from "@/lib/trash";
+import { deleteAttachmentFiles } from "@/lib/attachment-storage";
+
+/**
+ * Scheduled purge of the trash.
+ * Hard-deletes notes (with their attachment files) and categories that have
+ * been in the trash for longer than TRASH_RETENTION_DAYS. Meant to be called by a cron job (see vercel.json)
+ * with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(req: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error("CRON_SECRET environment variable is not set");
+    return NextResponse.json({ error: "Purge is not configured" }, { status: 500 });
+  }
+  if (req.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const cutoff = getTrashPurgeCutoff();
+    // Notes first, so their categories no longer have references and can go too
+    const notes = await purgeTrashedNotes(cutoff);
+    const categories = await purgeTrashedCategories(cutoff);
+    await deleteAttachmentFiles(notes.attachmentKeys);
+
+    console.log(
+      `Trash purge: removed ${notes.count} note(s), ${notes.attachmentKeys.length} attachment(s) and ${categories.count} category(ies) older than ${TRASH_RETENTION_DAYS} days`
+    );
+    return NextResponse.json({
+      purgedNotes: notes.count,
+      purgedCategories: categories.count,
+      cutoff: cutoff.toISOString(),
+    });
+  } catch (error) {
+    console.error("Error purging trash:", error);
+    return NextResponse.json({ error: "Failed to purge trash" }, { status: 500 });
+  }
+}
@@ -5,6 +5,12 @@
  */
 import React, { ReactNode } from "react";
 import { getProfileByUserId, updateProfile } from "@/db/queries/profiles-queries";
+import { getFavoriteNotesByWorkspaceId } from "@/db/queries/notes-queries";
+import { getManagedCategoriesForWorkspace } from "@/db/queries/categories-queries";
+import { getWorkspacesForUser } from "@/db/queries/workspaces-queries";
+import { getPendingWorkspaceInvitations } from "@/db/queries/workspace-invitations-queries";
+import { resolveActiveWorkspace } from "@/lib/active-workspace";
+import { getVerifiedEmails } from "@/lib/note-sharing";
 import { auth, currentUser } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import Sidebar from "@/components/sidebar";
@@ -86,6 +92,18 @@ export default async function DashboardLayout({ children }: { children: ReactNod
   // Get the current user to extract email
   const user = await currentUser();
   const userEmail = user?.emailAddresses?.[0]?.emailAddress || "";
+
+  // Everything in the sidebar below belongs to the workspace being worked in
+  const activeWorkspace = await resolveActiveWorkspace(userId);
+  const workspaces = await getWorkspacesForUser(userId);
+  const userEmails = getVerifiedEmails(user);
+  const workspaceInvitations = await getPendingWorkspaceInvitations(userEmails).catch(() => []);
+
+  // Favourites are a shortcut; the dashboard still renders if they can't be loaded
+  const favoriteNotes = await getFavoriteNotesByWorkspaceId(activeWorkspace.workspace.id).catch(() => []);
+  const sidebarCategories = await getManagedCategoriesForWorkspace(activeWorkspace.workspace.id, userId)
+    .then(categories => categories.filter(category => !category.hidden))
+    .catch(() => []);
   
   // Log profile details for debugging
   console.log('Dashboard profile:', {
@@ -112,6 +130,11 @@ export default async function DashboardLayout({ children }: { children: ReactNod
       <Sidebar 
         profile={profile} 
         userEmail={userEmail} 
+        favoriteNotes={favoriteNotes}
+        categories={sidebarCategories}
+        workspaces={workspaces}
+        activeWorkspace={activeWorkspace}
+        workspaceInvitations={workspaceInvitations}
         whopMonthlyPlanId={process.env.WHOP_PLAN_ID_MONTHLY || ''}
         whopYearlyPlanId={process.env.WHOP_PLAN_ID_YEARLY || ''}
       />
@@ -1,119 +1,176 @@
 "use client";
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { useAuth } from "@clerk/nextjs"; // Client-side auth hook
-import { updateNoteAction } from '@/actions/notes-actions';
-import NoteHeader, { NoteHeaderProps } from '@/components/note-details/note-header';
+import { deleteNoteAction, setNoteFlagsAction } from '@/actions/notes-actions';
+import NoteHeader from '@/components/note-details/note-header';
 import NoteEditor from '@/components/note-details/note-editor';
+import NoteBacklinksPanel from '@/components/note-details/note-backlinks-panel';
+import { useNoteAutosave } from '@/components/note-details/use-note-autosave';
+import { useNoteCollaboration } from '@/components/note-details/use-note-collaboration';
 import { SelectNote, SelectCategory } from '@/db/schema';
+import type { NoteFlags } from '@/db/queries/notes-queries';
 import { useToast } from "@/components/ui/use-toast";
+import { Loader2 } from 'lucide-react';
+import { getNoteHref } from '@/lib/note-links';
+import { getExportUrl } from '@/lib/export';
+import { canEditNote, type NoteRole } from '@/lib/note-sharing';
 
 // Props for this client component
 interface NoteDetailPageClientProps {
   // params: { 'note-id': string }; // params might not be needed if noteId is directly in initialNote
   initialNote: SelectNote;
   initialCategory: SelectCategory | null;
+  role: NoteRole; // Owner, or how the note is shared with the user
 }
 
-const NoteDetailPageClient: React.FC<NoteDetailPageClientProps> = ({ 
+const NoteDetailPageClient: React.FC<NoteDetailPageClientProps> = ({
   initialNote,
-  initialCategory 
+  initialCategory,
+  role
 }) => {
   const router = useRouter();
   const { toast } = useToast();
-  const { userId } = useAuth(); // For any client-side checks if necessary, though primary auth is server-side
 
   const [note, setNote] = useState<SelectNote>(initialNote);
   const [category, setCategory] = useState<SelectCategory | null | undefined>(initialCategory);
-  
+
   const [currentTitle, setCurrentTitle] = useState(initialNote.title);
   const [currentContent, setCurrentContent] = useState(initialNote.content || '');
-  const [isSaving, setIsSaving] = useState(false);
+  const [isLeaving, setIsLeaving] = useState(false);
+  const [externalContentVersion, setExternalContentVersion] = useState(0);
+
+  const canEdit = canEditNote(role);
+  // Viewers only read the note, so they don't join the live session
+  const { collaboration, isPending: isCollaborationPending } = useNoteCollaboration(initialNote.id, canEdit);
+
+  const handleSaved = useCallback((savedNote: SelectNote) => {
+    setNote(savedNote);
+  }, []);
+
+  const autosave = useNoteAutosave({
+    note,
+    title: currentTitle,
+    content: currentContent,
+    onSaved: handleSaved,
+    collaborative: !!collaboration,
+  });
+  const { markSaved } = autosave;
 
+  // Only reset local state when a different note is loaded. The server component
+  // re-renders after every save, and resetting then would drop in-progress typing.
+  const loadedNoteIdRef = useRef(initialNote.id);
   useEffect(() => {
+    setCategory(initialCategory);
+    if (loadedNoteIdRef.current === initialNote.id) return;
+    loadedNoteIdRef.current = initialNote.id;
     setNote(initialNote);
     setCurrentTitle(initialNote.title);
     setCurrentContent(initialNote.content || '');
-    setCategory(initialCategory);
-  }, [initialNote, initialCategory]);
+    setIsLeaving(false);
+    markSaved(initialNote);
+  }, [initialNote, initialCategory, markSaved]);
 
   const handleTitleChange = (newTitle: string) => {
+    if (!canEdit) return;
     setCurrentTitle(newTitle);
   };
 
   const handleContentChange = (newContent: string) => {
+    if (!canEdit) return; // A read-only editor can still re-render the HTML; that isn't an edit
     setCurrentContent(newContent);
   };
 
-  const handleSaveChangesAndNavigateBack = async () => {
-    if (!userId) {
+  // Replaces both the saved note and the in-progress edits with a server copy
+  const applyServerNote = (serverNote: SelectNote) => {
+    setNote(serverNote);
+    setCurrentTitle(serverNote.title);
+    setCurrentContent(serverNote.content || '');
+    setExternalContentVersion(version => version + 1); // Pushes it to the others in a live session
+    markSaved(serverNote);
+  };
+
+  const handleResolveConflict = async (resolution: 'keep-mine' | 'load-theirs') => {
+    if (resolution === 'keep-mine') {
+      await autosave.overwriteConflict();
+    } else if (autosave.conflictingNote) {
+      applyServerNote(autosave.conflictingNote);
+    }
+  };
+
+  // Shows the new flag right away and puts it back if saving fails
+  const handleToggleFlag = async (flag: keyof NoteFlags) => {
+    const value = !note[flag];
+    setNote(prev => ({ ...prev, [flag]: value }));
+    const result = await setNoteFlagsAction(note.id, { [flag]: value });
+    if (!result.isSuccess) {
+      setNote(prev => ({ ...prev, [flag]: !value }));
       toast({
-        title: "Authentication Error",
-        description: "You must be signed in to save changes.",
+        title: "Update Failed",
+        description: result.message || "Could not update the note.",
         variant: "destructive",
       });
       return;
     }
-
-    setIsSaving(true);
-    const hasTitleChanged = currentTitle.trim() !== note.title.trim();
-    const hasContentChanged = currentContent !== (note.content || '');
-
-    if (!currentTitle.trim()) {
-        toast({
-            title: "Title Required",
-            description: "Note title cannot be empty.",
-            variant: "destructive",
-        });
-        setIsSaving(false);
-        return;
+    if (flag === 'favorite') {
+      router.refresh(); // Updates the favourites in the sidebar
     }
+  };
 
-    if (hasTitleChanged || hasContentChanged) {
+  const handleMoveToTrash = async () => {
+    setIsLeaving(true);
+    await autosave.save(); // Keep the latest text with the trashed note
+    const result = await deleteNoteAction(note.id);
+    if (result.isSuccess) {
       toast({
-        title: "Saving Note...",
-        description: "Your changes are being saved.",
+        title: "Moved to Trash",
+        description: "You can restore this note from the Trash.",
       });
-      try {
-        const result = await updateNoteAction(note.id, { 
-          title: currentTitle.trim(), 
-          content: currentContent 
-        });
-        if (result.isSuccess && result.data) {
-          setNote(result.data);
-          toast({
-            title: "Note Saved!",
-            description: "Successfully saved your note.",
-          });
-        } else {
-          toast({
-            title: "Save Failed",
-            description: result.message || "Could not save the note.",
-            variant: "destructive",
-          });
-          setIsSaving(false);
-          return;
-        }
-      } catch (error) {
-        toast({
-          title: "Save Error",
-          description: "An unexpected error occurred while saving.",
-          variant: "destructive",
-        });
-        setIsSaving(false);
-        return;
-      }
+      router.push('/dashboard/notes');
     } else {
-      toast({ 
-        title: "No Changes",
-        description: "No changes detected. Navigating back.",
+      setIsLeaving(false);
+      toast({
+        title: "Delete Failed",
+        description: result.message || "Could not move the note to the trash.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExport = async () => {
+    const saved = await autosave.save(); // Export what's on screen, not the last save
+    if (!saved) {
+      toast({
+        title: "Exporting Last Saved Version",
+        description: "Your latest changes haven't been saved yet, so they aren't in this export.",
+      });
+    }
+    window.location.assign(getExportUrl({ noteId: note.id }));
+  };
+
+  // Saves pending changes before leaving the page; stays put if that fails
+  const navigateAway = async (href: string, latest?: { content: string }) => {
+    setIsLeaving(true);
+    const saved = await autosave.save(latest);
+    if (!saved) {
+      setIsLeaving(false);
+      toast({
+        title: "Changes Not Saved",
+        description: !currentTitle.trim()
+          ? "Note title cannot be empty."
+          : "Your latest changes couldn't be saved yet. Resolve the issue shown next to the title before leaving.",
+        variant: "destructive",
       });
+      return;
     }
-    setIsSaving(false);
-    router.push('/dashboard/notes');
+    router.push(href);
   };
 
+  const handleNavigateBack = () => navigateAway('/dashboard/notes');
+
+  const handleOpenNoteLink = (targetNoteId: string, htmlContent: string) =>
+    navigateAway(getNoteHref(targetNoteId), { content: htmlContent });
+
   // Fallback if initialNote is somehow not what expected (should be caught by server wrapper)
   if (!note || !note.id) {
     return (
@@ -128,25 +185,48 @@ const NoteDetailPageClient: React.FC<NoteDetailPageClientProps> = ({
       </div>
     );
   }
-  
+
   return (
-    <div className="flex flex-col h-screen bg-gray-50">
-      <NoteHeader 
-        note={note} 
+    <div className="flex flex-col min-h-screen bg-gray-50">
+      <NoteHeader
+        note={note}
         category={category}
+        role={role}
         currentTitle={currentTitle}
         onTitleChange={handleTitleChange}
-        onSaveAndNavigateBack={handleSaveChangesAndNavigateBack}
-        isSaving={isSaving}
-      />
-      <NoteEditor 
-        noteId={note.id} 
-        initialContent={currentContent} 
-        onContentChange={handleContentChange} 
-        categoryColor={category?.color}
+        currentContent={currentContent}
+        onVersionRestored={applyServerNote}
+        onNavigateBack={handleNavigateBack}
+        onToggleFlag={handleToggleFlag}
+        onMoveToTrash={handleMoveToTrash}
+        onExport={handleExport}
+        isLeaving={isLeaving}
+        saveStatus={autosave.status}
+        onRetrySave={() => { void autosave.save(); }}
+        onResolveConflict={handleResolveConflict}
+        collaborators={collaboration?.collaborators}
+        collaborationStatus={collaboration?.status}
       />
+      {isCollaborationPending ? (
+        <div className="flex flex-grow items-center justify-center gap-2 p-10 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Connecting to live editing...
+        </div>
+      ) : (
+        <NoteEditor
+          noteId={note.id}
+          initialContent={currentContent}
+          onContentChange={handleContentChange}
+          onOpenNoteLink={handleOpenNoteLink}
+          categoryColor={category?.color}
+          collaboration={collaboration}
+          externalContentVersion={externalContentVersion}
+          readOnly={!canEdit}
+        />
+      )}
+      <NoteBacklinksPanel noteId={note.id} />
     </div>
   );
 };
 
-export default NoteDetailPageClient; 
\ No newline at end of file
+export default NoteDetailPageClient;
@@ -7,8 +7,11 @@
  * editing the note.
  * 
  * Functionality:
- * - Fetches the specific note data based on the [note-id] from the URL.
- * - Fetches the associated category data for the note.
+ * - Fetches the specific note data based on the [note-id] from the URL, along
+ *   with the user's role on it (owner for owners and editors of its workspace,
+ *   or viewer/editor otherwise).
+ * - Fetches the associated category data for the note (owner only, since
+ *   categories are only managed by those who can edit the workspace).
  * - Uses NoteHeader to display metadata and navigation.
  * - Uses NoteEditor to display the note's content.
  * - Handles cases where the note or category might not be found.
@@ -21,6 +24,7 @@ import { auth } from "@clerk/nextjs/server"; // Correct static import for Server
 import { getNoteByIdAction } from '@/actions/notes-actions';
 import { getCategoryByIdAction } from '@/actions/categories-actions';
 import { SelectNote, SelectCategory } from '@/db/schema';
+import type { NoteRole } from '@/lib/note-sharing';
 import { redirect } from 'next/navigation'; // For server-side redirects
 import NoteDetailPageClient from './page-client'; // Import the new client component
 
@@ -46,23 +50,27 @@ const NoteDetailPage = async ({ params }: NoteDetailPageProps) => {
   const noteResult = await getNoteByIdAction(noteId);
   let initialNoteData: SelectNote | undefined = undefined;
   let initialCategoryData: SelectCategory | null = null;
+  let role: NoteRole = 'owner';
 
-  if (noteResult.isSuccess && noteResult.data) {
-    if (noteResult.data.userId !== userId) {
-      return (
-        <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 p-4">
-          <div className="bg-white p-8 rounded-lg shadow-md text-center">
-            <h1 className="text-2xl font-semibold text-red-600 mb-4">Access Denied</h1>
-            <p className="text-gray-700">You do not have permission to view this note.</p>
-            <a href="/dashboard/notes" className="mt-6 inline-block px-6 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">
-              Go to My Notes
-            </a>
-          </div>
+  if (noteResult.code === "forbidden") {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 p-4">
+        <div className="bg-white p-8 rounded-lg shadow-md text-center">
+          <h1 className="text-2xl font-semibold text-red-600 mb-4">Access Denied</h1>
+          <p className="text-gray-700">You do not have permission to view this note.</p>
+          <a href="/dashboard/notes" className="mt-6 inline-block px-6 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">
+            Go to My Notes
+          </a>
         </div>
-      );
-    }
-    initialNoteData = noteResult.data;
-    if (initialNoteData.categoryId) {
+      </div>
+    );
+  }
+
+  // getNoteByIdAction only succeeds for members of the note's workspace and people it's shared with
+  if (noteResult.isSuccess && noteResult.data) {
+    initialNoteData = noteResult.data.note;
+    role = noteResult.data.role;
+    if (initialNoteData.categoryId && role === 'owner') {
       const categoryResult = await getCategoryByIdAction(initialNoteData.categoryId);
       if (categoryResult.isSuccess && categoryResult.data) {
         initialCategoryData = categoryResult.data;
@@ -93,7 +101,7 @@ const NoteDetailPage = async ({ params }: NoteDetailPageProps) => {
   }
 
   // Render the client component with the fetched data
-  return <NoteDetailPageClient initialNote={initialNoteData} initialCategory={initialCategoryData} />;
+  return <NoteDetailPageClient initialNote={initialNoteData} initialCategory={initialCategoryData} role={role} />;
 };
 
 export default NoteDetailPage; 
\ No newline at end of file
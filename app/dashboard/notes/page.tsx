@@ -7,7 +7,8 @@
  * their notes in a modern, professional interface.
  * 
  * Functionality:
- * - Fetches user-specific and base categories.
+ * - Fetches the active workspace's categories and the base categories in the
+ *   user's order, leaving out the columns they have hidden.
  * - Imports and renders the NotesBoard component, passing categories to it.
  * - Provides the overall page structure with optimized layout.
  * 
@@ -16,7 +17,7 @@
  */
 import React from 'react';
 import NotesBoard from '@/components/note-navigation/notes-board';
-import { getCategoriesForUserAndBaseAction } from '@/actions/categories-actions';
+import { getCategoriesForWorkspaceAndBaseAction } from '@/actions/categories-actions';
 import { auth } from "@clerk/nextjs/server"; // Assuming Clerk for auth
 import { SelectCategory } from '@/db/schema/categories-schema';
 
@@ -25,7 +26,7 @@ const NoteNavigationPage = async () => {
   let categories: SelectCategory[] = [];
 
   if (userId) {
-    const result = await getCategoriesForUserAndBaseAction(userId);
+    const result = await getCategoriesForWorkspaceAndBaseAction({ includeHidden: false });
     if (result.isSuccess && result.data) {
       categories = result.data;
     } else {
@@ -42,7 +43,7 @@ const NoteNavigationPage = async () => {
     // without a userId, or redirect. Let's fetch with a placeholder or handle as an error.
     console.warn("No userId found, categories will be limited or page should be protected.");
     // If you have a way to fetch only base categories without a user context:
-    // const result = await getCategoriesForUserAndBaseAction(null); // This would require action modification
+    // const result = await getCategoriesForWorkspaceAndBaseAction(null); // This would require action modification
     // For now, categories will be empty if no userId.
   }
 
@@ -1,14 +1,32 @@
 /**
  * Settings page for the Template App dashboard
- * Allows users to configure their account and application settings
+ * Allows users to configure their account and application settings,
+ * manage the snippets offered in the editor's "/" menu and their categories,
+ * and to download a Markdown export of all their notes
  */
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import SnippetManager from "@/components/snippets/snippet-manager";
+import CategoryManager from "@/components/categories/category-manager";
+import { getSnippetsAction } from "@/actions/snippets-actions";
+import { getManagedCategoriesAction } from "@/actions/categories-actions";
+import { getExportUrl } from "@/lib/export";
+
+export default async function SettingsPage() {
+  const snippetsResult = await getSnippetsAction();
+  if (!snippetsResult.isSuccess) {
+    console.error("Failed to fetch snippets:", snippetsResult.message);
+  }
+  const categoriesResult = await getManagedCategoriesAction();
+  if (!categoriesResult.isSuccess) {
+    console.error("Failed to fetch categories:", categoriesResult.message);
+  }
 
-export default function SettingsPage() {
   return (
     <main className="p-6 md:p-10">
       <h1 className="text-3xl font-bold mb-8">Settings</h1>
-      <div className="max-w-4xl">
+      <div className="max-w-4xl space-y-6">
         <Card>
           <CardHeader>
             <CardTitle>Account Settings</CardTitle>
@@ -20,7 +38,55 @@ export default function SettingsPage() {
             <p>Settings options will be available here.</p>
           </CardContent>
         </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Editor Snippets</CardTitle>
+            <CardDescription>
+              Reusable text you can insert into any note by typing / and its name
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SnippetManager
+              initialSnippets={snippetsResult.data ?? []}
+              loadError={snippetsResult.isSuccess ? null : snippetsResult.message}
+            />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Categories</CardTitle>
+            <CardDescription>
+              Create, rename, reorder and hide the columns of your notes board
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CategoryManager
+              initialCategories={categoriesResult.data ?? []}
+              loadError={categoriesResult.isSuccess ? null : categoriesResult.message}
+            />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Export Notes</CardTitle>
+            <CardDescription>
+              Download every note as Markdown, one folder per category
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Each note becomes a .md file with its title, category, tags and timestamps in
+              YAML front-matter. Notes in the trash are not included.
+            </p>
+            <Button asChild>
+              <a href={getExportUrl()} download>
+                <Download className="h-4 w-4 mr-2" />
+                Download all notes (.zip)
+              </a>
+            </Button>
+          </CardContent>
+        </Card>
       </div>
     </main>
   );
-} 
\ No newline at end of file
+} 
@@ -0,0 +1,41 @@
+/**
+ * Open Tasks Page
+ *
+ * Purpose:
+ * Collects the unchecked checklist items from all of the user's notes.
+ *
+ * Functionality:
+ * - Fetches open tasks via getOpenTasksAction.
+ * - Fetches categories so each task can show its note's category.
+ * - Renders the OpenTaskList client component.
+ *
+ * Location:
+ * /app/dashboard/tasks/page.tsx
+ */
+import React from 'react';
+import OpenTaskList from '@/components/tasks/open-task-list';
+import { getOpenTasksAction } from '@/actions/note-tasks-actions';
+import { getCategoriesForWorkspaceAndBaseAction } from '@/actions/categories-actions';
+
+const OpenTasksPage = async () => {
+  const [tasksResult, categoriesResult] = await Promise.all([
+    getOpenTasksAction(),
+    getCategoriesForWorkspaceAndBaseAction(),
+  ]);
+
+  if (!tasksResult.isSuccess) {
+    console.error("Failed to fetch open tasks:", tasksResult.message);
+  }
+
+  return (
+    <div className="w-full min-h-screen bg-gradient-to-b from-gray-50 to-white">
+      <OpenTaskList
+        tasks={tasksResult.data ?? []}
+        categories={categoriesResult.isSuccess && categoriesResult.data ? categoriesResult.data : []}
+        loadError={tasksResult.isSuccess ? null : tasksResult.message}
+      />
+    </div>
+  );
+};
+
+export default OpenTasksPage;
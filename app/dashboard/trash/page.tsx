@@ -0,0 +1,51 @@
+/**
+ * Trash Page
+ *
+ * Purpose:
+ * Lists the user's trashed notes and categories so they can be restored or
+ * deleted permanently before the scheduled purge removes them.
+ *
+ * Functionality:
+ * - Fetches trashed notes and categories via getTrashAction.
+ * - Fetches active categories so trashed notes can show their category.
+ * - Renders the TrashList client component.
+ *
+ * Location:
+ * /app/dashboard/trash/page.tsx
+ */
+import React from 'react';
+import TrashList from '@/components/trash/trash-list';
+import { getTrashAction } from '@/actions/trash-actions';
+import { getCategoriesForWorkspaceAndBaseAction } from '@/actions/categories-actions';
+import { SelectCategory, SelectNote } from '@/db/schema';
+
+const TrashPage = async () => {
+  const [trashResult, categoriesResult] = await Promise.all([
+    getTrashAction(),
+    getCategoriesForWorkspaceAndBaseAction(),
+  ]);
+
+  let notes: SelectNote[] = [];
+  let trashedCategories: SelectCategory[] = [];
+  if (trashResult.isSuccess && trashResult.data) {
+    notes = trashResult.data.notes;
+    trashedCategories = trashResult.data.categories;
+  } else {
+    console.error("Failed to fetch trash:", trashResult.message);
+  }
+
+  const activeCategories = categoriesResult.isSuccess && categoriesResult.data ? categoriesResult.data : [];
+
+  return (
+    <div className="w-full min-h-screen bg-gradient-to-b from-gray-50 to-white">
+      <TrashList
+        initialNotes={notes}
+        initialCategories={trashedCategories}
+        activeCategories={activeCategories}
+        loadError={trashResult.isSuccess ? null : trashResult.message}
+      />
+    </div>
+  );
+};
+
+export default TrashPage;
@@ -10,6 +10,8 @@ import { Inter } from "next/font/google";
 import "./globals.css";
 import { createProfileAction } from "@/actions/profiles-actions";
 import { claimPendingProfile } from "@/actions/whop-actions";
+import { claimNoteShares } from "@/db/queries/note-shares-queries";
+import { getVerifiedEmails } from "@/lib/note-sharing";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -53,6 +55,13 @@ export default async function RootLayout({ children }: { children: React.ReactNo
           console.log(`Creating basic profile for user ${userId} with no email`);
           await createProfileAction({ userId });
         }
+
+        // Notes shared with any of the user's verified emails before the account existed
+        try {
+          await claimNoteShares(getVerifiedEmails(user), userId);
+        } catch (shareError) {
+          console.error("Error claiming shared notes:", shareError);
+        }
       }
     } catch (error) {
       console.error("Error checking/creating user profile:", error);
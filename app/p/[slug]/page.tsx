@@ -0,0 +1,126 @@
+/**
+ * Published Note Page
+ *
+ * Purpose:
+ * The public, read-only page of a note its owner has published. Open to
+ * everyone; no sign-in needed (see middleware.ts).
+ *
+ * Functionality:
+ * - Looks up the note by its published slug and 404s when it was never
+ *   published, has been unpublished or trashed, or its expiry date has passed.
+ *   Rendered on every request, so unpublishing takes effect immediately.
+ * - Asks for the password first when the owner set one
+ *   (PublishedNotePasswordForm).
+ * - Renders the note's sanitized HTML with its category's color, and sets
+ *   Open Graph metadata from the title and excerpt (only the title for
+ *   password-protected pages).
+ *
+ * Location: /app/p/[slug]/page.tsx
+ */
+import React from 'react';
+import type { Metadata } from 'next';
+import { headers } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { getPublishedNoteBySlug } from '@/db/queries/note-publications-queries';
+import { sanitizeNoteHtml } from '@/lib/note-html-sanitizer';
+import { getPublishedNotePath, isPublicationExpired } from '@/lib/note-publishing';
+import { canReadPublication } from '@/lib/note-publishing-access';
+import PublishedNotePasswordForm from '@/components/published-notes/published-note-password-form';
+
+export const dynamic = 'force-dynamic';
+
+interface PublishedNotePageProps {
+  params: {
+    slug: string;
+  };
+}
+
+const DEFAULT_ACCENT_COLOR = '#3b82f6';
+
+const loadPublishedNote = async (slug: string) => {
+  const published = await getPublishedNoteBySlug(slug);
+  if (!published || isPublicationExpired(published.publication)) {
+    return null;
+  }
+  return published;
+};
+
+export async function generateMetadata({ params }: PublishedNotePageProps): Promise<Metadata> {
+  const published = await loadPublishedNote(params.slug);
+  if (!published) {
+    return { title: 'Note not found', robots: { index: false } };
+  }
+  const { note, publication } = published;
+  const title = note.title.trim() || 'Untitled Note';
+  const description = publication.passwordHash ? 'This note is password protected.' : note.excerpt || undefined;
+  const host = headers().get('x-forwarded-host') ?? headers().get('host');
+  const protocol = headers().get('x-forwarded-proto') ?? 'https';
+  return {
+    title,
+    description,
+    metadataBase: host ? new URL(`${protocol}://${host}`) : undefined,
+    robots: publication.passwordHash ? { index: false } : undefined,
+    openGraph: {
+      type: 'article',
+      title,
+      description,
+      url: getPublishedNotePath(publication.publishedSlug),
+      modifiedTime: note.updatedAt.toISOString(),
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description,
+    },
+  };
+}
+
+const PublishedNotePage = async ({ params }: PublishedNotePageProps) => {
+  const published = await loadPublishedNote(params.slug);
+  if (!published) {
+    notFound();
+  }
+  const { note, category, publication } = published;
+
+  if (!canReadPublication(publication)) {
+    return (
+      <div className="min-h-screen bg-gray-50 px-4">
+        <PublishedNotePasswordForm slug={publication.publishedSlug} />
+      </div>
+    );
+  }
+
+  const accentColor = category?.color || DEFAULT_ACCENT_COLOR;
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-10">
+      <article
+        className="mx-auto max-w-3xl overflow-hidden rounded-lg bg-white shadow-md"
+        style={{ border: `1px solid ${accentColor}4D` }}
+      >
+        <div className="h-1.5" style={{ backgroundColor: accentColor }} />
+        <header className="border-b px-6 py-5 md:px-10">
+          {category && (
+            <span
+              className="mb-3 inline-flex items-center rounded-full border px-2 py-0.5 text-xs"
+              style={{ backgroundColor: accentColor + '1A', borderColor: accentColor + '4D', color: accentColor }}
+            >
+              <span className="mr-1.5 inline-block h-1.5 w-1.5 rounded-full" style={{ backgroundColor: accentColor }} />
+              {category.name}
+            </span>
+          )}
+          <h1 className="text-3xl font-bold text-gray-900">{note.title.trim() || 'Untitled Note'}</h1>
+          <p className="mt-2 text-xs text-gray-500">
+            Updated {note.updatedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}
+          </p>
+        </header>
+        <div
+          // Checkboxes of task lists are shown, not toggled
+          className="tiptap prose prose-sm sm:prose lg:prose-lg max-w-none px-6 py-6 md:px-10 [&_input]:pointer-events-none"
+          dangerouslySetInnerHTML={{ __html: sanitizeNoteHtml(note.content) }}
+        />
+      </article>
+    </div>
+  );
+};
+
+export default PublishedNotePage;
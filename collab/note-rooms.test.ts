@@ -0,0 +1,153 @@
+import { EventEmitter } from "events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as Y from "yjs";
+import * as encoding from "lib0/encoding";
+import * as syncProtocol from "y-protocols/sync";
+import type { WebSocket } from "ws";
+
+vi.mock("../db/queries/notes-queries", () => ({ getNoteById: vi.fn(), updateNote: vi.fn() }));
+vi.mock("../db/queries/note-documents-queries", () => ({ getNoteDocument: vi.fn(), saveNoteDocument: vi.fn() }));
+vi.mock("../db/queries/note-shares-queries", () => ({ getNoteShareForUser: vi.fn() }));
+vi.mock("../db/queries/workspaces-queries", () => ({ getWorkspaceRole: vi.fn() }));
+vi.mock("../db/queries/note-versions-queries", () => ({ snapshotNoteVersion: vi.fn() }));
+vi.mock("../db/queries/note-links-queries", () => ({ syncNoteLinksFromContent: vi.fn() }));
+vi.mock("../db/queries/note-tasks-queries", () => ({ syncNoteTasksFromContent: vi.fn() }));
+vi.mock("../lib/note-yjs", () => ({
+  hashNoteContent: () => "hash",
+  htmlToYjsUpdate: () => Y.encodeStateAsUpdate(new Y.Doc()),
+  yDocToHtml: () => "",
+}));
+
+import { getNoteById } from "../db/queries/notes-queries";
+import { getWorkspaceRole } from "../db/queries/workspaces-queries";
+import type { SelectNote } from "../db/schema/notes-schema";
+import { CLOSE_FORBIDDEN, COLLABORATION_FIELD, MESSAGE_SYNC } from "../lib/collaboration";
+import { joinNoteRoom, NOTE_ACCESS_RECHECK_MS, recheckNoteRoomAccess } from "./note-rooms";
+
+// Just enough of a ws socket for the rooms
+class FakeSocket extends EventEmitter {
+  readonly OPEN = 1;
+  readyState = 1;
+  sent: Uint8Array[] = [];
+  closeCode: number | null = null;
+
+  send(message: Uint8Array, callback?: (error?: Error) => void) {
+    this.sent.push(message);
+    callback?.();
+  }
+
+  close(code: number) {
+    if (this.readyState !== this.OPEN) return;
+    this.closeCode = code;
+    this.readyState = 3;
+    this.emit("close");
+  }
+
+  terminate() {
+    this.close(1006);
+  }
+
+  receive(message: Uint8Array) {
+    this.emit("message", Buffer.from(message));
+  }
+}
+
+let roomCount = 0;
+
+// Each test gets a room of its own; rooms outlive the tests in the module
+async function joinNewRoom(userIds: string[]) {
+  const noteId = `note-${++roomCount}`;
+  const sockets = userIds.map(() => new FakeSocket());
+  for (let index = 0; index < sockets.length; index++) {
+    await joinNoteRoom(noteId, userIds[index], sockets[index] as unknown as WebSocket, []);
+  }
+  return sockets;
+}
+
+function editUpdateMessage(text: string): Uint8Array {
+  const doc = new Y.Doc();
+  doc.getXmlFragment(COLLABORATION_FIELD).insert(0, [new Y.XmlText(text)]);
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  syncProtocol.writeUpdate(encoder, Y.encodeStateAsUpdate(doc));
+  return encoding.toUint8Array(encoder);
+}
+
+// Lets the sockets' queued messages and access checks run
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.mocked(getNoteById).mockResolvedValue({ id: "note", workspaceId: "workspace", content: "" } as SelectNote);
+  vi.mocked(getWorkspaceRole).mockResolvedValue("editor");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("note rooms", () => {
+  it("relays edits to the other sockets in the room", async () => {
+    const [alice, bob] = await joinNewRoom(["alice", "bob"]);
+    const sentBefore = bob.sent.length;
+    alice.receive(editUpdateMessage("hello"));
+    await flush();
+    expect(bob.sent.length).toBe(sentBefore + 1);
+    expect(alice.closeCode).toBeNull();
+  });
+
+  it("closes only the socket that sends a malformed message", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const [alice, bob, carol] = await joinNewRoom(["alice", "bob", "carol"]);
+    alice.receive(new Uint8Array()); // Empty frame
+    bob.receive(new Uint8Array([MESSAGE_SYNC])); // Sync message cut off after its type
+    await flush();
+    expect(alice.closeCode).toBe(1003);
+    expect(bob.closeCode).toBe(1003);
+    expect(carol.closeCode).toBeNull();
+
+    carol.receive(editUpdateMessage("still working"));
+    await flush();
+    expect(carol.closeCode).toBeNull();
+  });
+
+  it("drops edits from a socket that lost edit access", async () => {
+    const [alice, bob] = await joinNewRoom(["alice", "bob"]);
+    vi.mocked(getWorkspaceRole).mockImplementation(async (_workspaceId, userId) =>
+      userId === "alice" ? "viewer" : "editor"
+    );
+    vi.setSystemTime(Date.now() + NOTE_ACCESS_RECHECK_MS);
+    const sentBefore = bob.sent.length;
+    alice.receive(editUpdateMessage("sneaky"));
+    await flush();
+    expect(alice.closeCode).toBe(CLOSE_FORBIDDEN);
+    expect(bob.sent.length).toBe(sentBefore); // Never applied, so never relayed
+  });
+
+  it("applies edits without re-checking while the last check is recent", async () => {
+    const [alice] = await joinNewRoom(["alice"]);
+    vi.mocked(getWorkspaceRole).mockClear();
+    alice.receive(editUpdateMessage("hello"));
+    await flush();
+    expect(getWorkspaceRole).not.toHaveBeenCalled();
+  });
+
+  it("closes idle sockets that lost access on the periodic re-check", async () => {
+    const [alice, bob] = await joinNewRoom(["alice", "bob"]);
+    vi.mocked(getNoteById).mockResolvedValue(undefined); // Trashed
+    vi.setSystemTime(Date.now() + NOTE_ACCESS_RECHECK_MS);
+    await recheckNoteRoomAccess();
+    expect(alice.closeCode).toBe(CLOSE_FORBIDDEN);
+    expect(bob.closeCode).toBe(CLOSE_FORBIDDEN);
+  });
+
+  it("closes sockets whose access can't be checked", async () => {
+    const [alice] = await joinNewRoom(["alice"]);
+    vi.mocked(getWorkspaceRole).mockRejectedValue(new Error("Database is down"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.setSystemTime(Date.now() + NOTE_ACCESS_RECHECK_MS);
+    await recheckNoteRoomAccess();
+    expect(alice.closeCode).toBe(1011);
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * One room per note being edited live: the shared Yjs document and awareness,
+ * the sockets of everyone in it, and the periodic write-back of the document
+ * to the note's HTML (`notes.content`) plus its Yjs state (`note_documents`).
+ * Imports the database, so it must be loaded after the env (see server.ts).
+ * Location: /collab/note-rooms.ts
+ */
+import * as Y from "yjs";
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+import * as syncProtocol from "y-protocols/sync";
+import * as awarenessProtocol from "y-protocols/awareness";
+import type { WebSocket } from "ws";
+import { getNoteById, updateNote } from "../db/queries/notes-queries";
+import { getNoteDocument, saveNoteDocument } from "../db/queries/note-documents-queries";
+import { getNoteShareForUser } from "../db/queries/note-shares-queries";
+import { getWorkspaceRole } from "../db/queries/workspaces-queries";
+import { snapshotNoteVersion } from "../db/queries/note-versions-queries";
+import { syncNoteLinksFromContent } from "../db/queries/note-links-queries";
+import { syncNoteTasksFromContent } from "../db/queries/note-tasks-queries";
+import { CLOSE_FORBIDDEN, MESSAGE_AWARENESS, MESSAGE_SYNC } from "../lib/collaboration";
+import { hasWorkspaceAccess } from "../lib/workspaces";
+import { hashNoteContent, htmlToYjsUpdate, yDocToHtml } from "../lib/note-yjs";
+import { sanitizeNoteHtml } from "../lib/note-html-sanitizer";
+
+const SAVE_DEBOUNCE_MS = 2_000; // Write back this long after the last edit...
+const SAVE_MAX_WAIT_MS = 10_000; // ...but at least this often during continuous typing
+const CLOSE_UNSUPPORTED_DATA = 1003;
+// Access is checked on connect and again once it is this old, before the
+// socket's next message is applied and by the periodic sweep
+export const NOTE_ACCESS_RECHECK_MS = 5_000;
+
+interface NoteConnection {
+  userId: string;
+  clientIds: Set<number>; // Awareness client IDs the socket speaks for
+  accessCheckedAt: number;
+  received: Promise<void>; // The socket's messages, applied one at a time
+}
+
+interface NoteRoom {
+  noteId: string;
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  connections: Map<WebSocket, NoteConnection>;
+  loaded: Promise<void>;
+  saveTimer: ReturnType<typeof setTimeout> | null;
+  firstUnsavedEditAt: number | null;
+  saving: Promise<void>;
+}
+
+const rooms = new Map<string, NoteRoom>();
+
+/**
+ * Whether `userId` may edit the note live: an owner or editor of its
+ * workspace, or an editor it is shared with (the same rule as
+ * requireNoteAccess(noteId, "edit")).
+ */
+export async function canEditNote(noteId: string, userId: string): Promise<boolean> {
+  const note = await getNoteById(noteId);
+  if (!note) return false;
+  const workspaceRole = await getWorkspaceRole(note.workspaceId, userId);
+  if (workspaceRole && hasWorkspaceAccess(workspaceRole, "edit")) return true;
+  const share = await getNoteShareForUser(noteId, userId);
+  return share?.role === "editor";
+}
+
+function getRoom(noteId: string): NoteRoom {
+  const existingRoom = rooms.get(noteId);
+  if (existingRoom) return existingRoom;
+
+  const doc = new Y.Doc();
+  const room: NoteRoom = {
+    noteId,
+    doc,
+    awareness: new awarenessProtocol.Awareness(doc),
+    connections: new Map(),
+    loaded: Promise.resolve(),
+    saveTimer: null,
+    firstUnsavedEditAt: null,
+    saving: Promise.resolve(),
+  };
+  room.awareness.setLocalState(null); // The server itself isn't a collaborator
+  room.loaded = loadRoom(room);
+
+  doc.on("update", (update: Uint8Array, origin: unknown) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    broadcast(room, encoding.toUint8Array(encoder), origin);
+    if (origin !== room) scheduleSave(room); // Not the initial load
+  });
+  room.awareness.on(
+    "update",
+    ({ added, updated, removed }: { added: number[]; updated: number[]; removed: number[] }, origin: unknown) => {
+      const changedClients = added.concat(updated, removed);
+      const controlledIds = origin ? room.connections.get(origin as WebSocket)?.clientIds : undefined;
+      if (controlledIds) {
+        added.forEach(clientId => controlledIds.add(clientId));
+        removed.forEach(clientId => controlledIds.delete(clientId));
+      }
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(room.awareness, changedClients));
+      broadcast(room, encoding.toUint8Array(encoder));
+    }
+  );
+
+  rooms.set(noteId, room);
+  return room;
+}
+
+/**
+ * Starts the room from the stored Yjs state while it still matches the note's
+ * HTML, so reconnecting clients merge cleanly. If the HTML was changed outside
+ * live editing (a restore, an import, an editor without live editing), the
+ * document is rebuilt from the HTML instead.
+ */
+async function loadRoom(room: NoteRoom): Promise<void> {
+  const [note, storedDocument] = await Promise.all([
+    getNoteById(room.noteId),
+    getNoteDocument(room.noteId),
+  ]);
+  const content = note?.content ?? "";
+  const state =
+    storedDocument && storedDocument.contentHash === hashNoteContent(content)
+      ? new Uint8Array(storedDocument.state)
+      : htmlToYjsUpdate(content);
+  Y.applyUpdate(room.doc, state, room);
+}
+
+function broadcast(room: NoteRoom, message: Uint8Array, exclude?: unknown) {
+  room.connections.forEach((_clientIds, socket) => {
+    if (socket !== exclude) send(socket, message);
+  });
+}
+
+function send(socket: WebSocket, message: Uint8Array) {
+  if (socket.readyState !== socket.OPEN) return;
+  socket.send(message, error => {
+    if (error) socket.terminate();
+  });
+}
+
+function scheduleSave(room: NoteRoom) {
+  const now = Date.now();
+  room.firstUnsavedEditAt = room.firstUnsavedEditAt ?? now;
+  if (room.saveTimer) clearTimeout(room.saveTimer);
+  const delay = Math.max(0, Math.min(SAVE_DEBOUNCE_MS, room.firstUnsavedEditAt + SAVE_MAX_WAIT_MS - now));
+  room.saveTimer = setTimeout(() => void saveRoom(room), delay);
+}
+
+/**
+ * Writes the document back to the note, one save at a time per room. Failures
+ * are logged and retried on the next edit; the document stays in memory.
+ */
+function saveRoom(room: NoteRoom): Promise<void> {
+  if (room.saveTimer) {
+    clearTimeout(room.saveTimer);
+    room.saveTimer = null;
+  }
+  room.saving = room.saving.then(async () => {
+    if (room.firstUnsavedEditAt === null) return;
+    room.firstUnsavedEditAt = null;
+    try {
+      await persistRoom(room);
+    } catch (error) {
+      room.firstUnsavedEditAt = room.firstUnsavedEditAt ?? Date.now();
+      console.error(`Collaboration: failed to save note ${room.noteId}:`, error);
+    }
+  });
+  return room.saving;
+}
+
+async function persistRoom(room: NoteRoom) {
+  const note = await getNoteById(room.noteId);
+  if (!note) return; // Trashed or deleted while open; nothing to write to
+  const html = sanitizeNoteHtml(yDocToHtml(room.doc));
+  if (html !== note.content) {
+    try {
+      await snapshotNoteVersion(note);
+    } catch (snapshotError) {
+      // A failed snapshot must not block the save itself
+      console.error("Collaboration: failed to snapshot note version", snapshotError);
+    }
+    const updatedNote = await updateNote(room.noteId, { content: html });
+    if (updatedNote) {
+      try {
+        await syncNoteLinksFromContent(updatedNote);
+      } catch (linksError) {
+        console.error("Collaboration: failed to sync note links", linksError);
+      }
+      try {
+        await syncNoteTasksFromContent(updatedNote);
+      } catch (tasksError) {
+        console.error("Collaboration: failed to sync note tasks", tasksError);
+      }
+    }
+  }
+  await saveNoteDocument(room.noteId, Buffer.from(Y.encodeStateAsUpdate(room.doc)), hashNoteContent(html));
+}
+
+/**
+ * Applies one message from a socket. A message that can't be decoded (empty,
+ * truncated or not Yjs at all) closes that socket only; it must never reach
+ * the ws listener, where it would take the whole server down.
+ */
+function handleMessage(room: NoteRoom, socket: WebSocket, message: Uint8Array) {
+  if (socket.readyState !== socket.OPEN) return; // Closed over an earlier message
+  try {
+    const decoder = decoding.createDecoder(message);
+    const messageType = decoding.readVarUint(decoder);
+    if (messageType === MESSAGE_SYNC) {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      // Updates are applied with the socket as origin, so they aren't echoed back
+      syncProtocol.readSyncMessage(decoder, encoder, room.doc, socket);
+      if (encoding.length(encoder) > 1) send(socket, encoding.toUint8Array(encoder));
+    } else if (messageType === MESSAGE_AWARENESS) {
+      awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), socket);
+    }
+  } catch (error) {
+    console.error(`Collaboration: dropping a socket of note ${room.noteId} after a bad message:`, error);
+    socket.close(CLOSE_UNSUPPORTED_DATA, "Malformed message");
+  }
+}
+
+/**
+ * Re-checks that a socket's user may still edit the note (a share revoked, a
+ * member removed or made a viewer, the note trashed) and closes the socket if
+ * not, or if access can't be checked.
+ */
+async function recheckAccess(room: NoteRoom, socket: WebSocket, connection: NoteConnection): Promise<boolean> {
+  try {
+    if (await canEditNote(room.noteId, connection.userId)) {
+      connection.accessCheckedAt = Date.now();
+      return true;
+    }
+    socket.close(CLOSE_FORBIDDEN, "No access to this note");
+  } catch (error) {
+    console.error(`Collaboration: failed to re-check access to note ${room.noteId}:`, error);
+    socket.close(1011, "Could not check access");
+  }
+  return false;
+}
+
+const isAccessStale = (connection: NoteConnection) =>
+  Date.now() - connection.accessCheckedAt >= NOTE_ACCESS_RECHECK_MS;
+
+// Applies a socket's message after its earlier ones, re-checking access first
+// when the last check is stale, so nothing is applied (and later saved) from
+// someone who lost edit rights
+function receiveMessage(room: NoteRoom, socket: WebSocket, message: Uint8Array) {
+  const connection = room.connections.get(socket);
+  if (!connection) return;
+  connection.received = connection.received.then(async () => {
+    if (isAccessStale(connection) && !(await recheckAccess(room, socket, connection))) return;
+    handleMessage(room, socket, message);
+  });
+}
+
+/**
+ * Adds an authorized socket to the note's room. `pendingMessages` are the ones
+ * it sent while its token was being checked.
+ */
+export async function joinNoteRoom(
+  noteId: string,
+  userId: string,
+  socket: WebSocket,
+  pendingMessages: Uint8Array[]
+) {
+  const room = getRoom(noteId);
+  room.connections.set(socket, {
+    userId,
+    clientIds: new Set(),
+    accessCheckedAt: Date.now(), // Just checked by the server
+    received: Promise.resolve(),
+  });
+  const queuedMessages = pendingMessages.slice();
+  let isLoaded = false;
+
+  socket.on("message", data => {
+    const message = new Uint8Array(data as Buffer);
+    if (isLoaded) receiveMessage(room, socket, message);
+    else queuedMessages.push(message);
+  });
+  socket.on("close", () => void leaveNoteRoom(room, socket));
+
+  try {
+    await room.loaded;
+  } catch (error) {
+    console.error(`Collaboration: failed to load note ${noteId}:`, error);
+    rooms.delete(noteId);
+    socket.close(1011, "Could not load the note");
+    return;
+  }
+  if (socket.readyState !== socket.OPEN) return;
+
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  syncProtocol.writeSyncStep1(encoder, room.doc);
+  send(socket, encoding.toUint8Array(encoder));
+  const awarenessClients = Array.from(room.awareness.getStates().keys());
+  if (awarenessClients.length > 0) {
+    const awarenessEncoder = encoding.createEncoder();
+    encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(
+      awarenessEncoder,
+      awarenessProtocol.encodeAwarenessUpdate(room.awareness, awarenessClients)
+    );
+    send(socket, encoding.toUint8Array(awarenessEncoder));
+  }
+
+  isLoaded = true;
+  queuedMessages.forEach(message => receiveMessage(room, socket, message));
+}
+
+async function leaveNoteRoom(room: NoteRoom, socket: WebSocket) {
+  const connection = room.connections.get(socket);
+  if (!connection) return;
+  room.connections.delete(socket);
+  awarenessProtocol.removeAwarenessStates(room.awareness, Array.from(connection.clientIds), null);
+  if (room.connections.size > 0) return;
+
+  // Last one out: save now and free the room, unless someone rejoined meanwhile
+  await saveRoom(room);
+  if (room.connections.size === 0 && rooms.get(room.noteId) === room) {
+    rooms.delete(room.noteId);
+    room.awareness.destroy();
+    room.doc.destroy();
+  }
+}
+
+/**
+ * Re-checks the access of every socket not checked recently, so those that
+ * lost it are dropped even while idle; run periodically by the server.
+ */
+export async function recheckNoteRoomAccess(): Promise<void> {
+  const checks: Promise<boolean>[] = [];
+  rooms.forEach(room => {
+    room.connections.forEach((connection, socket) => {
+      if (isAccessStale(connection)) checks.push(recheckAccess(room, socket, connection));
+    });
+  });
+  await Promise.all(checks);
+}
+
+/**
+ * Saves every open room; used on shutdown.
+ */
+export async function saveAllNoteRooms(): Promise<void> {
+  await Promise.all(Array.from(rooms.values()).map(room => saveRoom(room)));
+}
@@ -0,0 +1,129 @@
+/**
+ * Self-hosted WebSocket server for live note editing. Browsers connect to
+ * `<NEXT_PUBLIC_COLLAB_URL>/notes/<noteId>?token=<Clerk session token>`;
+ * the token is verified with CLERK_SECRET_KEY and only the note's owner and
+ * the editors it is shared with are let in, and dropped once they lose that
+ * access (re-checked every few seconds). Edits are synced with the Yjs
+ * protocol and written back to the note every few seconds (see note-rooms.ts).
+ *
+ * Usage: npm run collab   (listens on COLLAB_PORT, default 1234)
+ * Location: /collab/server.ts
+ */
+import { config } from "dotenv";
+import type { IncomingMessage } from "http";
+import { WebSocketServer, type WebSocket } from "ws";
+import { verifyToken } from "@clerk/backend";
+import {
+  CLOSE_FORBIDDEN,
+  CLOSE_NOT_FOUND,
+  CLOSE_UNAUTHORIZED,
+  parseNoteRoomPath,
+} from "../lib/collaboration";
+
+config({ path: ".env.local" });
+
+const PORT = Number(process.env.COLLAB_PORT) || 1234;
+const PING_INTERVAL_MS = 30_000; // Sockets that miss a ping by the next one are dropped
+
+async function getUserIdFromToken(token: string | null): Promise<string | null> {
+  if (!token) return null;
+  try {
+    const payload = await verifyToken(token, { secretKey: process.env.CLERK_SECRET_KEY });
+    return payload.sub || null;
+  } catch {
+    return null; // Expired or forged; the client retries with a new token
+  }
+}
+
+async function main() {
+  // Imported after the env is loaded, since it connects on import
+  const { client } = await import("../db/db");
+  const {
+    canEditNote,
+    joinNoteRoom,
+    NOTE_ACCESS_RECHECK_MS,
+    recheckNoteRoomAccess,
+    saveAllNoteRooms,
+  } = await import("./note-rooms");
+
+  const server = new WebSocketServer({ port: PORT });
+  const aliveSockets = new WeakSet<WebSocket>();
+
+  const handleConnection = async (socket: WebSocket, request: IncomingMessage) => {
+    aliveSockets.add(socket);
+    socket.on("pong", () => aliveSockets.add(socket));
+    // Keep what arrives while the token is checked; the room replays it
+    const pendingMessages: Uint8Array[] = [];
+    const bufferMessage = (data: unknown) => pendingMessages.push(new Uint8Array(data as Buffer));
+    socket.on("message", bufferMessage);
+
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const noteId = parseNoteRoomPath(url.pathname);
+    if (!noteId) {
+      socket.close(CLOSE_NOT_FOUND, "Unknown room");
+      return;
+    }
+    const userId = await getUserIdFromToken(url.searchParams.get("token"));
+    if (!userId) {
+      socket.close(CLOSE_UNAUTHORIZED, "Not signed in");
+      return;
+    }
+    try {
+      if (!(await canEditNote(noteId, userId))) {
+        socket.close(CLOSE_FORBIDDEN, "No access to this note");
+        return;
+      }
+    } catch (error) {
+      console.error("Collaboration: failed to check note access:", error);
+      socket.close(1011, "Could not check access");
+      return;
+    }
+
+    socket.off("message", bufferMessage);
+    if (socket.readyState !== socket.OPEN) return;
+    await joinNoteRoom(noteId, userId, socket, pendingMessages);
+  };
+
+  server.on("connection", (socket, request) => {
+    // A failure here must only cost this connection, never the whole server
+    handleConnection(socket, request).catch(error => {
+      console.error("Collaboration: failed to handle a connection:", error);
+      if (socket.readyState === socket.OPEN) socket.close(1011, "Internal error");
+    });
+  });
+
+  const pingTimer = setInterval(() => {
+    server.clients.forEach(socket => {
+      if (!aliveSockets.has(socket)) {
+        socket.terminate();
+        return;
+      }
+      aliveSockets.delete(socket);
+      socket.ping();
+    });
+  }, PING_INTERVAL_MS);
+  // Drops sockets that lost edit access, even those that stay quiet
+  const accessTimer = setInterval(() => void recheckNoteRoomAccess(), NOTE_ACCESS_RECHECK_MS);
+
+  const shutdown = async () => {
+    clearInterval(pingTimer);
+    clearInterval(accessTimer);
+    server.close();
+    server.clients.forEach(socket => socket.terminate());
+    try {
+      await saveAllNoteRooms();
+    } finally {
+      await client.end();
+      process.exit(0);
+    }
+  };
+  process.on("SIGINT", () => void shutdown());
+  process.on("SIGTERM", () => void shutdown());
+
+  console.log(`Collaboration server listening on ws://localhost:${PORT}`);
+}
+
+main().catch(error => {
+  console.error("Collaboration server failed to start: ", error);
+  process.exit(1);
+});
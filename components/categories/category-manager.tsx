@@ -0,0 +1,509 @@
+/**
+ * CategoryManager Component
+ *
+ * Purpose:
+ * Lets the user organise the category columns of the notes board.
+ *
+ * Functionality:
+ * - Lists base and own categories in the user's column order with their note counts.
+ * - Creates categories with a name and a color from the palette or a custom picker.
+ * - Renames (inline) and recolors the user's own categories; base categories
+ *   are shared and read-only, but can be hidden like any other.
+ * - Nests own categories inside another category (shown as an indented tree);
+ *   choices that would put a category inside itself are not offered.
+ * - Reorders sibling categories by dragging a row, or with ArrowUp/ArrowDown on its handle.
+ * - Hides and shows columns on the board without touching their notes.
+ * - Deletes own categories after asking whether to move their notes to another
+ *   category or send them to the trash with it; nested categories move up a level.
+ * - Applies changes optimistically and rolls back with a toast if saving fails.
+ *
+ * Location: /components/categories/category-manager.tsx
+ */
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Eye, EyeOff, GripVertical, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  createCategoryAction,
+  deleteCategoryAction,
+  getManagedCategoriesAction,
+  reorderCategoriesAction,
+  setCategoryHiddenAction,
+  updateCategoryAction,
+} from '@/actions/categories-actions';
+import type { ManagedCategory } from '@/db/queries/categories-queries';
+import { CATEGORY_COLOR_PALETTE, getCategoryColor, MAX_CATEGORY_NAME_LENGTH, validateCategoryFields } from '@/lib/categories';
+import { buildCategoryTree, flattenCategoryTree, getSubtreeIds, sumOverSubtrees } from '@/lib/category-tree';
+
+interface CategoryManagerProps {
+  initialCategories?: ManagedCategory[]; // Loaded on mount when omitted
+  loadError?: string | null;
+}
+
+// Select value for "trash the notes with the category"
+const TRASH_NOTES = '__trash__';
+// Select value for "not nested in any category"
+const TOP_LEVEL = '__top__';
+
+interface ColorPickerProps {
+  color: string;
+  onChange: (color: string) => void;
+  label: string;
+}
+
+// The custom color input fires on every pointer move, so its value is only
+// committed when the popover closes
+const ColorPicker: React.FC<ColorPickerProps> = ({ color, onChange, label }) => {
+  const [customColor, setCustomColor] = useState<string | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open && customColor && customColor !== color) onChange(customColor);
+    setCustomColor(null);
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="h-5 w-5 shrink-0 rounded-full border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1"
+          style={{ backgroundColor: customColor ?? color }}
+          aria-label={label}
+        />
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-3" align="start">
+        <div className="grid grid-cols-5 gap-2">
+          {CATEGORY_COLOR_PALETTE.map(paletteColor => (
+            <button
+              key={paletteColor}
+              type="button"
+              className={`h-6 w-6 rounded-full border ${paletteColor === color.toLowerCase() ? 'ring-2 ring-blue-500 ring-offset-1' : 'border-gray-200'}`}
+              style={{ backgroundColor: paletteColor }}
+              onClick={() => {
+                setCustomColor(null);
+                onChange(paletteColor);
+              }}
+              aria-label={`Use color ${paletteColor}`}
+            />
+          ))}
+        </div>
+        <label className="mt-3 flex items-center gap-2 text-xs text-gray-600">
+          Custom
+          <input
+            type="color"
+            value={customColor ?? color}
+            onChange={(e) => setCustomColor(e.target.value)}
+            className="h-6 w-10 cursor-pointer rounded border border-gray-200 bg-transparent"
+          />
+        </label>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+const CategoryManager: React.FC<CategoryManagerProps> = ({ initialCategories, loadError = null }) => {
+  const { toast } = useToast();
+  const router = useRouter();
+  const [categories, setCategories] = useState<ManagedCategory[]>(initialCategories ?? []);
+  const [isLoading, setIsLoading] = useState(!initialCategories);
+  const [error, setError] = useState<string | null>(loadError);
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(getCategoryColor(initialCategories?.length ?? 0));
+  const [newParentId, setNewParentId] = useState<string>(TOP_LEVEL);
+  const [isCreating, setIsCreating] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<ManagedCategory | null>(null);
+  const [moveNotesTo, setMoveNotesTo] = useState<string>(TRASH_NOTES);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    if (initialCategories) return;
+    let isCancelled = false;
+    getManagedCategoriesAction().then(result => {
+      if (isCancelled) return;
+      if (result.isSuccess && result.data) {
+        setCategories(result.data);
+        setNewColor(getCategoryColor(result.data.length));
+      } else {
+        setError(result.message || 'Could not load categories.');
+      }
+      setIsLoading(false);
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [initialCategories]);
+
+  // Displayed as a tree; `categories` itself stays in the saved column order
+  const treeRows = useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories]);
+  const subtreeNoteCounts = useMemo(
+    () => sumOverSubtrees(categories, Object.fromEntries(categories.map(category => [category.id, category.noteCount]))),
+    [categories]
+  );
+
+  // Categories `category` can be nested in: anything outside its own subtree
+  const getParentOptions = (category: ManagedCategory | null) => {
+    const excludedIds = category ? getSubtreeIds(categories, category.id) : [];
+    return treeRows.filter(({ category: candidate }) => !excludedIds.includes(candidate.id));
+  };
+
+  const replaceCategory = (id: string, changes: Partial<ManagedCategory>) => {
+    setCategories(prev => prev.map(category => (category.id === id ? { ...category, ...changes } : category)));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateCategoryFields({ name: newName, color: newColor });
+    if (validationError) {
+      toast({ title: "Invalid Category", description: validationError, variant: "destructive" });
+      return;
+    }
+    setIsCreating(true);
+    const parentId = newParentId === TOP_LEVEL ? null : newParentId;
+    const result = await createCategoryAction({ name: newName, color: newColor, parentId });
+    setIsCreating(false);
+    if (result.isSuccess && result.data) {
+      const created: ManagedCategory = { ...result.data, hidden: false, noteCount: 0 };
+      setCategories(prev => [...prev, created]);
+      setNewName('');
+      setNewParentId(TOP_LEVEL);
+      setNewColor(getCategoryColor(categories.length + 1));
+      router.refresh();
+      toast({ title: "Category Created", description: `"${created.name}" was added to your board.` });
+    } else {
+      toast({ title: "Create Failed", description: result.message || "Could not create the category.", variant: "destructive" });
+    }
+  };
+
+  // Optimistically applies `changes` to an own category and saves them
+  const saveCategory = async (category: ManagedCategory, changes: { name?: string; color?: string; parentId?: string | null }) => {
+    const validationError = validateCategoryFields(changes);
+    if (validationError) {
+      toast({ title: "Invalid Category", description: validationError, variant: "destructive" });
+      return;
+    }
+    const previous = { name: category.name, color: category.color, parentId: category.parentId };
+    replaceCategory(category.id, { ...changes, name: changes.name?.trim() ?? category.name });
+    const result = await updateCategoryAction(category.id, changes);
+    if (result.isSuccess) {
+      router.refresh();
+    } else {
+      replaceCategory(category.id, previous);
+      toast({ title: "Update Failed", description: result.message || "Could not update the category.", variant: "destructive" });
+    }
+  };
+
+  const startRename = (category: ManagedCategory) => {
+    setRenamingId(category.id);
+    setRenameValue(category.name);
+  };
+
+  const finishRename = (category: ManagedCategory) => {
+    if (renamingId !== category.id) return; // Already finished by Enter or cancelled by Escape
+    setRenamingId(null);
+    if (renameValue.trim() !== category.name) {
+      saveCategory(category, { name: renameValue });
+    }
+  };
+
+  const handleToggleHidden = async (category: ManagedCategory) => {
+    const hidden = !category.hidden;
+    replaceCategory(category.id, { hidden });
+    const result = await setCategoryHiddenAction(category.id, hidden);
+    if (result.isSuccess) {
+      router.refresh();
+    } else {
+      replaceCategory(category.id, { hidden: !hidden });
+      toast({ title: "Update Failed", description: result.message || "Could not update the category.", variant: "destructive" });
+    }
+  };
+
+  // Moves the category `id` to where `targetId` is and saves the new order
+  const reorder = async (id: string, targetId: string) => {
+    const fromIndex = categories.findIndex(category => category.id === id);
+    const toIndex = categories.findIndex(category => category.id === targetId);
+    if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return;
+    const previous = categories;
+    const reordered = [...categories];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, moved);
+    setCategories(reordered);
+    const result = await reorderCategoriesAction(reordered.map(category => category.id));
+    if (result.isSuccess) {
+      router.refresh();
+    } else {
+      setCategories(previous);
+      toast({ title: "Reorder Failed", description: result.message || "Could not save the new order.", variant: "destructive" });
+    }
+  };
+
+  // Order only matters among siblings, so rows only swap with their siblings
+  const isSibling = (id: string | null, category: ManagedCategory) =>
+    id !== null && id !== category.id && categories.find(candidate => candidate.id === id)?.parentId === category.parentId;
+
+  const handleDrop = (e: React.DragEvent, target: ManagedCategory) => {
+    e.preventDefault();
+    const id = draggedId;
+    setDraggedId(null);
+    setDropTargetId(null);
+    if (id && isSibling(id, target)) reorder(id, target.id);
+  };
+
+  const handleHandleKeyDown = (e: React.KeyboardEvent, category: ManagedCategory) => {
+    if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+    e.preventDefault();
+    const siblings = treeRows.filter(row => row.category.parentId === category.parentId).map(row => row.category);
+    const sibling = siblings[siblings.findIndex(candidate => candidate.id === category.id) + (e.key === 'ArrowUp' ? -1 : 1)];
+    if (sibling) reorder(category.id, sibling.id);
+  };
+
+  const openDelete = (category: ManagedCategory) => {
+    const firstOther = categories.find(other => other.id !== category.id);
+    setMoveNotesTo(category.noteCount > 0 && firstOther ? firstOther.id : TRASH_NOTES);
+    setPendingDelete(category);
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    setIsDeleting(true);
+    const target = moveNotesTo === TRASH_NOTES ? null : moveNotesTo;
+    const result = await deleteCategoryAction(pendingDelete.id, { moveNotesTo: target });
+    setIsDeleting(false);
+    if (result.isSuccess && result.data) {
+      const movedNotes = result.data.movedNotes;
+      setCategories(prev =>
+        prev
+          .filter(category => category.id !== pendingDelete.id)
+          .map(category => (category.id === target ? { ...category, noteCount: category.noteCount + movedNotes } : category))
+          .map(category => (category.parentId === pendingDelete.id ? { ...category, parentId: pendingDelete.parentId } : category))
+      );
+      router.refresh();
+      toast({ title: "Category Deleted", description: result.message });
+    } else {
+      toast({ title: "Delete Failed", description: result.message || "Could not delete the category.", variant: "destructive" });
+    }
+    setPendingDelete(null);
+  };
+
+  const renderParentOptions = (category: ManagedCategory | null) => (
+    <>
+      <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+      {getParentOptions(category).map(({ category: option, depth }) => (
+        <SelectItem key={option.id} value={option.id}>
+          <span style={{ paddingLeft: `${depth * 12}px` }}>In {option.name}</span>
+        </SelectItem>
+      ))}
+    </>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading categories...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {categories.length > 0 && (
+        <ul className="divide-y rounded-md border border-gray-200">
+          {treeRows.map(({ category, depth }) => {
+            const isBase = category.userId === null;
+            const subtreeNoteCount = subtreeNoteCounts[category.id] ?? 0;
+            return (
+              <li
+                key={category.id}
+                className={`flex items-center gap-3 p-3 ${dropTargetId === category.id ? 'bg-blue-50' : ''} ${draggedId === category.id ? 'opacity-50' : ''}`}
+                style={{ paddingLeft: `${12 + depth * 20}px` }}
+                onDragOver={(e) => {
+                  if (!isSibling(draggedId, category)) return;
+                  e.preventDefault();
+                  setDropTargetId(category.id);
+                }}
+                onDragLeave={() => setDropTargetId(prev => (prev === category.id ? null : prev))}
+                onDrop={(e) => handleDrop(e, category)}
+              >
+                <button
+                  type="button"
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedId(category.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggedId(null);
+                    setDropTargetId(null);
+                  }}
+                  onKeyDown={(e) => handleHandleKeyDown(e, category)}
+                  className="cursor-grab rounded text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label={`Reorder ${category.name}. Use the up and down arrow keys to move it.`}
+                >
+                  <GripVertical className="h-4 w-4" />
+                </button>
+
+                {isBase ? (
+                  <span className="h-5 w-5 shrink-0 rounded-full border border-gray-300" style={{ backgroundColor: category.color }} />
+                ) : (
+                  <ColorPicker
+                    color={category.color}
+                    onChange={(color) => saveCategory(category, { color })}
+                    label={`Change color of ${category.name}`}
+                  />
+                )}
+
+                <div className="flex min-w-0 flex-1 items-center gap-2">
+                  {renamingId === category.id ? (
+                    <Input
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={() => finishRename(category)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') finishRename(category);
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      maxLength={MAX_CATEGORY_NAME_LENGTH}
+                      className="h-8"
+                      aria-label="Category name"
+                      autoFocus
+                    />
+                  ) : (
+                    <span className={`truncate text-sm font-medium ${category.hidden ? 'text-gray-400' : 'text-gray-900'}`}>
+                      {category.name}
+                    </span>
+                  )}
+                  {isBase && <Badge variant="secondary">Base</Badge>}
+                  {category.hidden && <Badge variant="outline">Hidden</Badge>}
+                </div>
+
+                <span
+                  className="whitespace-nowrap text-xs text-gray-500"
+                  title={subtreeNoteCount !== category.noteCount ? `${subtreeNoteCount} including subcategories` : undefined}
+                >
+                  {category.noteCount} {category.noteCount === 1 ? 'note' : 'notes'}
+                  {subtreeNoteCount !== category.noteCount && ` (${subtreeNoteCount} total)`}
+                </span>
+                {!isBase && (
+                  <Select
+                    value={category.parentId ?? TOP_LEVEL}
+                    onValueChange={(value) => saveCategory(category, { parentId: value === TOP_LEVEL ? null : value })}
+                  >
+                    <SelectTrigger className="h-8 w-32 text-xs" aria-label={`Nest ${category.name} in`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>{renderParentOptions(category)}</SelectContent>
+                  </Select>
+                )}
+                {!isBase && renamingId !== category.id && (
+                  <Button variant="ghost" size="icon" onClick={() => startRename(category)} aria-label={`Rename ${category.name}`}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleToggleHidden(category)}
+                  aria-label={category.hidden ? `Show ${category.name}` : `Hide ${category.name}`}
+                  title={category.hidden ? 'Show on the board' : 'Hide from the board'}
+                >
+                  {category.hidden ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </Button>
+                {!isBase && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => openDelete(category)}
+                    aria-label={`Delete ${category.name}`}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreate} className="flex items-center gap-2">
+        <ColorPicker color={newColor} onChange={setNewColor} label="Color of the new category" />
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New category name"
+          maxLength={MAX_CATEGORY_NAME_LENGTH}
+        />
+        <Select value={newParentId} onValueChange={setNewParentId}>
+          <SelectTrigger className="w-40" aria-label="Nest the new category in">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>{renderParentOptions(null)}</SelectContent>
+        </Select>
+        <Button type="submit" variant="outline" disabled={isCreating || !newName.trim()}>
+          {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+          Add
+        </Button>
+      </form>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => { if (!open) setPendingDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete category?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{pendingDelete?.name}&quot; will be moved to the trash.
+              {pendingDelete && pendingDelete.noteCount > 0 && ' Choose what happens to its notes.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pendingDelete && pendingDelete.noteCount > 0 && (
+            <Select value={moveNotesTo} onValueChange={setMoveNotesTo}>
+              <SelectTrigger aria-label="What to do with the notes">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {categories
+                  .filter(category => category.id !== pendingDelete.id)
+                  .map(category => (
+                    <SelectItem key={category.id} value={category.id}>
+                      Move {pendingDelete.noteCount} {pendingDelete.noteCount === 1 ? 'note' : 'notes'} to {category.name}
+                    </SelectItem>
+                  ))}
+                <SelectItem value={TRASH_NOTES}>Move the notes to the trash too</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isDeleting} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default CategoryManager;
@@ -0,0 +1,268 @@
+/**
+ * ImportNotesDialog Component
+ *
+ * Purpose:
+ * Lets the user bring notes in from Markdown, HTML and zip files (e.g. an
+ * Obsidian vault or a Bear export) or Evernote .enex exports, and shows what
+ * happened to each file.
+ *
+ * Functionality:
+ * - Renders an "Import" button that opens a dialog.
+ * - Accepts multiple .md/.html/.zip files and a category for notes that aren't
+ *   inside a folder (top-level folders in zips become categories).
+ * - Uploads Markdown/HTML/zip files to /api/import and streams each .enex file
+ *   to /api/import/enex, then shows the combined per-file report
+ *   (imported / skipped / failed), linking to each imported note.
+ * - Calls `onImported` after notes were created so the board can refresh.
+ *
+ * Location: /components/import/import-notes-dialog.tsx
+ */
+"use client";
+
+import React, { useState, useRef } from 'react';
+import Link from 'next/link';
+import { Upload, Loader2, CheckCircle2, MinusCircle, XCircle, FileUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SelectCategory } from '@/db/schema';
+import type { ImportFileResult, ImportReport } from '@/types';
+import {
+  ENEX_EXTENSIONS,
+  IMPORT_ACCEPT,
+  MAX_ENEX_UPLOAD_MB,
+  MAX_IMPORT_UPLOAD_MB,
+  getFileExtension,
+  mergeImportReports,
+} from '@/lib/import';
+import { getNoteHref } from '@/lib/note-links';
+import { cn } from '@/lib/utils';
+
+interface ImportNotesDialogProps {
+  categories: SelectCategory[];
+  onImported: (report: ImportReport) => void;
+}
+
+const statusIcons: Record<ImportFileResult['status'], React.ReactNode> = {
+  imported: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+  skipped: <MinusCircle className="h-4 w-4 text-gray-400" />,
+  failed: <XCircle className="h-4 w-4 text-red-600" />,
+};
+
+const isEnexFile = (file: File) => ENEX_EXTENSIONS.includes(getFileExtension(file.name));
+
+// Sends one import request; a failed request becomes failed entries for its files
+async function requestImport(url: string, body: BodyInit, files: File[]): Promise<ImportReport> {
+  try {
+    const response = await fetch(url, { method: 'POST', body });
+    const result = await response.json();
+    if (response.ok) return result as ImportReport;
+    return {
+      files: files.map(file => ({ path: file.name, status: 'failed', message: result.error || 'The import failed' })),
+      importedCount: 0,
+      skippedCount: 0,
+      failedCount: files.length,
+      createdCategories: [],
+    };
+  } catch (requestError) {
+    console.error("Import request failed:", requestError);
+    return {
+      files: files.map(file => ({ path: file.name, status: 'failed', message: 'Check your connection and try again' })),
+      importedCount: 0,
+      skippedCount: 0,
+      failedCount: files.length,
+      createdCategories: [],
+    };
+  }
+}
+
+const ImportNotesDialog: React.FC<ImportNotesDialogProps> = ({ categories, onImported }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
+  const [categoryId, setCategoryId] = useState<string | undefined>(categories[0]?.id);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const totalMb = files.reduce((sum, file) => sum + file.size, 0) / (1024 * 1024);
+  const enexFiles = files.filter(isEnexFile);
+  const otherFiles = files.filter(file => !isEnexFile(file));
+
+  const reset = () => {
+    setFiles([]);
+    setError(null);
+    setReport(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (isImporting) return; // Keep the dialog up until the request finishes
+    setIsOpen(open);
+    if (!open) reset();
+  };
+
+  const handleImport = async () => {
+    if (files.length === 0 || !categoryId) return;
+    const otherMb = otherFiles.reduce((sum, file) => sum + file.size, 0) / (1024 * 1024);
+    if (otherMb > MAX_IMPORT_UPLOAD_MB) {
+      setError(`Markdown, HTML and zip imports are limited to ${MAX_IMPORT_UPLOAD_MB} MB. Split the files into smaller batches.`);
+      return;
+    }
+    const oversizedEnex = enexFiles.find(file => file.size > MAX_ENEX_UPLOAD_MB * 1024 * 1024);
+    if (oversizedEnex) {
+      setError(`${oversizedEnex.name} is larger than ${MAX_ENEX_UPLOAD_MB} MB. Export the notebook in smaller parts.`);
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const reports: ImportReport[] = [];
+      if (otherFiles.length > 0) {
+        const formData = new FormData();
+        formData.append('categoryId', categoryId);
+        otherFiles.forEach(file => formData.append('files', file));
+        reports.push(await requestImport('/api/import', formData, otherFiles));
+      }
+      // Evernote exports go one at a time as raw bodies so the server can stream them
+      for (const file of enexFiles) {
+        const params = new URLSearchParams({ categoryId, fileName: file.name });
+        reports.push(await requestImport(`/api/import/enex?${params}`, file, [file]));
+      }
+      const importReport = mergeImportReports(reports);
+      setReport(importReport);
+      if (importReport.importedCount > 0) {
+        onImported(importReport);
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-1" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import notes</DialogTitle>
+          <DialogDescription>
+            Upload Markdown (.md) or HTML files, a .zip of folders such as an Obsidian vault, or
+            Evernote exports (.enex). Top-level folders and notebooks become categories; titles,
+            tags and dates are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-700">
+              {report.importedCount} imported, {report.skippedCount} skipped, {report.failedCount} failed.
+              {report.createdCategories.length > 0 && (
+                <> New categories: {report.createdCategories.join(', ')}.</>
+              )}
+            </p>
+            <ScrollArea className="h-72 rounded-md border">
+              <ul className="divide-y">
+                {report.files.map((file, index) => (
+                  <li key={`${file.path}-${index}`} className="flex items-start gap-2 px-3 py-2 text-sm">
+                    <span className="mt-0.5 shrink-0">{statusIcons[file.status]}</span>
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate text-gray-900" title={file.path}>
+                        {file.noteId ? (
+                          <Link href={getNoteHref(file.noteId)} className="hover:text-blue-600 hover:underline">
+                            {file.title || file.path}
+                          </Link>
+                        ) : (
+                          file.title || file.path
+                        )}
+                      </div>
+                      <div className="truncate text-xs text-gray-500">
+                        {file.title ? file.path : null}
+                        {file.categoryName && <> → {file.categoryName}</>}
+                        {file.message && (
+                          <span className={cn(file.status === 'failed' && 'text-red-600')}>
+                            {file.title || file.categoryName ? ' · ' : ''}{file.message}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div
+              className="flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed border-gray-300 p-6 text-center hover:border-blue-300 cursor-pointer"
+              onClick={() => fileInputRef.current?.click()}
+              role="button"
+              tabIndex={0}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') fileInputRef.current?.click();
+              }}
+            >
+              <FileUp className="h-8 w-8 text-gray-400" />
+              <p className="text-sm text-gray-700">
+                {files.length > 0
+                  ? `${files.length} file(s) selected (${totalMb.toFixed(1)} MB)`
+                  : 'Click to choose files'}
+              </p>
+              <p className="text-xs text-gray-500">
+                .md, .html or .zip up to {MAX_IMPORT_UPLOAD_MB} MB in total; .enex up to {MAX_ENEX_UPLOAD_MB} MB each
+              </p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={IMPORT_ACCEPT}
+                className="hidden"
+                onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <label className="text-sm font-medium text-gray-700">Category for notes outside folders or notebooks</label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map(category => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <>
+              <Button variant="outline" onClick={reset}>Import more</Button>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </>
+          ) : (
+            <Button onClick={handleImport} disabled={isImporting || files.length === 0 || !categoryId}>
+              {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isImporting ? 'Importing...' : 'Import'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportNotesDialog;
@@ -0,0 +1,239 @@
+/**
+ * NoteAttachmentsPanel Component
+ *
+ * Purpose:
+ * Lists the files attached to a note and lets the user upload or delete them.
+ *
+ * Functionality:
+ * - Renders a "Files" button that opens a popover; the list (and the storage
+ *   used against the quota of the plan paying for the workspace) is reloaded every time it opens, so files
+ *   dropped into the editor show up too.
+ * - Uploads files picked with the "Upload" button via /api/attachments.
+ * - Opens attachments in a new tab; deletes them after a confirmation.
+ * - With `readOnly` (viewers of a shared note), only lists and opens them.
+ *
+ * Location: /components/note-details/note-attachments-panel.tsx
+ */
+"use client";
+
+import React, { useCallback, useRef, useState } from 'react';
+import { FileText, Image as ImageIcon, Loader2, Paperclip, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { deleteAttachmentAction, getNoteAttachmentsAction } from '@/actions/attachments-actions';
+import {
+  ATTACHMENT_ACCEPT,
+  AttachmentInfo,
+  AttachmentUsage,
+  formatFileSize,
+  getAttachmentUrl,
+  isImageAttachment,
+  uploadAttachment,
+  validateAttachmentFile,
+} from '@/lib/attachments';
+
+interface NoteAttachmentsPanelProps {
+  noteId: string;
+  readOnly?: boolean;
+}
+
+const NoteAttachmentsPanel: React.FC<NoteAttachmentsPanelProps> = ({ noteId, readOnly = false }) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [attachments, setAttachments] = useState<AttachmentInfo[]>([]);
+  const [usage, setUsage] = useState<AttachmentUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<AttachmentInfo | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const loadAttachments = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const result = await getNoteAttachmentsAction(noteId);
+    setIsLoading(false);
+    if (result.isSuccess && result.data) {
+      setAttachments(result.data.attachments);
+      setUsage(result.data.usage);
+    } else {
+      setError(result.message || 'Could not load attachments.');
+    }
+  }, [noteId]);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) loadAttachments();
+  };
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Allow picking the same file again
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    for (const file of files) {
+      const validationError = validateAttachmentFile(file);
+      if (validationError) {
+        toast({ title: "Upload Failed", description: validationError, variant: "destructive" });
+        continue;
+      }
+      try {
+        const attachment = await uploadAttachment(noteId, file);
+        setAttachments(prev => [...prev, attachment]);
+        setUsage(prev => (prev ? { ...prev, usedBytes: prev.usedBytes + attachment.size } : prev));
+      } catch (uploadError) {
+        toast({
+          title: "Upload Failed",
+          description: uploadError instanceof Error ? uploadError.message : `Could not upload "${file.name}".`,
+          variant: "destructive",
+        });
+      }
+    }
+    setIsUploading(false);
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    setIsDeleting(true);
+    const result = await deleteAttachmentAction(pendingDelete.id);
+    setIsDeleting(false);
+    if (result.isSuccess) {
+      setAttachments(prev => prev.filter(attachment => attachment.id !== pendingDelete.id));
+      setUsage(prev => (prev ? { ...prev, usedBytes: Math.max(0, prev.usedBytes - pendingDelete.size) } : prev));
+      toast({ title: "Attachment Deleted" });
+    } else {
+      toast({ title: "Delete Failed", description: result.message || "Could not delete the attachment.", variant: "destructive" });
+    }
+    setPendingDelete(null);
+  };
+
+  return (
+    <>
+      <Popover open={isOpen} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-1.5">
+            <Paperclip className="h-4 w-4" />
+            <span>Files</span>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-96 p-0">
+          <div className="flex items-center justify-between border-b px-4 py-3">
+            <h3 className="text-sm font-semibold text-gray-900">Attachments</h3>
+            {!readOnly && (
+              <>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading}
+                  className="h-7 gap-1.5 px-2 text-xs"
+                >
+                  {isUploading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Upload className="h-3.5 w-3.5" />}
+                  Upload
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={ATTACHMENT_ACCEPT}
+                  onChange={handleFilesSelected}
+                  className="hidden"
+                />
+              </>
+            )}
+          </div>
+
+          <div className="max-h-72 overflow-y-auto">
+            {isLoading && attachments.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+              </div>
+            ) : error ? (
+              <p className="px-4 py-3 text-sm text-red-600">{error}</p>
+            ) : attachments.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-gray-500">
+                {readOnly ? 'No files attached.' : 'No files yet. Upload one here, or drop or paste it into the note.'}
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {attachments.map(attachment => (
+                  <li key={attachment.id} className="flex items-center gap-3 px-4 py-2">
+                    {isImageAttachment(attachment.contentType) ? (
+                      <ImageIcon className="h-4 w-4 shrink-0 text-gray-400" />
+                    ) : (
+                      <FileText className="h-4 w-4 shrink-0 text-gray-400" />
+                    )}
+                    <a
+                      href={getAttachmentUrl(attachment.id)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="min-w-0 flex-1 truncate text-sm text-gray-900 hover:text-blue-600 hover:underline"
+                      title={attachment.fileName}
+                    >
+                      {attachment.fileName}
+                    </a>
+                    <span className="whitespace-nowrap text-xs text-gray-500">{formatFileSize(attachment.size)}</span>
+                    {!readOnly && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setPendingDelete(attachment)}
+                        aria-label={`Delete ${attachment.fileName}`}
+                        className="h-7 w-7 text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {usage && !readOnly && (
+            <div className="border-t px-4 py-3">
+              <Progress value={Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100)} className="h-1.5" />
+              <p className="mt-1.5 text-xs text-gray-500">
+                {formatFileSize(usage.usedBytes)} of {formatFileSize(usage.quotaBytes)} used
+              </p>
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => { if (!open) setPendingDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete attachment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{pendingDelete?.fileName}&quot; will be deleted permanently. Images and links to it in the
+              note will stop working.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isDeleting} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default NoteAttachmentsPanel;
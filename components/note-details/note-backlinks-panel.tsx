@@ -0,0 +1,92 @@
+/**
+ * NoteBacklinksPanel Component
+ *
+ * Purpose:
+ * Shows the "Linked from" list under a note: the other notes whose content
+ * contains a [[link]] to this one.
+ *
+ * Functionality:
+ * - Loads backlinks via getBacklinksAction when the note changes.
+ * - Lists each linking note with its last update date; clicking opens it.
+ *
+ * Location: /components/note-details/note-backlinks-panel.tsx
+ */
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Link2, Loader2 } from 'lucide-react';
+import { getBacklinksAction } from '@/actions/note-links-actions';
+import { SelectNote } from '@/db/schema';
+import { getNoteHref } from '@/lib/note-links';
+
+interface NoteBacklinksPanelProps {
+  noteId: string;
+}
+
+const NoteBacklinksPanel: React.FC<NoteBacklinksPanelProps> = ({ noteId }) => {
+  const [backlinks, setBacklinks] = useState<SelectNote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+    setError(null);
+    getBacklinksAction(noteId).then(result => {
+      if (isCancelled) return;
+      if (result.isSuccess && result.data) {
+        setBacklinks(result.data);
+      } else {
+        setError(result.message || 'Could not load backlinks.');
+      }
+      setIsLoading(false);
+    });
+    return () => { isCancelled = true; };
+  }, [noteId]);
+
+  return (
+    <section className="px-4 md:px-6 pb-6">
+      <div className="rounded-md border border-gray-200 bg-white p-4 shadow-sm">
+        <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold text-gray-700">
+          <Link2 className="h-4 w-4 text-gray-400" />
+          Linked from
+          {!isLoading && !error && (
+            <span className="font-normal text-gray-400">({backlinks.length})</span>
+          )}
+        </h2>
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Loading backlinks...
+          </div>
+        ) : error ? (
+          <p className="text-xs text-red-600">{error}</p>
+        ) : backlinks.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            No other notes link here yet. Type [[ in any note to link to this one.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {backlinks.map(backlink => (
+              <li key={backlink.id}>
+                <Link
+                  href={getNoteHref(backlink.id)}
+                  className="flex items-center justify-between gap-3 py-2 text-sm text-gray-800 hover:text-blue-600"
+                >
+                  <span className="truncate">{backlink.title}</span>
+                  <span className="shrink-0 text-xs text-gray-400">
+                    Updated {formatDistanceToNow(new Date(backlink.updatedAt), { addSuffix: true })}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default NoteBacklinksPanel;
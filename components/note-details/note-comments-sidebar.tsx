@@ -0,0 +1,392 @@
+/**
+ * NoteCommentsSidebar Component
+ *
+ * Purpose:
+ * Inline comment threads of a note, shown next to its editor.
+ *
+ * Functionality:
+ * - Selecting text shows a "Comment" bubble (for those who can edit the
+ *   note); the new thread is drafted here and, once saved, its passage is
+ *   marked with the Comment extension. The selection is tracked through edits
+ *   made while the draft is open, so the mark lands on the right text.
+ * - Lists open threads in the order of their passages, each with the quoted
+ *   text, its comments and a reply box. Threads whose text was deleted stay
+ *   listed, saying so.
+ * - Clicking a thread highlights and scrolls to its passage; clicking a
+ *   highlighted passage selects its thread (`activeThreadId`).
+ * - Resolving a thread hides it and its highlight; resolved threads are kept
+ *   and can be shown and reopened.
+ * - Everyone who can open the note can reply; resolving and reopening need
+ *   edit access (`canComment`).
+ *
+ * Location: /components/note-details/note-comments-sidebar.tsx
+ */
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BubbleMenu, type Editor } from '@tiptap/react';
+import type { Transaction } from '@tiptap/pm/state';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, Loader2, MessageSquare, MessageSquarePlus, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  getNoteCommentsAction,
+  replyToCommentThreadAction,
+  setCommentThreadResolvedAction,
+  startCommentThreadAction,
+} from '@/actions/note-comments-actions';
+import type { NoteComment } from '@/db/queries/note-comments-queries';
+import {
+  findCommentAnchor,
+  getAnchoredThreadIds,
+  setCommentThreadStates,
+} from '@/components/rich-text-editor/extensions/comment';
+import {
+  groupCommentThreads,
+  MAX_COMMENT_LENGTH,
+  normalizeCommentQuote,
+  NoteCommentThread,
+  validateCommentContent,
+} from '@/lib/note-comments';
+
+interface NoteCommentsSidebarProps {
+  noteId: string;
+  editor: Editor | null;
+  canComment: boolean; // Start, resolve and reopen threads
+  activeThreadId: string | null;
+  onActiveThreadChange: (threadId: string | null) => void;
+}
+
+const CommentBody: React.FC<{ comment: NoteComment }> = ({ comment }) => (
+  <div className="space-y-0.5">
+    <div className="flex items-baseline gap-2 text-xs">
+      <span className="truncate font-medium text-gray-900">{comment.authorEmail ?? 'Unknown user'}</span>
+      <span className="shrink-0 text-gray-400">
+        {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+      </span>
+    </div>
+    <p className="whitespace-pre-wrap break-words text-sm text-gray-700">{comment.content}</p>
+  </div>
+);
+
+const NoteCommentsSidebar: React.FC<NoteCommentsSidebarProps> = ({
+  noteId,
+  editor,
+  canComment,
+  activeThreadId,
+  onActiveThreadChange,
+}) => {
+  const { toast } = useToast();
+  const [comments, setComments] = useState<NoteComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [anchoredIds, setAnchoredIds] = useState<string[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [draftQuote, setDraftQuote] = useState<string | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [replyTexts, setReplyTexts] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null); // Thread being saved, or 'draft'
+  const draftRangeRef = useRef<{ from: number; to: number } | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+    setError(null);
+    getNoteCommentsAction(noteId).then(result => {
+      if (isCancelled) return;
+      if (result.isSuccess && result.data) {
+        setComments(result.data);
+      } else {
+        setError(result.message || 'Could not load comments.');
+      }
+      setIsLoading(false);
+    });
+    return () => { isCancelled = true; };
+  }, [noteId]);
+
+  // Follow the passages through edits: which threads still have text, and
+  // where the text of an open draft has moved to
+  useEffect(() => {
+    if (!editor) return;
+    const refreshAnchors = () => setAnchoredIds(getAnchoredThreadIds(editor));
+    const mapDraftRange = ({ transaction }: { transaction: Transaction }) => {
+      const range = draftRangeRef.current;
+      if (!range || !transaction.docChanged) return;
+      draftRangeRef.current = {
+        from: transaction.mapping.map(range.from, 1),
+        to: transaction.mapping.map(range.to, -1),
+      };
+    };
+    refreshAnchors();
+    editor.on('update', refreshAnchors);
+    editor.on('transaction', mapDraftRange);
+    return () => {
+      editor.off('update', refreshAnchors);
+      editor.off('transaction', mapDraftRange);
+    };
+  }, [editor]);
+
+  const threads = useMemo(() => groupCommentThreads(comments), [comments]);
+  const openThreads = useMemo(() => {
+    const order = (thread: NoteCommentThread) => {
+      const index = anchoredIds.indexOf(thread.comment.id);
+      return index === -1 ? Number.MAX_SAFE_INTEGER : index; // Threads without text last
+    };
+    return threads.filter(thread => !thread.comment.resolvedAt).sort((a, b) => order(a) - order(b));
+  }, [threads, anchoredIds]);
+  const resolvedThreads = threads.filter(thread => !!thread.comment.resolvedAt);
+
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    setCommentThreadStates(editor, openThreads.map(thread => thread.comment.id), activeThreadId);
+  }, [editor, openThreads, activeThreadId]);
+
+  const selectThread = (threadId: string) => {
+    onActiveThreadChange(threadId);
+    const anchor = editor && !editor.isDestroyed ? findCommentAnchor(editor, threadId) : null;
+    if (editor && anchor) {
+      editor.chain().setTextSelection(anchor.from).scrollIntoView().run();
+    }
+  };
+
+  const startDraft = () => {
+    if (!editor) return;
+    const { from, to } = editor.state.selection;
+    const quote = normalizeCommentQuote(editor.state.doc.textBetween(from, to, ' '));
+    if (!quote) {
+      toast({ title: "Can't Comment", description: "Select some text to comment on.", variant: "destructive" });
+      return;
+    }
+    draftRangeRef.current = { from, to };
+    setDraftQuote(quote);
+    setDraftText('');
+  };
+
+  const cancelDraft = () => {
+    draftRangeRef.current = null;
+    setDraftQuote(null);
+    setDraftText('');
+  };
+
+  const submitDraft = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draftQuote === null) return;
+    const validationError = validateCommentContent(draftText);
+    if (validationError) {
+      toast({ title: "Can't Comment", description: validationError, variant: "destructive" });
+      return;
+    }
+    setSavingId('draft');
+    const result = await startCommentThreadAction(noteId, draftQuote, draftText);
+    setSavingId(null);
+    if (!result.isSuccess || !result.data) {
+      toast({ title: "Comment Failed", description: result.message || "Could not save the comment.", variant: "destructive" });
+      return;
+    }
+    const thread = result.data;
+    const range = draftRangeRef.current;
+    if (editor && !editor.isDestroyed && range && range.from < range.to) {
+      editor.chain().setTextSelection(range).setComment(thread.id).run();
+    } else {
+      toast({ title: "Comment Saved", description: "The text you selected was removed meanwhile, so the comment isn't attached to any text." });
+    }
+    setComments(prev => [...prev, thread]);
+    cancelDraft();
+    onActiveThreadChange(thread.id);
+  };
+
+  const submitReply = async (threadId: string) => {
+    const content = replyTexts[threadId] ?? '';
+    const validationError = validateCommentContent(content);
+    if (validationError) {
+      toast({ title: "Can't Reply", description: validationError, variant: "destructive" });
+      return;
+    }
+    setSavingId(threadId);
+    const result = await replyToCommentThreadAction(threadId, content);
+    setSavingId(null);
+    if (result.isSuccess && result.data) {
+      const reply = result.data;
+      setComments(prev => [...prev, reply]);
+      setReplyTexts(prev => ({ ...prev, [threadId]: '' }));
+    } else {
+      toast({ title: "Reply Failed", description: result.message || "Could not save the reply.", variant: "destructive" });
+    }
+  };
+
+  const setResolved = async (threadId: string, resolved: boolean) => {
+    setSavingId(threadId);
+    const result = await setCommentThreadResolvedAction(threadId, resolved);
+    setSavingId(null);
+    if (result.isSuccess && result.data) {
+      const { resolvedAt, resolvedBy, updatedAt } = result.data;
+      setComments(prev => prev.map(comment => (comment.id === threadId ? { ...comment, resolvedAt, resolvedBy, updatedAt } : comment)));
+      if (resolved && activeThreadId === threadId) onActiveThreadChange(null);
+    } else {
+      toast({
+        title: resolved ? "Resolve Failed" : "Reopen Failed",
+        description: result.message || "Could not update the thread.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderThread = ({ comment, replies }: NoteCommentThread) => {
+    const isActive = activeThreadId === comment.id;
+    const isResolved = !!comment.resolvedAt;
+    const isAnchored = anchoredIds.includes(comment.id);
+    return (
+      <li
+        key={comment.id}
+        className={`rounded-md border bg-white p-3 shadow-sm transition-colors ${
+          isActive ? 'border-amber-400' : 'border-gray-200'
+        } ${isResolved ? 'opacity-70' : ''}`}
+      >
+        <button
+          type="button"
+          onClick={() => selectThread(comment.id)}
+          className="mb-2 block w-full text-left"
+          title={isAnchored ? 'Show in the note' : undefined}
+        >
+          <span className="line-clamp-2 border-l-2 border-amber-300 pl-2 text-xs italic text-gray-500">
+            {comment.quote}
+          </span>
+          {!isAnchored && (
+            <span className="mt-1 block text-xs text-gray-400">The commented text was removed.</span>
+          )}
+        </button>
+        <div className="space-y-3">
+          <CommentBody comment={comment} />
+          {replies.map(reply => (
+            <div key={reply.id} className="border-l border-gray-100 pl-3">
+              <CommentBody comment={reply} />
+            </div>
+          ))}
+        </div>
+        {isResolved ? (
+          canComment && (
+            <div className="mt-3 flex justify-end">
+              <Button variant="ghost" size="sm" onClick={() => setResolved(comment.id, false)} disabled={savingId === comment.id}>
+                <RotateCcw className="h-3.5 w-3.5 mr-1.5" />
+                Reopen
+              </Button>
+            </div>
+          )
+        ) : (
+          <form
+            onSubmit={(e) => { e.preventDefault(); void submitReply(comment.id); }}
+            className="mt-3 space-y-2"
+          >
+            <Textarea
+              value={replyTexts[comment.id] ?? ''}
+              onChange={(e) => setReplyTexts(prev => ({ ...prev, [comment.id]: e.target.value }))}
+              onFocus={() => onActiveThreadChange(comment.id)}
+              placeholder="Reply..."
+              aria-label="Reply"
+              rows={1}
+              maxLength={MAX_COMMENT_LENGTH}
+              className="min-h-[36px] text-sm"
+            />
+            <div className="flex justify-end gap-2">
+              {canComment && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => setResolved(comment.id, true)} disabled={savingId === comment.id}>
+                  <Check className="h-3.5 w-3.5 mr-1.5" />
+                  Resolve
+                </Button>
+              )}
+              <Button
+                type="submit"
+                variant="outline"
+                size="sm"
+                disabled={savingId === comment.id || !(replyTexts[comment.id] ?? '').trim()}
+              >
+                Reply
+              </Button>
+            </div>
+          </form>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <aside className="w-full shrink-0 lg:w-80" aria-label="Comments">
+      {editor && canComment && (
+        <BubbleMenu
+          editor={editor}
+          pluginKey="commentBubbleMenu"
+          shouldShow={({ editor: currentEditor, from, to }) =>
+            currentEditor.isEditable && from < to && !currentEditor.isActive('codeBlock')
+          }
+          tippyOptions={{ placement: 'top' }}
+        >
+          <Button variant="outline" size="sm" className="h-8 bg-white shadow-md" onClick={startDraft}>
+            <MessageSquarePlus className="h-4 w-4 mr-1.5" />
+            Comment
+          </Button>
+        </BubbleMenu>
+      )}
+
+      <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold text-gray-700">
+        <MessageSquare className="h-4 w-4" />
+        Comments
+        {openThreads.length > 0 && <span className="font-normal text-gray-400">{openThreads.length}</span>}
+      </h2>
+
+      {draftQuote !== null && (
+        <form onSubmit={submitDraft} className="mb-3 space-y-2 rounded-md border border-amber-400 bg-white p-3 shadow-sm">
+          <p className="line-clamp-2 border-l-2 border-amber-300 pl-2 text-xs italic text-gray-500">{draftQuote}</p>
+          <Textarea
+            value={draftText}
+            onChange={(e) => setDraftText(e.target.value)}
+            placeholder="Add a comment..."
+            aria-label="Comment"
+            rows={3}
+            maxLength={MAX_COMMENT_LENGTH}
+            className="text-sm"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={cancelDraft}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={savingId === 'draft' || !draftText.trim()}>
+              {savingId === 'draft' && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+              Comment
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : (
+        <>
+          {openThreads.length === 0 && draftQuote === null && (
+            <p className="text-sm text-gray-500">
+              {canComment ? 'No open comments. Select text in the note to start a thread.' : 'No open comments.'}
+            </p>
+          )}
+          <ul className="space-y-3">{openThreads.map(renderThread)}</ul>
+
+          {resolvedThreads.length > 0 && (
+            <div className="mt-4">
+              <Button variant="ghost" size="sm" className="px-0 text-gray-500" onClick={() => setShowResolved(prev => !prev)}>
+                {showResolved ? 'Hide' : 'Show'} resolved ({resolvedThreads.length})
+              </Button>
+              {showResolved && <ul className="mt-2 space-y-3">{resolvedThreads.map(renderThread)}</ul>}
+            </div>
+          )}
+        </>
+      )}
+    </aside>
+  );
+};
+
+export default NoteCommentsSidebar;
@@ -11,6 +11,24 @@
  * - Uses `initialContent` to set the editor's starting content.
  * - Calls `onContentChange` (passed from parent) when editor content is updated,
  *   allowing the parent to manage the content state and orchestrate saves.
+ * - Supports wiki-style `[[` links to the user's other notes (NoteLink extension),
+ *   showing each link with the target's current title.
+ * - Typing `/` opens a command menu (SlashCommand extension) for inserting
+ *   headings, lists, task lists, quotes, code blocks, dividers, tables,
+ *   callouts, date stamps and the user's snippets.
+ * - Engineering-notes formatting: underline, text alignment, links (with an
+ *   edit bubble), inline images, tables and syntax-highlighted code blocks
+ *   with a language picker. The server sanitizes saved HTML to this schema.
+ * - Files dropped or pasted into the editor are uploaded as attachments:
+ *   images are inserted inline, other files as a link to the download.
+ * - With `collaboration`, the content is bound to the note's shared Yjs
+ *   document instead of `initialContent`, and the other editors' cursors are
+ *   shown. The collaboration server saves the content; `onContentChange` still
+ *   reports it for the header's counts and the history panel.
+ * - With `readOnly` (viewers of a shared note), the content is shown without
+ *   the toolbar and can't be changed.
+ * - Shows the note's comment threads beside the content (NoteCommentsSidebar);
+ *   their passages are marked with the Comment extension.
  * 
  * Location: /components/note-details/note-editor.tsx
  */
@@ -22,7 +40,39 @@ import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
 import { Color } from '@tiptap/extension-color';
 import TextStyle from '@tiptap/extension-text-style';
+import TaskList from '@tiptap/extension-task-list';
+import TaskItem from '@tiptap/extension-task-item';
+import Table from '@tiptap/extension-table';
+import TableRow from '@tiptap/extension-table-row';
+import TableHeader from '@tiptap/extension-table-header';
+import TableCell from '@tiptap/extension-table-cell';
+import Underline from '@tiptap/extension-underline';
+import TextAlign from '@tiptap/extension-text-align';
+import Link from '@tiptap/extension-link';
+import Image from '@tiptap/extension-image';
+import Collaboration from '@tiptap/extension-collaboration';
+import CollaborationCursor from '@tiptap/extension-collaboration-cursor';
 import RichTextToolbar from '@/components/rich-text-editor/RichTextToolbar';
+import LinkBubbleMenu from '@/components/rich-text-editor/LinkBubbleMenu';
+import { NoteLink, NoteLinkTarget, setNoteLinkTitles } from '@/components/rich-text-editor/extensions/note-link';
+import { createNoteLinkSuggestion } from '@/components/rich-text-editor/extensions/note-link-suggestion';
+import { Callout } from '@/components/rich-text-editor/extensions/callout';
+import { CodeBlock } from '@/components/rich-text-editor/extensions/code-block';
+import { SlashCommandExtension } from '@/components/rich-text-editor/extensions/slash-command';
+import { CommentMark } from '@/components/rich-text-editor/extensions/comment';
+import { getSlashCommands, type SlashCommand } from '@/components/rich-text-editor/slash-commands';
+import { getWorkspaceNotesAction } from '@/actions/notes-actions';
+import { getSnippetsAction } from '@/actions/snippets-actions';
+import NoteCommentsSidebar from '@/components/note-details/note-comments-sidebar';
+import { useToast } from '@/components/ui/use-toast';
+import { COLLABORATION_FIELD } from '@/lib/collaboration';
+import type { NoteCollaboration } from '@/components/note-details/use-note-collaboration';
+import {
+  getAttachmentUrl,
+  isImageAttachment,
+  uploadAttachment,
+  validateAttachmentFile,
+} from '@/lib/attachments';
 // updateNoteAction is no longer called directly from here.
 
 interface NoteEditorProps {
@@ -30,6 +80,10 @@ interface NoteEditorProps {
   initialContent: string;
   categoryColor?: string;
   onContentChange: (htmlContent: string) => void; // Mandatory callback
+  onOpenNoteLink: (targetNoteId: string, htmlContent: string) => void; // Clicked a [[link]]; gets the latest content so it can be saved first
+  collaboration?: NoteCollaboration | null; // Live editing session, once synced
+  externalContentVersion?: number; // Bumped when `initialContent` replaces the shared content (e.g. a version restore)
+  readOnly?: boolean;
 }
 
 const CONTENT_UPDATE_DEBOUNCE_DELAY = 750; // ms to wait after typing stops to call onContentChange
@@ -38,9 +92,20 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
   noteId, 
   initialContent, 
   categoryColor,
-  onContentChange 
+  onContentChange,
+  onOpenNoteLink,
+  collaboration,
+  externalContentVersion = 0,
+  readOnly = false,
 }) => {
   const updateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const linkTargetsRef = useRef<NoteLinkTarget[]>([]); // Notes offered by the [[ suggestion
+  const slashCommandsRef = useRef<SlashCommand[]>(getSlashCommands([])); // Snippets are added once loaded
+  const onOpenNoteLinkRef = useRef(onOpenNoteLink);
+  onOpenNoteLinkRef.current = onOpenNoteLink;
+  const uploadFilesRef = useRef<(files: File[], position?: number) => void>(() => {});
+  const [activeCommentThreadId, setActiveCommentThreadId] = useState<string | null>(null);
+  const { toast } = useToast();
 
   // Callback to inform parent of content change, debounced
   const debouncedNotifyParentOfChange = useCallback(
@@ -52,20 +117,82 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
   );
 
   const editor = useEditor({
+    editable: !readOnly,
     extensions: [
-      StarterKit,
+      StarterKit.configure({
+        codeBlock: false, // Replaced by the highlighted CodeBlock
+        ...(collaboration ? { history: false } : {}), // Collaboration brings its own undo history
+      }),
       TextStyle,
       Color,
+      Underline,
+      TextAlign.configure({ types: ['heading', 'paragraph'] }),
+      Link.configure({
+        openOnClick: false, // Links are opened from the link bubble instead
+        autolink: true,
+        defaultProtocol: 'https',
+        protocols: ['mailto', 'tel'],
+      }),
+      Image.configure({ inline: true }),
+      CodeBlock,
+      TaskList,
+      TaskItem.configure({ nested: true }),
+      Table,
+      TableRow,
+      TableHeader,
+      TableCell,
+      Callout,
       Placeholder.configure({
-        placeholder: 'Start typing your note here...',
+        placeholder: 'Start typing your note here... Type / for blocks or [[ to link another note.',
+      }),
+      SlashCommandExtension.configure({
+        getCommands: () => slashCommandsRef.current,
       }),
+      NoteLink.configure({
+        onNavigate: (targetNoteId) => {
+          if (updateTimeoutRef.current) {
+            clearTimeout(updateTimeoutRef.current);
+            updateTimeoutRef.current = null;
+          }
+          const html = editorRef.current?.getHTML() ?? '';
+          onContentChange(html);
+          onOpenNoteLinkRef.current(targetNoteId, html);
+        },
+        suggestion: createNoteLinkSuggestion(() => linkTargetsRef.current),
+      }),
+      CommentMark.configure({
+        onSelectThread: setActiveCommentThreadId,
+      }),
+      ...(collaboration
+        ? [
+            Collaboration.configure({ document: collaboration.doc, field: COLLABORATION_FIELD }),
+            CollaborationCursor.configure({ provider: collaboration.provider, user: collaboration.user }),
+          ]
+        : []),
     ],
-    content: initialContent, // Set initial content
+    // In a live session the content comes from the shared document
+    content: collaboration ? undefined : initialContent,
     editorProps: {
       attributes: {
         class: 
           'prose prose-sm sm:prose lg:prose-lg xl:prose-xl max-w-none w-full h-full bg-white focus:outline-none p-5 min-h-[calc(100vh-300px)]',
       },
+      // Files dropped into the editor are uploaded and inserted where they were dropped
+      handleDrop: (view, event, _slice, moved) => {
+        const files = Array.from(event.dataTransfer?.files ?? []);
+        if (moved || files.length === 0) return false;
+        event.preventDefault();
+        const coordinates = view.posAtCoords({ left: event.clientX, top: event.clientY });
+        uploadFilesRef.current(files, coordinates?.pos);
+        return true;
+      },
+      handlePaste: (_view, event) => {
+        const files = Array.from(event.clipboardData?.files ?? []);
+        if (files.length === 0) return false;
+        event.preventDefault();
+        uploadFilesRef.current(files);
+        return true;
+      },
     },
     onUpdate: ({ editor: currentEditor }) => {
       const html = currentEditor.getHTML();
@@ -74,28 +201,112 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
         clearTimeout(updateTimeoutRef.current);
       }
       updateTimeoutRef.current = setTimeout(() => {
+        updateTimeoutRef.current = null;
         debouncedNotifyParentOfChange(html);
       }, CONTENT_UPDATE_DEBOUNCE_DELAY);
     },
-    // onBlur: ({ editor: currentEditor }) => { // Alternative: update parent on blur
-    //   const html = currentEditor.getHTML();
-    //   onContentChange(html);
-    //   if (updateTimeoutRef.current) clearTimeout(updateTimeoutRef.current); // Clear timeout if blur happens
-    // }
-  });
+    // Flush immediately on blur so clicking "All Notes" or "Move to Trash"
+    // right after typing doesn't lose the last keystrokes
+    onBlur: ({ editor: currentEditor }) => {
+      if (!updateTimeoutRef.current) return;
+      clearTimeout(updateTimeoutRef.current);
+      updateTimeoutRef.current = null;
+      debouncedNotifyParentOfChange(currentEditor.getHTML());
+    },
+  }, [collaboration?.provider, readOnly]); // A new session needs a new editor bound to its document
 
   // Effect to update editor content if initialContent prop changes from parent
   // This is important if the parent component might provide new initialContent
   // after the editor has already initialized (e.g. after a save and re-fetch).
   useEffect(() => {
-    if (editor && editor.isEditable) {
+    if (collaboration) return; // Other editors' changes arrive through the shared document
+    if (editor && (editor.isEditable || readOnly)) {
       const currentEditorContent = editor.getHTML();
       if (initialContent !== currentEditorContent) {
         // console.log("NoteEditor: initialContent prop changed. Updating editor content.");
         editor.commands.setContent(initialContent, false); // false to avoid triggering onUpdate again
       }
     }
-  }, [initialContent, editor]);
+  }, [initialContent, editor, collaboration, readOnly]);
+
+  // In a live session `initialContent` is only pushed into the shared document
+  // when the parent says it was replaced, so everyone gets the new content
+  const appliedContentVersionRef = useRef(externalContentVersion);
+  useEffect(() => {
+    if (!editor || !collaboration || appliedContentVersionRef.current === externalContentVersion) return;
+    appliedContentVersionRef.current = externalContentVersion;
+    editor.commands.setContent(initialContent, false);
+  }, [externalContentVersion, initialContent, editor, collaboration]);
+
+  const editorRef = useRef<Editor | null>(null);
+  editorRef.current = editor;
+
+  // Uploads dropped/pasted files one by one, inserting each once it is stored
+  uploadFilesRef.current = async (files, position) => {
+    let insertAt = position;
+    for (const file of files) {
+      const validationError = validateAttachmentFile(file);
+      if (validationError) {
+        toast({ title: "Upload Failed", description: validationError, variant: "destructive" });
+        continue;
+      }
+      try {
+        const attachment = await uploadAttachment(noteId, file);
+        const currentEditor = editorRef.current;
+        if (!currentEditor || currentEditor.isDestroyed) return;
+        const src = getAttachmentUrl(attachment.id);
+        const content = isImageAttachment(attachment.contentType)
+          ? { type: 'image', attrs: { src, alt: attachment.fileName } }
+          : { type: 'text', text: attachment.fileName, marks: [{ type: 'link', attrs: { href: src } }] };
+        const target = insertAt !== undefined && insertAt <= currentEditor.state.doc.content.size
+          ? insertAt
+          : currentEditor.state.selection.from;
+        currentEditor.chain().focus().insertContentAt(target, [content, { type: 'text', text: ' ' }]).run();
+        insertAt = undefined; // Later files follow at the cursor, after this one
+      } catch (uploadError) {
+        toast({
+          title: "Upload Failed",
+          description: uploadError instanceof Error ? uploadError.message : `Could not upload "${file.name}".`,
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  // Load the user's notes for [[ suggestions and current link titles
+  useEffect(() => {
+    if (!editor) return;
+    let isCancelled = false;
+    getWorkspaceNotesAction().then(result => {
+      if (isCancelled || editor.isDestroyed) return;
+      if (!result.isSuccess || !result.data) {
+        console.error("NoteEditor: failed to load notes for links:", result.message);
+        return;
+      }
+      linkTargetsRef.current = result.data
+        .filter(note => note.id !== noteId)
+        .map(note => ({ id: note.id, title: note.title }));
+      setNoteLinkTitles(
+        editor,
+        Object.fromEntries(result.data.map(note => [note.id, note.title]))
+      );
+    });
+    return () => { isCancelled = true; };
+  }, [editor, noteId]);
+
+  // Load the user's snippets for the / menu
+  useEffect(() => {
+    let isCancelled = false;
+    getSnippetsAction().then(result => {
+      if (isCancelled) return;
+      if (!result.isSuccess || !result.data) {
+        console.error("NoteEditor: failed to load snippets:", result.message);
+        return;
+      }
+      slashCommandsRef.current = getSlashCommands(result.data);
+    });
+    return () => { isCancelled = true; };
+  }, []);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -114,12 +325,13 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
   };
 
   return (
-    <div className="p-4 md:p-6 flex-grow bg-transparent">
+    <div className="p-4 md:p-6 flex-grow bg-transparent flex flex-col gap-4 lg:flex-row lg:items-start">
       <div 
-        className="w-full h-full bg-white flex flex-col shadow-md"
+        className="w-full h-full min-w-0 flex-1 bg-white flex flex-col shadow-md"
         style={editorWrapperStyle}
       >
-        <RichTextToolbar editor={editor as Editor | null}/>
+        {!readOnly && <RichTextToolbar editor={editor as Editor | null}/>}
+        {editor && !readOnly && <LinkBubbleMenu editor={editor} />}
         <div className="relative flex-grow p-2 bg-white">
           <div 
             className="absolute inset-2 border-2 border-dashed border-gray-300 rounded pointer-events-none"
@@ -130,6 +342,13 @@ const NoteEditor: React.FC<NoteEditorProps> = ({
           </div>
         </div>
       </div>
+      <NoteCommentsSidebar
+        noteId={noteId}
+        editor={editor}
+        canComment={!readOnly}
+        activeThreadId={activeCommentThreadId}
+        onActiveThreadChange={setActiveCommentThreadId}
+      />
     </div>
   );
 };
@@ -3,48 +3,215 @@
  * 
  * Purpose:
  * Displays the header section for the note detail page. This includes the note title,
- * category information, creation date, and a back button that triggers save.
+ * category information, creation date, autosave status, and a back button.
  * 
  * Functionality:
  * - Shows the note's title (controlled by parent).
  * - Displays the category as a colored pill/badge.
  * - Shows the note's creation date, formatted nicely.
- * - Provides a "Back" button that calls a parent-provided save and navigation function.
+ * - Shows a live word and character count with the estimated reading time.
+ * - Shows the note's tags with an input to add/remove them (NoteTagsInput).
+ * - Shows the autosave status (saved, saving, unsaved, offline, conflict, failed),
+ *   with conflict resolution and retry controls.
+ * - Provides a "Back" button that flushes pending changes before navigating.
+ * - Opens the version history panel for comparing and restoring earlier versions.
+ * - Pins the note or marks it as a favourite via a parent-provided callback.
+ * - Moves the note to the trash via a parent-provided callback.
+ * - Exports the note as a Markdown file via a parent-provided callback.
+ * - Lists, uploads and deletes the note's file attachments (NoteAttachmentsPanel).
+ * - During live editing, shows the avatars of the others who have the note
+ *   open and whether the connection to the collaboration server is up.
+ * - Shares the note with other people by email (NoteShareDialog).
+ * - Publishes the note as a public read-only page, with an optional expiry
+ *   date and password (NotePublishDialog).
+ * - Adapts to the user's `role`: pinning, favouriting, sharing, publishing,
+ *   tags and the trash are for the owner only; editors of a shared note can
+ *   change its title, content and files; viewers only read it. Non-owners see
+ *   a badge saying the note is shared with them.
  * 
  * Location:
  * /components/note-details/note-header.tsx
  */
 "use client";
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 // useRouter is not used here anymore directly for back navigation
-import { ArrowLeft, Edit3, Save, Loader2 } from 'lucide-react'; // Added Loader2 for saving state
+import { ArrowLeft, Edit3, Save, Loader2, Trash2, Check, CloudOff, AlertTriangle, RotateCw, Download, Pin, Star, Radio, Users } from 'lucide-react'; // Added Loader2 for saving state
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { SelectNote, SelectCategory } from '@/db/schema';
+import type { NoteFlags } from '@/db/queries/notes-queries';
+import NoteHistoryPanel from './note-history-panel';
+import NoteAttachmentsPanel from './note-attachments-panel';
+import NoteTagsInput from './note-tags-input';
+import NoteShareDialog from './note-share-dialog';
+import NotePublishDialog from './note-publish-dialog';
+import type { AutosaveStatus } from './use-note-autosave';
+import { formatReadingTime, getNoteStats } from '@/lib/note-stats';
+import type { CollaboratorPresence } from '@/lib/collaboration';
+import type { CollaborationStatus } from '@/lib/collaboration-provider';
+import { canEditNote, NOTE_SHARE_ROLES, type NoteRole } from '@/lib/note-sharing';
 // updateNoteAction is no longer called directly from here for title saving
 
 // Exporting the props interface
 export interface NoteHeaderProps {
   note: SelectNote; // Original note data for display (created/updated dates)
   category: SelectCategory | null | undefined;
+  role: NoteRole; // The user's relation to the note; decides which controls are shown
   currentTitle: string; // Controlled title from parent
   onTitleChange: (newTitle: string) => void; // Callback to update parent's title state
-  onSaveAndNavigateBack: () => Promise<void>; // Callback to save and navigate
-  isSaving: boolean; // To show loading state on back button if needed
+  currentContent: string; // Controlled content from parent, compared against history
+  onVersionRestored: (restoredNote: SelectNote) => void; // Callback after a history restore
+  onNavigateBack: () => Promise<void>; // Callback to flush pending changes and navigate
+  onToggleFlag: (flag: keyof NoteFlags) => void; // Pin/unpin or (un)favourite the note; the parent updates `note`
+  onMoveToTrash: () => Promise<void>; // Callback to trash the note and leave the page
+  onExport: () => Promise<void>; // Callback to save pending changes and download the note as Markdown
+  isLeaving: boolean; // To show loading state on back button while leaving the page
+  saveStatus: AutosaveStatus; // Current autosave state
+  onRetrySave: () => void; // Retry after a failed save
+  onResolveConflict: (resolution: 'keep-mine' | 'load-theirs') => void; // Resolve a save conflict
+  collaborators?: CollaboratorPresence[]; // Others editing live; undefined outside a live session
+  collaborationStatus?: CollaborationStatus;
 }
 
+const MAX_SHOWN_COLLABORATORS = 4;
+
+const getInitials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('') || '?';
+
+// Live editing connection plus the avatars of everyone else in the note
+const CollaboratorsIndicator: React.FC<{ collaborators: CollaboratorPresence[]; status?: CollaborationStatus }> = ({
+  collaborators,
+  status,
+}) => {
+  const shown = collaborators.slice(0, MAX_SHOWN_COLLABORATORS);
+  const hiddenCount = collaborators.length - shown.length;
+  return (
+    <span className="flex items-center gap-2">
+      {status === 'connected' ? (
+        <span className="flex items-center gap-1.5 text-xs text-green-600" title="Edits are shared live">
+          <Radio className="h-3.5 w-3.5" />
+          Live
+        </span>
+      ) : (
+        <span className="flex items-center gap-1.5 text-xs text-amber-600" title="Your edits are kept and shared once reconnected">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Reconnecting...
+        </span>
+      )}
+      {shown.length > 0 && (
+        <span className="flex -space-x-2">
+          {shown.map(collaborator => (
+            <Avatar
+              key={collaborator.userId}
+              className="h-7 w-7 border-2"
+              style={{ borderColor: collaborator.color }}
+              title={`${collaborator.name} is editing`}
+            >
+              {collaborator.avatarUrl && <AvatarImage src={collaborator.avatarUrl} alt={collaborator.name} />}
+              <AvatarFallback className="text-[10px] text-white" style={{ backgroundColor: collaborator.color }}>
+                {getInitials(collaborator.name)}
+              </AvatarFallback>
+            </Avatar>
+          ))}
+          {hiddenCount > 0 && (
+            <span
+              className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-white bg-gray-200 text-[10px] text-gray-700"
+              title={collaborators.slice(MAX_SHOWN_COLLABORATORS).map(collaborator => collaborator.name).join(', ')}
+            >
+              +{hiddenCount}
+            </span>
+          )}
+        </span>
+      )}
+    </span>
+  );
+};
+
+// Renders the autosave state next to the back button
+const SaveStatusIndicator: React.FC<Pick<NoteHeaderProps, 'saveStatus' | 'onRetrySave' | 'onResolveConflict'>> = ({
+  saveStatus,
+  onRetrySave,
+  onResolveConflict,
+}) => {
+  switch (saveStatus) {
+    case 'saving':
+      return (
+        <span className="flex items-center gap-1.5 text-xs text-gray-500">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Saving...
+        </span>
+      );
+    case 'unsaved':
+      return <span className="text-xs text-gray-500">Unsaved changes</span>;
+    case 'offline':
+      return (
+        <span className="flex items-center gap-1.5 text-xs text-amber-600" title="Changes will be saved when you're back online">
+          <CloudOff className="h-3.5 w-3.5" />
+          Offline
+        </span>
+      );
+    case 'conflict':
+      return (
+        <span className="flex items-center gap-2 text-xs text-amber-700">
+          <AlertTriangle className="h-3.5 w-3.5" />
+          Changed elsewhere
+          <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => onResolveConflict('keep-mine')}>
+            Keep mine
+          </Button>
+          <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => onResolveConflict('load-theirs')}>
+            Load theirs
+          </Button>
+        </span>
+      );
+    case 'error':
+      return (
+        <span className="flex items-center gap-2 text-xs text-red-600">
+          <AlertTriangle className="h-3.5 w-3.5" />
+          Save failed
+          <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={onRetrySave}>
+            <RotateCw className="h-3 w-3 mr-1" />
+            Retry
+          </Button>
+        </span>
+      );
+    default:
+      return (
+        <span className="flex items-center gap-1.5 text-xs text-gray-400">
+          <Check className="h-3.5 w-3.5" />
+          Saved
+        </span>
+      );
+  }
+};
+
 const NoteHeader: React.FC<NoteHeaderProps> = ({ 
   note, 
   category, 
+  role,
   currentTitle, 
   onTitleChange, 
-  onSaveAndNavigateBack,
-  isSaving 
+  currentContent,
+  onVersionRestored,
+  onNavigateBack,
+  onToggleFlag,
+  onMoveToTrash,
+  onExport,
+  isLeaving,
+  saveStatus,
+  onRetrySave,
+  onResolveConflict,
+  collaborators,
+  collaborationStatus,
 }) => {
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const stats = useMemo(() => getNoteStats(currentContent), [currentContent]);
+  const isOwner = role === 'owner';
+  const canEdit = canEditNote(role);
+  const roleLabel = NOTE_SHARE_ROLES.find(shareRole => shareRole.value === role)?.label;
 
   // Effect to focus input when editing starts
   useEffect(() => {
@@ -65,22 +232,22 @@ const NoteHeader: React.FC<NoteHeaderProps> = ({
     onTitleChange(event.target.value); // Update parent state
   };
 
-  // This function is now primarily for UI state, actual save is handled by parent
+  // This function is only for UI state, autosave persists the title
   const handleTitleEditConfirm = () => {
     // if (!currentTitle.trim()) {
     //   // Optionally, revert to original note title if empty, parent will handle validation
     //   onTitleChange(note.title); 
     // }
     setIsEditingTitle(false);
-    // The actual save of title will happen via onSaveAndNavigateBack or other parent logic
   };
 
   const handleTitleClick = () => {
+    if (!canEdit) return;
     setIsEditingTitle(true);
   };
 
   const handleInputBlur = () => {
-    // Confirm edit (which just stops editing UI state). Parent handles save.
+    // Confirm edit (which just stops editing UI state). Autosave handles saving.
     handleTitleEditConfirm();
   };
   
@@ -95,21 +262,95 @@ const NoteHeader: React.FC<NoteHeaderProps> = ({
 
   return (
     <div className="p-4 md:p-6 sticky top-0 z-10 bg-white border-b border-gray-200">
-      <div className="mb-4">
-        <Button 
-          variant="ghost" 
-          size="sm" 
-          onClick={onSaveAndNavigateBack} // Changed to call the new handler
-          disabled={isSaving} // Disable button while saving/navigating
-          className="flex items-center space-x-2 text-gray-600 hover:text-gray-900"
-        >
-          {isSaving ? (
-            <Loader2 className="h-4 w-4 animate-spin" />
-          ) : (
-            <ArrowLeft className="h-4 w-4" />
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            onClick={onNavigateBack}
+            disabled={isLeaving} // Disable button while saving/navigating
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900"
+          >
+            {isLeaving ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <ArrowLeft className="h-4 w-4" />
+            )}
+            <span>All Notes</span>
+          </Button>
+          {canEdit && (
+            <SaveStatusIndicator
+              saveStatus={saveStatus}
+              onRetrySave={onRetrySave}
+              onResolveConflict={onResolveConflict}
+            />
+          )}
+          {!isOwner && (
+            <Badge variant="outline" className="flex items-center gap-1.5 text-xs font-normal text-gray-600">
+              <Users className="h-3.5 w-3.5" />
+              Shared with you · {roleLabel}
+            </Badge>
+          )}
+          {collaborators && <CollaboratorsIndicator collaborators={collaborators} status={collaborationStatus} />}
+        </div>
+        <div className="flex items-center gap-2">
+          {isOwner && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onToggleFlag('pinned')}
+                aria-pressed={note.pinned}
+                className={note.pinned ? 'text-blue-600 hover:text-blue-700' : 'text-gray-500 hover:text-gray-900'}
+                title={note.pinned ? 'Unpin' : 'Pin to the top of its category'}
+              >
+                <Pin className={`h-4 w-4 ${note.pinned ? 'fill-current' : ''}`} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onToggleFlag('favorite')}
+                aria-pressed={note.favorite}
+                className={note.favorite ? 'text-amber-500 hover:text-amber-600' : 'text-gray-500 hover:text-gray-900'}
+                title={note.favorite ? 'Remove from favourites' : 'Add to favourites'}
+              >
+                <Star className={`h-4 w-4 ${note.favorite ? 'fill-current' : ''}`} />
+              </Button>
+              <NoteShareDialog noteId={note.id} noteTitle={currentTitle} />
+              <NotePublishDialog noteId={note.id} />
+            </>
           )}
-          <span>{isSaving ? 'Saving & Exiting...' : 'All Notes'}</span>
-        </Button>
+          <NoteAttachmentsPanel noteId={note.id} readOnly={!canEdit} />
+          <NoteHistoryPanel
+            noteId={note.id}
+            currentTitle={currentTitle}
+            currentContent={currentContent}
+            onRestored={onVersionRestored}
+            readOnly={!canEdit}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onExport}
+            className="flex items-center gap-1.5 text-gray-600 hover:text-gray-900"
+            title="Download this note as Markdown"
+          >
+            <Download className="h-4 w-4" />
+            <span>Export</span>
+          </Button>
+          {isOwner && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onMoveToTrash}
+              disabled={isLeaving}
+              className="flex items-center gap-1.5 text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>Move to Trash</span>
+            </Button>
+          )}
+        </div>
       </div>
       
       <div className="flex items-center gap-x-2 mb-4">
@@ -124,7 +365,7 @@ const NoteHeader: React.FC<NoteHeaderProps> = ({
               className="text-2xl md:text-3xl font-bold text-gray-900 flex-grow h-auto py-1.5"
               placeholder="Note Title"
             />
-            {/* Save button for title is less critical if save-on-back is primary */}
+            {/* Confirms the edit; autosave persists the title */}
             <Button onClick={handleTitleEditConfirm} size="icon" variant="ghost" className="text-green-600 hover:text-green-700">
               <Save className="h-5 w-5" />
             </Button>
@@ -132,13 +373,13 @@ const NoteHeader: React.FC<NoteHeaderProps> = ({
         ) : (
           <h1 
             onClick={handleTitleClick} 
-            className="text-2xl md:text-3xl font-bold text-gray-900 truncate cursor-pointer hover:text-blue-600 transition-colors"
-            title="Click to edit title"
+            className={`text-2xl md:text-3xl font-bold text-gray-900 truncate ${canEdit ? 'cursor-pointer hover:text-blue-600 transition-colors' : ''}`}
+            title={canEdit ? 'Click to edit title' : undefined}
           >
             {currentTitle.trim() || "Untitled Note"} {/* Display placeholder if empty */}
           </h1>
         )}
-        {!isEditingTitle && (
+        {!isEditingTitle && canEdit && (
           <Button onClick={handleTitleClick} variant="ghost" size="icon" className="text-gray-500 hover:text-gray-700 ml-1">
             <Edit3 className="h-4 w-4" />
           </Button>
@@ -167,6 +408,16 @@ const NoteHeader: React.FC<NoteHeaderProps> = ({
         {note.updatedAt && note.updatedAt.getTime() !== note.createdAt.getTime() && (
           <span className="whitespace-nowrap">Updated: {formatDate(note.updatedAt)}</span>
         )}
+        <span className="whitespace-nowrap" aria-live="polite">
+          {stats.wordCount.toLocaleString('en-US')} {stats.wordCount === 1 ? 'word' : 'words'}
+          {' · '}
+          {stats.charCount.toLocaleString('en-US')} {stats.charCount === 1 ? 'character' : 'characters'}
+          {stats.readingMinutes > 0 && ` · ${formatReadingTime(stats.readingMinutes)}`}
+        </span>
+      </div>
+
+      <div className="mt-3">
+        <NoteTagsInput noteId={note.id} readOnly={!isOwner} />
       </div>
     </div>
   );
@@ -0,0 +1,219 @@
+/**
+ * NoteHistoryPanel Component
+ *
+ * Purpose:
+ * Lets the user browse earlier versions of a note, compare one with the
+ * current text side by side, and restore it with one click.
+ *
+ * Functionality:
+ * - Renders a "History" button that opens a side sheet.
+ * - Loads the note's versions via getNoteVersionsAction when opened.
+ * - Shows a line-based side-by-side diff (selected version vs. current text).
+ * - Restores the selected version via restoreNoteVersionAction and hands the
+ *   updated note back to the parent through `onRestored`. With `readOnly`
+ *   (viewers of a shared note), versions can be compared but not restored.
+ *
+ * Location: /components/note-details/note-history-panel.tsx
+ */
+"use client";
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { useToast } from '@/components/ui/use-toast';
+import { getNoteVersionsAction, restoreNoteVersionAction } from '@/actions/note-versions-actions';
+import { SelectNote, SelectNoteVersion } from '@/db/schema';
+import { diffLines, DiffRow } from '@/lib/diff';
+import { htmlToPlainTextLines } from '@/lib/html-text';
+import { cn } from '@/lib/utils';
+
+interface NoteHistoryPanelProps {
+  noteId: string;
+  currentTitle: string;
+  currentContent: string;
+  onRestored: (note: SelectNote) => void;
+  readOnly?: boolean;
+}
+
+const rowStyles: Record<DiffRow['type'], { left: string; right: string }> = {
+  unchanged: { left: '', right: '' },
+  removed: { left: 'bg-red-50 text-red-800', right: 'bg-gray-50' },
+  added: { left: 'bg-gray-50', right: 'bg-green-50 text-green-800' },
+  changed: { left: 'bg-red-50 text-red-800', right: 'bg-green-50 text-green-800' },
+};
+
+const NoteHistoryPanel: React.FC<NoteHistoryPanelProps> = ({
+  noteId,
+  currentTitle,
+  currentContent,
+  onRestored,
+  readOnly = false,
+}) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [versions, setVersions] = useState<SelectNoteVersion[]>([]);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const result = await getNoteVersionsAction(noteId);
+    if (result.isSuccess && result.data) {
+      setVersions(result.data);
+      setSelectedVersionId(result.data[0]?.id ?? null);
+    } else {
+      setError(result.message || 'Could not load note history.');
+    }
+    setIsLoading(false);
+  }, [noteId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadVersions();
+    }
+  }, [isOpen, loadVersions]);
+
+  const selectedVersion = versions.find(version => version.id === selectedVersionId) ?? null;
+
+  const diffRows = useMemo(() => {
+    if (!selectedVersion) return [];
+    return diffLines(
+      htmlToPlainTextLines(selectedVersion.content),
+      htmlToPlainTextLines(currentContent)
+    );
+  }, [selectedVersion, currentContent]);
+
+  const handleRestore = async () => {
+    if (!selectedVersion) return;
+    setIsRestoring(true);
+    const result = await restoreNoteVersionAction(noteId, selectedVersion.id);
+    setIsRestoring(false);
+    if (result.isSuccess && result.data) {
+      onRestored(result.data);
+      toast({
+        title: 'Version Restored',
+        description: 'The note now matches the selected version.',
+      });
+      setIsOpen(false);
+    } else {
+      toast({
+        title: 'Restore Failed',
+        description: result.message || 'Could not restore this version.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-1.5">
+          <History className="h-4 w-4" />
+          <span>History</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="w-full sm:max-w-5xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Version History</SheetTitle>
+          <SheetDescription>
+            Earlier versions are saved automatically when a save overwrites the note.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex flex-grow items-center justify-center text-gray-500">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading history...
+          </div>
+        ) : error ? (
+          <div className="text-red-500 text-center p-4 bg-red-50 rounded-md">{error}</div>
+        ) : versions.length === 0 ? (
+          <div className="flex flex-grow items-center justify-center text-sm text-gray-500">
+            No earlier versions yet. They appear after the note is edited and saved.
+          </div>
+        ) : (
+          <div className="flex flex-grow gap-4 min-h-0">
+            {/* Version list */}
+            <ScrollArea className="w-56 flex-shrink-0 border rounded-md">
+              <ul className="p-1">
+                {versions.map(version => (
+                  <li key={version.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedVersionId(version.id)}
+                      className={cn(
+                        'w-full text-left px-3 py-2 rounded text-sm transition-colors',
+                        version.id === selectedVersionId ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'
+                      )}
+                    >
+                      <div className="font-medium truncate">{version.title || 'Untitled Note'}</div>
+                      <div className="text-xs text-gray-500" title={new Date(version.createdAt).toLocaleString()}>
+                        {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+
+            {/* Side-by-side diff */}
+            {selectedVersion && (
+              <div className="flex flex-col flex-grow min-w-0">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="text-sm text-gray-600">
+                    {selectedVersion.title !== currentTitle && (
+                      <span>
+                        Title: <span className="line-through text-red-700">{selectedVersion.title}</span>{' '}
+                        → <span className="text-green-700">{currentTitle}</span>
+                      </span>
+                    )}
+                  </div>
+                  {!readOnly && (
+                    <Button size="sm" onClick={handleRestore} disabled={isRestoring}>
+                      {isRestoring ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                      )}
+                      Restore this version
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 text-xs font-medium text-gray-500 border-b pb-1">
+                  <span className="px-2">Selected version</span>
+                  <span className="px-2">Current</span>
+                </div>
+                <ScrollArea className="flex-grow border rounded-md mt-1">
+                  <div className="text-sm font-mono">
+                    {diffRows.length === 0 ? (
+                      <p className="p-3 text-gray-500">Both versions are empty.</p>
+                    ) : (
+                      diffRows.map((row, index) => (
+                        <div key={index} className="grid grid-cols-2 border-b last:border-b-0">
+                          <div className={cn('px-2 py-1 whitespace-pre-wrap break-words border-r', rowStyles[row.type].left)}>
+                            {row.left ?? ''}
+                          </div>
+                          <div className={cn('px-2 py-1 whitespace-pre-wrap break-words', rowStyles[row.type].right)}>
+                            {row.right ?? ''}
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default NoteHistoryPanel;
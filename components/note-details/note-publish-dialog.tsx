@@ -0,0 +1,252 @@
+/**
+ * NotePublishDialog Component
+ *
+ * Purpose:
+ * Lets a note's owner publish it as a public read-only page and manage it.
+ *
+ * Functionality:
+ * - Renders a "Publish" button (highlighted while the note is published) that
+ *   opens a dialog; the publication is reloaded every time it opens.
+ * - Publishes and unpublishes with a switch; unpublished pages 404 at once.
+ * - Shows the page's URL with copy and open buttons.
+ * - Sets an optional expiry date (the page stops working after that day) and
+ *   an optional password visitors must enter; saving keeps the same URL.
+ *
+ * Location: /components/note-details/note-publish-dialog.tsx
+ */
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Copy, ExternalLink, Globe, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  getNotePublicationAction,
+  publishNoteAction,
+  unpublishNoteAction,
+} from '@/actions/note-publications-actions';
+import {
+  getPublishedNotePath,
+  MAX_PUBLISH_PASSWORD_LENGTH,
+  NotePublicationInfo,
+  PublishSettings,
+  validatePublishSettings,
+} from '@/lib/note-publishing';
+
+interface NotePublishDialogProps {
+  noteId: string;
+}
+
+// yyyy-mm-dd in local time, as <input type="date"> expects
+const toDateInputValue = (date: Date | null) => {
+  if (!date) return '';
+  const value = new Date(date);
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+};
+
+// The page stays up through the whole chosen day
+const fromDateInputValue = (value: string) => (value ? new Date(`${value}T23:59:59`) : null);
+
+const NotePublishDialog: React.FC<NotePublishDialogProps> = ({ noteId }) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [publication, setPublication] = useState<NotePublicationInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [expiryDate, setExpiryDate] = useState('');
+  const [requirePassword, setRequirePassword] = useState(false);
+  const [newPassword, setNewPassword] = useState('');
+
+  const applyPublication = useCallback((info: NotePublicationInfo | null) => {
+    setPublication(info);
+    setExpiryDate(toDateInputValue(info?.expiresAt ?? null));
+    setRequirePassword(!!info?.hasPassword);
+    setNewPassword('');
+  }, []);
+
+  const loadPublication = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getNotePublicationAction(noteId);
+    setIsLoading(false);
+    if (result.isSuccess) {
+      applyPublication(result.data ?? null);
+    } else {
+      toast({ title: "Couldn't Load Publishing", description: result.message, variant: "destructive" });
+    }
+  }, [noteId, applyPublication, toast]);
+
+  // Known up front so the button can show whether the note is published
+  useEffect(() => {
+    void loadPublication();
+  }, [loadPublication]);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) void loadPublication();
+  };
+
+  const buildSettings = (): PublishSettings | string => {
+    const settings: PublishSettings = { expiresAt: fromDateInputValue(expiryDate) };
+    if (!requirePassword) {
+      settings.password = null;
+    } else if (newPassword) {
+      settings.password = newPassword;
+    } else if (!publication?.hasPassword) {
+      return 'Enter a password, or turn the password off.';
+    }
+    return validatePublishSettings(settings) ?? settings;
+  };
+
+  const save = async () => {
+    const settings = buildSettings();
+    if (typeof settings === 'string') {
+      toast({ title: "Can't Publish", description: settings, variant: "destructive" });
+      return;
+    }
+    setIsSaving(true);
+    const result = await publishNoteAction(noteId, settings);
+    setIsSaving(false);
+    if (result.isSuccess && result.data) {
+      applyPublication(result.data);
+      toast({ title: result.message });
+    } else {
+      toast({ title: "Can't Publish", description: result.message || "Could not publish the note.", variant: "destructive" });
+    }
+  };
+
+  const handleTogglePublished = async (published: boolean) => {
+    if (published) {
+      await save();
+      return;
+    }
+    setIsSaving(true);
+    const result = await unpublishNoteAction(noteId);
+    setIsSaving(false);
+    if (result.isSuccess) {
+      applyPublication(null);
+      toast({ title: "Note Unpublished", description: "The public page no longer works." });
+    } else {
+      toast({ title: "Unpublish Failed", description: result.message || "Could not unpublish the note.", variant: "destructive" });
+    }
+  };
+
+  const publicUrl = publication && typeof window !== 'undefined'
+    ? `${window.location.origin}${getPublishedNotePath(publication.slug)}`
+    : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(publicUrl);
+      toast({ title: "Link Copied" });
+    } catch {
+      toast({ title: "Copy Failed", description: "Select the link and copy it instead.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={`flex items-center gap-1.5 ${publication ? 'border-green-300 bg-green-50 text-green-700' : ''}`}
+        >
+          <Globe className="h-4 w-4" />
+          <span>{publication ? 'Published' : 'Publish'}</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Publish to the web</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can read a published note without signing in. They always see its latest saved version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && !publication ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="publish-switch">Published</Label>
+              <Switch
+                id="publish-switch"
+                checked={!!publication}
+                onCheckedChange={handleTogglePublished}
+                disabled={isSaving}
+              />
+            </div>
+
+            {publication && (
+              <div className="flex items-center gap-2">
+                <Input value={publicUrl} readOnly aria-label="Public link" onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy link">
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" asChild aria-label="Open public page">
+                  <a href={publicUrl} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                </Button>
+              </div>
+            )}
+
+            <div className="space-y-1.5">
+              <Label htmlFor="publish-expiry">Expires after</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="publish-expiry"
+                  type="date"
+                  value={expiryDate}
+                  min={toDateInputValue(new Date())}
+                  onChange={(e) => setExpiryDate(e.target.value)}
+                  className="w-44"
+                />
+                {expiryDate && (
+                  <Button variant="ghost" size="sm" onClick={() => setExpiryDate('')}>
+                    Never expire
+                  </Button>
+                )}
+              </div>
+              {!expiryDate && <p className="text-xs text-gray-500">The page stays up until you unpublish it.</p>}
+            </div>
+
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="publish-password-switch">Require a password</Label>
+                <Switch id="publish-password-switch" checked={requirePassword} onCheckedChange={setRequirePassword} />
+              </div>
+              {requirePassword && (
+                <Input
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  placeholder={publication?.hasPassword ? 'Leave empty to keep the current password' : 'Password'}
+                  aria-label="Page password"
+                  maxLength={MAX_PUBLISH_PASSWORD_LENGTH}
+                  autoComplete="new-password"
+                />
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={save} disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {publication ? 'Save settings' : 'Publish'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NotePublishDialog;
@@ -0,0 +1,214 @@
+/**
+ * NoteShareDialog Component
+ *
+ * Purpose:
+ * Lets a note's owner share it with other people as viewers or editors.
+ *
+ * Functionality:
+ * - Renders a "Share" button that opens a dialog; the list of people the note
+ *   is shared with is reloaded every time it opens.
+ * - Invites someone by email with a role via shareNoteAction. Emails without
+ *   an account yet are listed as pending until that person signs up.
+ * - Changes a person's role or removes their access, optimistically with a
+ *   rollback and toast if saving fails.
+ *
+ * Location: /components/note-details/note-share-dialog.tsx
+ */
+"use client";
+
+import React, { useCallback, useState } from 'react';
+import { Loader2, Trash2, UserPlus, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  getNoteSharesAction,
+  removeNoteShareAction,
+  shareNoteAction,
+  updateNoteShareRoleAction,
+} from '@/actions/note-shares-actions';
+import type { NoteShareRole, SelectNoteShare } from '@/db/schema';
+import { isNoteShareRole, normalizeShareEmail, NOTE_SHARE_ROLES, validateShareEmail } from '@/lib/note-sharing';
+
+interface NoteShareDialogProps {
+  noteId: string;
+  noteTitle: string;
+}
+
+const RoleSelect: React.FC<{
+  value: NoteShareRole;
+  onChange: (role: NoteShareRole) => void;
+  label: string;
+  disabled?: boolean;
+}> = ({ value, onChange, label, disabled }) => (
+  <Select
+    value={value}
+    onValueChange={(next) => { if (isNoteShareRole(next)) onChange(next); }}
+    disabled={disabled}
+  >
+    <SelectTrigger className="h-8 w-28 text-xs" aria-label={label}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {NOTE_SHARE_ROLES.map(role => (
+        <SelectItem key={role.value} value={role.value} title={role.description}>
+          {role.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const NoteShareDialog: React.FC<NoteShareDialogProps> = ({ noteId, noteTitle }) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [shares, setShares] = useState<SelectNoteShare[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<NoteShareRole>('viewer');
+  const [isSharing, setIsSharing] = useState(false);
+
+  const loadShares = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const result = await getNoteSharesAction(noteId);
+    setIsLoading(false);
+    if (result.isSuccess && result.data) {
+      setShares(result.data);
+    } else {
+      setError(result.message || 'Could not load who this note is shared with.');
+    }
+  }, [noteId]);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) loadShares();
+  };
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateShareEmail(normalizeShareEmail(email));
+    if (validationError) {
+      toast({ title: "Can't Share", description: validationError, variant: "destructive" });
+      return;
+    }
+    setIsSharing(true);
+    const result = await shareNoteAction(noteId, email, role);
+    setIsSharing(false);
+    if (result.isSuccess && result.data) {
+      const savedShare = result.data;
+      setShares(prev =>
+        prev.some(share => share.id === savedShare.id)
+          ? prev.map(share => (share.id === savedShare.id ? savedShare : share))
+          : [...prev, savedShare]
+      );
+      setEmail('');
+      toast({ title: "Note Shared", description: result.message });
+    } else {
+      toast({ title: "Can't Share", description: result.message || "Could not share the note.", variant: "destructive" });
+    }
+  };
+
+  const handleRoleChange = async (share: SelectNoteShare, nextRole: NoteShareRole) => {
+    if (share.role === nextRole) return;
+    setShares(prev => prev.map(item => (item.id === share.id ? { ...item, role: nextRole } : item)));
+    const result = await updateNoteShareRoleAction(share.id, nextRole);
+    if (!result.isSuccess) {
+      setShares(prev => prev.map(item => (item.id === share.id ? { ...item, role: share.role } : item)));
+      toast({ title: "Update Failed", description: result.message || "Could not change their access.", variant: "destructive" });
+    }
+  };
+
+  const handleRemove = async (share: SelectNoteShare) => {
+    const previousShares = shares;
+    setShares(prev => prev.filter(item => item.id !== share.id));
+    const result = await removeNoteShareAction(share.id);
+    if (!result.isSuccess) {
+      setShares(previousShares);
+      toast({ title: "Remove Failed", description: result.message || "Could not remove their access.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-1.5">
+          <Users className="h-4 w-4" />
+          <span>Share</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share &quot;{noteTitle.trim() || 'Untitled Note'}&quot;</DialogTitle>
+          <DialogDescription>
+            Viewers can read the note; editors can also change its title and content.
+            People without an account get access once they sign up with the email you invite.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleShare} className="flex items-center gap-2">
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="name@example.com"
+            aria-label="Email to share with"
+            maxLength={320}
+          />
+          <RoleSelect value={role} onChange={setRole} label="Role for the invite" />
+          <Button type="submit" variant="outline" disabled={isSharing || !email.trim()}>
+            {isSharing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+            Invite
+          </Button>
+        </form>
+
+        <div className="max-h-72 overflow-y-auto">
+          {isLoading && shares.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : error ? (
+            <p className="py-3 text-sm text-red-600">{error}</p>
+          ) : shares.length === 0 ? (
+            <p className="py-6 text-center text-sm text-gray-500">Only you can see this note.</p>
+          ) : (
+            <ul className="divide-y">
+              {shares.map(share => (
+                <li key={share.id} className="flex items-center gap-3 py-2">
+                  <span className="min-w-0 flex-1 truncate text-sm text-gray-900" title={share.granteeEmail}>
+                    {share.granteeEmail}
+                  </span>
+                  {!share.granteeUserId && (
+                    <Badge variant="outline" className="text-xs text-gray-500" title="Gets access when they sign up">
+                      Pending
+                    </Badge>
+                  )}
+                  <RoleSelect
+                    value={share.role}
+                    onChange={(nextRole) => handleRoleChange(share, nextRole)}
+                    label={`Role for ${share.granteeEmail}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemove(share)}
+                    aria-label={`Stop sharing with ${share.granteeEmail}`}
+                    className="h-7 w-7 text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NoteShareDialog;
@@ -0,0 +1,200 @@
+/**
+ * NoteTagsInput Component
+ *
+ * Purpose:
+ * Shows the tags on a note and lets the user add or remove them, with
+ * autocomplete from the tags they already use.
+ *
+ * Functionality:
+ * - Loads the note's tags via getNoteTagsAction, and the user's existing tags
+ *   via getTagsAction the first time the input is focused.
+ * - Adds a tag on Enter, Tab or comma (or by picking a suggestion); Backspace
+ *   in an empty input removes the last tag; arrow keys move through suggestions.
+ * - Saves every change immediately via setNoteTagsAction, rolling back on failure.
+ * - With `readOnly` (notes shared with the user), only lists the tags.
+ *
+ * Location: /components/note-details/note-tags-input.tsx
+ */
+"use client";
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Loader2, Tag } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { getNoteTagsAction, getTagsAction, setNoteTagsAction } from '@/actions/tags-actions';
+import TagChip from '@/components/tags/tag-chip';
+import { MAX_TAGS_PER_NOTE, normalizeTagName } from '@/lib/tags';
+import { cn } from '@/lib/utils';
+
+const MAX_SUGGESTIONS = 8;
+
+interface NoteTagsInputProps {
+  noteId: string;
+  readOnly?: boolean; // Tags belong to the note's owner; others can only see them
+}
+
+const NoteTagsInput: React.FC<NoteTagsInputProps> = ({ noteId, readOnly = false }) => {
+  const { toast } = useToast();
+  const [tagNames, setTagNames] = useState<string[]>([]);
+  const [knownTagNames, setKnownTagNames] = useState<string[] | null>(null); // null until loaded
+  const [inputValue, setInputValue] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1); // -1 until the user arrows into the list
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+    getNoteTagsAction(noteId).then(result => {
+      if (isCancelled) return;
+      if (result.isSuccess && result.data) {
+        setTagNames(result.data.map(tag => tag.name));
+      } else {
+        console.error("Failed to load note tags:", result.message);
+      }
+      setIsLoading(false);
+    });
+    return () => { isCancelled = true; };
+  }, [noteId]);
+
+  const loadKnownTags = async () => {
+    if (knownTagNames !== null) return;
+    const result = await getTagsAction();
+    setKnownTagNames(result.isSuccess && result.data ? result.data.map(tag => tag.name) : []);
+  };
+
+  const suggestions = useMemo(() => {
+    const query = normalizeTagName(inputValue);
+    return (knownTagNames ?? [])
+      .filter(name => !tagNames.includes(name) && (!query || name.includes(query)))
+      .sort((a, b) => Number(!a.startsWith(query)) - Number(!b.startsWith(query)))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [inputValue, knownTagNames, tagNames]);
+
+  const saveTags = async (nextTagNames: string[]) => {
+    const previousTagNames = tagNames;
+    setTagNames(nextTagNames); // Optimistic update
+    const result = await setNoteTagsAction(noteId, nextTagNames);
+    if (result.isSuccess && result.data) {
+      const savedNames = result.data.map(tag => tag.name);
+      setTagNames(savedNames);
+      setKnownTagNames(prev => (prev === null ? prev : Array.from(new Set([...prev, ...savedNames])).sort()));
+    } else {
+      setTagNames(previousTagNames);
+      toast({
+        title: "Tags Not Saved",
+        description: result.message || "Could not update the tags on this note.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addTag = (rawName: string) => {
+    const name = normalizeTagName(rawName);
+    setInputValue('');
+    setHighlightedIndex(-1);
+    if (!name || tagNames.includes(name)) return;
+    if (tagNames.length >= MAX_TAGS_PER_NOTE) {
+      toast({
+        title: "Too Many Tags",
+        description: `A note can have at most ${MAX_TAGS_PER_NOTE} tags.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    void saveTags([...tagNames, name]);
+  };
+
+  const removeTag = (name: string) => {
+    void saveTags(tagNames.filter(tagName => tagName !== name));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    const showingSuggestions = isFocused && suggestions.length > 0;
+    if (event.key === 'ArrowDown' && showingSuggestions) {
+      event.preventDefault();
+      setHighlightedIndex(index => (index + 1) % suggestions.length);
+    } else if (event.key === 'ArrowUp' && showingSuggestions) {
+      event.preventDefault();
+      setHighlightedIndex(index => (index <= 0 ? suggestions.length : index) - 1);
+    } else if (event.key === 'Enter' || event.key === ',' || (event.key === 'Tab' && inputValue.trim())) {
+      event.preventDefault();
+      // Only a suggestion the user arrowed to replaces what they typed
+      const highlighted = showingSuggestions && event.key !== ',' ? suggestions[highlightedIndex] : undefined;
+      addTag(highlighted ?? inputValue);
+    } else if (event.key === 'Backspace' && !inputValue && tagNames.length > 0) {
+      removeTag(tagNames[tagNames.length - 1]);
+    } else if (event.key === 'Escape') {
+      setInputValue('');
+      inputRef.current?.blur();
+    }
+  };
+
+  return (
+    <div className="relative flex flex-wrap items-center gap-1.5">
+      <Tag className="h-3.5 w-3.5 text-gray-400" />
+      {isLoading ? (
+        <Loader2 className="h-3.5 w-3.5 animate-spin text-gray-400" />
+      ) : (
+        tagNames.map(name => (
+          <TagChip key={name} name={name} onRemove={readOnly ? undefined : () => removeTag(name)} />
+        ))
+      )}
+      {readOnly && !isLoading && tagNames.length === 0 && (
+        <span className="text-xs text-gray-400">No tags</span>
+      )}
+      {!readOnly && (
+        <input
+          ref={inputRef}
+          value={inputValue}
+          onChange={(e) => {
+            setInputValue(e.target.value);
+            setHighlightedIndex(-1);
+          }}
+          onFocus={() => {
+            setIsFocused(true);
+            void loadKnownTags();
+          }}
+          onBlur={() => {
+            setIsFocused(false);
+            if (inputValue.trim()) addTag(inputValue);
+          }}
+          onKeyDown={handleKeyDown}
+          disabled={isLoading}
+          placeholder={tagNames.length === 0 ? 'Add tags...' : 'Add tag'}
+          className="min-w-[6rem] flex-1 bg-transparent text-xs text-gray-700 placeholder:text-gray-400 focus:outline-none"
+          aria-label="Add tag"
+          aria-autocomplete="list"
+        />
+      )}
+      {isFocused && suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute left-0 top-full z-30 mt-1 w-56 rounded-md border border-gray-200 bg-white py-1 shadow-md"
+        >
+          {suggestions.map((name, index) => (
+            <li
+              key={name}
+              role="option"
+              aria-selected={index === highlightedIndex}
+              // onMouseDown so the pick happens before the input's blur
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(name);
+              }}
+              onMouseEnter={() => setHighlightedIndex(index)}
+              className={cn(
+                'cursor-pointer px-3 py-1.5 text-xs text-gray-700',
+                index === highlightedIndex && 'bg-blue-50 text-blue-700'
+              )}
+            >
+              #{name}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default NoteTagsInput;
@@ -0,0 +1,218 @@
+/**
+ * useNoteAutosave Hook
+ *
+ * Purpose:
+ * Continuously persists a note's title and content while the user edits it.
+ *
+ * Functionality:
+ * - Debounces changes and saves them with updateNoteAction.
+ * - Sends the last-seen `updatedAt` with each save so stale writes are
+ *   rejected with a conflict instead of clobbering edits from another tab.
+ * - Tracks a status ("saved", "saving", "unsaved", "offline", "conflict", "error")
+ *   for display in NoteHeader.
+ * - Retries when the browser comes back online, flushes when the tab is
+ *   hidden or the page unmounts, and warns before unloading with unsaved changes.
+ * - With `collaborative`, only the title is saved: the collaboration server
+ *   writes the content, and the title is saved without a conflict check since
+ *   the server's saves keep moving `updatedAt`.
+ *
+ * Location: /components/note-details/use-note-autosave.ts
+ */
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { updateNoteAction } from '@/actions/notes-actions';
+import { SelectNote } from '@/db/schema';
+
+export type AutosaveStatus = "saved" | "saving" | "unsaved" | "offline" | "conflict" | "error";
+
+const AUTOSAVE_DEBOUNCE_DELAY = 1000; // ms to wait after the last change before saving
+
+interface UseNoteAutosaveOptions {
+  note: SelectNote; // Last note state known to be saved on the server
+  title: string;
+  content: string;
+  onSaved: (savedNote: SelectNote) => void;
+  collaborative?: boolean; // The content is saved by the collaboration server
+}
+
+interface SavedState {
+  title: string;
+  content: string;
+  updatedAt: Date;
+}
+
+export function useNoteAutosave({ note, title, content, onSaved, collaborative = false }: UseNoteAutosaveOptions) {
+  const [status, setStatus] = useState<AutosaveStatus>("saved");
+  const [conflictingNote, setConflictingNote] = useState<SelectNote | null>(null);
+
+  const savedRef = useRef<SavedState>({ title: note.title, content: note.content || '', updatedAt: note.updatedAt });
+  const latestRef = useRef({ title, content });
+  const inFlightRef = useRef<Promise<boolean> | null>(null);
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const inConflictRef = useRef(false);
+  const onSavedRef = useRef(onSaved);
+  const collaborativeRef = useRef(collaborative);
+
+  latestRef.current = { title, content };
+  onSavedRef.current = onSaved;
+  collaborativeRef.current = collaborative;
+
+  const isDirty = useCallback(() => {
+    const latest = latestRef.current;
+    return (
+      latest.title.trim() !== savedRef.current.title ||
+      (!collaborativeRef.current && latest.content !== savedRef.current.content)
+    );
+  }, []);
+
+  /**
+   * Saves pending changes now. `latest` lets callers pass edits that haven't
+   * reached React state yet (e.g. editor content flushed right before leaving).
+   */
+  const save = useCallback(async (latest?: Partial<{ title: string; content: string }>): Promise<boolean> => {
+    if (latest) {
+      latestRef.current = { ...latestRef.current, ...latest };
+    }
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    // Saves run one at a time so each carries the updatedAt of the previous one
+    while (inFlightRef.current) {
+      await inFlightRef.current;
+    }
+    if (inConflictRef.current) return false; // Wait for the user to resolve it
+    if (!isDirty()) {
+      setStatus("saved");
+      return true;
+    }
+
+    const isCollaborative = collaborativeRef.current;
+    const pending = isCollaborative
+      ? { title: latestRef.current.title.trim() }
+      : { title: latestRef.current.title.trim(), content: latestRef.current.content };
+    if (!pending.title) {
+      setStatus("unsaved"); // An empty title can't be saved; keep the edits locally
+      return false;
+    }
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      setStatus("offline");
+      return false;
+    }
+
+    setStatus("saving");
+    const run = (async () => {
+      try {
+        const result = await updateNoteAction(note.id, pending, {
+          expectedUpdatedAt: isCollaborative ? undefined : savedRef.current.updatedAt,
+        });
+        if (result.isSuccess && result.data) {
+          savedRef.current = { ...savedRef.current, ...pending, updatedAt: result.data.updatedAt };
+          onSavedRef.current(result.data);
+          setStatus(isDirty() ? "unsaved" : "saved");
+          return true;
+        }
+        if (result.code === "conflict") {
+          inConflictRef.current = true;
+          setConflictingNote(result.data ?? null);
+          setStatus("conflict");
+          return false;
+        }
+        console.error("Autosave failed:", result.message);
+        setStatus("error");
+        return false;
+      } catch (error) {
+        // Server action calls throw when the request itself fails
+        console.error("Autosave request failed:", error);
+        setStatus(typeof navigator !== 'undefined' && !navigator.onLine ? "offline" : "error");
+        return false;
+      }
+    })();
+
+    inFlightRef.current = run;
+    const ok = await run;
+    inFlightRef.current = null;
+    // Edits made while this save was in flight get their own save
+    if (ok && isDirty() && !timerRef.current) {
+      timerRef.current = setTimeout(() => { void save(); }, AUTOSAVE_DEBOUNCE_DELAY);
+    }
+    return ok;
+  }, [note.id, isDirty]);
+
+  // Debounce a save after every change
+  useEffect(() => {
+    if (inConflictRef.current || !isDirty()) return;
+    setStatus(prev => (prev === "offline" ? prev : "unsaved"));
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => { void save(); }, AUTOSAVE_DEBOUNCE_DELAY);
+  }, [title, content, isDirty, save]);
+
+  // Connectivity, tab visibility, and unload handling
+  useEffect(() => {
+    const handleOnline = () => { if (isDirty()) void save(); };
+    const handleOffline = () => { if (isDirty()) setStatus("offline"); };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden' && isDirty()) void save();
+    };
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (isDirty() || inFlightRef.current) {
+        event.preventDefault();
+        event.returnValue = '';
+      }
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+    };
+  }, [isDirty, save]);
+
+  // Flush on unmount (e.g. navigating away through the sidebar)
+  useEffect(() => {
+    return () => {
+      if (isDirty()) void save();
+    };
+  }, [isDirty, save]);
+
+  /**
+   * Records a note state that is now on the server without going through
+   * autosave (e.g. after a version restore), so it isn't treated as a conflict.
+   */
+  const markSaved = useCallback((savedNote: SelectNote) => {
+    savedRef.current = {
+      title: savedNote.title,
+      content: savedNote.content || '',
+      updatedAt: savedNote.updatedAt,
+    };
+    inConflictRef.current = false;
+    setConflictingNote(null);
+    setStatus("saved");
+  }, []);
+
+  /**
+   * Resolves a conflict by writing the local edits over the newer server copy.
+   */
+  const overwriteConflict = useCallback(async () => {
+    if (!conflictingNote) return;
+    savedRef.current = { ...savedRef.current, updatedAt: conflictingNote.updatedAt };
+    inConflictRef.current = false;
+    setConflictingNote(null);
+    await save();
+  }, [conflictingNote, save]);
+
+  return {
+    status,
+    conflictingNote, // Newer server copy while status is "conflict"
+    save,
+    markSaved,
+    overwriteConflict,
+    isDirty,
+  };
+}
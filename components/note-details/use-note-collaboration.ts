@@ -0,0 +1,135 @@
+/**
+ * useNoteCollaboration Hook
+ *
+ * Purpose:
+ * Connects the note page to the collaboration server for live editing.
+ *
+ * Functionality:
+ * - Creates the note's Yjs document and a NoteCollaborationProvider for it,
+ *   authenticated with the signed-in user's Clerk session token.
+ * - Shares the user's name, avatar and cursor color through awareness and
+ *   returns everyone else who has the note open (`collaborators`).
+ * - `collaboration` is set once the note's content has arrived from the server.
+ *   Until then `isPending` is true; it stays null when live editing isn't
+ *   configured (NEXT_PUBLIC_COLLAB_URL), when the server refuses the note, or
+ *   when it can't be reached before the first sync, so the page falls back to
+ *   saving through autosave. With `enabled` false (viewers of a shared note)
+ *   it never connects.
+ *
+ * Location: /components/note-details/use-note-collaboration.ts
+ */
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import * as Y from 'yjs';
+import { useAuth, useUser } from '@clerk/nextjs';
+import {
+  CollaboratorPresence,
+  getCollaborationUrl,
+  getPresenceColor,
+} from '@/lib/collaboration';
+import {
+  CollaborationStatus,
+  createNoteCollaborationProvider,
+  NoteCollaborationProvider,
+} from '@/lib/collaboration-provider';
+
+const FIRST_SYNC_TIMEOUT = 8000; // ms before giving up on a server that never answered
+
+export interface NoteCollaboration {
+  doc: Y.Doc;
+  provider: NoteCollaborationProvider;
+  user: CollaboratorPresence; // This user, as the others see them
+  status: CollaborationStatus;
+  collaborators: CollaboratorPresence[]; // Everyone else with the note open, one entry per user
+}
+
+export function useNoteCollaboration(noteId: string, enabled = true): {
+  collaboration: NoteCollaboration | null;
+  isPending: boolean; // Still waiting to find out whether live editing works
+} {
+  const { getToken } = useAuth();
+  const { user: clerkUser } = useUser();
+  const collaborationUrl = enabled ? getCollaborationUrl() : null;
+  const getTokenRef = useRef(getToken);
+  getTokenRef.current = getToken;
+
+  const [session, setSession] = useState<{ doc: Y.Doc; provider: NoteCollaborationProvider } | null>(null);
+  const [status, setStatus] = useState<CollaborationStatus>('connecting');
+  const [isSynced, setIsSynced] = useState(false);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+  const [collaborators, setCollaborators] = useState<CollaboratorPresence[]>([]);
+
+  const user = useMemo<CollaboratorPresence | null>(() => {
+    if (!clerkUser) return null;
+    return {
+      userId: clerkUser.id,
+      name: clerkUser.fullName || clerkUser.primaryEmailAddress?.emailAddress || 'Anonymous',
+      color: getPresenceColor(clerkUser.id),
+      avatarUrl: clerkUser.imageUrl || undefined,
+    };
+  }, [clerkUser]);
+
+  useEffect(() => {
+    if (!collaborationUrl) return;
+    const doc = new Y.Doc();
+    const provider = createNoteCollaborationProvider({
+      url: collaborationUrl,
+      noteId,
+      doc,
+      getToken: () => getTokenRef.current(), // Fresh on every (re)connect
+    });
+    setSession({ doc, provider });
+    setStatus(provider.getStatus());
+    setIsSynced(false);
+    setIsUnavailable(false);
+
+    const updateCollaborators = () => {
+      const byUserId = new Map<string, CollaboratorPresence>();
+      provider.awareness.getStates().forEach((state, clientId) => {
+        const presence = state.user as CollaboratorPresence | undefined;
+        if (clientId === doc.clientID || !presence?.userId) return;
+        byUserId.set(presence.userId, presence); // The same user in two tabs shows once
+      });
+      setCollaborators(Array.from(byUserId.values()));
+    };
+
+    const firstSyncTimer = setTimeout(() => setIsUnavailable(true), FIRST_SYNC_TIMEOUT);
+    const unsubscribers = [
+      provider.onStatusChange(setStatus),
+      provider.onSynced(() => {
+        clearTimeout(firstSyncTimer);
+        setIsSynced(true);
+      }),
+      provider.onRefused(() => {
+        clearTimeout(firstSyncTimer);
+        setIsUnavailable(true);
+      }),
+    ];
+    provider.awareness.on('change', updateCollaborators);
+
+    return () => {
+      clearTimeout(firstSyncTimer);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      provider.awareness.off('change', updateCollaborators);
+      provider.destroy();
+      doc.destroy();
+      setSession(null);
+      setCollaborators([]);
+    };
+  }, [collaborationUrl, noteId]);
+
+  // Share who we are once Clerk has loaded the user
+  useEffect(() => {
+    if (session && user) session.provider.awareness.setLocalStateField('user', user);
+  }, [session, user]);
+
+  // Once live editing has worked it stays on; the provider reconnects by itself
+  if (!collaborationUrl || (isUnavailable && !isSynced)) {
+    return { collaboration: null, isPending: false };
+  }
+  if (!session || !user || !isSynced) {
+    return { collaboration: null, isPending: true };
+  }
+  return { collaboration: { ...session, user, status, collaborators }, isPending: false };
+}
@@ -26,7 +26,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { SelectCategory } from '@/db/schema/categories-schema';
 import { createNoteAction } from '@/actions/notes-actions';
 import { useAuth } from "@clerk/nextjs";
-import { InsertNote, SelectNote } from "@/db/schema/notes-schema";
+import { SelectNote } from "@/db/schema/notes-schema";
 
 interface AddNoteModalProps {
   onClose: () => void;
@@ -63,11 +63,11 @@ const AddNoteModal: React.FC<AddNoteModalProps> = ({ onClose, onNoteAdded, categ
       return;
     }
 
-    const noteData: InsertNote = {
+    // userId is resolved from the session by the action
+    const noteData = {
       title: title.trim(),
       content: content.trim() || "",
       categoryId: selectedCategoryId,
-      userId: userId,
     };
 
     console.log("Submitting note:", noteData);
@@ -8,25 +8,36 @@
  * 
  * Functionality:
  * - Receives category data and an array of notes as props.
- * - Renders the category title with its designated color and note count.
- * - Maps through the notes array and renders a NoteCard component for each note.
+ * - Renders the category title with its designated color and note count;
+ *   nested categories show the names of their parents before it.
+ * - Maps through the notes array and renders a NoteCard component for each note
+ *   (pinned notes come first; the board orders them).
+ * - When reordering is allowed, makes the cards draggable and accepts drops
+ *   from any column, showing where the note will land; the board moves it.
  * - Displays a message if there are no notes in the category.
  * - Includes a button at the bottom to quickly create a new note in this category.
+ * - Offers a Markdown export (zip) of the category's notes, including those of
+ *   its nested categories, from the header.
  * 
  * Location:
  * /components/note-navigation/category-column.tsx
  */
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import NoteCard from './note-card';
 import { SelectCategory } from '@/db/schema/categories-schema';
 import { SelectNote } from '@/db/schema/notes-schema';
+import type { NoteFlags, NoteSearchHit } from '@/db/queries/notes-queries';
+import { SelectTag } from '@/db/schema/tags-schema';
+import type { NoteTaskProgress } from '@/lib/note-tasks';
+import type { NoteMoveCommand } from '@/lib/note-order';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Plus } from 'lucide-react';
+import { Plus, Download } from 'lucide-react';
 import { useAuth } from "@clerk/nextjs";
 import { useRouter } from 'next/navigation';
 import { createQuickNoteAction } from '@/actions/notes-actions';
 import { useToast } from "@/components/ui/use-toast"; // For user feedback
+import { getExportUrl } from '@/lib/export';
 
 // PlaceholderNote can be refined or replaced when actual note fetching is implemented
 // For now, assuming it's compatible with what NoteCard expects or NoteCard uses a similar placeholder.
@@ -40,13 +51,82 @@ import { useToast } from "@/components/ui/use-toast"; // For user feedback
 interface CategoryColumnProps {
   category: SelectCategory;
   notes: SelectNote[];
+  searchHitsById?: Map<string, NoteSearchHit>; // Set while a search is active
+  tagsByNoteId?: Record<string, SelectTag[]>;
+  taskProgressByNoteId?: Record<string, NoteTaskProgress>;
+  onToggleNoteFlag?: (note: SelectNote, flag: keyof NoteFlags) => void;
+  canReorder?: boolean; // False while the board is filtered, since only some notes are visible
+  draggedNoteId?: string | null; // Note being dragged anywhere on the board
+  onDragNoteChange?: (noteId: string | null) => void;
+  onDropNote?: (noteId: string, categoryId: string, index: number) => void; // index excludes the dropped note
+  onMoveNote?: (note: SelectNote, command: NoteMoveCommand) => void;
+  onMoveNoteToCategory?: (note: SelectNote, categoryId: string) => void;
+  moveCategories?: SelectCategory[];
+  parentPath?: string[]; // Names of the enclosing categories, outermost first
 }
 
-const CategoryColumn: React.FC<CategoryColumnProps> = ({ category, notes }) => {
+const CategoryColumn: React.FC<CategoryColumnProps> = ({
+  category,
+  notes,
+  searchHitsById,
+  tagsByNoteId,
+  taskProgressByNoteId,
+  onToggleNoteFlag,
+  canReorder = false,
+  draggedNoteId = null,
+  onDragNoteChange,
+  onDropNote,
+  onMoveNote,
+  onMoveNoteToCategory,
+  moveCategories,
+  parentPath = [],
+}) => {
   const { userId } = useAuth();
   const router = useRouter();
   const { toast } = useToast();
   const [isCreatingNote, setIsCreatingNote] = useState(false);
+  const [dropIndex, setDropIndex] = useState<number | null>(null); // Where a dragged note would land
+  const notesContainerRef = useRef<HTMLDivElement>(null);
+
+  // Clear the drop marker once a drag ends, wherever it was dropped
+  useEffect(() => {
+    if (!draggedNoteId) setDropIndex(null);
+  }, [draggedNoteId]);
+
+  // Index among the other cards that the pointer is above
+  const getDropIndex = (clientY: number) => {
+    const cards = Array.from(
+      notesContainerRef.current?.querySelectorAll<HTMLElement>('[data-note-id]') ?? []
+    ).filter(card => card.dataset.noteId !== draggedNoteId);
+    const index = cards.findIndex(card => {
+      const rect = card.getBoundingClientRect();
+      return clientY < rect.top + rect.height / 2;
+    });
+    return index === -1 ? cards.length : index;
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!canReorder || !draggedNoteId) return;
+    e.preventDefault(); // Allows the drop
+    e.dataTransfer.dropEffect = 'move';
+    setDropIndex(getDropIndex(e.clientY));
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setDropIndex(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!canReorder || !draggedNoteId) return;
+    e.preventDefault();
+    onDropNote?.(draggedNoteId, category.id, getDropIndex(e.clientY));
+    onDragNoteChange?.(null);
+  };
+
+  const dropMarker = <div className="h-0.5 rounded-full bg-blue-500" aria-hidden="true" />;
+  const otherNotes = notes.filter(note => note.id !== draggedNoteId); // What dropIndex counts
 
   const handleCreateQuickNote = async () => {
     if (!userId) {
@@ -60,7 +140,7 @@ const CategoryColumn: React.FC<CategoryColumnProps> = ({ category, notes }) => {
     setIsCreatingNote(true);
     try {
       // Use a slightly more descriptive default title
-      const result = await createQuickNoteAction(category.id, userId, `New note in ${category.name}`);
+      const result = await createQuickNoteAction(category.id, `New note in ${category.name}`);
       if (result.isSuccess && result.data) {
         toast({
           title: "Note Created!",
@@ -101,37 +181,81 @@ const CategoryColumn: React.FC<CategoryColumnProps> = ({ category, notes }) => {
           <h2 
             className="font-semibold text-sm truncate"
             style={{ color: category.color }} 
+            title={[...parentPath, category.name].join(' / ')}
           >
+            {parentPath.length > 0 && (
+              <span className="font-normal text-gray-400">{parentPath.join(' / ')} / </span>
+            )}
             {category.name}
           </h2>
         </div>
-        <Badge 
-          variant="outline" 
-          className="text-xs font-medium flex-shrink-0"
-          style={{ 
-            backgroundColor: `${category.color}1A`, // Slightly more opaque background
-            borderColor: `${category.color}4D`, 
-            color: category.color 
-          }}
-        >
-          {notes.length}
-        </Badge>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <a
+            href={getExportUrl({ categoryId: category.id })}
+            download
+            className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+            title={`Export ${category.name} as Markdown`}
+            aria-label={`Export ${category.name} as Markdown`}
+          >
+            <Download className="h-3.5 w-3.5" />
+          </a>
+          <Badge 
+            variant="outline" 
+            className="text-xs font-medium flex-shrink-0"
+            style={{ 
+              backgroundColor: `${category.color}1A`, // Slightly more opaque background
+              borderColor: `${category.color}4D`, 
+              color: category.color 
+            }}
+          >
+            {notes.length}
+          </Badge>
+        </div>
       </div>
       
       {/* Notes Container */}
-      <div className="flex-grow p-3 space-y-2.5 overflow-y-auto bg-slate-50 min-h-[100px]">
+      <div
+        ref={notesContainerRef}
+        className="flex-grow p-3 space-y-2.5 overflow-y-auto bg-slate-50 min-h-[100px]"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
         {notes.length > 0 ? (
           notes.map(note => (
-            <NoteCard 
-              key={note.id} 
-              note={note} 
-            />
+            <React.Fragment key={note.id}>
+              {dropIndex !== null && note.id !== draggedNoteId && otherNotes[dropIndex] === note && dropMarker}
+              <div
+                draggable={canReorder}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  e.dataTransfer.setData('text/plain', note.id);
+                  onDragNoteChange?.(note.id);
+                }}
+                onDragEnd={() => onDragNoteChange?.(null)}
+                className={note.id === draggedNoteId ? 'opacity-40' : undefined}
+              >
+                <NoteCard 
+                  note={note} 
+                  searchHit={searchHitsById?.get(note.id)}
+                  tags={tagsByNoteId?.[note.id]}
+                  taskProgress={taskProgressByNoteId?.[note.id]}
+                  onToggleFlag={onToggleNoteFlag}
+                  onMove={canReorder ? onMoveNote : undefined}
+                  onMoveToCategory={onMoveNoteToCategory}
+                  moveCategories={moveCategories}
+                />
+              </div>
+            </React.Fragment>
           ))
         ) : (
           <div className="flex flex-col items-center justify-center h-full text-center py-6 px-3">
-            <p className="text-xs text-gray-400">No notes in this category yet.</p>
+            <p className="text-xs text-gray-400">
+              {draggedNoteId ? 'Drop the note here.' : 'No notes in this category yet.'}
+            </p>
           </div>
         )}
+        {dropIndex !== null && dropIndex >= otherNotes.length && otherNotes.length > 0 && dropMarker}
       </div>
 
       {/* Add Note Button Footer */}
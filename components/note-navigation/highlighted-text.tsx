@@ -0,0 +1,38 @@
+/**
+ * HighlightedText Component
+ *
+ * Purpose:
+ * Renders search-result text with the matched terms highlighted.
+ *
+ * Functionality:
+ * - Receives segments produced by splitHighlights (see /lib/search.ts).
+ * - Wraps highlighted segments in <mark>; everything is rendered as text, never as HTML.
+ *
+ * Location:
+ * /components/note-navigation/highlighted-text.tsx
+ */
+import React from 'react';
+import { HighlightSegment } from '@/lib/search';
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[];
+  className?: string;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ segments, className }) => {
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+};
+
+export default HighlightedText;
@@ -8,6 +8,15 @@
  * Functionality:
  * - Receives note data (SelectNote) as props.
  * - Renders the note's title and formatted date information.
+ * - Shows a plain-text excerpt of the content, or the highlighted title and
+ *   snippet when rendered as a search result.
+ * - Shows the note's tags as chips.
+ * - Shows checklist progress ("3/7 done") when the note has tasks.
+ * - Marks pinned and favourite notes, and toggles both from a right-click
+ *   context menu (the parent applies the change optimistically).
+ * - Offers move commands from the context menu and the keyboard: Alt+Up/Down
+ *   within the column, Alt+Left/Right to the neighbouring column, and
+ *   "Move to" any category.
  * - Provides visual feedback for interaction states.
  * - Handles click events to navigate to the note's detail page.
  * 
@@ -19,13 +28,56 @@
 import React from 'react';
 import { useRouter } from 'next/navigation';
 import { SelectNote } from '@/db/schema/notes-schema';
-import { Calendar, Clock } from 'lucide-react';
+import { SelectTag } from '@/db/schema/tags-schema';
+import { SelectCategory } from '@/db/schema/categories-schema';
+import type { NoteFlags, NoteSearchHit } from '@/db/queries/notes-queries';
+import { ArrowDown, ArrowUp, Calendar, Clock, ExternalLink, FolderInput, Pin, PinOff, Star, StarOff } from 'lucide-react';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import type { NoteMoveCommand } from '@/lib/note-order';
+
+// Alt+arrow shortcuts for moving a card
+const MOVE_KEYS: Record<string, NoteMoveCommand> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'previous-category',
+  ArrowRight: 'next-category',
+};
+import HighlightedText from './highlighted-text';
+import TagChip from '@/components/tags/tag-chip';
+import TaskProgress from '@/components/tasks/task-progress';
+import type { NoteTaskProgress } from '@/lib/note-tasks';
 
 interface NoteCardProps {
   note: SelectNote;
+  searchHit?: NoteSearchHit; // Present when the board is showing search results
+  tags?: SelectTag[];
+  taskProgress?: NoteTaskProgress;
+  onToggleFlag?: (note: SelectNote, flag: keyof NoteFlags) => void;
+  onMove?: (note: SelectNote, command: NoteMoveCommand) => void; // Omitted while the board can't be reordered
+  onMoveToCategory?: (note: SelectNote, categoryId: string) => void;
+  moveCategories?: SelectCategory[]; // Targets for "Move to"
 }
 
-const NoteCard: React.FC<NoteCardProps> = ({ note }) => {
+const NoteCard: React.FC<NoteCardProps> = ({
+  note,
+  searchHit,
+  tags = [],
+  taskProgress,
+  onToggleFlag,
+  onMove,
+  onMoveToCategory,
+  moveCategories = [],
+}) => {
   const router = useRouter();
 
   // Format date with shorter output for better display
@@ -50,41 +102,127 @@ const NoteCard: React.FC<NoteCardProps> = ({ note }) => {
   };
 
   return (
-    <div 
-      className="bg-white border border-gray-200 rounded-md overflow-hidden transition-all duration-200 ease-in-out group hover:shadow-md hover:border-blue-300 cursor-pointer"
-      onClick={handleCardClick}
-      role="button"
-      tabIndex={0}
-      onKeyDown={(e) => {
-        if (e.key === 'Enter' || e.key === ' ') {
-          handleCardClick();
-        }
-      }}
-      title={`View note: ${note.title}`}
-    >
-      <div className="p-3">
-        <h3 className="font-medium text-gray-900 mb-2 group-hover:text-blue-600 transition-colors truncate">
-          {note.title}
-        </h3>
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <div 
+          className="bg-white border border-gray-200 rounded-md overflow-hidden transition-all duration-200 ease-in-out group hover:shadow-md hover:border-blue-300 cursor-pointer"
+          onClick={handleCardClick}
+          role="button"
+          tabIndex={0}
+          onKeyDown={(e) => {
+            if (e.altKey && onMove && MOVE_KEYS[e.key]) {
+              e.preventDefault();
+              onMove(note, MOVE_KEYS[e.key]);
+            } else if (e.key === 'Enter' || e.key === ' ') {
+              handleCardClick();
+            }
+          }}
+          data-note-id={note.id}
+          title={`View note: ${note.title}`}
+        >
+          <div className="p-3">
+            <div className="flex items-start gap-1.5 mb-2">
+              <h3 className="flex-1 font-medium text-gray-900 group-hover:text-blue-600 transition-colors truncate">
+                {searchHit ? <HighlightedText segments={searchHit.titleSegments} /> : note.title}
+              </h3>
+              {note.pinned && <Pin className="h-3.5 w-3.5 mt-1 flex-shrink-0 text-blue-500" aria-label="Pinned" />}
+              {note.favorite && <Star className="h-3.5 w-3.5 mt-1 flex-shrink-0 fill-amber-400 text-amber-400" aria-label="Favourite" />}
+            </div>
+
+            {searchHit && searchHit.snippetSegments.length > 0 ? (
+              <p className="text-xs text-gray-600 mb-2 line-clamp-3">
+                <HighlightedText segments={searchHit.snippetSegments} />
+              </p>
+            ) : note.excerpt ? (
+              <p className="text-xs text-gray-600 mb-2 line-clamp-3">{note.excerpt}</p>
+            ) : null}
+
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mb-2">
+                {tags.map(tag => (
+                  <TagChip key={tag.id} name={tag.name} className="px-1.5 text-[11px]" />
+                ))}
+              </div>
+            )}
+
+            {taskProgress && taskProgress.total > 0 && (
+              <TaskProgress progress={taskProgress} className="mb-2" />
+            )}
         
-        <div className="flex items-center gap-2 text-xs text-gray-500">
-          <div className="flex items-center gap-1">
-            <Calendar className="h-3 w-3" />
-            <span>{formattedDate}</span>
-          </div>
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <div className="flex items-center gap-1">
+                <Calendar className="h-3 w-3" />
+                <span>{formattedDate}</span>
+              </div>
           
-          {isUpdated && (
-            <div className="flex items-center gap-1">
-              <Clock className="h-3 w-3" />
-              <span>Updated {formattedUpdateDate}</span>
+              {isUpdated && (
+                <div className="flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  <span>Updated {formattedUpdateDate}</span>
+                </div>
+              )}
             </div>
-          )}
-        </div>
-      </div>
+          </div>
       
-      {/* Add subtle highlight bar at bottom for visual interest */}
-      <div className="h-1 bg-gradient-to-r from-blue-400 to-indigo-500 transform scale-x-0 group-hover:scale-x-100 transition-transform duration-300 origin-left"></div>
-    </div>
+          {/* Add subtle highlight bar at bottom for visual interest */}
+          <div className="h-1 bg-gradient-to-r from-blue-400 to-indigo-500 transform scale-x-0 group-hover:scale-x-100 transition-transform duration-300 origin-left"></div>
+        </div>
+      </ContextMenuTrigger>
+      <ContextMenuContent className="w-52">
+        <ContextMenuItem onSelect={handleCardClick}>
+          <ExternalLink className="h-4 w-4 mr-2" />
+          Open
+        </ContextMenuItem>
+        {onToggleFlag && (
+          <>
+            <ContextMenuSeparator />
+            <ContextMenuItem onSelect={() => onToggleFlag(note, 'pinned')}>
+              {note.pinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+              {note.pinned ? 'Unpin' : 'Pin to top'}
+            </ContextMenuItem>
+            <ContextMenuItem onSelect={() => onToggleFlag(note, 'favorite')}>
+              {note.favorite ? <StarOff className="h-4 w-4 mr-2" /> : <Star className="h-4 w-4 mr-2" />}
+              {note.favorite ? 'Remove from favourites' : 'Add to favourites'}
+            </ContextMenuItem>
+          </>
+        )}
+        {onMove && (
+          <>
+            <ContextMenuSeparator />
+            <ContextMenuItem onSelect={() => onMove(note, 'up')}>
+              <ArrowUp className="h-4 w-4 mr-2" />
+              Move up
+              <ContextMenuShortcut>Alt+↑</ContextMenuShortcut>
+            </ContextMenuItem>
+            <ContextMenuItem onSelect={() => onMove(note, 'down')}>
+              <ArrowDown className="h-4 w-4 mr-2" />
+              Move down
+              <ContextMenuShortcut>Alt+↓</ContextMenuShortcut>
+            </ContextMenuItem>
+          </>
+        )}
+        {onMoveToCategory && moveCategories.length > 1 && (
+          <ContextMenuSub>
+            <ContextMenuSubTrigger>
+              <FolderInput className="h-4 w-4 mr-2" />
+              Move to
+            </ContextMenuSubTrigger>
+            <ContextMenuSubContent className="w-48">
+              {moveCategories.map(category => (
+                <ContextMenuItem
+                  key={category.id}
+                  disabled={category.id === note.categoryId}
+                  onSelect={() => onMoveToCategory(note, category.id)}
+                >
+                  <span className="mr-2 h-2 w-2 flex-shrink-0 rounded-full" style={{ backgroundColor: category.color }} />
+                  <span className="truncate">{category.name}</span>
+                </ContextMenuItem>
+              ))}
+            </ContextMenuSubContent>
+          </ContextMenuSub>
+        )}
+      </ContextMenuContent>
+    </ContextMenu>
   );
 };
 
@@ -10,6 +10,23 @@
  * - Receives categories as a prop.
  * - For each category, fetches/displays its associated notes.
  * - Supports switching between column view and table view.
+ * - Runs server-side full-text search (title and body) and shows ranked, highlighted hits.
+ * - Filters notes by tag (notes must carry every selected tag) in both views.
+ * - Shows checklist progress per note (cards and a "Tasks" table column).
+ * - Shows each note's excerpt on cards and its word count in a "Words" table column.
+ * - Keeps pinned notes at the top of each column and of the table; pin and
+ *   favourite toggles from a card's context menu apply optimistically and roll
+ *   back if saving fails.
+ * - Orders each column by the notes' manual positions. Notes can be dragged
+ *   within and between columns or moved with keyboard commands (not while
+ *   filtering); moves apply optimistically and roll back if saving fails.
+ * - Imports Markdown/HTML/zip files through ImportNotesDialog and reloads afterwards.
+ * - Opens the CategoryManager in a dialog to create, reorder and hide columns.
+ * - Groups nested categories under their top-level category (collapsible
+ *   groups with subtree note counts). `?category=` or the category filter
+ *   narrows the board, search and table to one category and its subtree.
+ * - Lists notes other people have shared with the user under "Shared with me"
+ *   (SharedNotesSection), below the board in both views.
  * - Allows creation of new notes via a floating action button.
  * 
  * Location:
@@ -17,18 +34,52 @@
  */
 "use client";
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { SelectCategory, SelectNote } from '@/db/schema'; // Using actual types
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { SelectCategory, SelectNote, SelectTag } from '@/db/schema'; // Using actual types
 import { Button } from "@/components/ui/button";
 import AddNoteModal from './add-note-modal';
 import CategoryColumn from './category-column';
-import { getNotesByCategoryIdAction } from '@/actions/notes-actions'; // Import notes action
+import { getNotesByCategoryIdAction, moveNoteAction, searchNotesAction, setNoteFlagsAction } from '@/actions/notes-actions'; // Import notes actions
+import { getTagsByNoteIdAction } from '@/actions/tags-actions';
+import { getTaskProgressByNoteIdAction } from '@/actions/note-tasks-actions';
+import { getSharedNotesAction } from '@/actions/note-shares-actions';
+import type { SharedNote } from '@/db/queries/note-shares-queries';
+import TaskProgress from '@/components/tasks/task-progress';
+import type { NoteTaskProgress } from '@/lib/note-tasks';
+import { formatReadingTime } from '@/lib/note-stats';
+import { getNoteMoveTarget, NoteMoveCommand, positionBetween } from '@/lib/note-order';
+import { buildCategoryTree, CategoryTreeNode, flattenCategoryTree, getCategoryPath, sumOverSubtrees } from '@/lib/category-tree';
+import type { NoteFlags, NoteSearchHit } from '@/db/queries/notes-queries';
+import { useToast } from '@/components/ui/use-toast';
+import HighlightedText from './highlighted-text';
+import SharedNotesSection from './shared-notes-section';
+import TagChip from '@/components/tags/tag-chip';
+import ImportNotesDialog from '@/components/import/import-notes-dialog';
+import CategoryManager from '@/components/categories/category-manager';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useAuth } from "@clerk/nextjs"; // Import useAuth for userId
-import { useRouter } from 'next/navigation'; // Import useRouter
+import { useRouter, useSearchParams } from 'next/navigation'; // Import useRouter
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
-import { PlusCircle, LayoutGrid, List, Search } from 'lucide-react';
+import { PlusCircle, LayoutGrid, List, Search, Loader2, Tag, Pin, Star, Columns3, Folder, ChevronRight } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+const SEARCH_DEBOUNCE_DELAY = 300; // ms to wait after typing stops before querying the server
+
+// Same order as the server: pinned first, then by manual position
+const comparePinnedFirst = (a: SelectNote, b: SelectNote) =>
+  Number(b.pinned) - Number(a.pinned) ||
+  a.position - b.position ||
+  new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
 
 interface NotesBoardProps {
   initialCategories: SelectCategory[];
@@ -37,15 +88,40 @@ interface NotesBoardProps {
 const NotesBoard: React.FC<NotesBoardProps> = ({ initialCategories }) => {
   const { userId, isLoaded: authLoaded } = useAuth();
   const router = useRouter();
+  const { toast } = useToast();
   const [notesByCategoryId, setNotesByCategoryId] = useState<Record<string, SelectNote[]>>({});
   const [isLoadingNotes, setIsLoadingNotes] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showAddNoteModal, setShowAddNoteModal] = useState(false);
   const [viewMode, setViewMode] = useState<"columns" | "table">("columns");
   const [searchQuery, setSearchQuery] = useState("");
+  const [searchHits, setSearchHits] = useState<NoteSearchHit[] | null>(null); // null when no search is active
+  const [isSearching, setIsSearching] = useState(false);
+  const [tagsByNoteId, setTagsByNoteId] = useState<Record<string, SelectTag[]>>({});
+  const [taskProgressByNoteId, setTaskProgressByNoteId] = useState<Record<string, NoteTaskProgress>>({});
+  const [sharedNotes, setSharedNotes] = useState<SharedNote[]>([]);
+  const [selectedTagNames, setSelectedTagNames] = useState<string[]>([]);
+  const [reloadCount, setReloadCount] = useState(0); // Bumped to refetch notes, e.g. after an import
+  const latestSearchRef = useRef(0); // Ignores responses from superseded searches
+  const [draggedNoteId, setDraggedNoteId] = useState<string | null>(null);
+  const [moveAnnouncement, setMoveAnnouncement] = useState(''); // Read out by screen readers after a move
+  const focusNoteIdRef = useRef<string | null>(null); // Card to refocus after a keyboard move re-renders it
+  const searchParams = useSearchParams();
+  const [collapsedGroupIds, setCollapsedGroupIds] = useState<string[]>([]);
+
+  // `?category=` narrows the board to that category and the ones nested in it
+  const requestedCategoryId = searchParams.get('category');
+  const categoryFilterId = initialCategories.some(category => category.id === requestedCategoryId) ? requestedCategoryId : null;
+  const categoryTree = useMemo(() => buildCategoryTree(initialCategories), [initialCategories]);
+  const boardTree = useMemo(() => {
+    const filterNode = flattenCategoryTree(categoryTree).find(node => node.category.id === categoryFilterId);
+    return filterNode ? [filterNode] : categoryTree;
+  }, [categoryTree, categoryFilterId]);
+  // Columns in tree order: each category followed by the ones nested in it
+  const boardCategories = useMemo(() => flattenCategoryTree(boardTree).map(node => node.category), [boardTree]);
 
-  const fetchNotesForCategory = useCallback(async (categoryId: string, currentUserId: string) => {
-    const result = await getNotesByCategoryIdAction(categoryId, currentUserId);
+  const fetchNotesForCategory = useCallback(async (categoryId: string) => {
+    const result = await getNotesByCategoryIdAction(categoryId);
     if (result.isSuccess && result.data) {
       return result.data;
     }
@@ -75,9 +151,30 @@ const NotesBoard: React.FC<NotesBoardProps> = ({ initialCategories }) => {
       setError(null);
       try {
         const allNotesPromises = initialCategories.map(category => 
-          fetchNotesForCategory(category.id, userId)
+          fetchNotesForCategory(category.id)
         );
-        const notesArrays = await Promise.all(allNotesPromises);
+        const [notesArrays, tagsResult, taskProgressResult, sharedNotesResult] = await Promise.all([
+          Promise.all(allNotesPromises),
+          getTagsByNoteIdAction(),
+          getTaskProgressByNoteIdAction(),
+          getSharedNotesAction(),
+        ]);
+        if (tagsResult.isSuccess && tagsResult.data) {
+          setTagsByNoteId(tagsResult.data);
+        } else {
+          // Tags are secondary; the board still works without them
+          console.error("Failed to fetch note tags:", tagsResult.message);
+        }
+        if (taskProgressResult.isSuccess && taskProgressResult.data) {
+          setTaskProgressByNoteId(taskProgressResult.data);
+        } else {
+          console.error("Failed to fetch task progress:", taskProgressResult.message);
+        }
+        if (sharedNotesResult.isSuccess && sharedNotesResult.data) {
+          setSharedNotes(sharedNotesResult.data);
+        } else {
+          console.error("Failed to fetch shared notes:", sharedNotesResult.message);
+        }
         
         const newNotesByCatId: Record<string, SelectNote[]> = {};
         initialCategories.forEach((category, index) => {
@@ -93,7 +190,44 @@ const NotesBoard: React.FC<NotesBoardProps> = ({ initialCategories }) => {
     };
 
     loadAllNotes();
-  }, [initialCategories, userId, authLoaded, fetchNotesForCategory]);
+  }, [initialCategories, userId, authLoaded, fetchNotesForCategory, reloadCount]);
+
+  const handleImported = () => {
+    setReloadCount(count => count + 1);
+    router.refresh(); // Picks up categories created from imported folders
+  };
+
+  // Debounced server-side full-text search
+  useEffect(() => {
+    const trimmedQuery = searchQuery.trim();
+    const searchId = ++latestSearchRef.current;
+
+    if (trimmedQuery === "") {
+      setSearchHits(null);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const timeout = setTimeout(async () => {
+      const result = await searchNotesAction(trimmedQuery, { categoryId: categoryFilterId });
+      if (searchId !== latestSearchRef.current) return;
+      if (result.isSuccess && result.data) {
+        setSearchHits(result.data);
+      } else {
+        console.error("Search failed:", result.message);
+        setSearchHits([]);
+      }
+      setIsSearching(false);
+    }, SEARCH_DEBOUNCE_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [searchQuery, categoryFilterId]);
+
+  const searchHitsById = useMemo(
+    () => (searchHits ? new Map(searchHits.map(hit => [hit.note.id, hit])) : undefined),
+    [searchHits]
+  );
 
   const handleNoteAdded = (newNote: SelectNote) => {
     setNotesByCategoryId(prevNotes => {
@@ -107,15 +241,224 @@ const NotesBoard: React.FC<NotesBoardProps> = ({ initialCategories }) => {
     router.push(`/dashboard/notes/${newNote.id}`);
   };
 
-  // Get all notes flattened for table view
-  const allNotes = Object.values(notesByCategoryId).flat();
-  
-  // Filter notes based on search query
-  const filteredNotes = searchQuery.trim() === "" 
-    ? allNotes 
-    : allNotes.filter(note => 
-        note.title.toLowerCase().includes(searchQuery.toLowerCase())
+  // Sets a flag on the board's copy of a note (and its search hit, if any)
+  const applyNoteFlag = (noteId: string, flag: keyof NoteFlags, value: boolean) => {
+    const withFlag = (note: SelectNote) => (note.id === noteId ? { ...note, [flag]: value } : note);
+    setNotesByCategoryId(prev =>
+      Object.fromEntries(Object.entries(prev).map(([categoryId, notes]) => [categoryId, notes.map(withFlag)]))
+    );
+    setSearchHits(prev => prev && prev.map(hit => ({ ...hit, note: withFlag(hit.note) })));
+  };
+
+  const handleToggleNoteFlag = async (note: SelectNote, flag: keyof NoteFlags) => {
+    const value = !note[flag];
+    applyNoteFlag(note.id, flag, value);
+    const result = await setNoteFlagsAction(note.id, { [flag]: value });
+    if (!result.isSuccess) {
+      applyNoteFlag(note.id, flag, !value);
+      toast({
+        title: "Update Failed",
+        description: result.message || "Could not update the note.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (flag === 'favorite') {
+      router.refresh(); // Updates the favourites in the sidebar
+    }
+  };
+
+  // A card moved to another column is a new element; give it focus back
+  useEffect(() => {
+    const noteId = focusNoteIdRef.current;
+    if (!noteId) return;
+    focusNoteIdRef.current = null;
+    document.querySelector<HTMLElement>(`[data-note-id="${noteId}"]`)?.focus();
+  }, [notesByCategoryId]);
+
+  // Puts the board's copy of a note into its (possibly new) category list
+  const placeNote = (noteId: string, changes: Pick<SelectNote, 'categoryId' | 'position'>) => {
+    setNotesByCategoryId(prev => {
+      const note = Object.values(prev).flat().find(candidate => candidate.id === noteId);
+      if (!note) return prev;
+      const next: Record<string, SelectNote[]> = {};
+      for (const [categoryId, notes] of Object.entries(prev)) {
+        next[categoryId] = notes.filter(candidate => candidate.id !== noteId);
+      }
+      next[changes.categoryId] = [...(next[changes.categoryId] || []), { ...note, ...changes }];
+      return next;
+    });
+    setSearchHits(prev => prev && prev.map(hit => (hit.note.id === noteId ? { ...hit, note: { ...hit.note, ...changes } } : hit)));
+  };
+
+  /**
+   * Moves a note to `index` among the notes of `categoryId` that share its
+   * pinned state (pinned notes always stay above the others).
+   */
+  const moveNoteTo = async (note: SelectNote, categoryId: string, index: number) => {
+    const targetNotes = (notesByCategoryId[categoryId] || [])
+      .filter(candidate => candidate.id !== note.id && candidate.pinned === note.pinned)
+      .sort(comparePinnedFirst);
+    const previousNote = targetNotes[index - 1];
+    const nextNote = targetNotes[index];
+    const original = { categoryId: note.categoryId, position: note.position };
+    const position = positionBetween(previousNote?.position, nextNote?.position);
+    placeNote(note.id, { categoryId, position });
+
+    const categoryName = initialCategories.find(category => category.id === categoryId)?.name ?? 'category';
+    setMoveAnnouncement(`Moved "${note.title}" to ${categoryName}, position ${index + 1} of ${targetNotes.length + 1}.`);
+
+    const result = await moveNoteAction(note.id, {
+      categoryId,
+      previousNoteId: previousNote?.id ?? null,
+      nextNoteId: nextNote?.id ?? null,
+    });
+    if (!result.isSuccess || !result.data) {
+      placeNote(note.id, original);
+      setMoveAnnouncement(`Could not move "${note.title}".`);
+      toast({
+        title: "Move Failed",
+        description: result.message || "Could not move the note.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const { note: movedNote, positions } = result.data;
+    placeNote(movedNote.id, { categoryId: movedNote.categoryId, position: movedNote.position });
+    if (positions) {
+      setNotesByCategoryId(prev =>
+        Object.fromEntries(Object.entries(prev).map(([id, notes]) => [
+          id,
+          notes.map(candidate => (positions[candidate.id] !== undefined ? { ...candidate, position: positions[candidate.id] } : candidate)),
+        ]))
       );
+    }
+  };
+
+  // Drops land at an index among all of a column's cards; pinned and unpinned notes can't swap groups
+  const handleDropNote = (noteId: string, categoryId: string, index: number) => {
+    const note = Object.values(notesByCategoryId).flat().find(candidate => candidate.id === noteId);
+    if (!note) return;
+    const columnNotes = (notesByCategoryId[categoryId] || []).filter(candidate => candidate.id !== noteId);
+    const pinnedCount = columnNotes.filter(candidate => candidate.pinned).length;
+    const groupSize = note.pinned ? pinnedCount : columnNotes.length - pinnedCount;
+    const groupIndex = Math.min(Math.max(note.pinned ? index : index - pinnedCount, 0), groupSize);
+    const currentIndex = (notesByCategoryId[categoryId] || [])
+      .filter(candidate => candidate.pinned === note.pinned)
+      .sort(comparePinnedFirst)
+      .findIndex(candidate => candidate.id === noteId);
+    if (note.categoryId === categoryId && currentIndex === groupIndex) return; // Dropped where it was
+    void moveNoteTo(note, categoryId, groupIndex);
+  };
+
+  const handleMoveCommand = (note: SelectNote, command: NoteMoveCommand) => {
+    const columns = boardCategories.map(category => ({
+      categoryId: category.id,
+      noteIds: (notesByCategoryId[category.id] || [])
+        .filter(candidate => candidate.pinned === note.pinned)
+        .sort(comparePinnedFirst)
+        .map(candidate => candidate.id),
+    }));
+    const target = getNoteMoveTarget(columns, note.id, command);
+    if (!target) return;
+    focusNoteIdRef.current = note.id;
+    void moveNoteTo(note, target.categoryId, target.index);
+  };
+
+  // "Move to" puts the note at the top of the other category
+  const handleMoveToCategory = (note: SelectNote, categoryId: string) => {
+    if (categoryId !== note.categoryId) void moveNoteTo(note, categoryId, 0);
+  };
+
+  // Every tag in use on the board, for the tag filter
+  const availableTagNames = useMemo(() => {
+    const names = new Set<string>();
+    Object.values(tagsByNoteId).forEach(tags => tags.forEach(tag => names.add(tag.name)));
+    return Array.from(names).sort();
+  }, [tagsByNoteId]);
+
+  // Drop selections for tags that no longer exist (e.g. removed from their last note)
+  useEffect(() => {
+    setSelectedTagNames(prev => prev.filter(name => availableTagNames.includes(name)));
+  }, [availableTagNames]);
+
+  const toggleTagFilter = (name: string) => {
+    setSelectedTagNames(prev =>
+      prev.includes(name) ? prev.filter(selected => selected !== name) : [...prev, name]
+    );
+  };
+
+  const matchesTagFilter = (note: SelectNote) => {
+    if (selectedTagNames.length === 0) return true;
+    const noteTagNames = (tagsByNoteId[note.id] || []).map(tag => tag.name);
+    return selectedTagNames.every(name => noteTagNames.includes(name));
+  };
+
+  // Get all notes flattened for table view, pinned ones first
+  const allNotes = boardCategories
+    .flatMap(category => [...(notesByCategoryId[category.id] || [])].sort(comparePinnedFirst))
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned));
+  
+  // While searching, show the server's hits in rank order
+  const filteredNotes = (searchHits ? searchHits.map(hit => hit.note) : allNotes).filter(matchesTagFilter);
+
+  // Notes for a single column: all of them, or only its search hits ordered by rank
+  const getColumnNotes = (categoryId: string) => {
+    const columnNotes = searchHits
+      ? searchHits.filter(hit => hit.note.categoryId === categoryId).map(hit => hit.note)
+      : [...(notesByCategoryId[categoryId] || [])].sort(comparePinnedFirst);
+    return columnNotes.filter(matchesTagFilter);
+  };
+
+  const isFiltering = searchHits !== null || selectedTagNames.length > 0;
+
+  const setCategoryFilter = (categoryId: string | null) => {
+    router.replace(categoryId ? `/dashboard/notes?category=${categoryId}` : '/dashboard/notes');
+  };
+
+  // Notes per category including nested categories, for the group headers
+  const subtreeNoteCounts = sumOverSubtrees(
+    initialCategories,
+    Object.fromEntries(Object.entries(notesByCategoryId).map(([categoryId, notes]) => [categoryId, notes.length]))
+  );
+
+  // Top-level categories with nested ones get their own group; runs of
+  // categories without any share one grid, as before nesting existed
+  const columnGroups: { root: CategoryTreeNode<SelectCategory> | null; categories: SelectCategory[] }[] = [];
+  boardTree.forEach(root => {
+    const lastGroup = columnGroups[columnGroups.length - 1];
+    if (root.children.length > 0) {
+      columnGroups.push({ root, categories: flattenCategoryTree([root]).map(node => node.category) });
+    } else if (lastGroup && !lastGroup.root) {
+      lastGroup.categories.push(root.category);
+    } else {
+      columnGroups.push({ root: null, categories: [root.category] });
+    }
+  });
+
+  const toggleGroupCollapsed = (id: string) => {
+    setCollapsedGroupIds(prev => (prev.includes(id) ? prev.filter(collapsedId => collapsedId !== id) : [...prev, id]));
+  };
+
+  const renderCategoryColumn = (category: SelectCategory) => (
+    <CategoryColumn 
+      key={category.id} 
+      category={category} 
+      notes={getColumnNotes(category.id)} 
+      searchHitsById={searchHitsById}
+      tagsByNoteId={tagsByNoteId}
+      taskProgressByNoteId={taskProgressByNoteId}
+      onToggleNoteFlag={handleToggleNoteFlag}
+      canReorder={!isFiltering}
+      draggedNoteId={draggedNoteId}
+      onDragNoteChange={setDraggedNoteId}
+      onDropNote={handleDropNote}
+      onMoveNote={handleMoveCommand}
+      onMoveNoteToCategory={handleMoveToCategory}
+      moveCategories={initialCategories}
+      parentPath={getCategoryPath(initialCategories, category.id).slice(0, -1)}
+    />
+  );
 
   if (!authLoaded) {
     return <div className="flex justify-center items-center h-screen text-gray-600">Authenticating...</div>;
@@ -134,6 +477,7 @@ const NotesBoard: React.FC<NotesBoardProps> = ({ initialCategories }) => {
 
   return (
     <Tabs defaultValue="columns" value={viewMode} onValueChange={(value) => setViewMode(value as "columns" | "table")} className="bg-gradient-to-b from-gray-50 to-white min-h-screen flex flex-col">
+      <div className="sr-only" aria-live="polite">{moveAnnouncement}</div>
       <div className="px-6 py-4 border-b bg-white sticky top-0 z-20 shadow-sm">
         <div className="container mx-auto">
           <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
@@ -142,17 +486,113 @@ const NotesBoard: React.FC<NotesBoardProps> = ({ initialCategories }) => {
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
                 <Input 
                   placeholder="Search notes..." 
-                  className="pl-10 bg-gray-50 border-gray-200"
+                  className="pl-10 pr-9 bg-gray-50 border-gray-200"
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                 />
+                {isSearching && (
+                  <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400 animate-spin" />
+                )}
               </div>
-              <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
-                {totalNotes} {totalNotes === 1 ? 'note' : 'notes'}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className={selectedTagNames.length > 0 ? 'border-blue-300 bg-blue-50 text-blue-700' : ''}
+                  >
+                    <Tag className="h-4 w-4 mr-1" />
+                    {selectedTagNames.length > 0 ? `Tags (${selectedTagNames.length})` : 'Tags'}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="w-56 max-h-80 overflow-y-auto">
+                  <DropdownMenuLabel>Filter by tag</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {availableTagNames.length === 0 ? (
+                    <div className="px-2 py-1.5 text-xs text-gray-500">
+                      No tags yet. Add tags from a note&apos;s page.
+                    </div>
+                  ) : (
+                    availableTagNames.map(name => (
+                      <DropdownMenuCheckboxItem
+                        key={name}
+                        checked={selectedTagNames.includes(name)}
+                        onCheckedChange={() => toggleTagFilter(name)}
+                        onSelect={(e) => e.preventDefault()} // Keep the menu open for multi-select
+                      >
+                        #{name}
+                      </DropdownMenuCheckboxItem>
+                    ))
+                  )}
+                  {selectedTagNames.length > 0 && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onSelect={() => setSelectedTagNames([])}>
+                        Clear tag filter
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className={categoryFilterId ? 'border-blue-300 bg-blue-50 text-blue-700 max-w-[12rem]' : ''}
+                  >
+                    <Folder className="h-4 w-4 mr-1 flex-shrink-0" />
+                    <span className="truncate">
+                      {initialCategories.find(category => category.id === categoryFilterId)?.name ?? 'All categories'}
+                    </span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="w-60 max-h-80 overflow-y-auto">
+                  <DropdownMenuLabel>Show category</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuCheckboxItem checked={!categoryFilterId} onSelect={() => setCategoryFilter(null)}>
+                    All categories
+                  </DropdownMenuCheckboxItem>
+                  {flattenCategoryTree(categoryTree).map(({ category, depth }) => (
+                    <DropdownMenuCheckboxItem
+                      key={category.id}
+                      checked={category.id === categoryFilterId}
+                      onSelect={() => setCategoryFilter(category.id)}
+                    >
+                      <span className="flex min-w-0 items-center gap-1.5" style={{ paddingLeft: `${depth * 12}px` }}>
+                        <span className="h-2 w-2 flex-shrink-0 rounded-full" style={{ backgroundColor: category.color }} />
+                        <span className="truncate">{category.name}</span>
+                      </span>
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200 whitespace-nowrap">
+                {isFiltering
+                  ? `${filteredNotes.length} ${filteredNotes.length === 1 ? 'match' : 'matches'}`
+                  : `${totalNotes} ${totalNotes === 1 ? 'note' : 'notes'}`}
               </Badge>
             </div>
             
             <div className="flex items-center gap-2 w-full sm:w-auto justify-end">
+              <ImportNotesDialog categories={initialCategories} onImported={handleImported} />
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Columns3 className="h-4 w-4 mr-1" />
+                    Categories
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-xl max-h-[85vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>Manage categories</DialogTitle>
+                    <DialogDescription>
+                      Drag to reorder the columns, hide the ones you don&apos;t use, or add your own.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <CategoryManager />
+                </DialogContent>
+              </Dialog>
               <TabsList className="grid grid-cols-2 w-[180px] mr-2">
                 <TabsTrigger value="columns" className="flex items-center gap-1">
                   <LayoutGrid className="h-4 w-4 mr-1" />
@@ -197,16 +637,38 @@ const NotesBoard: React.FC<NotesBoardProps> = ({ initialCategories }) => {
         <TabsContent value="columns" className="mt-0 h-full">
           {!isLoadingNotes && initialCategories.length > 0 && userId && (
             Object.keys(notesByCategoryId).length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 h-full">
-                {initialCategories.map((category) => (
-                  <CategoryColumn 
-                    key={category.id} 
-                    category={category} 
-                    notes={notesByCategoryId[category.id]?.filter(note => 
-                      searchQuery === "" || note.title.toLowerCase().includes(searchQuery.toLowerCase())
-                    ) || []} 
-                  />
-                ))}
+              <div className="space-y-6">
+                {columnGroups.map((group, groupIndex) => {
+                  const grid = (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 h-full">
+                      {group.categories.map(renderCategoryColumn)}
+                    </div>
+                  );
+                  if (!group.root) {
+                    return <React.Fragment key={`ungrouped-${groupIndex}`}>{grid}</React.Fragment>;
+                  }
+                  const { category } = group.root;
+                  const isCollapsed = collapsedGroupIds.includes(category.id);
+                  const total = subtreeNoteCounts[category.id] ?? 0;
+                  return (
+                    <section key={category.id} aria-label={category.name}>
+                      <button
+                        type="button"
+                        onClick={() => toggleGroupCollapsed(category.id)}
+                        className="mb-3 flex items-center gap-2 text-sm font-semibold text-gray-700 hover:text-gray-900"
+                        aria-expanded={!isCollapsed}
+                      >
+                        <ChevronRight className={`h-4 w-4 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} />
+                        <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: category.color }} />
+                        {getCategoryPath(initialCategories, category.id).join(' / ')}
+                        <span className="font-normal text-gray-400">
+                          {total} {total === 1 ? 'note' : 'notes'}
+                        </span>
+                      </button>
+                      {!isCollapsed && grid}
+                    </section>
+                  );
+                })}
               </div>
             ) : (
               <div className="text-center text-gray-500 py-10 bg-white rounded-lg shadow-sm">
@@ -227,6 +689,9 @@ const NotesBoard: React.FC<NotesBoardProps> = ({ initialCategories }) => {
                     <tr className="border-b">
                       <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Title</th>
                       <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Category</th>
+                      <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Tags</th>
+                      <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Tasks</th>
+                      <th className="text-right px-6 py-3 text-sm font-medium text-gray-500">Words</th>
                       <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Created</th>
                       <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Updated</th>
                     </tr>
@@ -234,6 +699,8 @@ const NotesBoard: React.FC<NotesBoardProps> = ({ initialCategories }) => {
                   <tbody>
                     {filteredNotes.map((note) => {
                       const category = initialCategories.find(c => c.id === note.categoryId);
+                      const categoryPath = getCategoryPath(initialCategories, note.categoryId);
+                      const searchHit = searchHitsById?.get(note.id);
                       return (
                         <tr 
                           key={note.id} 
@@ -241,7 +708,16 @@ const NotesBoard: React.FC<NotesBoardProps> = ({ initialCategories }) => {
                           onClick={() => router.push(`/dashboard/notes/${note.id}`)}
                         >
                           <td className="px-6 py-4">
-                            <div className="font-medium text-gray-900">{note.title}</div>
+                            <div className="flex items-center gap-1.5 font-medium text-gray-900">
+                              {searchHit ? <HighlightedText segments={searchHit.titleSegments} /> : note.title}
+                              {note.pinned && <Pin className="h-3.5 w-3.5 flex-shrink-0 text-blue-500" aria-label="Pinned" />}
+                              {note.favorite && <Star className="h-3.5 w-3.5 flex-shrink-0 fill-amber-400 text-amber-400" aria-label="Favourite" />}
+                            </div>
+                            {searchHit && searchHit.snippetSegments.length > 0 && (
+                              <div className="text-xs text-gray-500 mt-1 line-clamp-2">
+                                <HighlightedText segments={searchHit.snippetSegments} />
+                              </div>
+                            )}
                           </td>
                           <td className="px-6 py-4">
                             {category && (
@@ -253,10 +729,28 @@ const NotesBoard: React.FC<NotesBoardProps> = ({ initialCategories }) => {
                                   border: `1px solid ${category.color}40`
                                 }}
                               >
-                                {category.name}
+                                {categoryPath.join(' / ')}
                               </div>
                             )}
                           </td>
+                          <td className="px-6 py-4">
+                            <div className="flex flex-wrap gap-1">
+                              {(tagsByNoteId[note.id] || []).map(tag => (
+                                <TagChip key={tag.id} name={tag.name} />
+                              ))}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4">
+                            {taskProgressByNoteId[note.id]
+                              ? <TaskProgress progress={taskProgressByNoteId[note.id]} />
+                              : <span className="text-sm text-gray-400">-</span>}
+                          </td>
+                          <td
+                            className="px-6 py-4 text-right text-sm tabular-nums text-gray-500"
+                            title={formatReadingTime(note.readingMinutes) || undefined}
+                          >
+                            {note.wordCount.toLocaleString('en-US')}
+                          </td>
                           <td className="px-6 py-4 text-sm text-gray-500">
                             {new Date(note.createdAt).toLocaleDateString('en-US', {
                               year: 'numeric',
@@ -287,6 +781,10 @@ const NotesBoard: React.FC<NotesBoardProps> = ({ initialCategories }) => {
             )
           )}
         </TabsContent>
+
+        {!isLoadingNotes && userId && (
+          <SharedNotesSection sharedNotes={sharedNotes} searchQuery={searchQuery} />
+        )}
       </div>
 
       {viewMode === 'table' && showAddNoteModal && (
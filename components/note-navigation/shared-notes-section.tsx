@@ -0,0 +1,107 @@
+/**
+ * SharedNotesSection Component
+ *
+ * Purpose:
+ * The "Shared with me" section of the notes board: notes other people have
+ * shared with the user.
+ *
+ * Functionality:
+ * - Shows each shared note as a card with its title, excerpt, owner, the
+ *   user's role (viewer or editor) and when it was last updated.
+ * - Narrows the cards to notes whose title or excerpt contain the board's
+ *   search query (shared notes aren't part of the server-side search).
+ * - Collapses and expands; opens a note's page when its card is clicked.
+ * - Renders nothing when nothing is shared with the user.
+ *
+ * Location: /components/note-navigation/shared-notes-section.tsx
+ */
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ChevronRight, Clock, Eye, Pencil, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { SharedNote } from '@/db/queries/note-shares-queries';
+
+interface SharedNotesSectionProps {
+  sharedNotes: SharedNote[];
+  searchQuery?: string;
+}
+
+const SharedNotesSection: React.FC<SharedNotesSectionProps> = ({ sharedNotes, searchQuery = '' }) => {
+  const router = useRouter();
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  const visibleNotes = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return sharedNotes;
+    return sharedNotes.filter(({ note }) =>
+      note.title.toLowerCase().includes(query) || (note.excerpt ?? '').toLowerCase().includes(query)
+    );
+  }, [sharedNotes, searchQuery]);
+
+  if (sharedNotes.length === 0) return null;
+
+  return (
+    <section aria-label="Shared with me" className="mt-8">
+      <button
+        type="button"
+        onClick={() => setIsCollapsed(collapsed => !collapsed)}
+        className="mb-3 flex items-center gap-2 text-sm font-semibold text-gray-700 hover:text-gray-900"
+        aria-expanded={!isCollapsed}
+      >
+        <ChevronRight className={`h-4 w-4 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} />
+        <Users className="h-4 w-4 text-gray-500" />
+        Shared with me
+        <span className="font-normal text-gray-400">
+          {visibleNotes.length} {visibleNotes.length === 1 ? 'note' : 'notes'}
+        </span>
+      </button>
+      {!isCollapsed && (
+        visibleNotes.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+            {visibleNotes.map(({ note, role, ownerEmail }) => (
+              <div
+                key={note.id}
+                className="bg-white border border-gray-200 rounded-md p-3 transition-all duration-200 ease-in-out group hover:shadow-md hover:border-blue-300 cursor-pointer"
+                onClick={() => router.push(`/dashboard/notes/${note.id}`)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') router.push(`/dashboard/notes/${note.id}`);
+                }}
+                role="button"
+                tabIndex={0}
+                title={`View note: ${note.title}`}
+              >
+                <div className="flex items-start gap-1.5 mb-2">
+                  <h3 className="flex-1 font-medium text-gray-900 group-hover:text-blue-600 transition-colors truncate">
+                    {note.title}
+                  </h3>
+                  <Badge variant="outline" className="flex-shrink-0 gap-1 px-1.5 text-[11px] font-normal text-gray-600">
+                    {role === 'editor' ? <Pencil className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                    {role === 'editor' ? 'Editor' : 'Viewer'}
+                  </Badge>
+                </div>
+                {note.excerpt && (
+                  <p className="text-xs text-gray-600 mb-2 line-clamp-3">{note.excerpt}</p>
+                )}
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                  <span className="truncate" title={ownerEmail ?? undefined}>
+                    {ownerEmail ? `From ${ownerEmail}` : 'Shared with you'}
+                  </span>
+                  <span className="flex flex-shrink-0 items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    {new Date(note.updatedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No shared notes match your search.</p>
+        )
+      )}
+    </section>
+  );
+};
+
+export default SharedNotesSection;
@@ -0,0 +1,69 @@
+/**
+ * PublishedNotePasswordForm Component
+ *
+ * Purpose:
+ * Asks visitors of a password-protected public note page for the password.
+ *
+ * Functionality:
+ * - Sends the password to unlockPublishedNoteAction, which sets a cookie
+ *   when it's right; the page is then reloaded to show the note.
+ * - Shows the error inline when the password is wrong.
+ *
+ * Location: /components/published-notes/published-note-password-form.tsx
+ */
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { unlockPublishedNoteAction } from '@/actions/note-publications-actions';
+
+interface PublishedNotePasswordFormProps {
+  slug: string;
+}
+
+const PublishedNotePasswordForm: React.FC<PublishedNotePasswordFormProps> = ({ slug }) => {
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    const result = await unlockPublishedNoteAction(slug, password);
+    if (result.isSuccess) {
+      router.refresh();
+      return; // Stays busy until the note replaces the form
+    }
+    setIsUnlocking(false);
+    setError(result.message || 'Could not unlock the page.');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mx-auto mt-16 w-full max-w-sm rounded-lg border bg-white p-6 shadow-sm">
+      <div className="mb-4 flex items-center gap-2 text-gray-900">
+        <Lock className="h-5 w-5" />
+        <h1 className="text-lg font-semibold">This note is password protected</h1>
+      </div>
+      <Input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        aria-label="Password"
+        autoFocus
+      />
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      <Button type="submit" className="mt-4 w-full" disabled={isUnlocking || !password}>
+        {isUnlocking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Open note
+      </Button>
+    </form>
+  );
+};
+
+export default PublishedNotePasswordForm;
@@ -0,0 +1,52 @@
+/**
+ * CodeBlockView Component
+ *
+ * Purpose:
+ * Node view for the CodeBlock extension: the highlighted code plus a
+ * language picker in its top-right corner.
+ *
+ * Functionality:
+ * - Lists the extension's `languages`, with "Auto-detect" for no language.
+ * - Changing the selection updates the block's `language` attribute, which
+ *   re-highlights the code and is saved as its `language-*` class.
+ * - The picker is disabled when the editor is read-only.
+ *
+ * Location: /components/rich-text-editor/CodeBlockView.tsx
+ */
+"use client";
+
+import React from 'react';
+import { NodeViewContent, NodeViewWrapper, type NodeViewProps } from '@tiptap/react';
+import type { CodeBlockLanguage } from '@/components/rich-text-editor/extensions/code-block';
+
+const CodeBlockView: React.FC<NodeViewProps> = ({ node, updateAttributes, extension, editor }) => {
+  const languages: CodeBlockLanguage[] = extension.options.languages;
+  const language: string = node.attrs.language || '';
+
+  return (
+    <NodeViewWrapper className="code-block relative">
+      <select
+        contentEditable={false}
+        value={language}
+        onChange={(e) => updateAttributes({ language: e.target.value || null })}
+        disabled={!editor.isEditable}
+        className="absolute right-2 top-2 rounded border border-gray-600 bg-gray-800 px-1.5 py-0.5 text-xs text-gray-200 focus:outline-none"
+        aria-label="Code block language"
+      >
+        <option value="">Auto-detect</option>
+        {/* Keep languages the picker doesn't list (e.g. from an imported fence) selectable */}
+        {language && !languages.some(option => option.value === language) && (
+          <option value={language}>{language}</option>
+        )}
+        {languages.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <pre>
+        <NodeViewContent as="code" />
+      </pre>
+    </NodeViewWrapper>
+  );
+};
+
+export default CodeBlockView;
@@ -0,0 +1,89 @@
+/**
+ * ImagePopover Component
+ *
+ * Purpose:
+ * Toolbar control for inserting an inline image by URL.
+ *
+ * Functionality:
+ * - Asks for the image URL and optional alt text.
+ * - Only accepts http(s) and site-relative URLs, matching what the server
+ *   keeps when the note is saved.
+ * - Inserts the image at the cursor, inline with the surrounding text.
+ *
+ * Location: /components/rich-text-editor/ImagePopover.tsx
+ */
+"use client";
+
+import React, { useState } from 'react';
+import { type Editor } from '@tiptap/react';
+import { ImagePlus } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Toggle } from '@/components/ui/toggle';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { normalizeImageUrl } from '@/components/rich-text-editor/editor-urls';
+
+interface ImagePopoverProps {
+  editor: Editor;
+  iconSize: number;
+}
+
+const ImagePopover: React.FC<ImagePopoverProps> = ({ editor, iconSize }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [url, setUrl] = useState('');
+  const [alt, setAlt] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setUrl('');
+      setAlt('');
+      setError(null);
+    }
+    setIsOpen(open);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const src = normalizeImageUrl(url);
+    if (!src) {
+      setError('Enter the web address of an image.');
+      return;
+    }
+    editor.chain().focus().setImage({ src, alt: alt.trim() || undefined }).run();
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Toggle size="sm" pressed={false} disabled={!editor.can().setImage({ src: '' })} aria-label="Insert image">
+          <ImagePlus size={iconSize} />
+        </Toggle>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-3">
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <Input
+            value={url}
+            onChange={(e) => { setUrl(e.target.value); setError(null); }}
+            placeholder="https://example.com/screenshot.png"
+            aria-label="Image URL"
+            autoFocus
+          />
+          <Input
+            value={alt}
+            onChange={(e) => setAlt(e.target.value)}
+            placeholder="Description (optional)"
+            aria-label="Image description"
+          />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex justify-end">
+            <Button type="submit" size="sm">Insert Image</Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ImagePopover;
@@ -0,0 +1,116 @@
+/**
+ * LinkBubbleMenu Component
+ *
+ * Purpose:
+ * Floating bar shown under a link while the cursor is inside it.
+ *
+ * Functionality:
+ * - Shows the link's URL, which opens in a new tab.
+ * - "Edit" swaps the URL for an inline field; Enter saves, Escape cancels.
+ * - "Remove" unlinks the text but keeps it.
+ * - Note links ([[...]]) are nodes, not link marks, so they don't get the bar.
+ *
+ * Location: /components/rich-text-editor/LinkBubbleMenu.tsx
+ */
+"use client";
+
+import React, { useState } from 'react';
+import { BubbleMenu, type Editor } from '@tiptap/react';
+import { Check, ExternalLink, Pencil, Unlink } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { normalizeLinkUrl } from '@/components/rich-text-editor/editor-urls';
+
+interface LinkBubbleMenuProps {
+  editor: Editor;
+}
+
+const LinkBubbleMenu: React.FC<LinkBubbleMenuProps> = ({ editor }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const href: string = editor.getAttributes('link').href || '';
+
+  const startEditing = () => {
+    setUrl(href);
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const removeLink = () => {
+    editor.chain().focus().extendMarkRange('link').unsetLink().run();
+    setIsEditing(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) {
+      removeLink();
+      return;
+    }
+    const nextHref = normalizeLinkUrl(url);
+    if (!nextHref) {
+      setError('Use a web, email or phone link.');
+      return;
+    }
+    editor.chain().focus().extendMarkRange('link').setLink({ href: nextHref }).run();
+    setIsEditing(false);
+  };
+
+  return (
+    <BubbleMenu
+      editor={editor}
+      pluginKey="linkBubbleMenu"
+      shouldShow={({ editor: currentEditor }) => currentEditor.isEditable && currentEditor.isActive('link')}
+      tippyOptions={{ placement: 'bottom-start', onHidden: () => setIsEditing(false) }}
+    >
+      <div className="flex items-center gap-1 rounded-md border border-gray-200 bg-white p-1 shadow-md">
+        {isEditing ? (
+          <form onSubmit={handleSubmit} className="flex items-center gap-1">
+            <div>
+              <Input
+                value={url}
+                onChange={(e) => { setUrl(e.target.value); setError(null); }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') {
+                    e.preventDefault();
+                    setIsEditing(false);
+                    editor.commands.focus();
+                  }
+                }}
+                className="h-8 w-64 text-sm"
+                aria-label="Link URL"
+                autoFocus
+              />
+              {error && <p className="px-1 pt-1 text-xs text-red-600">{error}</p>}
+            </div>
+            <Button type="submit" variant="ghost" size="sm" aria-label="Save link">
+              <Check className="h-4 w-4" />
+            </Button>
+          </form>
+        ) : (
+          <>
+            <a
+              href={href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="flex max-w-[260px] items-center gap-1 px-2 text-sm text-blue-600 hover:underline"
+              title={href}
+            >
+              <ExternalLink className="h-3.5 w-3.5 shrink-0" />
+              <span className="truncate">{href}</span>
+            </a>
+            <Button variant="ghost" size="sm" onClick={startEditing} aria-label="Edit link">
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={removeLink} aria-label="Remove link">
+              <Unlink className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+    </BubbleMenu>
+  );
+};
+
+export default LinkBubbleMenu;
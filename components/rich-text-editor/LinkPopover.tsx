@@ -0,0 +1,107 @@
+/**
+ * LinkPopover Component
+ *
+ * Purpose:
+ * Toolbar control for adding or changing the link on the selected text.
+ *
+ * Functionality:
+ * - Opens a small form prefilled with the current link's URL.
+ * - Applies the link to the selection (or the whole link under the cursor);
+ *   with nothing selected the URL itself is inserted as linked text.
+ * - Rejects URLs with disallowed schemes such as "javascript:".
+ * - Removes the link when the field is cleared or "Remove" is clicked.
+ *
+ * Location: /components/rich-text-editor/LinkPopover.tsx
+ */
+"use client";
+
+import React, { useState } from 'react';
+import { type Editor } from '@tiptap/react';
+import { Link2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Toggle } from '@/components/ui/toggle';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { normalizeLinkUrl } from '@/components/rich-text-editor/editor-urls';
+
+interface LinkPopoverProps {
+  editor: Editor;
+  iconSize: number;
+}
+
+const LinkPopover: React.FC<LinkPopoverProps> = ({ editor, iconSize }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const isActive = editor.isActive('link');
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setUrl(editor.getAttributes('link').href || '');
+      setError(null);
+    }
+    setIsOpen(open);
+  };
+
+  const removeLink = () => {
+    editor.chain().focus().extendMarkRange('link').unsetLink().run();
+    setIsOpen(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) {
+      removeLink();
+      return;
+    }
+    const href = normalizeLinkUrl(url);
+    if (!href) {
+      setError('Use a web, email or phone link.');
+      return;
+    }
+    if (editor.state.selection.empty && !isActive) {
+      editor
+        .chain()
+        .focus()
+        .insertContent({ type: 'text', text: url.trim(), marks: [{ type: 'link', attrs: { href } }] })
+        .run();
+    } else {
+      editor.chain().focus().extendMarkRange('link').setLink({ href }).run();
+    }
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Toggle size="sm" pressed={isActive} aria-label={isActive ? 'Edit link' : 'Add link'}>
+          <Link2 size={iconSize} />
+        </Toggle>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-3">
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <Input
+            value={url}
+            onChange={(e) => { setUrl(e.target.value); setError(null); }}
+            placeholder="https://example.com"
+            aria-label="Link URL"
+            autoFocus
+          />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            {isActive && (
+              <Button type="button" variant="outline" size="sm" onClick={removeLink}>
+                Remove
+              </Button>
+            )}
+            <Button type="submit" size="sm">
+              {isActive ? 'Update' : 'Add Link'}
+            </Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default LinkPopover;
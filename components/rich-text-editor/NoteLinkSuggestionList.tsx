@@ -0,0 +1,93 @@
+/**
+ * NoteLinkSuggestionList Component
+ *
+ * Purpose:
+ * Popup list of notes shown while typing a `[[` link in the editor.
+ *
+ * Functionality:
+ * - Renders the matching notes passed in by the suggestion plugin.
+ * - Handles ArrowUp/ArrowDown/Enter through the `onKeyDown` ref handle, since
+ *   keyboard focus stays in the editor while the popup is open.
+ * - Inserts the picked note via the suggestion `command`.
+ *
+ * Location: /components/rich-text-editor/NoteLinkSuggestionList.tsx
+ */
+"use client";
+
+import React, { forwardRef, useEffect, useImperativeHandle, useState } from 'react';
+import type { SuggestionKeyDownProps, SuggestionProps } from '@tiptap/suggestion';
+import { FileText } from 'lucide-react';
+import type { NoteLinkTarget } from './extensions/note-link';
+import { cn } from '@/lib/utils';
+
+export type NoteLinkSuggestionListProps = SuggestionProps<NoteLinkTarget, NoteLinkTarget>;
+
+export interface NoteLinkSuggestionListHandle {
+  onKeyDown: (props: SuggestionKeyDownProps) => boolean;
+}
+
+const NoteLinkSuggestionList = forwardRef<NoteLinkSuggestionListHandle, NoteLinkSuggestionListProps>(
+  ({ items, command, query }, ref) => {
+    const [selectedIndex, setSelectedIndex] = useState(0);
+
+    useEffect(() => {
+      setSelectedIndex(0);
+    }, [items]);
+
+    const selectItem = (index: number) => {
+      const item = items[index];
+      if (item) {
+        command(item);
+      }
+    };
+
+    useImperativeHandle(ref, () => ({
+      onKeyDown: ({ event }) => {
+        if (items.length === 0) return false;
+        if (event.key === 'ArrowUp') {
+          setSelectedIndex(index => (index + items.length - 1) % items.length);
+          return true;
+        }
+        if (event.key === 'ArrowDown') {
+          setSelectedIndex(index => (index + 1) % items.length);
+          return true;
+        }
+        if (event.key === 'Enter' || event.key === 'Tab') {
+          selectItem(selectedIndex);
+          return true;
+        }
+        return false;
+      },
+    }));
+
+    return (
+      <div className="w-72 max-h-72 overflow-y-auto rounded-md border border-gray-200 bg-white py-1 shadow-lg">
+        {items.length === 0 ? (
+          <div className="px-3 py-2 text-sm text-gray-500">
+            {query ? `No notes match "${query}"` : 'No other notes to link yet'}
+          </div>
+        ) : (
+          items.map((item, index) => (
+            <button
+              key={item.id}
+              type="button"
+              onClick={() => selectItem(index)}
+              onMouseEnter={() => setSelectedIndex(index)}
+              className={cn(
+                'flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-gray-700',
+                index === selectedIndex && 'bg-blue-50 text-blue-700'
+              )}
+            >
+              <FileText className="h-4 w-4 shrink-0 text-gray-400" />
+              <span className="truncate">{item.title || 'Untitled Note'}</span>
+            </button>
+          ))
+        )}
+      </div>
+    );
+  }
+);
+
+NoteLinkSuggestionList.displayName = 'NoteLinkSuggestionList';
+
+export default NoteLinkSuggestionList;
@@ -6,7 +6,10 @@
  *
  * Functionality:
  * - Receives a Tiptap editor instance as a prop.
- * - Displays buttons for common text formatting actions (bold, italic, headings, lists, etc.).
+ * - Displays buttons for common text formatting actions (bold, italic, underline,
+ *   headings, alignment, lists, etc.).
+ * - Adds links, inline images and tables through their own popovers and menus
+ *   (LinkPopover, ImagePopover, TableMenu).
  * - Toggles formatting on the editor when buttons are clicked.
  * - Highlights active formatting options.
  *
@@ -20,11 +23,17 @@ import {
   Bold,
   Italic,
   Strikethrough,
+  Underline,
+  AlignLeft,
+  AlignCenter,
+  AlignRight,
+  AlignJustify,
   Heading1,
   Heading2,
   Heading3,
   List,
   ListOrdered,
+  ListChecks,
   Quote,
   Code,
   Undo,
@@ -33,11 +42,21 @@ import {
 import { Toggle } from '@/components/ui/toggle';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import LinkPopover from '@/components/rich-text-editor/LinkPopover';
+import ImagePopover from '@/components/rich-text-editor/ImagePopover';
+import TableMenu from '@/components/rich-text-editor/TableMenu';
 
 interface RichTextToolbarProps {
   editor: Editor | null;
 }
 
+const ALIGNMENTS = [
+  { value: 'left', label: 'Align left', Icon: AlignLeft },
+  { value: 'center', label: 'Align center', Icon: AlignCenter },
+  { value: 'right', label: 'Align right', Icon: AlignRight },
+  { value: 'justify', label: 'Justify', Icon: AlignJustify },
+] as const;
+
 const RichTextToolbar: React.FC<RichTextToolbarProps> = ({ editor }) => {
   if (!editor) {
     return null;
@@ -74,6 +93,16 @@ const RichTextToolbar: React.FC<RichTextToolbarProps> = ({ editor }) => {
       >
         <Strikethrough size={iconSize} />
       </Toggle>
+      <Toggle
+        size="sm"
+        pressed={editor.isActive('underline')}
+        onPressedChange={() => editor.chain().focus().toggleUnderline().run()}
+        disabled={!editor.can().chain().focus().toggleUnderline().run()}
+        aria-label="Toggle underline"
+      >
+        <Underline size={iconSize} />
+      </Toggle>
+      <LinkPopover editor={editor} iconSize={iconSize} />
 
       <Separator orientation="vertical" className="h-6 mx-1" />
 
@@ -107,6 +136,21 @@ const RichTextToolbar: React.FC<RichTextToolbarProps> = ({ editor }) => {
       
       <Separator orientation="vertical" className="h-6 mx-1" />
 
+      {ALIGNMENTS.map(({ value, label, Icon }) => (
+        <Toggle
+          key={value}
+          size="sm"
+          pressed={editor.isActive({ textAlign: value })}
+          onPressedChange={() => editor.chain().focus().setTextAlign(value).run()}
+          disabled={!editor.can().chain().focus().setTextAlign(value).run()}
+          aria-label={label}
+        >
+          <Icon size={iconSize} />
+        </Toggle>
+      ))}
+
+      <Separator orientation="vertical" className="h-6 mx-1" />
+
       <Toggle
         size="sm"
         pressed={editor.isActive('bulletList')}
@@ -125,6 +169,15 @@ const RichTextToolbar: React.FC<RichTextToolbarProps> = ({ editor }) => {
       >
         <ListOrdered size={iconSize} />
       </Toggle>
+      <Toggle
+        size="sm"
+        pressed={editor.isActive('taskList')}
+        onPressedChange={() => editor.chain().focus().toggleTaskList().run()}
+        disabled={!editor.can().chain().focus().toggleTaskList().run()}
+        aria-label="Toggle task list"
+      >
+        <ListChecks size={iconSize} />
+      </Toggle>
       <Toggle
         size="sm"
         pressed={editor.isActive('codeBlock')}
@@ -137,6 +190,11 @@ const RichTextToolbar: React.FC<RichTextToolbarProps> = ({ editor }) => {
 
       <Separator orientation="vertical" className="h-6 mx-1" />
 
+      <TableMenu editor={editor} iconSize={iconSize} />
+      <ImagePopover editor={editor} iconSize={iconSize} />
+
+      <Separator orientation="vertical" className="h-6 mx-1" />
+
       {/* Color Picker Input */}
       <input
         type="color"
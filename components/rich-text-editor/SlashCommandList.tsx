@@ -0,0 +1,134 @@
+/**
+ * SlashCommandList Component
+ *
+ * Purpose:
+ * Popup menu of blocks shown while typing a "/" command in the editor.
+ *
+ * Functionality:
+ * - Renders the matching commands passed in by the suggestion plugin; the
+ *   unfiltered menu is grouped under "Blocks", "Insert" and "Snippets".
+ * - Handles ArrowUp/ArrowDown/Home/End/Enter/Tab through the `onKeyDown` ref
+ *   handle, since keyboard focus stays in the editor while the popup is open,
+ *   and keeps the highlighted command scrolled into view.
+ * - Runs the picked command via the suggestion `command`.
+ *
+ * Location: /components/rich-text-editor/SlashCommandList.tsx
+ */
+"use client";
+
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import type { SuggestionKeyDownProps, SuggestionProps } from '@tiptap/suggestion';
+import type { SlashCommand } from './slash-commands';
+import { cn } from '@/lib/utils';
+
+export type SlashCommandListProps = SuggestionProps<SlashCommand, SlashCommand>;
+
+export interface SlashCommandListHandle {
+  onKeyDown: (props: SuggestionKeyDownProps) => boolean;
+}
+
+const SlashCommandList = forwardRef<SlashCommandListHandle, SlashCommandListProps>(
+  ({ items, command, query }, ref) => {
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const itemRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+    useEffect(() => {
+      setSelectedIndex(0);
+    }, [items]);
+
+    useEffect(() => {
+      itemRefs.current[selectedIndex]?.scrollIntoView({ block: 'nearest' });
+    }, [selectedIndex]);
+
+    const selectItem = (index: number) => {
+      const item = items[index];
+      if (item) {
+        command(item);
+      }
+    };
+
+    useImperativeHandle(ref, () => ({
+      onKeyDown: ({ event }) => {
+        if (items.length === 0) return false;
+        if (event.key === 'ArrowUp') {
+          setSelectedIndex(index => (index + items.length - 1) % items.length);
+          return true;
+        }
+        if (event.key === 'ArrowDown') {
+          setSelectedIndex(index => (index + 1) % items.length);
+          return true;
+        }
+        if (event.key === 'Home') {
+          setSelectedIndex(0);
+          return true;
+        }
+        if (event.key === 'End') {
+          setSelectedIndex(items.length - 1);
+          return true;
+        }
+        if (event.key === 'Enter' || event.key === 'Tab') {
+          selectItem(selectedIndex);
+          return true;
+        }
+        return false;
+      },
+    }));
+
+    if (items.length === 0) {
+      return (
+        <div className="w-72 rounded-md border border-gray-200 bg-white px-3 py-2 text-sm text-gray-500 shadow-lg">
+          No commands match &quot;{query}&quot;
+        </div>
+      );
+    }
+
+    return (
+      <div
+        className="w-72 max-h-80 overflow-y-auto rounded-md border border-gray-200 bg-white py-1 shadow-lg"
+        role="listbox"
+        aria-label="Insert block"
+      >
+        {items.map((item, index) => {
+          const Icon = item.icon;
+          // Group headings only for the full menu; filtered results are ordered by match
+          const startsGroup = !query && (index === 0 || items[index - 1].group !== item.group);
+          return (
+            <React.Fragment key={item.id}>
+              {startsGroup && (
+                <div className="px-3 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-gray-400">
+                  {item.group}
+                </div>
+              )}
+              <button
+                ref={element => { itemRefs.current[index] = element; }}
+                type="button"
+                role="option"
+                aria-selected={index === selectedIndex}
+                onClick={() => selectItem(index)}
+                onMouseEnter={() => setSelectedIndex(index)}
+                className={cn(
+                  'flex w-full items-center gap-3 px-3 py-1.5 text-left',
+                  index === selectedIndex && 'bg-blue-50'
+                )}
+              >
+                <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded border border-gray-200 bg-white">
+                  <Icon className="h-4 w-4 text-gray-600" />
+                </span>
+                <span className="min-w-0">
+                  <span className={cn('block truncate text-sm text-gray-800', index === selectedIndex && 'text-blue-700')}>
+                    {item.title}
+                  </span>
+                  <span className="block truncate text-xs text-gray-500">{item.description}</span>
+                </span>
+              </button>
+            </React.Fragment>
+          );
+        })}
+      </div>
+    );
+  }
+);
+
+SlashCommandList.displayName = 'SlashCommandList';
+
+export default SlashCommandList;
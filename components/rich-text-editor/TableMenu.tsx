@@ -0,0 +1,92 @@
+/**
+ * TableMenu Component
+ *
+ * Purpose:
+ * Toolbar dropdown for inserting tables and editing their rows and columns.
+ *
+ * Functionality:
+ * - Inserts a 3x3 table with a header row.
+ * - Inside a table: add rows above/below and columns left/right, delete the
+ *   current row, column or the whole table, toggle the header row, and
+ *   merge or split selected cells.
+ * - Items that don't apply at the cursor are disabled.
+ *
+ * Location: /components/rich-text-editor/TableMenu.tsx
+ */
+"use client";
+
+import React from 'react';
+import { type Editor } from '@tiptap/react';
+import { Table as TableIcon } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Toggle } from '@/components/ui/toggle';
+
+interface TableMenuProps {
+  editor: Editor;
+  iconSize: number;
+}
+
+const TableMenu: React.FC<TableMenuProps> = ({ editor, iconSize }) => {
+  const isInTable = editor.isActive('table');
+  const can = editor.can();
+
+  const tableItems: { label: string; enabled: boolean; run: () => boolean; destructive?: boolean }[][] = [
+    [
+      { label: 'Add row above', enabled: can.addRowBefore(), run: () => editor.chain().focus().addRowBefore().run() },
+      { label: 'Add row below', enabled: can.addRowAfter(), run: () => editor.chain().focus().addRowAfter().run() },
+      { label: 'Add column left', enabled: can.addColumnBefore(), run: () => editor.chain().focus().addColumnBefore().run() },
+      { label: 'Add column right', enabled: can.addColumnAfter(), run: () => editor.chain().focus().addColumnAfter().run() },
+    ],
+    [
+      { label: 'Toggle header row', enabled: can.toggleHeaderRow(), run: () => editor.chain().focus().toggleHeaderRow().run() },
+      { label: 'Merge cells', enabled: can.mergeCells(), run: () => editor.chain().focus().mergeCells().run() },
+      { label: 'Split cell', enabled: can.splitCell(), run: () => editor.chain().focus().splitCell().run() },
+    ],
+    [
+      { label: 'Delete row', enabled: can.deleteRow(), run: () => editor.chain().focus().deleteRow().run(), destructive: true },
+      { label: 'Delete column', enabled: can.deleteColumn(), run: () => editor.chain().focus().deleteColumn().run(), destructive: true },
+      { label: 'Delete table', enabled: can.deleteTable(), run: () => editor.chain().focus().deleteTable().run(), destructive: true },
+    ],
+  ];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Toggle size="sm" pressed={isInTable} aria-label="Table options">
+          <TableIcon size={iconSize} />
+        </Toggle>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-48">
+        <DropdownMenuItem
+          disabled={isInTable || !can.insertTable({ rows: 3, cols: 3, withHeaderRow: true })}
+          onSelect={() => editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run()}
+        >
+          Insert table
+        </DropdownMenuItem>
+        {isInTable && tableItems.map((group, index) => (
+          <React.Fragment key={index}>
+            <DropdownMenuSeparator />
+            {group.map(item => (
+              <DropdownMenuItem
+                key={item.label}
+                disabled={!item.enabled}
+                onSelect={item.run}
+                className={item.destructive ? 'text-red-600 focus:text-red-600' : undefined}
+              >
+                {item.label}
+              </DropdownMenuItem>
+            ))}
+          </React.Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default TableMenu;
@@ -0,0 +1,39 @@
+/**
+ * URL helpers for the link and image controls of the note editor.
+ * They accept what a user would type ("example.com", "/dashboard/notes") and
+ * only produce URLs the server-side sanitizer keeps (see
+ * /lib/note-html-sanitizer.ts).
+ * Location: /components/rich-text-editor/editor-urls.ts
+ */
+
+const SCHEME_PATTERN = /^([a-z][a-z0-9+.-]*):/i;
+
+const LINK_PROTOCOLS = ['http', 'https', 'mailto', 'tel'];
+const IMAGE_PROTOCOLS = ['http', 'https'];
+
+function normalizeUrl(value: string, protocols: string[]): string | null {
+  const url = value.trim();
+  if (!url) return null;
+  if (url.startsWith('/') || url.startsWith('#')) return url;
+  const scheme = SCHEME_PATTERN.exec(url);
+  if (!scheme) {
+    // "user@example.com" is an email address; anything else without a scheme is a web address
+    return /^[^\s@/]+@[^\s@/]+\.[^\s@/]+$/.test(url) ? `mailto:${url}` : `https://${url}`;
+  }
+  return protocols.includes(scheme[1].toLowerCase()) ? url : null;
+}
+
+/**
+ * Link target for a typed URL, or null if it uses a disallowed scheme
+ * (e.g. "javascript:").
+ */
+export function normalizeLinkUrl(value: string): string | null {
+  return normalizeUrl(value, LINK_PROTOCOLS);
+}
+
+/**
+ * Image source for a typed URL; only web addresses are allowed.
+ */
+export function normalizeImageUrl(value: string): string | null {
+  return normalizeUrl(value, IMAGE_PROTOCOLS);
+}
@@ -0,0 +1,56 @@
+/**
+ * Callout Tiptap Extension
+ *
+ * Purpose:
+ * Highlighted box for tips, warnings and other notes-within-a-note.
+ *
+ * Functionality:
+ * - Block node holding paragraphs (and other blocks), serialized as
+ *   `<div data-callout="info">...</div>`.
+ * - `setCallout` wraps the current block in a callout, `unsetCallout` lifts
+ *   its content back out.
+ *
+ * Location: /components/rich-text-editor/extensions/callout.ts
+ */
+import { Node, mergeAttributes } from '@tiptap/react';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    callout: {
+      setCallout: () => ReturnType;
+      unsetCallout: () => ReturnType;
+    };
+  }
+}
+
+export const Callout = Node.create({
+  name: 'callout',
+  group: 'block',
+  content: 'block+',
+  defining: true,
+
+  addAttributes() {
+    return {
+      variant: {
+        default: 'info',
+        parseHTML: element => element.getAttribute('data-callout') || 'info',
+        renderHTML: attributes => ({ 'data-callout': attributes.variant }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-callout]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes({ class: 'callout' }, HTMLAttributes), 0];
+  },
+
+  addCommands() {
+    return {
+      setCallout: () => ({ commands }) => commands.wrapIn(this.name),
+      unsetCallout: () => ({ commands }) => commands.lift(this.name),
+    };
+  },
+});
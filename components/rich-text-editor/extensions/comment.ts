@@ -0,0 +1,168 @@
+/**
+ * Comment Tiptap Extension
+ *
+ * Purpose:
+ * Mark anchoring an inline comment thread to the passage it was started on.
+ *
+ * Functionality:
+ * - Serializes as `<span data-comment-id="...">` with the thread's ID; being
+ *   part of the content, it moves with its text through edits (and live
+ *   editing), and is split or shortened along with it.
+ * - Not inclusive, so typing at the edges of a passage doesn't extend it;
+ *   passages of different threads can overlap.
+ * - Only open threads are highlighted, through decorations, once
+ *   `setCommentThreadStates` says which those are; resolved threads keep
+ *   their mark without showing it. Clicking a highlight calls `onSelectThread`.
+ * - `setComment` marks the selection for a thread.
+ *
+ * Location: /components/rich-text-editor/extensions/comment.ts
+ */
+import { Mark, mergeAttributes, type Editor } from '@tiptap/react';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { COMMENT_ID_ATTRIBUTE } from '@/lib/note-comments';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    comment: {
+      setComment: (threadId: string) => ReturnType;
+    };
+  }
+}
+
+export interface CommentOptions {
+  onSelectThread: (threadId: string) => void;
+}
+
+interface CommentStorage {
+  openThreadIds: Set<string>;
+  activeThreadId: string | null;
+}
+
+export const CommentHighlightPluginKey = new PluginKey<DecorationSet>('commentHighlight');
+
+const OPEN_THREAD_CLASS = 'bg-amber-100 border-b-2 border-amber-300 cursor-pointer';
+const ACTIVE_THREAD_CLASS = 'bg-amber-200 border-b-2 border-amber-500 cursor-pointer';
+
+// IDs of the comment marks on a text node
+const getThreadIds = (node: ProseMirrorNode): string[] =>
+  node.marks.filter(mark => mark.type.name === 'comment' && mark.attrs.threadId).map(mark => mark.attrs.threadId);
+
+export const CommentMark = Mark.create<CommentOptions, CommentStorage>({
+  name: 'comment',
+  inclusive: false,
+  excludes: '', // Overlapping passages keep one mark per thread
+
+  addOptions() {
+    return {
+      onSelectThread: () => {},
+    };
+  },
+
+  addStorage() {
+    return {
+      openThreadIds: new Set(),
+      activeThreadId: null,
+    };
+  },
+
+  addAttributes() {
+    return {
+      threadId: {
+        default: null,
+        parseHTML: element => element.getAttribute(COMMENT_ID_ATTRIBUTE),
+        renderHTML: attributes => ({ [COMMENT_ID_ATTRIBUTE]: attributes.threadId }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: `span[${COMMENT_ID_ATTRIBUTE}]` }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes), 0];
+  },
+
+  addCommands() {
+    return {
+      setComment: threadId => ({ commands }) => commands.setMark(this.name, { threadId }),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const storage = this.storage;
+    const options = this.options;
+
+    const buildDecorations = (doc: ProseMirrorNode) => {
+      const decorations: Decoration[] = [];
+      doc.descendants((node, pos) => {
+        if (!node.isText) return;
+        const openIds = getThreadIds(node).filter(id => storage.openThreadIds.has(id));
+        if (openIds.length === 0) return;
+        const className = openIds.includes(storage.activeThreadId ?? '') ? ACTIVE_THREAD_CLASS : OPEN_THREAD_CLASS;
+        decorations.push(Decoration.inline(pos, pos + node.nodeSize, { class: className }));
+      });
+      return DecorationSet.create(doc, decorations);
+    };
+
+    return [
+      new Plugin<DecorationSet>({
+        key: CommentHighlightPluginKey,
+        state: {
+          init: (_config, state) => buildDecorations(state.doc),
+          apply: (tr, decorations) =>
+            tr.docChanged || tr.getMeta(CommentHighlightPluginKey) ? buildDecorations(tr.doc) : decorations,
+        },
+        props: {
+          decorations: state => CommentHighlightPluginKey.getState(state),
+          handleClick: (view, pos) => {
+            const node = view.state.doc.nodeAt(pos) ?? view.state.doc.resolve(pos).nodeBefore;
+            const threadId = node && getThreadIds(node).find(id => storage.openThreadIds.has(id));
+            if (threadId) options.onSelectThread(threadId);
+            return false; // The cursor still moves there
+          },
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * Tells the comment highlights which threads are open (only those are
+ * shown) and which one is selected in the comments sidebar.
+ */
+export function setCommentThreadStates(editor: Editor, openThreadIds: string[], activeThreadId: string | null) {
+  const storage = editor.storage.comment as CommentStorage | undefined;
+  if (!storage || editor.isDestroyed) return;
+  storage.openThreadIds = new Set(openThreadIds);
+  storage.activeThreadId = activeThreadId;
+  editor.view.dispatch(editor.state.tr.setMeta(CommentHighlightPluginKey, true));
+}
+
+/**
+ * The range of the first passage marked for a thread, or null when its text
+ * is gone.
+ */
+export function findCommentAnchor(editor: Editor, threadId: string): { from: number; to: number } | null {
+  let anchor: { from: number; to: number } | null = null;
+  editor.state.doc.descendants((node, pos) => {
+    if (anchor) return false;
+    if (node.isText && getThreadIds(node).includes(threadId)) {
+      anchor = { from: pos, to: pos + node.nodeSize };
+    }
+  });
+  return anchor;
+}
+
+/**
+ * IDs of every thread with a passage in the document, in document order.
+ */
+export function getAnchoredThreadIds(editor: Editor): string[] {
+  const ids = new Set<string>();
+  editor.state.doc.descendants(node => {
+    if (node.isText) getThreadIds(node).forEach(id => ids.add(id));
+  });
+  return Array.from(ids);
+}
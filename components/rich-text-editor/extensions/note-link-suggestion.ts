@@ -0,0 +1,86 @@
+/**
+ * NoteLink suggestion configuration
+ *
+ * Purpose:
+ * Supplies the items and popup rendering for the `[[` suggestion of the
+ * NoteLink extension.
+ *
+ * Functionality:
+ * - Filters the linkable notes by the typed query (title contains, prefix
+ *   matches first), ignoring a trailing `]]` the user may have typed.
+ * - Renders NoteLinkSuggestionList in a tippy popup anchored at the cursor.
+ *
+ * Location: /components/rich-text-editor/extensions/note-link-suggestion.ts
+ */
+import { ReactRenderer } from '@tiptap/react';
+import tippy, { type Instance as TippyInstance } from 'tippy.js';
+import NoteLinkSuggestionList, {
+  type NoteLinkSuggestionListHandle,
+  type NoteLinkSuggestionListProps,
+} from '../NoteLinkSuggestionList';
+import type { NoteLinkOptions, NoteLinkTarget } from './note-link';
+
+const MAX_NOTE_LINK_SUGGESTIONS = 8;
+
+export function createNoteLinkSuggestion(
+  getTargets: () => NoteLinkTarget[]
+): Pick<NoteLinkOptions['suggestion'], 'items' | 'render'> {
+  return {
+    items: ({ query }) => {
+      const normalizedQuery = query.replace(/\]+$/, '').trim().toLowerCase();
+      return getTargets()
+        .filter(target => target.title.toLowerCase().includes(normalizedQuery))
+        .sort((a, b) =>
+          Number(!a.title.toLowerCase().startsWith(normalizedQuery)) -
+          Number(!b.title.toLowerCase().startsWith(normalizedQuery))
+        )
+        .slice(0, MAX_NOTE_LINK_SUGGESTIONS);
+    },
+
+    render: () => {
+      let component: ReactRenderer<NoteLinkSuggestionListHandle, NoteLinkSuggestionListProps> | null = null;
+      let popup: TippyInstance | null = null;
+
+      return {
+        onStart: props => {
+          component = new ReactRenderer(NoteLinkSuggestionList, {
+            props,
+            editor: props.editor,
+          });
+          if (!props.clientRect) return;
+          popup = tippy(document.body, {
+            getReferenceClientRect: props.clientRect as () => DOMRect,
+            appendTo: () => document.body,
+            content: component.element,
+            showOnCreate: true,
+            interactive: true,
+            trigger: 'manual',
+            placement: 'bottom-start',
+          });
+        },
+
+        onUpdate: props => {
+          component?.updateProps(props);
+          if (props.clientRect) {
+            popup?.setProps({ getReferenceClientRect: props.clientRect as () => DOMRect });
+          }
+        },
+
+        onKeyDown: props => {
+          if (props.event.key === 'Escape') {
+            popup?.hide();
+            return true;
+          }
+          return component?.ref?.onKeyDown(props) ?? false;
+        },
+
+        onExit: () => {
+          popup?.destroy();
+          component?.destroy();
+          popup = null;
+          component = null;
+        },
+      };
+    },
+  };
+}
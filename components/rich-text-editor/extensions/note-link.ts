@@ -0,0 +1,166 @@
+/**
+ * NoteLink Tiptap Extension
+ *
+ * Purpose:
+ * Inline node for wiki-style links between notes. Typing `[[` opens a
+ * suggestion popup of note titles; picking one inserts a link that points to
+ * the note by ID, so it keeps working when the target is renamed.
+ *
+ * Functionality:
+ * - Serializes as `<a data-note-id="..." href="/dashboard/notes/...">Title</a>`
+ *   (the server extracts these IDs into the note_links table on save).
+ * - The stored title is only a fallback: the node view shows the target's
+ *   current title once `setNoteLinkTitles` is called, and marks links whose
+ *   target no longer exists.
+ * - Clicking a link calls the `onNavigate` option.
+ *
+ * Location: /components/rich-text-editor/extensions/note-link.ts
+ */
+import { Node, mergeAttributes, type Editor } from '@tiptap/react';
+import { PluginKey } from '@tiptap/pm/state';
+import Suggestion, { type SuggestionOptions } from '@tiptap/suggestion';
+import { NOTE_LINK_ID_ATTRIBUTE, getNoteHref } from '@/lib/note-links';
+
+export interface NoteLinkTarget {
+  id: string;
+  title: string;
+}
+
+export interface NoteLinkOptions {
+  HTMLAttributes: Record<string, string>;
+  onNavigate: (noteId: string) => void;
+  suggestion: Omit<SuggestionOptions<NoteLinkTarget, NoteLinkTarget>, 'editor'>;
+}
+
+interface NoteLinkStorage {
+  titlesById: Record<string, string> | null; // null until the note list has loaded
+  views: Set<() => void>; // Re-render callbacks of the mounted node views
+}
+
+export const NoteLinkPluginKey = new PluginKey('noteLink');
+
+const LINK_CLASS = 'text-blue-600 underline decoration-dotted underline-offset-2 cursor-pointer';
+const MISSING_LINK_CLASS = 'text-gray-400 line-through cursor-not-allowed';
+
+export const NoteLink = Node.create<NoteLinkOptions, NoteLinkStorage>({
+  name: 'noteLink',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: { class: LINK_CLASS },
+      onNavigate: () => {},
+      suggestion: {
+        char: '[[',
+        allowSpaces: true, // Note titles usually contain spaces
+        allowedPrefixes: null,
+        pluginKey: NoteLinkPluginKey,
+        command: ({ editor, range, props }) => {
+          editor
+            .chain()
+            .focus()
+            .insertContentAt(range, [
+              { type: this.name, attrs: { noteId: props.id, label: props.title } },
+              { type: 'text', text: ' ' },
+            ])
+            .run();
+        },
+      },
+    };
+  },
+
+  addStorage() {
+    return {
+      titlesById: null,
+      views: new Set(),
+    };
+  },
+
+  addAttributes() {
+    return {
+      noteId: {
+        default: null,
+        parseHTML: element => element.getAttribute(NOTE_LINK_ID_ATTRIBUTE),
+        renderHTML: attributes => ({ [NOTE_LINK_ID_ATTRIBUTE]: attributes.noteId }),
+      },
+      label: {
+        default: '',
+        parseHTML: element => element.textContent || '',
+        rendered: false, // Rendered as the link text instead
+      },
+    };
+  },
+
+  parseHTML() {
+    // Higher priority than a plain link mark so note links stay nodes
+    return [{ tag: `a[${NOTE_LINK_ID_ATTRIBUTE}]`, priority: 100 }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'a',
+      mergeAttributes({ href: getNoteHref(node.attrs.noteId) }, this.options.HTMLAttributes, HTMLAttributes),
+      node.attrs.label,
+    ];
+  },
+
+  renderText({ node }) {
+    return `[[${node.attrs.label}]]`;
+  },
+
+  addNodeView() {
+    return ({ node }) => {
+      const noteId: string = node.attrs.noteId;
+      const dom = document.createElement('a');
+      dom.setAttribute('href', getNoteHref(noteId));
+      dom.setAttribute(NOTE_LINK_ID_ATTRIBUTE, noteId);
+
+      const render = () => {
+        const titlesById = this.storage.titlesById;
+        const isMissing = titlesById !== null && !(noteId in titlesById);
+        dom.textContent = titlesById?.[noteId] || node.attrs.label;
+        dom.className = isMissing ? MISSING_LINK_CLASS : LINK_CLASS;
+        dom.title = isMissing ? 'This note no longer exists' : `Open "${dom.textContent}"`;
+      };
+      render();
+
+      dom.addEventListener('click', event => {
+        event.preventDefault(); // Links inside the editor never navigate on their own
+        const titlesById = this.storage.titlesById;
+        if (titlesById !== null && !(noteId in titlesById)) return;
+        this.options.onNavigate(noteId);
+      });
+
+      this.storage.views.add(render);
+      return {
+        dom,
+        destroy: () => {
+          this.storage.views.delete(render);
+        },
+      };
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      Suggestion({
+        editor: this.editor,
+        ...this.options.suggestion,
+      }),
+    ];
+  },
+});
+
+/**
+ * Gives the link node views the current title of every linkable note, so
+ * renamed targets show their new title and deleted ones are marked as missing.
+ */
+export function setNoteLinkTitles(editor: Editor, titlesById: Record<string, string>) {
+  const storage = editor.storage.noteLink as NoteLinkStorage | undefined;
+  if (!storage) return;
+  storage.titlesById = titlesById;
+  storage.views.forEach(render => render());
+}
@@ -0,0 +1,103 @@
+/**
+ * SlashCommand Tiptap Extension
+ *
+ * Purpose:
+ * Opens a command menu when the user types "/" at the start of a line or
+ * after a space, for inserting blocks without leaving the keyboard.
+ *
+ * Functionality:
+ * - Uses @tiptap/suggestion with "/" as the trigger; the text typed after it
+ *   filters the commands (see /components/rich-text-editor/slash-commands.ts).
+ * - `getCommands` is read on every keystroke, so the snippet list can change
+ *   after the editor was created.
+ * - Renders SlashCommandList in a tippy popup anchored at the cursor;
+ *   ArrowUp/ArrowDown/Enter/Tab pick a command and Escape closes the menu.
+ *
+ * Location: /components/rich-text-editor/extensions/slash-command.ts
+ */
+import { Extension, ReactRenderer } from '@tiptap/react';
+import { PluginKey } from '@tiptap/pm/state';
+import Suggestion from '@tiptap/suggestion';
+import tippy, { type Instance as TippyInstance } from 'tippy.js';
+import SlashCommandList, {
+  type SlashCommandListHandle,
+  type SlashCommandListProps,
+} from '../SlashCommandList';
+import { filterSlashCommands, type SlashCommand } from '../slash-commands';
+
+export interface SlashCommandOptions {
+  getCommands: () => SlashCommand[];
+}
+
+export const SlashCommandPluginKey = new PluginKey('slashCommand');
+
+export const SlashCommandExtension = Extension.create<SlashCommandOptions>({
+  name: 'slashCommand',
+
+  addOptions() {
+    return {
+      getCommands: () => [],
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      Suggestion<SlashCommand, SlashCommand>({
+        editor: this.editor,
+        char: '/',
+        pluginKey: SlashCommandPluginKey,
+        // Not inside code, where "/" is usually just a character
+        allow: ({ editor }) => !editor.isActive('codeBlock') && !editor.isActive('code'),
+        items: ({ query }) => filterSlashCommands(this.options.getCommands(), query),
+        command: ({ editor, range, props }) => {
+          props.run({ editor, range });
+        },
+        render: () => {
+          let component: ReactRenderer<SlashCommandListHandle, SlashCommandListProps> | null = null;
+          let popup: TippyInstance | null = null;
+
+          return {
+            onStart: props => {
+              component = new ReactRenderer(SlashCommandList, {
+                props,
+                editor: props.editor,
+              });
+              if (!props.clientRect) return;
+              popup = tippy(document.body, {
+                getReferenceClientRect: props.clientRect as () => DOMRect,
+                appendTo: () => document.body,
+                content: component.element,
+                showOnCreate: true,
+                interactive: true,
+                trigger: 'manual',
+                placement: 'bottom-start',
+              });
+            },
+
+            onUpdate: props => {
+              component?.updateProps(props);
+              if (props.clientRect) {
+                popup?.setProps({ getReferenceClientRect: props.clientRect as () => DOMRect });
+              }
+            },
+
+            onKeyDown: props => {
+              if (props.event.key === 'Escape') {
+                popup?.hide();
+                return true;
+              }
+              return component?.ref?.onKeyDown(props) ?? false;
+            },
+
+            onExit: () => {
+              popup?.destroy();
+              component?.destroy();
+              popup = null;
+              component = null;
+            },
+          };
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,213 @@
+/**
+ * Slash command catalogue
+ *
+ * Purpose:
+ * The blocks offered by the editor's "/" menu and how each one is inserted.
+ *
+ * Functionality:
+ * - `getSlashCommands` lists the built-in blocks (headings, lists, quote,
+ *   code block, divider, table, callout, date stamp) followed by the user's
+ *   snippets.
+ * - `filterSlashCommands` matches the typed query against titles and
+ *   keywords, best matches first.
+ * - Every command first deletes the typed "/query" (`range`) and then
+ *   inserts or toggles its block.
+ *
+ * Location: /components/rich-text-editor/slash-commands.ts
+ */
+import type { Editor, Range } from '@tiptap/react';
+import {
+  CalendarDays,
+  Code,
+  FileText,
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListChecks,
+  ListOrdered,
+  Minus,
+  Info,
+  Quote,
+  Table,
+  type LucideIcon,
+} from 'lucide-react';
+import type { SelectSnippet } from '@/db/schema';
+import { snippetBodyToContent } from '@/lib/snippets';
+
+export type SlashCommandGroup = 'Blocks' | 'Insert' | 'Snippets';
+
+export interface SlashCommand {
+  id: string;
+  title: string;
+  description: string;
+  group: SlashCommandGroup;
+  icon: LucideIcon;
+  keywords: string[];
+  run: (props: { editor: Editor; range: Range }) => void;
+}
+
+const MAX_SLASH_COMMAND_RESULTS = 12;
+
+function formatDateStamp(date: Date): string {
+  return date.toLocaleDateString(undefined, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+const BUILT_IN_COMMANDS: SlashCommand[] = [
+  {
+    id: 'heading-1',
+    title: 'Heading 1',
+    description: 'Large section heading',
+    group: 'Blocks',
+    icon: Heading1,
+    keywords: ['h1', 'title', 'big'],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).setNode('heading', { level: 1 }).run(),
+  },
+  {
+    id: 'heading-2',
+    title: 'Heading 2',
+    description: 'Medium section heading',
+    group: 'Blocks',
+    icon: Heading2,
+    keywords: ['h2', 'subtitle'],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).setNode('heading', { level: 2 }).run(),
+  },
+  {
+    id: 'heading-3',
+    title: 'Heading 3',
+    description: 'Small section heading',
+    group: 'Blocks',
+    icon: Heading3,
+    keywords: ['h3'],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).setNode('heading', { level: 3 }).run(),
+  },
+  {
+    id: 'bullet-list',
+    title: 'Bullet List',
+    description: 'Simple bulleted list',
+    group: 'Blocks',
+    icon: List,
+    keywords: ['ul', 'unordered', 'points'],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).toggleBulletList().run(),
+  },
+  {
+    id: 'ordered-list',
+    title: 'Numbered List',
+    description: 'List with numbering',
+    group: 'Blocks',
+    icon: ListOrdered,
+    keywords: ['ol', 'ordered', 'numbers'],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).toggleOrderedList().run(),
+  },
+  {
+    id: 'task-list',
+    title: 'Task List',
+    description: 'Checklist with checkboxes',
+    group: 'Blocks',
+    icon: ListChecks,
+    keywords: ['todo', 'checkbox', 'checklist'],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).toggleTaskList().run(),
+  },
+  {
+    id: 'quote',
+    title: 'Quote',
+    description: 'Quoted text',
+    group: 'Blocks',
+    icon: Quote,
+    keywords: ['blockquote', 'citation'],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).toggleBlockquote().run(),
+  },
+  {
+    id: 'code-block',
+    title: 'Code Block',
+    description: 'Monospaced block for code',
+    group: 'Blocks',
+    icon: Code,
+    keywords: ['code', 'pre', 'snippet'],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).toggleCodeBlock().run(),
+  },
+  {
+    id: 'callout',
+    title: 'Callout',
+    description: 'Highlighted box for tips and warnings',
+    group: 'Blocks',
+    icon: Info,
+    keywords: ['note', 'info', 'tip', 'warning', 'box'],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).setCallout().run(),
+  },
+  {
+    id: 'divider',
+    title: 'Divider',
+    description: 'Horizontal line between sections',
+    group: 'Insert',
+    icon: Minus,
+    keywords: ['hr', 'rule', 'separator', 'line'],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).setHorizontalRule().run(),
+  },
+  {
+    id: 'table',
+    title: 'Table',
+    description: '3 × 3 table with a header row',
+    group: 'Insert',
+    icon: Table,
+    keywords: ['grid', 'rows', 'columns'],
+    run: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run(),
+  },
+  {
+    id: 'date',
+    title: 'Date Stamp',
+    description: "Today's date",
+    group: 'Insert',
+    icon: CalendarDays,
+    keywords: ['today', 'now', 'time'],
+    run: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).insertContent(formatDateStamp(new Date())).run(),
+  },
+];
+
+/**
+ * All commands for the menu: built-in blocks, then the user's snippets.
+ */
+export function getSlashCommands(snippets: Pick<SelectSnippet, 'id' | 'name' | 'body'>[]): SlashCommand[] {
+  const snippetCommands: SlashCommand[] = snippets.map(snippet => ({
+    id: `snippet-${snippet.id}`,
+    title: snippet.name,
+    description: snippet.body.replace(/\s+/g, ' ').trim().slice(0, 60),
+    group: 'Snippets',
+    icon: FileText,
+    keywords: ['snippet', 'template'],
+    run: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).insertContent(snippetBodyToContent(snippet.body)).run(),
+  }));
+  return [...BUILT_IN_COMMANDS, ...snippetCommands];
+}
+
+/**
+ * Commands matching the text typed after "/": title prefix matches first,
+ * then other title matches, then keyword matches.
+ */
+export function filterSlashCommands(commands: SlashCommand[], query: string): SlashCommand[] {
+  const normalizedQuery = query.trim().toLowerCase();
+  if (!normalizedQuery) return commands; // The full menu scrolls
+
+  const rank = (command: SlashCommand): number => {
+    const title = command.title.toLowerCase();
+    if (title.startsWith(normalizedQuery)) return 0;
+    if (title.includes(normalizedQuery)) return 1;
+    if (command.keywords.some(keyword => keyword.startsWith(normalizedQuery))) return 2;
+    return -1;
+  };
+
+  return commands
+    .map(command => ({ command, rank: rank(command) }))
+    .filter(({ rank: commandRank }) => commandRank >= 0)
+    .sort((a, b) => a.rank - b.rank) // Stable, so catalogue order breaks ties
+    .slice(0, MAX_SLASH_COMMAND_RESULTS)
+    .map(({ command }) => command);
+}
@@ -2,31 +2,116 @@
  * Sidebar component for the Template App
  * Provides primary navigation for the dashboard with a clean, modern UI
  * Features user avatar at the bottom and billing management option
+ * Lists the user's favourite notes in a collapsible section under "Your Notes"
+ * Shows the user's categories as a collapsible tree with note counts that
+ * include nested categories; each links to the board filtered to that subtree
+ * Shows a workspace switcher under the logo; favourites and categories are
+ * those of the active workspace
  */
 "use client";
 
-import { Home, Settings, Database, Target, Users, Sparkles, CreditCard } from "lucide-react";
+import { Home, Settings, Database, Target, Users, Sparkles, CreditCard, Trash2, CheckSquare, Star, ChevronRight, Folder } from "lucide-react";
 import Link from "next/link";
-import { usePathname, useRouter } from "next/navigation";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { UserButton } from "@clerk/nextjs";
 import { Button } from "@/components/ui/button";
 import { motion } from "framer-motion";
 import { SelectProfile } from "@/db/schema/profiles-schema";
+import { SelectNote } from "@/db/schema/notes-schema";
+import type { ManagedCategory } from "@/db/queries/categories-queries";
+import type { PendingWorkspaceInvitation } from "@/db/queries/workspace-invitations-queries";
+import type { WorkspaceWithRole } from "@/lib/workspaces";
+import { buildCategoryTree, CategoryTreeNode, sumOverSubtrees } from "@/lib/category-tree";
 import { CreditUsageDisplay } from "@/components/credit-usage-display";
 import UpgradePlanPopup from "@/components/upgrade-plan-popup";
-import { useState, useEffect, useCallback } from "react";
+import WorkspaceSwitcher from "@/components/workspaces/workspace-switcher";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Fragment, useState, useEffect, useCallback, useMemo } from "react";
 
 interface SidebarProps {
   profile: SelectProfile | null;
   userEmail?: string;
   whopMonthlyPlanId: string;
   whopYearlyPlanId: string;
+  favoriteNotes?: Pick<SelectNote, "id" | "title">[];
+  categories?: ManagedCategory[];
+  workspaces?: WorkspaceWithRole[];
+  activeWorkspace?: WorkspaceWithRole;
+  workspaceInvitations?: PendingWorkspaceInvitation[];
 }
 
-export default function Sidebar({ profile, userEmail, whopMonthlyPlanId, whopYearlyPlanId }: SidebarProps) {
+export default function Sidebar({
+  profile,
+  userEmail,
+  whopMonthlyPlanId,
+  whopYearlyPlanId,
+  favoriteNotes = [],
+  categories = [],
+  workspaces = [],
+  activeWorkspace,
+  workspaceInvitations = [],
+}: SidebarProps) {
   const pathname = usePathname();
+  const searchParams = useSearchParams();
   const router = useRouter();
   const [showUpgradePopup, setShowUpgradePopup] = useState(false);
+  const [showFavorites, setShowFavorites] = useState(true);
+  const [showCategories, setShowCategories] = useState(true);
+  const [collapsedCategoryIds, setCollapsedCategoryIds] = useState<string[]>([]);
+
+  const categoryTree = useMemo(() => buildCategoryTree(categories), [categories]);
+  const subtreeNoteCounts = useMemo(
+    () => sumOverSubtrees(categories, Object.fromEntries(categories.map(category => [category.id, category.noteCount]))),
+    [categories]
+  );
+  const activeCategoryId = pathname === "/dashboard/notes" ? searchParams.get("category") : null;
+
+  const toggleCategoryCollapsed = (id: string) => {
+    setCollapsedCategoryIds(prev => (prev.includes(id) ? prev.filter(collapsedId => collapsedId !== id) : [...prev, id]));
+  };
+
+  const renderCategoryNode = (node: CategoryTreeNode<ManagedCategory>): React.ReactNode => {
+    const { category, children, depth } = node;
+    const href = `/dashboard/notes?category=${category.id}`;
+    const isCollapsed = collapsedCategoryIds.includes(category.id);
+    return (
+      <li key={category.id}>
+        <div
+          className={`flex items-center gap-1 rounded-md py-1 pr-3 text-xs transition-colors ${
+            activeCategoryId === category.id
+              ? "bg-gray-100 font-medium text-gray-900"
+              : "text-gray-600 hover:bg-gray-100/80 hover:text-gray-900"
+          }`}
+          style={{ paddingLeft: `${20 + depth * 12}px` }}
+        >
+          {children.length > 0 ? (
+            <button
+              type="button"
+              onClick={() => toggleCategoryCollapsed(category.id)}
+              className="shrink-0 text-gray-400 hover:text-gray-700"
+              aria-label={isCollapsed ? `Expand ${category.name}` : `Collapse ${category.name}`}
+              aria-expanded={!isCollapsed}
+            >
+              <ChevronRight size={12} className={`transition-transform ${isCollapsed ? "" : "rotate-90"}`} />
+            </button>
+          ) : (
+            <span className="w-3 shrink-0" />
+          )}
+          <Link
+            href={href}
+            onClick={(e) => handleNavItemClick(e, href)}
+            className="flex min-w-0 flex-1 items-center gap-1.5"
+            title={category.name}
+          >
+            <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: category.color }} />
+            <span className="truncate">{category.name}</span>
+            <span className="ml-auto pl-1 text-gray-400">{subtreeNoteCounts[category.id] ?? 0}</span>
+          </Link>
+        </div>
+        {children.length > 0 && !isCollapsed && <ul>{children.map(renderCategoryNode)}</ul>}
+      </li>
+    );
+  };
   
   const isActive = (path: string) => pathname === path;
   
@@ -42,6 +127,8 @@ export default function Sidebar({ profile, userEmail, whopMonthlyPlanId, whopYea
   
   const navItems = [
     { href: "/dashboard/notes", icon: <Home size={16} />, label: "Your Notes" },
+    { href: "/dashboard/tasks", icon: <CheckSquare size={16} />, label: "Open Tasks" },
+    { href: "/dashboard/trash", icon: <Trash2 size={16} />, label: "Trash" },
     { href: "/dashboard/settings", icon: <Settings size={16} />, label: "Settings" },
   ];
 
@@ -96,7 +183,7 @@ export default function Sidebar({ profile, userEmail, whopMonthlyPlanId, whopYea
         <div className="absolute inset-y-0 right-0 w-px bg-gradient-to-b from-transparent via-white to-transparent opacity-80" />
 
         {/* Logo */}
-        <div className="px-3 mb-8 relative z-10">
+        <div className="px-3 mb-4 relative z-10">
           <Link href="/dashboard">
             <motion.div 
               className="flex items-center justify-center md:justify-start"
@@ -113,38 +200,97 @@ export default function Sidebar({ profile, userEmail, whopMonthlyPlanId, whopYea
           </Link>
         </div>
 
+        {/* Workspace switcher */}
+        {profile && activeWorkspace && (
+          <div className="px-3 mb-6 relative z-10">
+            <WorkspaceSwitcher
+              userId={profile.userId}
+              workspaces={workspaces}
+              activeWorkspace={activeWorkspace}
+              invitations={workspaceInvitations}
+            />
+          </div>
+        )}
+
         {/* Navigation Items */}
         <nav className="flex-1 px-3 relative z-10">
           <div className="space-y-1.5">
             {navItems.map((item) => (
-              <Link 
-                key={item.href} 
-                href={item.href} 
-                className="block"
-                onClick={(e) => handleNavItemClick(e, item.href)}
-              >
-                <motion.div 
-                  className={`flex items-center py-2 px-3 rounded-lg cursor-pointer transition-all ${
-                    isActive(item.href) 
-                      ? "bg-[#1a1a1a] text-white shadow-sm" 
-                      : "text-gray-600 hover:bg-gray-100/80 hover:border-gray-200/50 hover:shadow-md"
-                  }`}
-                  whileHover={{ 
-                    scale: 1.03, 
-                    x: 4,
-                    transition: { duration: 0.2 }
-                  }}
-                  whileTap={{ scale: 0.98 }}
-                  transition={{ duration: 0.2 }}
+              <Fragment key={item.href}>
+                <Link 
+                  href={item.href} 
+                  className="block"
+                  onClick={(e) => handleNavItemClick(e, item.href)}
                 >
-                  <div className="flex items-center justify-center">
-                    {item.icon}
-                  </div>
-                  <span className={`ml-3 hidden md:block text-sm font-medium`}>
-                    {item.label}
-                  </span>
-                </motion.div>
-              </Link>
+                  <motion.div 
+                    className={`flex items-center py-2 px-3 rounded-lg cursor-pointer transition-all ${
+                      isActive(item.href) 
+                        ? "bg-[#1a1a1a] text-white shadow-sm" 
+                        : "text-gray-600 hover:bg-gray-100/80 hover:border-gray-200/50 hover:shadow-md"
+                    }`}
+                    whileHover={{ 
+                      scale: 1.03, 
+                      x: 4,
+                      transition: { duration: 0.2 }
+                    }}
+                    whileTap={{ scale: 0.98 }}
+                    transition={{ duration: 0.2 }}
+                  >
+                    <div className="flex items-center justify-center">
+                      {item.icon}
+                    </div>
+                    <span className={`ml-3 hidden md:block text-sm font-medium`}>
+                      {item.label}
+                    </span>
+                  </motion.div>
+                </Link>
+
+                {/* Favourite notes, right under "Your Notes" */}
+                {item.href === "/dashboard/notes" && favoriteNotes.length > 0 && (
+                  <Collapsible open={showFavorites} onOpenChange={setShowFavorites} className="hidden md:block">
+                    <CollapsibleTrigger className="flex w-full items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-500 hover:text-gray-900">
+                      <ChevronRight size={12} className={`transition-transform ${showFavorites ? "rotate-90" : ""}`} />
+                      <Star size={12} />
+                      <span>Favourites</span>
+                      <span className="ml-auto text-gray-400">{favoriteNotes.length}</span>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent className="max-h-64 space-y-0.5 overflow-y-auto pb-1">
+                      {favoriteNotes.map((note) => {
+                        const href = `/dashboard/notes/${note.id}`;
+                        return (
+                          <Link
+                            key={note.id}
+                            href={href}
+                            onClick={(e) => handleNavItemClick(e, href)}
+                            className={`block truncate rounded-md py-1 pl-9 pr-3 text-xs transition-colors ${
+                              pathname === href
+                                ? "bg-gray-100 font-medium text-gray-900"
+                                : "text-gray-600 hover:bg-gray-100/80 hover:text-gray-900"
+                            }`}
+                            title={note.title}
+                          >
+                            {note.title || "Untitled Note"}
+                          </Link>
+                        );
+                      })}
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
+
+                {/* Category tree, after the favourites */}
+                {item.href === "/dashboard/notes" && categories.length > 0 && (
+                  <Collapsible open={showCategories} onOpenChange={setShowCategories} className="hidden md:block">
+                    <CollapsibleTrigger className="flex w-full items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-500 hover:text-gray-900">
+                      <ChevronRight size={12} className={`transition-transform ${showCategories ? "rotate-90" : ""}`} />
+                      <Folder size={12} />
+                      <span>Categories</span>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent className="max-h-72 overflow-y-auto pb-1">
+                      <ul className="space-y-0.5">{categoryTree.map(renderCategoryNode)}</ul>
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
+              </Fragment>
             ))}
           </div>
         </nav>
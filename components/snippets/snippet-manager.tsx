@@ -0,0 +1,211 @@
+/**
+ * SnippetManager Component
+ *
+ * Purpose:
+ * Lets the user maintain the snippets offered in the editor's "/" menu.
+ *
+ * Functionality:
+ * - Lists the user's snippets with a preview of their text.
+ * - Creates and edits snippets in an inline form (name + multi-line text).
+ * - Deletes snippets after a confirmation dialog.
+ *
+ * Location: /components/snippets/snippet-manager.tsx
+ */
+"use client";
+
+import React, { useState } from 'react';
+import { FileText, Pencil, Plus, Trash2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  createSnippetAction,
+  deleteSnippetAction,
+  updateSnippetAction,
+} from '@/actions/snippets-actions';
+import { SelectSnippet } from '@/db/schema';
+import { MAX_SNIPPET_BODY_LENGTH, MAX_SNIPPET_NAME_LENGTH, validateSnippet } from '@/lib/snippets';
+
+interface SnippetManagerProps {
+  initialSnippets: SelectSnippet[];
+  loadError: string | null;
+}
+
+// null: form closed; "new": creating; otherwise the ID being edited
+type EditingState = null | 'new' | string;
+
+const SnippetManager: React.FC<SnippetManagerProps> = ({ initialSnippets, loadError }) => {
+  const { toast } = useToast();
+  const [snippets, setSnippets] = useState<SelectSnippet[]>(initialSnippets);
+  const [editing, setEditing] = useState<EditingState>(null);
+  const [name, setName] = useState('');
+  const [body, setBody] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<SelectSnippet | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const openForm = (snippet?: SelectSnippet) => {
+    setEditing(snippet ? snippet.id : 'new');
+    setName(snippet?.name ?? '');
+    setBody(snippet?.body ?? '');
+  };
+
+  const closeForm = () => {
+    setEditing(null);
+    setName('');
+    setBody('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateSnippet({ name, body });
+    if (validationError) {
+      toast({ title: "Invalid Snippet", description: validationError, variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    const result = editing === 'new'
+      ? await createSnippetAction({ name, body })
+      : await updateSnippetAction(editing as string, { name, body });
+    setIsSaving(false);
+
+    if (result.isSuccess && result.data) {
+      const saved = result.data;
+      setSnippets(prev =>
+        [...prev.filter(snippet => snippet.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      closeForm();
+      toast({ title: editing === 'new' ? "Snippet Created" : "Snippet Updated", description: `Type /${saved.name} in a note to insert it.` });
+    } else {
+      toast({ title: "Save Failed", description: result.message || "Could not save the snippet.", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    setIsDeleting(true);
+    const result = await deleteSnippetAction(pendingDelete.id);
+    setIsDeleting(false);
+    if (result.isSuccess) {
+      setSnippets(prev => prev.filter(snippet => snippet.id !== pendingDelete.id));
+      if (editing === pendingDelete.id) closeForm();
+      toast({ title: "Snippet Deleted" });
+    } else {
+      toast({ title: "Delete Failed", description: result.message || "Could not delete the snippet.", variant: "destructive" });
+    }
+    setPendingDelete(null);
+  };
+
+  const form = (
+    <form onSubmit={handleSave} className="space-y-3 rounded-md border border-gray-200 p-4">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Snippet name, e.g. Meeting notes"
+        maxLength={MAX_SNIPPET_NAME_LENGTH}
+        autoFocus
+      />
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Text to insert. Each line becomes a paragraph."
+        rows={5}
+        maxLength={MAX_SNIPPET_BODY_LENGTH}
+      />
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={closeForm} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {editing === 'new' ? 'Create Snippet' : 'Save Changes'}
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="space-y-4">
+      {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+
+      {snippets.length === 0 && editing !== 'new' && !loadError && (
+        <p className="text-sm text-muted-foreground">
+          No snippets yet. Snippets appear under &quot;Snippets&quot; when you type / in a note.
+        </p>
+      )}
+
+      {snippets.length > 0 && (
+        <ul className="divide-y rounded-md border border-gray-200">
+          {snippets.map(snippet => (
+            <li key={snippet.id} className="p-3">
+              {editing === snippet.id ? (
+                form
+              ) : (
+                <div className="flex items-start gap-3">
+                  <FileText className="mt-0.5 h-4 w-4 shrink-0 text-gray-400" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-gray-900">{snippet.name}</p>
+                    <p className="truncate text-xs text-gray-500">{snippet.body.replace(/\s+/g, ' ')}</p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => openForm(snippet)} aria-label={`Edit ${snippet.name}`}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setPendingDelete(snippet)}
+                    aria-label={`Delete ${snippet.name}`}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing === 'new' ? (
+        form
+      ) : (
+        <Button variant="outline" onClick={() => openForm()} disabled={editing !== null}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Snippet
+        </Button>
+      )}
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => { if (!open) setPendingDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete snippet?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{pendingDelete?.name}&quot; will no longer be offered in the / menu. Notes that already
+              contain its text are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isDeleting} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default SnippetManager;
@@ -0,0 +1,50 @@
+/**
+ * TagChip Component
+ *
+ * Purpose:
+ * Renders a single note tag as a small pill, optionally with a remove button.
+ *
+ * Functionality:
+ * - Shows the tag name prefixed with "#".
+ * - When `onRemove` is given, shows an "x" button that calls it.
+ *
+ * Location: /components/tags/tag-chip.tsx
+ */
+import React from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface TagChipProps {
+  name: string;
+  onRemove?: () => void;
+  className?: string;
+}
+
+const TagChip: React.FC<TagChipProps> = ({ name, onRemove, className }) => {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-0.5 rounded-full bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-700',
+        className
+      )}
+    >
+      <span className="text-slate-400">#</span>
+      {name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          className="ml-0.5 rounded-full text-slate-400 hover:text-slate-700 focus:outline-none focus-visible:ring-1 focus-visible:ring-slate-400"
+          aria-label={`Remove tag ${name}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  );
+};
+
+export default TagChip;
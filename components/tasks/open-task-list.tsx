@@ -0,0 +1,172 @@
+/**
+ * OpenTaskList Component
+ *
+ * Purpose:
+ * Shows every unfinished checklist item across the user's notes in one place,
+ * e.g. the action items from all meeting notes.
+ *
+ * Functionality:
+ * - Groups tasks into Overdue, Today, Upcoming and No due date (using the
+ *   browser's local date).
+ * - Shows each task with the note it comes from and that note's category;
+ *   clicking a task opens the note, where it can be ticked off.
+ * - Filters tasks by text or note title.
+ *
+ * Location: /components/tasks/open-task-list.tsx
+ */
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { CalendarDays, CheckSquare, FileText, Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { SelectCategory } from '@/db/schema';
+import type { OpenNoteTask } from '@/db/queries/note-tasks-queries';
+import { getNoteHref } from '@/lib/note-links';
+import { cn } from '@/lib/utils';
+
+interface OpenTaskListProps {
+  tasks: OpenNoteTask[];
+  categories: SelectCategory[];
+  loadError: string | null;
+}
+
+type TaskGroupId = 'overdue' | 'today' | 'upcoming' | 'undated';
+
+const TASK_GROUPS: { id: TaskGroupId; label: string }[] = [
+  { id: 'overdue', label: 'Overdue' },
+  { id: 'today', label: 'Today' },
+  { id: 'upcoming', label: 'Upcoming' },
+  { id: 'undated', label: 'No due date' },
+];
+
+// YYYY-MM-DD for the local calendar day, comparable with task due dates
+function getLocalDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function formatDueDate(dueDate: string): string {
+  const [year, month, day] = dueDate.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+const OpenTaskList: React.FC<OpenTaskListProps> = ({ tasks, categories, loadError }) => {
+  const [filter, setFilter] = useState('');
+  const categoriesById = useMemo(() => new Map(categories.map(category => [category.id, category])), [categories]);
+
+  const groupedTasks = useMemo(() => {
+    const today = getLocalDateKey(new Date());
+    const normalizedFilter = filter.trim().toLowerCase();
+    const groups: Record<TaskGroupId, OpenNoteTask[]> = { overdue: [], today: [], upcoming: [], undated: [] };
+    for (const task of tasks) {
+      if (
+        normalizedFilter &&
+        !task.text.toLowerCase().includes(normalizedFilter) &&
+        !task.noteTitle.toLowerCase().includes(normalizedFilter)
+      ) {
+        continue;
+      }
+      if (!task.dueDate) groups.undated.push(task);
+      else if (task.dueDate < today) groups.overdue.push(task);
+      else if (task.dueDate === today) groups.today.push(task);
+      else groups.upcoming.push(task);
+    }
+    return groups;
+  }, [tasks, filter]);
+
+  const visibleCount = TASK_GROUPS.reduce((sum, group) => sum + groupedTasks[group.id].length, 0);
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Open Tasks</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Unchecked items from all your notes. Add &quot;due 2025-03-31&quot; or &quot;@2025-03-31&quot; to a task to give it a due date.
+          </p>
+        </div>
+        <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200 whitespace-nowrap self-start sm:self-auto">
+          {tasks.length} open {tasks.length === 1 ? 'task' : 'tasks'}
+        </Badge>
+      </div>
+
+      {loadError && <p className="text-sm text-red-600 mb-4">{loadError}</p>}
+
+      {tasks.length > 0 && (
+        <div className="relative mb-6">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter tasks or notes..."
+            className="pl-9"
+          />
+        </div>
+      )}
+
+      {tasks.length === 0 && !loadError ? (
+        <div className="text-center text-gray-500 py-16 bg-white rounded-lg shadow-sm">
+          <CheckSquare className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+          <p className="text-lg mb-1">No open tasks</p>
+          <p className="text-sm">Type /task in a note to start a checklist.</p>
+        </div>
+      ) : visibleCount === 0 && filter ? (
+        <p className="text-center text-gray-500 py-10">No tasks match &quot;{filter}&quot;.</p>
+      ) : (
+        <div className="space-y-8">
+          {TASK_GROUPS.filter(group => groupedTasks[group.id].length > 0).map(group => (
+            <section key={group.id}>
+              <h2 className={cn('text-sm font-semibold uppercase tracking-wide mb-2', group.id === 'overdue' ? 'text-red-600' : 'text-gray-500')}>
+                {group.label} ({groupedTasks[group.id].length})
+              </h2>
+              <ul className="bg-white rounded-lg shadow-sm divide-y">
+                {groupedTasks[group.id].map(task => {
+                  const category = categoriesById.get(task.categoryId);
+                  return (
+                    <li key={task.id}>
+                      <Link href={getNoteHref(task.noteId)} className="flex items-start gap-3 px-4 py-3 hover:bg-gray-50 transition-colors">
+                        <span className="mt-1 h-4 w-4 shrink-0 rounded border border-gray-300" aria-hidden="true" />
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm text-gray-900">{task.text}</p>
+                          <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+                            <span className="flex items-center gap-1 min-w-0">
+                              <FileText className="h-3 w-3 shrink-0" />
+                              <span className="truncate">{task.noteTitle}</span>
+                            </span>
+                            {category && (
+                              <span
+                                className="inline-flex items-center px-2 py-0.5 rounded-full font-medium"
+                                style={{
+                                  backgroundColor: `${category.color}20`,
+                                  color: category.color,
+                                  border: `1px solid ${category.color}40`,
+                                }}
+                              >
+                                {category.name}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        {task.dueDate && (
+                          <span className={cn('flex items-center gap-1 text-xs whitespace-nowrap', group.id === 'overdue' ? 'text-red-600' : 'text-gray-500')}>
+                            <CalendarDays className="h-3 w-3" />
+                            {formatDueDate(task.dueDate)}
+                          </span>
+                        )}
+                      </Link>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OpenTaskList;
@@ -0,0 +1,44 @@
+/**
+ * TaskProgress Component
+ *
+ * Purpose:
+ * Compact "3/7 done" indicator for the checklist items in a note.
+ *
+ * Functionality:
+ * - Shows a checkbox icon, the done/total label and a thin progress bar.
+ * - Turns green once every task is done.
+ *
+ * Location: /components/tasks/task-progress.tsx
+ */
+import React from 'react';
+import { CheckSquare } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatTaskProgress, NoteTaskProgress } from '@/lib/note-tasks';
+
+interface TaskProgressProps {
+  progress: NoteTaskProgress;
+  className?: string;
+}
+
+const TaskProgress: React.FC<TaskProgressProps> = ({ progress, className }) => {
+  const isComplete = progress.done === progress.total;
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div
+      className={cn('flex items-center gap-1.5 text-xs', isComplete ? 'text-green-600' : 'text-gray-500', className)}
+      title={`${progress.done} of ${progress.total} tasks done`}
+    >
+      <CheckSquare className="h-3 w-3 shrink-0" />
+      <span className="whitespace-nowrap">{formatTaskProgress(progress)}</span>
+      <div className="h-1 w-12 overflow-hidden rounded-full bg-gray-200">
+        <div
+          className={cn('h-full rounded-full', isComplete ? 'bg-green-500' : 'bg-blue-500')}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TaskProgress;
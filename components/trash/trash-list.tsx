@@ -0,0 +1,257 @@
+/**
+ * TrashList Component
+ *
+ * Purpose:
+ * Displays trashed categories and notes with actions to restore them or
+ * delete them permanently.
+ *
+ * Functionality:
+ * - Receives trashed notes and categories (plus active categories for labels).
+ * - Restores items via restoreNoteAction / restoreCategoryAction.
+ * - Permanently deletes items after a confirmation dialog.
+ * - Shows how many days are left before the scheduled purge removes each item.
+ *
+ * Location:
+ * /components/trash/trash-list.tsx
+ */
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Folder, FileText, RotateCcw, Trash2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  permanentlyDeleteCategoryAction,
+  permanentlyDeleteNoteAction,
+  restoreCategoryAction,
+  restoreNoteAction,
+} from '@/actions/trash-actions';
+import { SelectCategory, SelectNote } from '@/db/schema';
+import { getDaysUntilPurge, TRASH_RETENTION_DAYS } from '@/lib/trash';
+
+interface TrashListProps {
+  initialNotes: SelectNote[];
+  initialCategories: SelectCategory[];
+  activeCategories: SelectCategory[];
+  loadError: string | null;
+}
+
+type PendingDelete =
+  | { kind: 'note'; item: SelectNote }
+  | { kind: 'category'; item: SelectCategory };
+
+const TrashList: React.FC<TrashListProps> = ({
+  initialNotes,
+  initialCategories,
+  activeCategories,
+  loadError,
+}) => {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [notes, setNotes] = useState<SelectNote[]>(initialNotes);
+  const [categories, setCategories] = useState<SelectCategory[]>(initialCategories);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+
+  const allCategories = [...activeCategories, ...categories];
+  const findCategory = (id: string) => allCategories.find(category => category.id === id);
+  const countNotesIn = (categoryId: string) => notes.filter(note => note.categoryId === categoryId).length;
+
+  const reportResult = (result: { isSuccess: boolean; message: string }, failureTitle: string) => {
+    toast({
+      title: result.isSuccess ? 'Done' : failureTitle,
+      description: result.message,
+      variant: result.isSuccess ? 'default' : 'destructive',
+    });
+  };
+
+  const handleRestoreNote = async (note: SelectNote) => {
+    setBusyId(note.id);
+    const result = await restoreNoteAction(note.id);
+    setBusyId(null);
+    reportResult(result, 'Restore Failed');
+    if (result.isSuccess) {
+      setNotes(prev => prev.filter(n => n.id !== note.id));
+      // The note's category may have been restored with it
+      setCategories(prev => prev.filter(c => c.id !== note.categoryId));
+      router.refresh();
+    }
+  };
+
+  const handleRestoreCategory = async (category: SelectCategory) => {
+    setBusyId(category.id);
+    const result = await restoreCategoryAction(category.id);
+    setBusyId(null);
+    reportResult(result, 'Restore Failed');
+    if (result.isSuccess) {
+      setCategories(prev => prev.filter(c => c.id !== category.id));
+      setNotes(prev => prev.filter(n => !(n.categoryId === category.id && n.deletedAt?.getTime() === category.deletedAt?.getTime())));
+      router.refresh();
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+    const { kind, item } = pendingDelete;
+    setPendingDelete(null);
+    setBusyId(item.id);
+    const result = kind === 'note'
+      ? await permanentlyDeleteNoteAction(item.id)
+      : await permanentlyDeleteCategoryAction(item.id);
+    setBusyId(null);
+    reportResult(result, 'Delete Failed');
+    if (result.isSuccess) {
+      if (kind === 'note') {
+        setNotes(prev => prev.filter(n => n.id !== item.id));
+      } else {
+        setCategories(prev => prev.filter(c => c.id !== item.id));
+        setNotes(prev => prev.filter(n => n.categoryId !== item.id));
+      }
+    }
+  };
+
+  const renderPurgeBadge = (deletedAt: Date | null) => {
+    if (!deletedAt) return null;
+    const days = getDaysUntilPurge(deletedAt);
+    return (
+      <Badge variant="outline" className="text-xs font-normal text-gray-500">
+        {days === 0 ? 'Deleted soon' : `${days} ${days === 1 ? 'day' : 'days'} left`}
+      </Badge>
+    );
+  };
+
+  const renderActions = (id: string, onRestore: () => void, onDelete: () => void) => (
+    <div className="flex items-center gap-2 flex-shrink-0">
+      <Button variant="outline" size="sm" onClick={onRestore} disabled={busyId !== null}>
+        {busyId === id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-1" />}
+        Restore
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+        onClick={onDelete}
+        disabled={busyId !== null}
+      >
+        <Trash2 className="h-4 w-4 mr-1" />
+        Delete forever
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Deleted notes and categories are kept here for {TRASH_RETENTION_DAYS} days, then removed permanently.
+        </p>
+      </div>
+
+      {loadError && (
+        <div className="text-red-500 text-center p-4 bg-red-50 rounded-md mb-6">{loadError}</div>
+      )}
+
+      {!loadError && notes.length === 0 && categories.length === 0 && (
+        <div className="text-center text-gray-500 py-10 bg-white rounded-lg shadow-sm">
+          <Trash2 className="h-8 w-8 mx-auto mb-3 text-gray-300" />
+          <p className="text-xl mb-2">The trash is empty.</p>
+          <p>Deleted notes and categories will show up here.</p>
+        </div>
+      )}
+
+      {categories.length > 0 && (
+        <section className="mb-8">
+          <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">Categories</h2>
+          <div className="bg-white rounded-lg shadow-sm divide-y">
+            {categories.map(category => (
+              <div key={category.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Folder className="h-4 w-4 flex-shrink-0" style={{ color: category.color }} />
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 truncate">{category.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {countNotesIn(category.id)} {countNotesIn(category.id) === 1 ? 'note' : 'notes'} inside
+                    </div>
+                  </div>
+                  {renderPurgeBadge(category.deletedAt)}
+                </div>
+                {renderActions(
+                  category.id,
+                  () => handleRestoreCategory(category),
+                  () => setPendingDelete({ kind: 'category', item: category })
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {notes.length > 0 && (
+        <section>
+          <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">Notes</h2>
+          <div className="bg-white rounded-lg shadow-sm divide-y">
+            {notes.map(note => {
+              const category = findCategory(note.categoryId);
+              return (
+                <div key={note.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <FileText className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 truncate">{note.title}</div>
+                      {category && (
+                        <div className="text-xs truncate" style={{ color: category.color }}>
+                          {category.name}
+                        </div>
+                      )}
+                    </div>
+                    {renderPurgeBadge(note.deletedAt)}
+                  </div>
+                  {renderActions(
+                    note.id,
+                    () => handleRestoreNote(note),
+                    () => setPendingDelete({ kind: 'note', item: note })
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.kind === 'category'
+                ? `"${pendingDelete.item.name}" and the ${countNotesIn(pendingDelete.item.id)} trashed note(s) in it will be deleted forever.`
+                : `"${pendingDelete?.item.title}" will be deleted forever.`}{' '}
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete} className="bg-red-600 hover:bg-red-700">
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TrashList;
@@ -0,0 +1,391 @@
+/**
+ * WorkspaceSettingsDialog Component
+ *
+ * Purpose:
+ * Manages the active workspace: its name, members, invitations and billing.
+ *
+ * Functionality:
+ * - Loads the members (and, for the owner, pending invitations) every time
+ *   it opens.
+ * - The owner renames the workspace, changes members' roles, removes
+ *   members, invites people by email and revokes pending invitations.
+ * - Shows whose plan pays for the workspace's attachment storage; owners and
+ *   editors can put it on their own plan instead.
+ * - Members can leave the workspace; the owner can delete it once it holds
+ *   no notes. Personal workspaces can't be shared, left or deleted.
+ *
+ * Location: /components/workspaces/workspace-settings-dialog.tsx
+ */
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { CreditCard, Loader2, LogOut, Trash2, UserPlus } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  attachWorkspaceBillingAction,
+  deleteWorkspaceAction,
+  getWorkspaceMembersAction,
+  inviteToWorkspaceAction,
+  removeWorkspaceMemberAction,
+  renameWorkspaceAction,
+  revokeWorkspaceInvitationAction,
+  updateWorkspaceMemberRoleAction,
+} from '@/actions/workspaces-actions';
+import type { WorkspaceMember } from '@/db/queries/workspaces-queries';
+import type { SelectWorkspaceInvitation, WorkspaceRole } from '@/db/schema';
+import { normalizeShareEmail, validateShareEmail } from '@/lib/note-sharing';
+import {
+  getWorkspaceRoleLabel,
+  hasWorkspaceAccess,
+  INVITABLE_WORKSPACE_ROLES,
+  isInvitableWorkspaceRole,
+  MAX_WORKSPACE_NAME_LENGTH,
+  validateWorkspaceName,
+  WorkspaceWithRole,
+} from '@/lib/workspaces';
+
+interface WorkspaceSettingsDialogProps {
+  userId: string;
+  activeWorkspace: WorkspaceWithRole;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLeft: () => void; // After leaving or deleting the workspace
+}
+
+const RoleSelect: React.FC<{
+  value: WorkspaceRole;
+  onChange: (role: WorkspaceRole) => void;
+  label: string;
+}> = ({ value, onChange, label }) => (
+  <Select value={value} onValueChange={(next) => { if (isInvitableWorkspaceRole(next)) onChange(next); }}>
+    <SelectTrigger className="h-8 w-28 text-xs" aria-label={label}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {INVITABLE_WORKSPACE_ROLES.map(role => (
+        <SelectItem key={role.value} value={role.value} title={role.description}>
+          {role.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const WorkspaceSettingsDialog: React.FC<WorkspaceSettingsDialogProps> = ({
+  userId,
+  activeWorkspace,
+  open,
+  onOpenChange,
+  onLeft,
+}) => {
+  const { toast } = useToast();
+  const router = useRouter();
+  const { workspace, role } = activeWorkspace;
+  const isOwner = hasWorkspaceAccess(role, 'manage');
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<SelectWorkspaceInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState(workspace.name);
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor');
+
+  const loadMembers = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getWorkspaceMembersAction(workspace.id);
+    setIsLoading(false);
+    if (result.isSuccess && result.data) {
+      setMembers(result.data.members);
+      setInvitations(result.data.invitations);
+    } else {
+      toast({ title: "Couldn't Load Members", description: result.message, variant: "destructive" });
+    }
+  }, [workspace.id, toast]);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(workspace.name);
+    void loadMembers();
+  }, [open, workspace.name, loadMembers]);
+
+  const ownMember = members.find(({ member }) => member.userId === userId);
+  const billingMember = members.find(({ member }) => member.userId === workspace.billingUserId);
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { error } = validateWorkspaceName(name);
+    if (error) {
+      toast({ title: "Can't Rename", description: error, variant: "destructive" });
+      return;
+    }
+    setIsSaving(true);
+    const result = await renameWorkspaceAction(workspace.id, name);
+    setIsSaving(false);
+    if (result.isSuccess) {
+      toast({ title: result.message });
+      router.refresh();
+    } else {
+      toast({ title: "Rename Failed", description: result.message || "Could not rename the workspace.", variant: "destructive" });
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateShareEmail(normalizeShareEmail(email));
+    if (validationError) {
+      toast({ title: "Can't Invite", description: validationError, variant: "destructive" });
+      return;
+    }
+    setIsSaving(true);
+    const result = await inviteToWorkspaceAction(workspace.id, email, inviteRole);
+    setIsSaving(false);
+    if (result.isSuccess && result.data) {
+      const savedInvitation = result.data;
+      setInvitations(prev =>
+        prev.some(invitation => invitation.id === savedInvitation.id)
+          ? prev.map(invitation => (invitation.id === savedInvitation.id ? savedInvitation : invitation))
+          : [...prev, savedInvitation]
+      );
+      setEmail('');
+      toast({ title: "Invitation Sent", description: result.message });
+    } else {
+      toast({ title: "Can't Invite", description: result.message || "Could not send the invitation.", variant: "destructive" });
+    }
+  };
+
+  const handleRoleChange = async (entry: WorkspaceMember, nextRole: WorkspaceRole) => {
+    const { member } = entry;
+    if (member.role === nextRole) return;
+    setMembers(prev => prev.map(item => (item.member.id === member.id ? { ...item, member: { ...member, role: nextRole } } : item)));
+    const result = await updateWorkspaceMemberRoleAction(member.id, nextRole);
+    if (!result.isSuccess) {
+      setMembers(prev => prev.map(item => (item.member.id === member.id ? entry : item)));
+      toast({ title: "Update Failed", description: result.message || "Could not change their role.", variant: "destructive" });
+    }
+  };
+
+  const handleRemove = async (entry: WorkspaceMember) => {
+    const previousMembers = members;
+    setMembers(prev => prev.filter(item => item.member.id !== entry.member.id));
+    const result = await removeWorkspaceMemberAction(entry.member.id);
+    if (result.isSuccess) {
+      router.refresh(); // Billing may have gone back to the owner
+    } else {
+      setMembers(previousMembers);
+      toast({ title: "Remove Failed", description: result.message || "Could not remove the member.", variant: "destructive" });
+    }
+  };
+
+  const handleRevoke = async (invitation: SelectWorkspaceInvitation) => {
+    const previousInvitations = invitations;
+    setInvitations(prev => prev.filter(item => item.id !== invitation.id));
+    const result = await revokeWorkspaceInvitationAction(invitation.id);
+    if (!result.isSuccess) {
+      setInvitations(previousInvitations);
+      toast({ title: "Revoke Failed", description: result.message || "Could not revoke the invitation.", variant: "destructive" });
+    }
+  };
+
+  const handleAttachBilling = async () => {
+    setIsSaving(true);
+    const result = await attachWorkspaceBillingAction(workspace.id);
+    setIsSaving(false);
+    if (result.isSuccess) {
+      toast({ title: "Billing Updated", description: result.message });
+      router.refresh();
+    } else {
+      toast({ title: "Billing Update Failed", description: result.message || "Could not change the plan.", variant: "destructive" });
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!ownMember || !window.confirm(`Leave ${workspace.name}? You'll need a new invitation to come back.`)) return;
+    setIsSaving(true);
+    const result = await removeWorkspaceMemberAction(ownMember.member.id);
+    setIsSaving(false);
+    if (result.isSuccess) {
+      onOpenChange(false);
+      toast({ title: result.message });
+      onLeft();
+    } else {
+      toast({ title: "Leave Failed", description: result.message || "Could not leave the workspace.", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete ${workspace.name}? Its categories, members and invitations are removed too.`)) return;
+    setIsSaving(true);
+    const result = await deleteWorkspaceAction(workspace.id);
+    setIsSaving(false);
+    if (result.isSuccess) {
+      onOpenChange(false);
+      toast({ title: "Workspace Deleted", description: result.message });
+      onLeft();
+    } else {
+      toast({ title: "Can't Delete Workspace", description: result.message || "Could not delete the workspace.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{workspace.name}</DialogTitle>
+          <DialogDescription>
+            {workspace.personal
+              ? 'Your personal workspace. Create a new workspace to work on notes with other people.'
+              : `You are ${role === 'owner' ? 'the owner' : role === 'editor' ? 'an editor' : 'a viewer'} of this workspace. Editors can create and change notes and categories; viewers can read them.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {isOwner && (
+            <form onSubmit={handleRename} className="space-y-1.5">
+              <Label htmlFor="workspace-name">Name</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="workspace-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={MAX_WORKSPACE_NAME_LENGTH}
+                />
+                <Button type="submit" variant="outline" disabled={isSaving || name.trim() === workspace.name}>
+                  Rename
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {!workspace.personal && (
+            <div className="space-y-1.5">
+              <Label>Members</Label>
+              {isOwner && (
+                <form onSubmit={handleInvite} className="flex items-center gap-2">
+                  <Input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="name@example.com"
+                    aria-label="Email to invite"
+                    maxLength={320}
+                  />
+                  <RoleSelect value={inviteRole} onChange={setInviteRole} label="Role for the invite" />
+                  <Button type="submit" variant="outline" disabled={isSaving || !email.trim()}>
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    Invite
+                  </Button>
+                </form>
+              )}
+              <div className="max-h-64 overflow-y-auto">
+                {isLoading && members.length === 0 ? (
+                  <div className="flex justify-center py-6">
+                    <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                  </div>
+                ) : (
+                  <ul className="divide-y">
+                    {members.map(entry => {
+                      const label = entry.email ?? 'Unknown member';
+                      return (
+                        <li key={entry.member.id} className="flex items-center gap-3 py-2">
+                          <span className="min-w-0 flex-1 truncate text-sm text-gray-900" title={label}>
+                            {label}
+                            {entry.member.userId === userId && <span className="text-gray-400"> (you)</span>}
+                          </span>
+                          {isOwner && entry.member.role !== 'owner' ? (
+                            <>
+                              <RoleSelect
+                                value={entry.member.role}
+                                onChange={(nextRole) => handleRoleChange(entry, nextRole)}
+                                label={`Role for ${label}`}
+                              />
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleRemove(entry)}
+                                aria-label={`Remove ${label}`}
+                                className="h-7 w-7 text-red-600 hover:text-red-700"
+                              >
+                                <Trash2 className="h-3.5 w-3.5" />
+                              </Button>
+                            </>
+                          ) : (
+                            <Badge variant="outline" className="text-xs text-gray-500">
+                              {getWorkspaceRoleLabel(entry.member.role)}
+                            </Badge>
+                          )}
+                        </li>
+                      );
+                    })}
+                    {invitations.map(invitation => (
+                      <li key={invitation.id} className="flex items-center gap-3 py-2">
+                        <span className="min-w-0 flex-1 truncate text-sm text-gray-500" title={invitation.email}>
+                          {invitation.email}
+                        </span>
+                        <Badge variant="outline" className="text-xs text-gray-500" title="Hasn't joined yet">
+                          Invited as {getWorkspaceRoleLabel(invitation.role)}
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRevoke(invitation)}
+                          aria-label={`Revoke the invitation for ${invitation.email}`}
+                          className="h-7 w-7 text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+
+          {!workspace.personal && (
+            <div className="space-y-1.5">
+              <Label>Billing</Label>
+              <div className="flex items-center gap-3 rounded-md border px-3 py-2">
+                <CreditCard className="h-4 w-4 shrink-0 text-gray-400" />
+                <p className="min-w-0 flex-1 text-sm text-gray-600">
+                  {workspace.billingUserId === userId
+                    ? 'Attachment storage comes from your plan.'
+                    : `Attachment storage comes from the plan of ${billingMember?.email ?? 'another member'}.`}
+                </p>
+                {hasWorkspaceAccess(role, 'edit') && workspace.billingUserId !== userId && (
+                  <Button variant="outline" size="sm" onClick={handleAttachBilling} disabled={isSaving}>
+                    Use my plan
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {!workspace.personal && (
+            <div className="flex justify-end">
+              {isOwner ? (
+                <Button variant="ghost" className="text-red-600 hover:text-red-700" onClick={handleDelete} disabled={isSaving}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete workspace
+                </Button>
+              ) : (
+                <Button variant="ghost" className="text-red-600 hover:text-red-700" onClick={handleLeave} disabled={isSaving || !ownMember}>
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Leave workspace
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkspaceSettingsDialog;
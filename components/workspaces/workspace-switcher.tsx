@@ -0,0 +1,240 @@
+/**
+ * WorkspaceSwitcher Component
+ *
+ * Purpose:
+ * Shows the workspace the dashboard is working in and switches between the
+ * user's workspaces from the sidebar.
+ *
+ * Functionality:
+ * - Lists every workspace the user belongs to with their role, checking the
+ *   active one; picking another switches to it and opens its notes.
+ * - Creates a new workspace (the user becomes its owner) from a small dialog.
+ * - Opens WorkspaceSettingsDialog for the active workspace.
+ * - Lists invitations waiting for the user's email with join/decline buttons.
+ *
+ * Location: /components/workspaces/workspace-switcher.tsx
+ */
+"use client";
+
+import React, { useState } from 'react';
+import { Check, ChevronsUpDown, Loader2, Mail, Plus, Settings, X } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  acceptWorkspaceInvitationAction,
+  createWorkspaceAction,
+  declineWorkspaceInvitationAction,
+  switchWorkspaceAction,
+} from '@/actions/workspaces-actions';
+import type { PendingWorkspaceInvitation } from '@/db/queries/workspace-invitations-queries';
+import { getWorkspaceRoleLabel, MAX_WORKSPACE_NAME_LENGTH, validateWorkspaceName, WorkspaceWithRole } from '@/lib/workspaces';
+import WorkspaceSettingsDialog from './workspace-settings-dialog';
+
+interface WorkspaceSwitcherProps {
+  userId: string;
+  workspaces: WorkspaceWithRole[];
+  activeWorkspace: WorkspaceWithRole;
+  invitations: PendingWorkspaceInvitation[];
+}
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({ userId, workspaces, activeWorkspace, invitations }) => {
+  const { toast } = useToast();
+  const router = useRouter();
+  const [isBusy, setIsBusy] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  // The open page may belong to the previous workspace, so start from its notes
+  const openWorkspace = () => {
+    router.push('/dashboard/notes');
+    router.refresh();
+  };
+
+  const handleSwitch = async (workspaceId: string) => {
+    if (workspaceId === activeWorkspace.workspace.id) return;
+    setIsBusy(true);
+    const result = await switchWorkspaceAction(workspaceId);
+    setIsBusy(false);
+    if (result.isSuccess) {
+      openWorkspace();
+    } else {
+      toast({ title: "Switch Failed", description: result.message || "Could not open the workspace.", variant: "destructive" });
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { error } = validateWorkspaceName(newName);
+    if (error) {
+      toast({ title: "Can't Create Workspace", description: error, variant: "destructive" });
+      return;
+    }
+    setIsBusy(true);
+    const result = await createWorkspaceAction(newName);
+    setIsBusy(false);
+    if (result.isSuccess) {
+      setShowCreate(false);
+      setNewName('');
+      toast({ title: "Workspace Created", description: result.message });
+      openWorkspace();
+    } else {
+      toast({ title: "Can't Create Workspace", description: result.message || "Could not create the workspace.", variant: "destructive" });
+    }
+  };
+
+  const handleAccept = async (invitation: PendingWorkspaceInvitation) => {
+    setIsBusy(true);
+    const result = await acceptWorkspaceInvitationAction(invitation.invitation.id);
+    setIsBusy(false);
+    if (result.isSuccess) {
+      toast({ title: "Joined Workspace", description: `You joined ${invitation.workspace.name}.` });
+      openWorkspace();
+    } else {
+      toast({ title: "Join Failed", description: result.message || "Could not join the workspace.", variant: "destructive" });
+    }
+  };
+
+  const handleDecline = async (invitation: PendingWorkspaceInvitation) => {
+    setIsBusy(true);
+    const result = await declineWorkspaceInvitationAction(invitation.invitation.id);
+    setIsBusy(false);
+    if (result.isSuccess) {
+      router.refresh();
+    } else {
+      toast({ title: "Decline Failed", description: result.message || "Could not decline the invitation.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            className="flex w-full items-center gap-2 rounded-lg border border-gray-200/70 bg-white/70 px-2 py-1.5 text-left text-sm hover:bg-gray-100/80"
+            aria-label="Switch workspace"
+            disabled={isBusy}
+          >
+            <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-md bg-[#1a1a1a] text-xs font-semibold text-white">
+              {activeWorkspace.workspace.name.charAt(0).toUpperCase()}
+            </span>
+            <span className="hidden min-w-0 flex-1 md:block">
+              <span className="block truncate font-medium text-gray-900">{activeWorkspace.workspace.name}</span>
+              <span className="block text-xs text-gray-500">{getWorkspaceRoleLabel(activeWorkspace.role)}</span>
+            </span>
+            {isBusy ? (
+              <Loader2 className="hidden h-3.5 w-3.5 shrink-0 animate-spin text-gray-400 md:block" />
+            ) : (
+              <ChevronsUpDown className="hidden h-3.5 w-3.5 shrink-0 text-gray-400 md:block" />
+            )}
+            {invitations.length > 0 && (
+              <span className="h-2 w-2 shrink-0 rounded-full bg-blue-500" aria-label={`${invitations.length} invitation(s)`} />
+            )}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel className="text-xs text-gray-500">Workspaces</DropdownMenuLabel>
+          {workspaces.map(({ workspace, role }) => (
+            <DropdownMenuItem key={workspace.id} onSelect={() => handleSwitch(workspace.id)} className="gap-2">
+              <Check className={`h-4 w-4 shrink-0 ${workspace.id === activeWorkspace.workspace.id ? '' : 'invisible'}`} />
+              <span className="min-w-0 flex-1 truncate">{workspace.name}</span>
+              <span className="text-xs text-gray-400">{getWorkspaceRoleLabel(role)}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setShowCreate(true)} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New workspace
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setShowSettings(true)} className="gap-2">
+            <Settings className="h-4 w-4" />
+            Workspace settings
+          </DropdownMenuItem>
+
+          {invitations.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-gray-500">Invitations</DropdownMenuLabel>
+              {invitations.map(invitation => (
+                <div key={invitation.invitation.id} className="flex items-center gap-2 px-2 py-1.5 text-sm">
+                  <Mail className="h-4 w-4 shrink-0 text-gray-400" />
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate">{invitation.workspace.name}</span>
+                    <span className="block text-xs text-gray-500">as {getWorkspaceRoleLabel(invitation.invitation.role)}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-green-700"
+                    onClick={() => handleAccept(invitation)}
+                    disabled={isBusy}
+                    aria-label={`Join ${invitation.workspace.name}`}
+                  >
+                    <Check className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-gray-500"
+                    onClick={() => handleDecline(invitation)}
+                    disabled={isBusy}
+                    aria-label={`Decline ${invitation.workspace.name}`}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New workspace</DialogTitle>
+            <DialogDescription>
+              A workspace has its own notes and categories. You can invite people to it once it&apos;s created.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="flex items-center gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Workspace name"
+              aria-label="Workspace name"
+              maxLength={MAX_WORKSPACE_NAME_LENGTH}
+              autoFocus
+            />
+            <Button type="submit" disabled={isBusy || !newName.trim()}>
+              {isBusy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <WorkspaceSettingsDialog
+        userId={userId}
+        activeWorkspace={activeWorkspace}
+        open={showSettings}
+        onOpenChange={setShowSettings}
+        onLeft={openWorkspace}
+      />
+    </>
+  );
+};
+
+export default WorkspaceSwitcher;
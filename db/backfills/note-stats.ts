@@ -0,0 +1,70 @@
+/**
+ * Backfill that fills in the derived excerpt, word count, character count and
+ * reading time of notes written before those columns existed. Notes whose
+ * stored values already match are skipped, and `updatedAt` is left alone, so
+ * it is safe to run more than once.
+ *
+ * Usage: npm run db:backfill:note-stats [-- --dry-run]
+ * Location: /db/backfills/note-stats.ts
+ */
+import { config } from "dotenv";
+import { asc, eq, gt, sql } from "drizzle-orm";
+import { getNoteStats, NoteStats } from "../../lib/note-stats";
+import { notesTable } from "../schema/notes-schema";
+
+config({ path: ".env.local" });
+
+const BATCH_SIZE = 200;
+const isDryRun = process.argv.includes("--dry-run");
+
+async function main() {
+  // Imported after the env is loaded, since it connects on import
+  const { db, client } = await import("../db");
+  let changedNotes = 0;
+
+  try {
+    let lastId: string | null = null;
+    for (;;) {
+      const rows: ({ id: string; content: string } & NoteStats)[] = await db
+        .select({
+          id: notesTable.id,
+          content: notesTable.content,
+          excerpt: notesTable.excerpt,
+          wordCount: notesTable.wordCount,
+          charCount: notesTable.charCount,
+          readingMinutes: notesTable.readingMinutes,
+        })
+        .from(notesTable)
+        .where(lastId ? gt(notesTable.id, lastId) : undefined)
+        .orderBy(asc(notesTable.id))
+        .limit(BATCH_SIZE);
+      if (rows.length === 0) break;
+      lastId = rows[rows.length - 1].id;
+
+      for (const row of rows) {
+        const stats = getNoteStats(row.content);
+        const isCurrent =
+          stats.excerpt === row.excerpt &&
+          stats.wordCount === row.wordCount &&
+          stats.charCount === row.charCount &&
+          stats.readingMinutes === row.readingMinutes;
+        if (isCurrent) continue;
+        changedNotes++;
+        if (isDryRun) continue;
+        await db
+          .update(notesTable)
+          .set({ ...stats, updatedAt: sql`${notesTable.updatedAt}` }) // Not a user edit
+          .where(eq(notesTable.id, row.id));
+      }
+    }
+
+    console.log(`${changedNotes} note(s) ${isDryRun ? "would be updated" : "updated"}.`);
+  } finally {
+    await client.end();
+  }
+}
+
+main().catch(error => {
+  console.error("Note stats backfill failed: ", error);
+  process.exit(1);
+});
@@ -0,0 +1,83 @@
+/**
+ * One-off backfill that runs every stored note body (and every version
+ * snapshot) through the note HTML sanitizer, for rows written before content
+ * was sanitized on save. Only rows whose HTML actually changes are updated,
+ * and notes keep their `updatedAt`, so it is safe to run more than once.
+ *
+ * Usage: npm run db:backfill:sanitize [-- --dry-run]
+ * Location: /db/backfills/sanitize-note-content.ts
+ */
+import { config } from "dotenv";
+import { asc, eq, gt, sql } from "drizzle-orm";
+import { sanitizeNoteHtml } from "../../lib/note-html-sanitizer";
+import { getNoteStats } from "../../lib/note-stats";
+import { notesTable } from "../schema/notes-schema";
+import { noteVersionsTable } from "../schema/note-versions-schema";
+
+config({ path: ".env.local" });
+
+const BATCH_SIZE = 200;
+const isDryRun = process.argv.includes("--dry-run");
+
+async function main() {
+  // Imported after the env is loaded, since it connects on import
+  const { db, client } = await import("../db");
+  let changedNotes = 0;
+  let changedVersions = 0;
+
+  try {
+    let lastId: string | null = null;
+    for (;;) {
+      const rows: { id: string; content: string | null }[] = await db
+        .select({ id: notesTable.id, content: notesTable.content })
+        .from(notesTable)
+        .where(lastId ? gt(notesTable.id, lastId) : undefined)
+        .orderBy(asc(notesTable.id))
+        .limit(BATCH_SIZE);
+      if (rows.length === 0) break;
+      lastId = rows[rows.length - 1].id;
+
+      for (const row of rows) {
+        if (!row.content) continue;
+        const content = sanitizeNoteHtml(row.content);
+        if (content === row.content) continue;
+        changedNotes++;
+        if (isDryRun) continue;
+        await db
+          .update(notesTable)
+          .set({ content, ...getNoteStats(content), updatedAt: sql`${notesTable.updatedAt}` }) // Not a user edit
+          .where(eq(notesTable.id, row.id));
+      }
+    }
+
+    lastId = null;
+    for (;;) {
+      const rows: { id: string; content: string }[] = await db
+        .select({ id: noteVersionsTable.id, content: noteVersionsTable.content })
+        .from(noteVersionsTable)
+        .where(lastId ? gt(noteVersionsTable.id, lastId) : undefined)
+        .orderBy(asc(noteVersionsTable.id))
+        .limit(BATCH_SIZE);
+      if (rows.length === 0) break;
+      lastId = rows[rows.length - 1].id;
+
+      for (const row of rows) {
+        const content = sanitizeNoteHtml(row.content);
+        if (content === row.content) continue;
+        changedVersions++;
+        if (isDryRun) continue;
+        await db.update(noteVersionsTable).set({ content }).where(eq(noteVersionsTable.id, row.id));
+      }
+    }
+
+    const verb = isDryRun ? "would be sanitized" : "sanitized";
+    console.log(`${changedNotes} note(s) and ${changedVersions} note version(s) ${verb}.`);
+  } finally {
+    await client.end();
+  }
+}
+
+main().catch(error => {
+  console.error("Sanitize backfill failed: ", error);
+  process.exit(1);
+});
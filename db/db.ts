@@ -4,13 +4,45 @@ import { profilesTable } from "./schema/profiles-schema";
 import { pendingProfilesTable } from "./schema/pending-profiles-schema";
 import { categoriesTable } from "./schema/categories-schema";
 import { notesTable } from "./schema/notes-schema";
+import { noteVersionsTable } from "./schema/note-versions-schema";
+import { tagsTable } from "./schema/tags-schema";
+import { noteTagsTable } from "./schema/note-tags-schema";
+import { noteLinksTable } from "./schema/note-links-schema";
+import { snippetsTable } from "./schema/snippets-schema";
+import { noteTasksTable } from "./schema/note-tasks-schema";
+import { attachmentsTable } from "./schema/attachments-schema";
+import { categoryPreferencesTable } from "./schema/category-preferences-schema";
+import { noteDocumentsTable } from "./schema/note-documents-schema";
+import { noteSharesTable } from "./schema/note-shares-schema";
+import { notePublicationsTable } from "./schema/note-publications-schema";
+import { workspacesTable } from "./schema/workspaces-schema";
+import { workspaceMembersTable } from "./schema/workspace-members-schema";
+import { workspaceInvitationsTable } from "./schema/workspace-invitations-schema";
+import { noteCommentsTable } from "./schema/note-comments-schema";
+import { publicationUnlockAttemptsTable } from "./schema/publication-unlock-attempts-schema";
 
 // Define the schema properly
 const schema = { 
   profiles: profilesTable,
   pendingProfiles: pendingProfilesTable,
   categoriesTable: categoriesTable,
-  notesTable: notesTable
+  notesTable: notesTable,
+  noteVersionsTable: noteVersionsTable,
+  tagsTable: tagsTable,
+  noteTagsTable: noteTagsTable,
+  noteLinksTable: noteLinksTable,
+  snippetsTable: snippetsTable,
+  noteTasksTable: noteTasksTable,
+  attachmentsTable: attachmentsTable,
+  categoryPreferencesTable: categoryPreferencesTable,
+  noteDocumentsTable: noteDocumentsTable,
+  noteSharesTable: noteSharesTable,
+  notePublicationsTable: notePublicationsTable,
+  workspacesTable: workspacesTable,
+  workspaceMembersTable: workspaceMembersTable,
+  workspaceInvitationsTable: workspaceInvitationsTable,
+  noteCommentsTable: noteCommentsTable,
+  publicationUnlockAttemptsTable: publicationUnlockAttemptsTable
 };
 
 // Add connection options with improved timeout and retry settings for Vercel environment
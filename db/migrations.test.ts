@@ -0,0 +1,110 @@
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { beforeAll, describe, expect, it } from "vitest";
+
+const MIGRATIONS_DIR = join(__dirname, "migrations");
+const MIGRATIONS = readdirSync(MIGRATIONS_DIR)
+  .filter(file => file.endsWith(".sql"))
+  .sort();
+
+// Applies the migrations with indexes `from` to `to` (exclusive), in order
+async function migrate(db: PGlite, from: number, to: number) {
+  for (const file of MIGRATIONS.slice(from, to)) {
+    const sql = readFileSync(join(MIGRATIONS_DIR, file), "utf8");
+    await db.exec(sql.split("--> statement-breakpoint").join("\n"));
+  }
+}
+
+// Returns the new row's ID (undefined for tables without one)
+async function insertRow(db: PGlite, table: string, values: Record<string, unknown>): Promise<string> {
+  const columns = Object.keys(values);
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO "${table}" (${columns.map(column => `"${column}"`).join(", ")})
+     VALUES (${columns.map((_, index) => `$${index + 1}`).join(", ")}) RETURNING *`,
+    Object.values(values)
+  );
+  return rows[0].id;
+}
+
+describe("0021 tags per workspace", () => {
+  const migrationIndex = MIGRATIONS.findIndex(file => file.startsWith("0021_"));
+  const db = new PGlite();
+  const ids: Record<string, string> = {};
+
+  beforeAll(async () => {
+    await migrate(db, 0, migrationIndex);
+
+    // Alice has a personal and a team workspace; Bob has tags but never wrote a note
+    ids.alicePersonal = await insertRow(db, "workspaces", {
+      name: "Personal",
+      owner_id: "alice",
+      personal: true,
+      billing_user_id: "alice",
+    });
+    ids.team = await insertRow(db, "workspaces", { name: "Team", owner_id: "alice", billing_user_id: "alice" });
+    ids.category = await insertRow(db, "categories", { name: "Inbox", color: "#000000" });
+    const note = (workspaceId: string) =>
+      insertRow(db, "notes", {
+        user_id: "alice",
+        workspace_id: workspaceId,
+        category_id: ids.category,
+        title: "Note",
+        content: "",
+      });
+    ids.personalNote = await note(ids.alicePersonal);
+    ids.teamNote = await note(ids.team);
+
+    const work = await insertRow(db, "tags", { user_id: "alice", name: "work" });
+    await insertRow(db, "tags", { user_id: "alice", name: "someday" });
+    await insertRow(db, "tags", { user_id: "bob", name: "ideas" });
+    await insertRow(db, "note_tags", { note_id: ids.personalNote, tag_id: work });
+    await insertRow(db, "note_tags", { note_id: ids.teamNote, tag_id: work });
+
+    await migrate(db, migrationIndex, migrationIndex + 1);
+  }, 60_000);
+
+  it("copies tags into every workspace whose notes use them", async () => {
+    const { rows } = await db.query<{ note_id: string; workspace_id: string; name: string }>(
+      `SELECT "note_tags"."note_id", "tags"."workspace_id", "tags"."name"
+       FROM "note_tags" INNER JOIN "tags" ON "tags"."id" = "note_tags"."tag_id"
+       ORDER BY "tags"."workspace_id" = $1 DESC`,
+      [ids.alicePersonal]
+    );
+    expect(rows).toEqual([
+      { note_id: ids.personalNote, workspace_id: ids.alicePersonal, name: "work" },
+      { note_id: ids.teamNote, workspace_id: ids.team, name: "work" },
+    ]);
+  });
+
+  it("keeps unused tags in their owner's personal workspace", async () => {
+    const { rows } = await db.query<{ owner_id: string; personal: boolean; name: string }>(
+      `SELECT "workspaces"."owner_id", "workspaces"."personal", "tags"."name"
+       FROM "tags" INNER JOIN "workspaces" ON "workspaces"."id" = "tags"."workspace_id"
+       WHERE "tags"."name" IN ('someday', 'ideas') ORDER BY "tags"."name"`
+    );
+    expect(rows).toEqual([
+      { owner_id: "bob", personal: true, name: "ideas" },
+      { owner_id: "alice", personal: true, name: "someday" },
+    ]);
+  });
+
+  it("makes the owners members of the personal workspaces it creates", async () => {
+    const { rows } = await db.query<{ role: string }>(
+      `SELECT "workspace_members"."role" FROM "workspace_members"
+       INNER JOIN "workspaces" ON "workspaces"."id" = "workspace_members"."workspace_id"
+       WHERE "workspaces"."owner_id" = 'bob' AND "workspace_members"."user_id" = 'bob'`
+    );
+    expect(rows).toEqual([{ role: "owner" }]);
+  });
+
+  it("leaves no tag outside a workspace", async () => {
+    const { rows } = await db.query<{ name: string }>(`SELECT "name" FROM "tags" ORDER BY "name"`);
+    expect(rows.map(row => row.name)).toEqual(["ideas", "someday", "work", "work"]);
+    const { rows: notNull } = await db.query(
+      `SELECT 1 FROM information_schema.columns
+       WHERE "table_name" = 'tags' AND "column_name" = 'workspace_id' AND "is_nullable" = 'NO'`
+    );
+    expect(notNull).toHaveLength(1);
+  });
+});
@@ -0,0 +1,2 @@
+ALTER TABLE "notes" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', regexp_replace(coalesce(content, ''), '<[^>]*>', ' ', 'g')), 'B')) STORED;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "notes_search_vector_idx" ON "notes" USING gin ("search_vector");
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "notes" DROP CONSTRAINT "notes_category_id_categories_id_fk";
+--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "notes" ADD CONSTRAINT "notes_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS "note_tasks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"note_id" uuid NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"position" integer NOT NULL,
+	"text" text NOT NULL,
+	"done" boolean DEFAULT false NOT NULL,
+	"due_date" date,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "note_tasks" ADD CONSTRAINT "note_tasks_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "note_tasks_note_id_idx" ON "note_tasks" USING btree ("note_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "note_tasks_user_id_done_idx" ON "note_tasks" USING btree ("user_id","done");
\ No newline at end of file
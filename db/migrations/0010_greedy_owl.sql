@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "attachments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"note_id" uuid NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"file_name" text NOT NULL,
+	"content_type" varchar(255) NOT NULL,
+	"size" integer NOT NULL,
+	"storage_key" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "attachments_storage_key_unique" UNIQUE("storage_key")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "attachments" ADD CONSTRAINT "attachments_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "attachments_note_id_idx" ON "attachments" USING btree ("note_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "attachments_user_id_idx" ON "attachments" USING btree ("user_id");
\ No newline at end of file
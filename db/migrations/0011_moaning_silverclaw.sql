@@ -0,0 +1,4 @@
+ALTER TABLE "notes" ADD COLUMN "excerpt" text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "word_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "char_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "reading_minutes" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "notes" ADD COLUMN "pinned" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "favorite" boolean DEFAULT false NOT NULL;
\ No newline at end of file
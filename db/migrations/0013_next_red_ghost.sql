@@ -0,0 +1,5 @@
+ALTER TABLE "notes" ADD COLUMN "position" double precision DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "notes_category_id_position_idx" ON "notes" USING btree ("category_id","position");--> statement-breakpoint
+UPDATE "notes" SET "position" = "ranked"."rank" FROM (
+  SELECT "id", row_number() OVER (PARTITION BY "user_id", "category_id" ORDER BY "pinned" DESC, "updated_at" DESC) AS "rank" FROM "notes"
+) AS "ranked" WHERE "notes"."id" = "ranked"."id";
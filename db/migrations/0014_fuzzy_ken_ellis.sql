@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "category_preferences" (
+	"user_id" varchar(255) NOT NULL,
+	"category_id" uuid NOT NULL,
+	"position" double precision,
+	"hidden" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "category_preferences_user_id_category_id_pk" PRIMARY KEY("user_id","category_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "category_preferences" ADD CONSTRAINT "category_preferences_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
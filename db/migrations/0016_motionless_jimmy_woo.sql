@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "note_documents" (
+	"note_id" uuid PRIMARY KEY NOT NULL,
+	"state" "bytea" NOT NULL,
+	"content_hash" varchar(64) NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "note_documents" ADD CONSTRAINT "note_documents_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
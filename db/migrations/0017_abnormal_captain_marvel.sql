@@ -0,0 +1,27 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."note_share_role" AS ENUM('viewer', 'editor');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "note_shares" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"note_id" uuid NOT NULL,
+	"owner_id" varchar(255) NOT NULL,
+	"grantee_email" varchar(320) NOT NULL,
+	"grantee_user_id" varchar(255),
+	"role" "note_share_role" DEFAULT 'viewer' NOT NULL,
+	"claimed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "note_shares" ADD CONSTRAINT "note_shares_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "note_shares_note_id_grantee_email_idx" ON "note_shares" USING btree ("note_id","grantee_email");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "note_shares_grantee_user_id_idx" ON "note_shares" USING btree ("grantee_user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "note_shares_grantee_email_idx" ON "note_shares" USING btree ("grantee_email");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "note_publications" (
+	"note_id" uuid PRIMARY KEY NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"published_slug" varchar(120) NOT NULL,
+	"expires_at" timestamp,
+	"password_hash" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "note_publications_published_slug_unique" UNIQUE("published_slug")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "note_publications" ADD CONSTRAINT "note_publications_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
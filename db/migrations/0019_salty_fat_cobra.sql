@@ -0,0 +1,78 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."workspace_role" AS ENUM('owner', 'editor', 'viewer');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "workspaces" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"owner_id" varchar(255) NOT NULL,
+	"personal" boolean DEFAULT false NOT NULL,
+	"billing_user_id" varchar(255) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "workspace_members" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"role" "workspace_role" DEFAULT 'viewer' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "workspace_invitations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"email" varchar(320) NOT NULL,
+	"role" "workspace_role" DEFAULT 'viewer' NOT NULL,
+	"invited_by" varchar(255) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+ALTER TABLE "notes" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+INSERT INTO "workspaces" ("name", "owner_id", "personal", "billing_user_id")
+  SELECT 'Personal', "users"."user_id", true, "users"."user_id" FROM (
+    SELECT "user_id" FROM "notes"
+    UNION SELECT "user_id" FROM "categories" WHERE "user_id" IS NOT NULL
+  ) AS "users";--> statement-breakpoint
+INSERT INTO "workspace_members" ("workspace_id", "user_id", "role")
+  SELECT "id", "owner_id", 'owner' FROM "workspaces";--> statement-breakpoint
+UPDATE "notes" SET "workspace_id" = "workspaces"."id" FROM "workspaces"
+  WHERE "workspaces"."personal" AND "workspaces"."owner_id" = "notes"."user_id";--> statement-breakpoint
+UPDATE "categories" SET "workspace_id" = "workspaces"."id" FROM "workspaces"
+  WHERE "workspaces"."personal" AND "workspaces"."owner_id" = "categories"."user_id";--> statement-breakpoint
+ALTER TABLE "notes" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "workspace_invitations" ADD CONSTRAINT "workspace_invitations_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "workspaces_personal_owner_id_idx" ON "workspaces" USING btree ("owner_id") WHERE "workspaces"."personal";--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "workspace_members_workspace_id_user_id_idx" ON "workspace_members" USING btree ("workspace_id","user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "workspace_members_user_id_idx" ON "workspace_members" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "workspace_invitations_workspace_id_email_idx" ON "workspace_invitations" USING btree ("workspace_id","email");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "workspace_invitations_email_idx" ON "workspace_invitations" USING btree ("email");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "categories" ADD CONSTRAINT "categories_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "notes" ADD CONSTRAINT "notes_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "categories_workspace_id_idx" ON "categories" USING btree ("workspace_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "notes_workspace_id_idx" ON "notes" USING btree ("workspace_id");
\ No newline at end of file
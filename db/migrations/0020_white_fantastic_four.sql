@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS "note_comments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"note_id" uuid NOT NULL,
+	"parent_id" uuid,
+	"user_id" varchar(255) NOT NULL,
+	"content" text NOT NULL,
+	"quote" text,
+	"resolved_at" timestamp,
+	"resolved_by" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "note_comments" ADD CONSTRAINT "note_comments_note_id_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."notes"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "note_comments" ADD CONSTRAINT "note_comments_parent_id_note_comments_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."note_comments"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "note_comments_note_id_created_at_idx" ON "note_comments" USING btree ("note_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "note_comments_parent_id_idx" ON "note_comments" USING btree ("parent_id");
\ No newline at end of file
@@ -0,0 +1,42 @@
+DROP INDEX IF EXISTS "tags_user_id_name_idx";--> statement-breakpoint
+ALTER TABLE "tags" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+INSERT INTO "tags" ("user_id", "workspace_id", "name", "created_at")
+  SELECT DISTINCT ON ("notes"."workspace_id", "tags"."name") "tags"."user_id", "notes"."workspace_id", "tags"."name", "tags"."created_at"
+  FROM "note_tags"
+  INNER JOIN "tags" ON "tags"."id" = "note_tags"."tag_id"
+  INNER JOIN "notes" ON "notes"."id" = "note_tags"."note_id"
+  ORDER BY "notes"."workspace_id", "tags"."name", "tags"."created_at";--> statement-breakpoint
+INSERT INTO "note_tags" ("note_id", "tag_id", "created_at")
+  SELECT "note_tags"."note_id", "workspace_tags"."id", "note_tags"."created_at"
+  FROM "note_tags"
+  INNER JOIN "tags" ON "tags"."id" = "note_tags"."tag_id" AND "tags"."workspace_id" IS NULL
+  INNER JOIN "notes" ON "notes"."id" = "note_tags"."note_id"
+  INNER JOIN "tags" AS "workspace_tags" ON "workspace_tags"."workspace_id" = "notes"."workspace_id" AND "workspace_tags"."name" = "tags"."name"
+  ON CONFLICT DO NOTHING;--> statement-breakpoint
+INSERT INTO "workspaces" ("name", "owner_id", "personal", "billing_user_id")
+  SELECT DISTINCT 'Personal', "tags"."user_id", true, "tags"."user_id" FROM "tags"
+  WHERE "tags"."workspace_id" IS NULL
+    AND NOT EXISTS (SELECT 1 FROM "note_tags" WHERE "note_tags"."tag_id" = "tags"."id")
+    AND NOT EXISTS (SELECT 1 FROM "workspaces" WHERE "workspaces"."personal" AND "workspaces"."owner_id" = "tags"."user_id");--> statement-breakpoint
+INSERT INTO "workspace_members" ("workspace_id", "user_id", "role")
+  SELECT "workspaces"."id", "workspaces"."owner_id", 'owner' FROM "workspaces"
+  WHERE "workspaces"."personal"
+    AND NOT EXISTS (SELECT 1 FROM "workspace_members" WHERE "workspace_members"."workspace_id" = "workspaces"."id");--> statement-breakpoint
+UPDATE "tags" SET "workspace_id" = "workspaces"."id"
+  FROM "workspaces"
+  WHERE "tags"."workspace_id" IS NULL
+    AND "workspaces"."personal" AND "workspaces"."owner_id" = "tags"."user_id"
+    AND NOT EXISTS (SELECT 1 FROM "note_tags" WHERE "note_tags"."tag_id" = "tags"."id")
+    AND NOT EXISTS (
+      SELECT 1 FROM "tags" AS "workspace_tags"
+      WHERE "workspace_tags"."workspace_id" = "workspaces"."id" AND "workspace_tags"."name" = "tags"."name"
+    );--> statement-breakpoint
+DELETE FROM "tags" WHERE "workspace_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "tags" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "tags" ADD CONSTRAINT "tags_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "tags_workspace_id_name_idx" ON "tags" USING btree ("workspace_id","name");
\ No newline at end of file
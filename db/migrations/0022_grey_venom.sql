@@ -0,0 +1,7 @@
+CREATE TABLE IF NOT EXISTS "publication_unlock_attempts" (
+	"key" varchar(200) PRIMARY KEY NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"window_started_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "publication_unlock_attempts_window_started_at_idx" ON "publication_unlock_attempts" USING btree ("window_started_at");
\ No newline at end of file
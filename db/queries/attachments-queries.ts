@@ -0,0 +1,129 @@
+import { eq, asc, inArray, sql, SQL } from "drizzle-orm";
+import { db } from "../db";
+import { attachmentsTable, InsertAttachment, SelectAttachment } from "../schema/attachments-schema";
+import { notesTable } from "../schema/notes-schema";
+import { workspacesTable, SelectWorkspace } from "../schema/workspaces-schema";
+import { getProfileByUserId } from "./profiles-queries";
+import { AttachmentUsage, getAttachmentQuotaBytes } from "@/lib/attachments";
+
+/**
+ * Queries for the "attachments" table.
+ * Only metadata lives here; the files themselves are written and removed
+ * through /lib/attachment-storage.ts.
+ * Location: /db/queries/attachments-queries.ts
+ */
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Saves an attachment of a note in `workspaceId` if it still fits in the
+ * workspace's quota; otherwise saves nothing and returns a null attachment.
+ * The workspace row is locked while checking, so parallel uploads are counted
+ * one after the other and can't overshoot the quota together.
+ */
+export const createAttachmentWithinQuota = async (
+  workspaceId: string,
+  data: InsertAttachment
+): Promise<{ attachment: SelectAttachment | null; usage: AttachmentUsage }> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const [workspace] = await tx
+        .select()
+        .from(workspacesTable)
+        .where(eq(workspacesTable.id, workspaceId))
+        .for("update");
+      const usage = await readAttachmentUsage(tx, workspace, workspaceId);
+      if (usage.usedBytes + data.size > usage.quotaBytes) {
+        return { attachment: null, usage };
+      }
+      const [newAttachment] = await tx.insert(attachmentsTable).values(data).returning();
+      return { attachment: newAttachment, usage };
+    });
+  } catch (error) {
+    console.error("Error creating attachment: ", error);
+    throw new Error("Failed to save attachment. Please try again.");
+  }
+};
+
+export const getAttachmentById = async (id: string): Promise<SelectAttachment | undefined> => {
+  try {
+    return await db.query.attachmentsTable.findFirst({
+      where: eq(attachmentsTable.id, id),
+    });
+  } catch (error) {
+    console.error("Error getting attachment by ID: ", error);
+    throw new Error("Failed to retrieve attachment. Please try again.");
+  }
+};
+
+export const getAttachmentsByNoteId = async (noteId: string): Promise<SelectAttachment[]> => {
+  try {
+    return await db.query.attachmentsTable.findMany({
+      where: eq(attachmentsTable.noteId, noteId),
+      orderBy: [asc(attachmentsTable.createdAt)],
+    });
+  } catch (error) {
+    console.error("Error getting attachments by note ID: ", error);
+    throw new Error("Failed to retrieve attachments. Please try again.");
+  }
+};
+
+// Deletes the row only; the caller removes the stored file
+export const deleteAttachment = async (id: string): Promise<SelectAttachment | undefined> => {
+  try {
+    const [deletedAttachment] = await db
+      .delete(attachmentsTable)
+      .where(eq(attachmentsTable.id, id))
+      .returning();
+    return deletedAttachment;
+  } catch (error) {
+    console.error("Error deleting attachment: ", error);
+    throw new Error("Failed to delete attachment. Please try again.");
+  }
+};
+
+/**
+ * For queries that hard-delete notes: removes the attachment rows of the
+ * notes matching `noteFilter` within the same transaction and returns their
+ * storage keys, so the files can be deleted once the notes are gone.
+ */
+export const deleteAttachmentsOfNotes = async (tx: Transaction, noteFilter: SQL | undefined): Promise<string[]> => {
+  const deletedAttachments = await tx
+    .delete(attachmentsTable)
+    .where(inArray(attachmentsTable.noteId, tx.select({ id: notesTable.id }).from(notesTable).where(noteFilter)))
+    .returning({ storageKey: attachmentsTable.storageKey });
+  return deletedAttachments.map(attachment => attachment.storageKey);
+};
+
+// Usage of a workspace as seen by `executor`, the database or a transaction
+const readAttachmentUsage = async (
+  executor: typeof db | Transaction,
+  workspace: SelectWorkspace | undefined,
+  workspaceId: string
+): Promise<AttachmentUsage> => {
+  const [usage] = await executor
+    .select({ usedBytes: sql<number>`coalesce(sum(${attachmentsTable.size}), 0)::bigint` })
+    .from(attachmentsTable)
+    .innerJoin(notesTable, eq(attachmentsTable.noteId, notesTable.id))
+    .where(eq(notesTable.workspaceId, workspaceId));
+  const billingProfile = workspace ? await getProfileByUserId(workspace.billingUserId) : undefined;
+  return {
+    usedBytes: Number(usage.usedBytes),
+    quotaBytes: getAttachmentQuotaBytes(billingProfile?.membership),
+  };
+};
+
+/**
+ * Bytes the attachments of a workspace's notes take up (including those of
+ * trashed notes, which still hold their files) and the quota of the plan
+ * paying for the workspace.
+ */
+export const getAttachmentUsageByWorkspaceId = async (workspaceId: string): Promise<AttachmentUsage> => {
+  try {
+    const workspace = await db.query.workspacesTable.findFirst({ where: eq(workspacesTable.id, workspaceId) });
+    return await readAttachmentUsage(db, workspace, workspaceId);
+  } catch (error) {
+    console.error("Error getting attachment usage by workspace ID: ", error);
+    throw new Error("Failed to retrieve storage usage. Please try again.");
+  }
+};
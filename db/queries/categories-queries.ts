@@ -1,14 +1,22 @@
-import { eq, asc, isNull } from "drizzle-orm";
+import { eq, asc, isNull, isNotNull, and, lt, sql } from "drizzle-orm";
 import { db } from "../db";
 import {
   categoriesTable,
   InsertCategory,
   SelectCategory,
 } from "../schema/categories-schema";
+import { notesTable } from "../schema/notes-schema";
+import { deleteAttachmentsOfNotes } from "./attachments-queries";
+import { appendCategoryToOrder, getCategoryPreferencesByUserId } from "./category-preferences-queries";
 
 /**
  * Queries for the "categories" table.
  * Provides functions to create, read, update, and delete categories.
+ * Deleting moves a category to the trash, with its notes unless they are moved
+ * to another category first; read queries exclude trashed categories unless
+ * they say otherwise. Lists of a workspace's categories follow each user's
+ * column order and visibility from "category_preferences". Nesting
+ * (`parentId`) is checked for cycles on every write.
  * Location: /db/queries/categories-queries.ts
  */
 
@@ -16,11 +24,16 @@ export const createCategory = async (
   data: InsertCategory
 ): Promise<SelectCategory> => {
   try {
-    const [newCategory] = await db
-      .insert(categoriesTable)
-      .values(data)
-      .returning();
-    return newCategory;
+    return await db.transaction(async (tx) => {
+      const [newCategory] = await tx
+        .insert(categoriesTable)
+        .values(data)
+        .returning();
+      if (newCategory.userId) {
+        await appendCategoryToOrder(tx, newCategory.userId, newCategory.id); // New columns go last
+      }
+      return newCategory;
+    });
   } catch (error) {
     console.error("Error creating category: ", error);
     throw new Error("Failed to create category. Please try again.");
@@ -28,11 +41,14 @@ export const createCategory = async (
 };
 
 export const getCategoryById = async (
-  id: string
+  id: string,
+  { includeDeleted = false }: { includeDeleted?: boolean } = {}
 ): Promise<SelectCategory | undefined> => {
   try {
     const category = await db.query.categoriesTable.findFirst({
-      where: eq(categoriesTable.id, id),
+      where: includeDeleted
+        ? eq(categoriesTable.id, id)
+        : and(eq(categoriesTable.id, id), isNull(categoriesTable.deletedAt)),
     });
     return category;
   } catch (error) {
@@ -41,71 +57,276 @@ export const getCategoryById = async (
   }
 };
 
-export const getCategoriesByUserId = async (
-  userId: string
+export const getCategoriesByWorkspaceId = async (
+  workspaceId: string
 ): Promise<SelectCategory[]> => {
   try {
     const categories = await db.query.categoriesTable.findMany({
-      where: eq(categoriesTable.userId, userId),
+      where: and(eq(categoriesTable.workspaceId, workspaceId), isNull(categoriesTable.deletedAt)),
       orderBy: (table, { asc: sortAsc }) => [sortAsc(table.createdAt)],
     });
     return categories;
   } catch (error) {
-    console.error("Error getting categories by user ID: ", error);
+    console.error("Error getting categories by workspace ID: ", error);
     throw new Error("Failed to retrieve categories. Please try again.");
   }
 };
 
-export const getCategoriesForUserAndBase = async (
-  userId: string
+// A category as one user sees it in the category manager
+export interface ManagedCategory extends SelectCategory {
+  hidden: boolean;
+  noteCount: number; // The workspace's notes in it, not counting the trash
+}
+
+/**
+ * Base categories and the workspace's own, in the user's column order:
+ * categories they have ordered first, then the rest as before (base by name,
+ * then the workspace's by creation date). Hidden categories are left out with
+ * `includeHidden: false`.
+ */
+export const getCategoriesForWorkspaceAndBase = async (
+  workspaceId: string,
+  userId: string,
+  { includeHidden = true }: { includeHidden?: boolean } = {}
 ): Promise<SelectCategory[]> => {
   try {
-    const userCategories = await db.query.categoriesTable.findMany({
-      where: eq(categoriesTable.userId, userId),
+    const workspaceCategories = await db.query.categoriesTable.findMany({
+      where: and(eq(categoriesTable.workspaceId, workspaceId), isNull(categoriesTable.deletedAt)),
       orderBy: (table, { asc: sortAsc }) => [sortAsc(table.createdAt)],
     });
     const baseCategories = await db.query.categoriesTable.findMany({
-      where: isNull(categoriesTable.userId),
+      where: and(isNull(categoriesTable.workspaceId), isNull(categoriesTable.deletedAt)),
       orderBy: (table, { asc: sortAsc }) => [sortAsc(table.name)],
     });
+    const preferences = await getCategoryPreferencesByUserId(userId);
+    const preferenceByCategoryId = new Map(preferences.map(preference => [preference.categoryId, preference]));
 
-    const allCategories = [...baseCategories, ...userCategories];
+    const allCategories = [...baseCategories, ...workspaceCategories]
+      .map((category, defaultIndex) => ({ category, defaultIndex, preference: preferenceByCategoryId.get(category.id) }))
+      .filter(({ preference }) => includeHidden || !preference?.hidden)
+      .sort((a, b) =>
+        (a.preference?.position ?? Infinity) - (b.preference?.position ?? Infinity) || a.defaultIndex - b.defaultIndex
+      )
+      .map(({ category }) => category);
     
     return allCategories;
   } catch (error) {
-    console.error("Error getting categories for user and base: ", error);
-    throw new Error("Failed to retrieve user and base categories. Please try again.");
+    console.error("Error getting categories for workspace and base: ", error);
+    throw new Error("Failed to retrieve workspace and base categories. Please try again.");
   }
 };
 
+export const getManagedCategoriesForWorkspace = async (
+  workspaceId: string,
+  userId: string
+): Promise<ManagedCategory[]> => {
+  try {
+    const categories = await getCategoriesForWorkspaceAndBase(workspaceId, userId);
+    const preferences = await getCategoryPreferencesByUserId(userId);
+    const hiddenIds = new Set(preferences.filter(preference => preference.hidden).map(preference => preference.categoryId));
+    const counts = await db
+      .select({ categoryId: notesTable.categoryId, count: sql<number>`count(*)::int` })
+      .from(notesTable)
+      .where(and(eq(notesTable.workspaceId, workspaceId), isNull(notesTable.deletedAt)))
+      .groupBy(notesTable.categoryId);
+    const countByCategoryId = new Map(counts.map(row => [row.categoryId, row.count]));
+
+    return categories.map(category => ({
+      ...category,
+      hidden: hiddenIds.has(category.id),
+      noteCount: countByCategoryId.get(category.id) ?? 0,
+    }));
+  } catch (error) {
+    console.error("Error getting managed categories: ", error);
+    throw new Error("Failed to retrieve categories. Please try again.");
+  }
+};
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// True if `ancestorId` is `categoryId` itself or one of its ancestors
+const isSelfOrAncestor = async (tx: Transaction, ancestorId: string, categoryId: string): Promise<boolean> => {
+  const rows = await tx.execute(sql`
+    with recursive ancestors (id, parent_id) as (
+      select ${categoriesTable.id}, ${categoriesTable.parentId} from ${categoriesTable} where ${categoriesTable.id} = ${categoryId}
+      union
+      select c.id, c.parent_id from ${categoriesTable} c join ancestors a on c.id = a.parent_id
+    )
+    select 1 from ancestors where id = ${ancestorId} limit 1
+  `);
+  return rows.length > 0;
+};
+
 export const updateCategory = async (
   id: string,
   data: Partial<InsertCategory>
 ): Promise<SelectCategory> => {
   try {
-    const [updatedCategory] = await db
-      .update(categoriesTable)
-      .set(data)
-      .where(eq(categoriesTable.id, id))
-      .returning();
-    return updatedCategory;
+    return await db.transaction(async (tx) => {
+      // Re-checked here so two concurrent moves can't close a loop
+      if (data.parentId && (await isSelfOrAncestor(tx, id, data.parentId))) {
+        throw new Error("A category can't be nested inside itself.");
+      }
+      const [updatedCategory] = await tx
+        .update(categoriesTable)
+        .set(data)
+        .where(eq(categoriesTable.id, id))
+        .returning();
+      return updatedCategory;
+    });
   } catch (error) {
     console.error("Error updating category: ", error);
     throw new Error("Failed to update category. Please try again.");
   }
 };
 
+// Moves a category to the trash. Its active notes either go to the trash with
+// it (same deletedAt, so restoring the category brings back exactly those
+// notes) or, with `moveNotesTo`, move to that category first, below its notes.
+// Categories nested in it move up to its parent.
 export const deleteCategory = async (
+  id: string,
+  { moveNotesTo }: { moveNotesTo?: string } = {}
+): Promise<{ id: string; movedNotes: number }> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const deletedAt = new Date();
+      const [deletedCategory] = await tx
+        .update(categoriesTable)
+        .set({ deletedAt })
+        .where(and(eq(categoriesTable.id, id), isNull(categoriesTable.deletedAt)))
+        .returning({ id: categoriesTable.id, workspaceId: categoriesTable.workspaceId, parentId: categoriesTable.parentId });
+      if (!deletedCategory) {
+        return { id, movedNotes: 0 };
+      }
+      await tx
+        .update(categoriesTable)
+        .set({ parentId: deletedCategory.parentId })
+        .where(eq(categoriesTable.parentId, id));
+      const activeNotes = and(eq(notesTable.categoryId, id), isNull(notesTable.deletedAt));
+      if (moveNotesTo) {
+        // Shift the moved notes' positions so they keep their order after the target's notes
+        const [target] = await tx
+          .select({ last: sql<number | null>`max(${notesTable.position})` })
+          .from(notesTable)
+          .where(
+            and(
+              eq(notesTable.categoryId, moveNotesTo),
+              deletedCategory.workspaceId ? eq(notesTable.workspaceId, deletedCategory.workspaceId) : undefined
+            )
+          );
+        const [source] = await tx
+          .select({ first: sql<number | null>`min(${notesTable.position})` })
+          .from(notesTable)
+          .where(activeNotes);
+        const offset = (target?.last ?? 0) + 1 - (source?.first ?? 0);
+        const moved = await tx
+          .update(notesTable)
+          .set({
+            categoryId: moveNotesTo,
+            position: sql`${notesTable.position} + ${offset}`,
+            updatedAt: sql`${notesTable.updatedAt}`,
+          })
+          .where(activeNotes)
+          .returning({ id: notesTable.id });
+        return { id, movedNotes: moved.length };
+      }
+      await tx
+        .update(notesTable)
+        .set({ deletedAt, updatedAt: sql`${notesTable.updatedAt}` })
+        .where(activeNotes);
+      return { id, movedNotes: 0 };
+    });
+  } catch (error) {
+    console.error("Error deleting category: ", error);
+    throw new Error("Failed to delete category. Please try again.");
+  }
+};
+
+export const getTrashedCategoriesByWorkspaceId = async (
+  workspaceId: string
+): Promise<SelectCategory[]> => {
+  try {
+    const categories = await db.query.categoriesTable.findMany({
+      where: and(eq(categoriesTable.workspaceId, workspaceId), isNotNull(categoriesTable.deletedAt)),
+      orderBy: (table, { desc: sortDesc }) => [sortDesc(table.deletedAt)],
+    });
+    return categories;
+  } catch (error) {
+    console.error("Error getting trashed categories by workspace ID: ", error);
+    throw new Error("Failed to retrieve trash. Please try again.");
+  }
+};
+
+// Restores a trashed category and the notes that were trashed along with it
+export const restoreCategory = async (
   id: string
-): Promise<{ id: string }> => {
+): Promise<{ id: string; restoredNotes: number }> => {
   try {
-    const [deletedCategory] = await db
+    return await db.transaction(async (tx) => {
+      const category = await tx.query.categoriesTable.findFirst({
+        where: and(eq(categoriesTable.id, id), isNotNull(categoriesTable.deletedAt)),
+      });
+      if (!category || !category.deletedAt) {
+        return { id, restoredNotes: 0 };
+      }
+      await tx
+        .update(categoriesTable)
+        .set({ deletedAt: null })
+        .where(eq(categoriesTable.id, id));
+      const restored = await tx
+        .update(notesTable)
+        .set({ deletedAt: null, updatedAt: sql`${notesTable.updatedAt}` })
+        .where(and(eq(notesTable.categoryId, id), eq(notesTable.deletedAt, category.deletedAt)))
+        .returning({ id: notesTable.id });
+      return { id, restoredNotes: restored.length };
+    });
+  } catch (error) {
+    console.error("Error restoring category: ", error);
+    throw new Error("Failed to restore category. Please try again.");
+  }
+};
+
+// Hard-deletes a trashed category and every trashed note still in it.
+// Returns the storage keys of the notes' attachments for the caller to delete.
+export const permanentlyDeleteCategory = async (
+  id: string
+): Promise<{ id: string; deletedNotes: number; attachmentKeys: string[] }> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const noteFilter = and(eq(notesTable.categoryId, id), isNotNull(notesTable.deletedAt));
+      const attachmentKeys = await deleteAttachmentsOfNotes(tx, noteFilter);
+      const deletedNotes = await tx
+        .delete(notesTable)
+        .where(noteFilter)
+        .returning({ id: notesTable.id });
+      await tx
+        .delete(categoriesTable)
+        .where(and(eq(categoriesTable.id, id), isNotNull(categoriesTable.deletedAt)));
+      return { id, deletedNotes: deletedNotes.length, attachmentKeys };
+    });
+  } catch (error) {
+    console.error("Error permanently deleting category: ", error);
+    throw new Error("Failed to permanently delete category. Please try again.");
+  }
+};
+
+// Hard-deletes categories trashed before `cutoff` that no longer have any notes
+export const purgeTrashedCategories = async (cutoff: Date): Promise<{ count: number }> => {
+  try {
+    const result = await db
       .delete(categoriesTable)
-      .where(eq(categoriesTable.id, id))
+      .where(
+        and(
+          isNotNull(categoriesTable.deletedAt),
+          lt(categoriesTable.deletedAt, cutoff),
+          sql`not exists (select 1 from ${notesTable} where ${notesTable.categoryId} = ${categoriesTable.id})`
+        )
+      )
       .returning({ id: categoriesTable.id });
-    return deletedCategory;
+    return { count: result.length };
   } catch (error) {
-    console.error("Error deleting category: ", error);
-    throw new Error("Failed to delete category. Please try again.");
+    console.error("Error purging trashed categories: ", error);
+    throw new Error("Failed to purge trashed categories. Please try again.");
   }
-}; 
\ No newline at end of file
+};
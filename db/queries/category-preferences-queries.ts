@@ -0,0 +1,88 @@
+import { eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  categoryPreferencesTable,
+  SelectCategoryPreference,
+} from "../schema/category-preferences-schema";
+
+/**
+ * Queries for the "category_preferences" table.
+ * Each user's column order and hidden categories; rows are created on first
+ * change and every query is scoped to the user.
+ * Location: /db/queries/category-preferences-queries.ts
+ */
+
+export const getCategoryPreferencesByUserId = async (
+  userId: string
+): Promise<SelectCategoryPreference[]> => {
+  try {
+    return await db.query.categoryPreferencesTable.findMany({
+      where: eq(categoryPreferencesTable.userId, userId),
+    });
+  } catch (error) {
+    console.error("Error getting category preferences: ", error);
+    throw new Error("Failed to retrieve category preferences. Please try again.");
+  }
+};
+
+export const setCategoryHidden = async (
+  userId: string,
+  categoryId: string,
+  hidden: boolean
+): Promise<void> => {
+  try {
+    await db
+      .insert(categoryPreferencesTable)
+      .values({ userId, categoryId, hidden })
+      .onConflictDoUpdate({
+        target: [categoryPreferencesTable.userId, categoryPreferencesTable.categoryId],
+        set: { hidden },
+      });
+  } catch (error) {
+    console.error("Error setting category visibility: ", error);
+    throw new Error("Failed to update category. Please try again.");
+  }
+};
+
+// Stores `categoryIds` as the user's column order (1, 2, 3, ...)
+export const setCategoryOrder = async (
+  userId: string,
+  categoryIds: string[]
+): Promise<void> => {
+  try {
+    await db.transaction(async (tx) => {
+      for (let index = 0; index < categoryIds.length; index++) {
+        const position = index + 1;
+        await tx
+          .insert(categoryPreferencesTable)
+          .values({ userId, categoryId: categoryIds[index], position })
+          .onConflictDoUpdate({
+            target: [categoryPreferencesTable.userId, categoryPreferencesTable.categoryId],
+            set: { position },
+          });
+      }
+    });
+  } catch (error) {
+    console.error("Error setting category order: ", error);
+    throw new Error("Failed to reorder categories. Please try again.");
+  }
+};
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * For queries that create categories: places the new category after every
+ * category the user has already ordered, within the same transaction. Until
+ * the user orders anything, positions stay null and the default order applies.
+ */
+export const appendCategoryToOrder = async (
+  tx: Transaction,
+  userId: string,
+  categoryId: string
+): Promise<void> => {
+  await tx.insert(categoryPreferencesTable).values({
+    userId,
+    categoryId,
+    position: sql`(select max(${categoryPreferencesTable.position}) + 1 from ${categoryPreferencesTable} where ${categoryPreferencesTable.userId} = ${userId})`,
+  });
+};
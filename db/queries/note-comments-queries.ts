@@ -0,0 +1,71 @@
+import { and, asc, eq, getTableColumns, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { noteCommentsTable, InsertNoteComment, SelectNoteComment } from "../schema/note-comments-schema";
+import { profilesTable } from "../schema/profiles-schema";
+
+/**
+ * Queries for the "note_comments" table.
+ * A thread is its first comment (no parentId) plus the replies pointing to
+ * it; the first comment also holds the thread's resolved state.
+ * Location: /db/queries/note-comments-queries.ts
+ */
+
+// A comment with its author's email, for display
+export type NoteComment = SelectNoteComment & { authorEmail: string | null };
+
+// All comments on a note, oldest first
+export const getNoteCommentsByNoteId = async (noteId: string): Promise<NoteComment[]> => {
+  try {
+    return await db
+      .select({ ...getTableColumns(noteCommentsTable), authorEmail: profilesTable.email })
+      .from(noteCommentsTable)
+      .leftJoin(profilesTable, eq(profilesTable.userId, noteCommentsTable.userId))
+      .where(eq(noteCommentsTable.noteId, noteId))
+      .orderBy(asc(noteCommentsTable.createdAt));
+  } catch (error) {
+    console.error("Error getting note comments: ", error);
+    throw new Error("Failed to retrieve comments. Please try again.");
+  }
+};
+
+export const getNoteCommentById = async (id: string): Promise<SelectNoteComment | undefined> => {
+  try {
+    return await db.query.noteCommentsTable.findFirst({
+      where: eq(noteCommentsTable.id, id),
+    });
+  } catch (error) {
+    console.error("Error getting note comment by ID: ", error);
+    throw new Error("Failed to retrieve comment. Please try again.");
+  }
+};
+
+export const createNoteComment = async (data: InsertNoteComment): Promise<SelectNoteComment> => {
+  try {
+    const [comment] = await db.insert(noteCommentsTable).values(data).returning();
+    return comment;
+  } catch (error) {
+    console.error("Error creating note comment: ", error);
+    throw new Error("Failed to save comment. Please try again.");
+  }
+};
+
+/**
+ * Resolves a thread (recording who did) or, with `resolvedBy` null, reopens it.
+ * `threadId` is the ID of the thread's first comment.
+ */
+export const setNoteCommentThreadResolved = async (
+  threadId: string,
+  resolvedBy: string | null
+): Promise<SelectNoteComment | undefined> => {
+  try {
+    const [comment] = await db
+      .update(noteCommentsTable)
+      .set({ resolvedAt: resolvedBy ? new Date() : null, resolvedBy, updatedAt: new Date() })
+      .where(and(eq(noteCommentsTable.id, threadId), isNull(noteCommentsTable.parentId)))
+      .returning();
+    return comment;
+  } catch (error) {
+    console.error("Error updating comment thread: ", error);
+    throw new Error("Failed to update the thread. Please try again.");
+  }
+};
@@ -0,0 +1,43 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { noteDocumentsTable, SelectNoteDocument } from "../schema/note-documents-schema";
+
+/**
+ * Queries for the "note_documents" table.
+ * Only the collaboration server reads and writes these rows; the app itself
+ * works with the HTML in `notes.content`.
+ * Location: /db/queries/note-documents-queries.ts
+ */
+
+export const getNoteDocument = async (
+  noteId: string
+): Promise<SelectNoteDocument | undefined> => {
+  try {
+    return await db.query.noteDocumentsTable.findFirst({
+      where: eq(noteDocumentsTable.noteId, noteId),
+    });
+  } catch (error) {
+    console.error("Error getting note document: ", error);
+    throw new Error("Failed to retrieve note document. Please try again.");
+  }
+};
+
+export const saveNoteDocument = async (
+  noteId: string,
+  state: Buffer,
+  contentHash: string
+): Promise<void> => {
+  try {
+    const updatedAt = new Date();
+    await db
+      .insert(noteDocumentsTable)
+      .values({ noteId, state, contentHash, updatedAt })
+      .onConflictDoUpdate({
+        target: noteDocumentsTable.noteId,
+        set: { state, contentHash, updatedAt },
+      });
+  } catch (error) {
+    console.error("Error saving note document: ", error);
+    throw new Error("Failed to save note document. Please try again.");
+  }
+};
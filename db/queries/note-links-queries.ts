@@ -0,0 +1,88 @@
+import { eq, and, inArray, ne, isNull, desc } from "drizzle-orm";
+import { db } from "../db";
+import { noteLinksTable } from "../schema/note-links-schema";
+import { notesTable, SelectNote } from "../schema/notes-schema";
+import { extractNoteLinkIds } from "@/lib/note-links";
+
+/**
+ * Queries for the "note_links" table.
+ * Provides functions to rebuild a note's outgoing links and to list the notes
+ * linking to a note (backlinks).
+ * Location: /db/queries/note-links-queries.ts
+ */
+
+/**
+ * Replaces the outgoing links of `sourceNoteId` with links to `targetNoteIds`.
+ * Targets that don't exist, belong to another workspace, or are the source
+ * itself are skipped.
+ */
+export const syncNoteLinks = async (
+  sourceNoteId: string,
+  workspaceId: string,
+  targetNoteIds: string[]
+): Promise<{ count: number }> => {
+  try {
+    return await db.transaction(async (tx) => {
+      await tx.delete(noteLinksTable).where(eq(noteLinksTable.sourceNoteId, sourceNoteId));
+      if (targetNoteIds.length === 0) {
+        return { count: 0 };
+      }
+      const targets = await tx
+        .select({ id: notesTable.id })
+        .from(notesTable)
+        .where(
+          and(
+            inArray(notesTable.id, targetNoteIds),
+            eq(notesTable.workspaceId, workspaceId),
+            ne(notesTable.id, sourceNoteId)
+          )
+        );
+      if (targets.length === 0) {
+        return { count: 0 };
+      }
+      await tx
+        .insert(noteLinksTable)
+        .values(targets.map(target => ({ sourceNoteId, targetNoteId: target.id })))
+        .onConflictDoNothing();
+      return { count: targets.length };
+    });
+  } catch (error) {
+    console.error("Error syncing note links: ", error);
+    throw new Error("Failed to update note links. Please try again.");
+  }
+};
+
+// Rebuilds a note's outgoing links from the link nodes in its saved content
+export const syncNoteLinksFromContent = async (
+  note: Pick<SelectNote, "id" | "workspaceId" | "content">
+): Promise<{ count: number }> => {
+  return syncNoteLinks(note.id, note.workspaceId, extractNoteLinkIds(note.content));
+};
+
+/**
+ * Active (non-trashed) notes of `workspaceId` that link to `noteId`, most
+ * recently updated first.
+ */
+export const getBacklinksByNoteId = async (
+  noteId: string,
+  workspaceId: string
+): Promise<SelectNote[]> => {
+  try {
+    const rows = await db
+      .select({ note: notesTable })
+      .from(noteLinksTable)
+      .innerJoin(notesTable, eq(noteLinksTable.sourceNoteId, notesTable.id))
+      .where(
+        and(
+          eq(noteLinksTable.targetNoteId, noteId),
+          eq(notesTable.workspaceId, workspaceId),
+          isNull(notesTable.deletedAt)
+        )
+      )
+      .orderBy(desc(notesTable.updatedAt));
+    return rows.map(row => row.note);
+  } catch (error) {
+    console.error("Error getting backlinks by note ID: ", error);
+    throw new Error("Failed to retrieve backlinks. Please try again.");
+  }
+};
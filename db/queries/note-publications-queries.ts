@@ -0,0 +1,93 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "../db";
+import {
+  notePublicationsTable,
+  InsertNotePublication,
+  SelectNotePublication,
+} from "../schema/note-publications-schema";
+import { notesTable, SelectNote } from "../schema/notes-schema";
+import { categoriesTable, SelectCategory } from "../schema/categories-schema";
+
+/**
+ * Queries for the "note_publications" table.
+ * A trashed note's public page is gone until the note is restored; its
+ * publication row is kept so restoring brings the same URL back.
+ * Location: /db/queries/note-publications-queries.ts
+ */
+
+export interface PublishedNote {
+  publication: SelectNotePublication;
+  note: SelectNote;
+  category: SelectCategory | null;
+}
+
+export const getNotePublicationByNoteId = async (
+  noteId: string
+): Promise<SelectNotePublication | undefined> => {
+  try {
+    return await db.query.notePublicationsTable.findFirst({
+      where: eq(notePublicationsTable.noteId, noteId),
+    });
+  } catch (error) {
+    console.error("Error getting note publication: ", error);
+    throw new Error("Failed to retrieve note publication. Please try again.");
+  }
+};
+
+/**
+ * The active note published at `slug`, with its category for the page color.
+ * Expiry and passwords are checked by the caller.
+ */
+export const getPublishedNoteBySlug = async (slug: string): Promise<PublishedNote | undefined> => {
+  try {
+    const [row] = await db
+      .select({ publication: notePublicationsTable, note: notesTable, category: categoriesTable })
+      .from(notePublicationsTable)
+      .innerJoin(notesTable, eq(notePublicationsTable.noteId, notesTable.id))
+      .leftJoin(categoriesTable, eq(notesTable.categoryId, categoriesTable.id))
+      .where(and(eq(notePublicationsTable.publishedSlug, slug), isNull(notesTable.deletedAt)))
+      .limit(1);
+    return row;
+  } catch (error) {
+    console.error("Error getting published note: ", error);
+    throw new Error("Failed to retrieve published note. Please try again.");
+  }
+};
+
+/**
+ * Publishes a note, or updates its expiry and password if it already is.
+ * The slug of an existing publication is kept so its URL stays the same.
+ */
+export const upsertNotePublication = async (data: InsertNotePublication): Promise<SelectNotePublication> => {
+  try {
+    const [publication] = await db
+      .insert(notePublicationsTable)
+      .values(data)
+      .onConflictDoUpdate({
+        target: notePublicationsTable.noteId,
+        set: {
+          expiresAt: data.expiresAt ?? null,
+          passwordHash: data.passwordHash ?? null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return publication;
+  } catch (error) {
+    console.error("Error publishing note: ", error);
+    throw new Error("Failed to publish note. Please try again.");
+  }
+};
+
+export const deleteNotePublication = async (noteId: string): Promise<{ noteId: string } | undefined> => {
+  try {
+    const [publication] = await db
+      .delete(notePublicationsTable)
+      .where(eq(notePublicationsTable.noteId, noteId))
+      .returning({ noteId: notePublicationsTable.noteId });
+    return publication;
+  } catch (error) {
+    console.error("Error unpublishing note: ", error);
+    throw new Error("Failed to unpublish note. Please try again.");
+  }
+};
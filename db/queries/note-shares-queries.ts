@@ -0,0 +1,206 @@
+import { and, asc, desc, eq, inArray, isNull, ne, notLike, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  noteSharesTable,
+  InsertNoteShare,
+  NoteShareRole,
+  SelectNoteShare,
+} from "../schema/note-shares-schema";
+import { notesTable, SelectNote } from "../schema/notes-schema";
+import { profilesTable } from "../schema/profiles-schema";
+
+/**
+ * Queries for the "note_shares" table.
+ * Shares only grant access to active notes: a trashed note disappears from
+ * "Shared with me" and can't be opened through its shares until restored.
+ * Location: /db/queries/note-shares-queries.ts
+ */
+
+export interface SharedNote {
+  note: SelectNote;
+  role: NoteShareRole;
+  ownerEmail: string | null;
+  sharedAt: Date;
+}
+
+export const getNoteSharesByNoteId = async (noteId: string): Promise<SelectNoteShare[]> => {
+  try {
+    return await db
+      .select()
+      .from(noteSharesTable)
+      .where(eq(noteSharesTable.noteId, noteId))
+      .orderBy(asc(noteSharesTable.createdAt));
+  } catch (error) {
+    console.error("Error getting note shares: ", error);
+    throw new Error("Failed to retrieve note shares. Please try again.");
+  }
+};
+
+export const getNoteShareById = async (id: string): Promise<SelectNoteShare | undefined> => {
+  try {
+    return await db.query.noteSharesTable.findFirst({
+      where: eq(noteSharesTable.id, id),
+    });
+  } catch (error) {
+    console.error("Error getting note share by ID: ", error);
+    throw new Error("Failed to retrieve note share. Please try again.");
+  }
+};
+
+// The grant `userId` has on a note, if any
+export const getNoteShareForUser = async (
+  noteId: string,
+  userId: string
+): Promise<SelectNoteShare | undefined> => {
+  try {
+    return await db.query.noteSharesTable.findFirst({
+      where: and(eq(noteSharesTable.noteId, noteId), eq(noteSharesTable.granteeUserId, userId)),
+    });
+  } catch (error) {
+    console.error("Error getting note share for user: ", error);
+    throw new Error("Failed to retrieve note share. Please try again.");
+  }
+};
+
+/**
+ * Shares a note with an email, or changes the role if it's already shared
+ * with that email.
+ */
+export const upsertNoteShare = async (data: InsertNoteShare): Promise<SelectNoteShare> => {
+  try {
+    const [share] = await db
+      .insert(noteSharesTable)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [noteSharesTable.noteId, noteSharesTable.granteeEmail],
+        set: {
+          role: data.role,
+          granteeUserId: sql`coalesce(${noteSharesTable.granteeUserId}, excluded.grantee_user_id)`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return share;
+  } catch (error) {
+    console.error("Error sharing note: ", error);
+    throw new Error("Failed to share note. Please try again.");
+  }
+};
+
+export const updateNoteShareRole = async (
+  id: string,
+  role: NoteShareRole
+): Promise<SelectNoteShare | undefined> => {
+  try {
+    const [share] = await db
+      .update(noteSharesTable)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(noteSharesTable.id, id))
+      .returning();
+    return share;
+  } catch (error) {
+    console.error("Error updating note share: ", error);
+    throw new Error("Failed to update note share. Please try again.");
+  }
+};
+
+export const deleteNoteShare = async (id: string): Promise<{ id: string } | undefined> => {
+  try {
+    const [share] = await db
+      .delete(noteSharesTable)
+      .where(eq(noteSharesTable.id, id))
+      .returning({ id: noteSharesTable.id });
+    return share;
+  } catch (error) {
+    console.error("Error deleting note share: ", error);
+    throw new Error("Failed to remove note share. Please try again.");
+  }
+};
+
+/**
+ * Active notes other people have shared with `userId`, most recently updated
+ * first, with the owner's email for display.
+ */
+export const getSharedNotesByUserId = async (userId: string): Promise<SharedNote[]> => {
+  try {
+    const rows = await db
+      .select({
+        note: notesTable,
+        role: noteSharesTable.role,
+        ownerEmail: profilesTable.email,
+        sharedAt: noteSharesTable.createdAt,
+      })
+      .from(noteSharesTable)
+      .innerJoin(notesTable, eq(noteSharesTable.noteId, notesTable.id))
+      .leftJoin(profilesTable, eq(profilesTable.userId, notesTable.userId))
+      .where(and(eq(noteSharesTable.granteeUserId, userId), isNull(notesTable.deletedAt)))
+      .orderBy(desc(notesTable.updatedAt));
+    return rows;
+  } catch (error) {
+    console.error("Error getting shared notes: ", error);
+    throw new Error("Failed to retrieve shared notes. Please try again.");
+  }
+};
+
+// Which of `noteIds` are shared with `userId`
+export const getSharedNoteIds = async (userId: string, noteIds: string[]): Promise<string[]> => {
+  if (noteIds.length === 0) {
+    return [];
+  }
+  try {
+    const rows = await db
+      .select({ noteId: noteSharesTable.noteId })
+      .from(noteSharesTable)
+      .where(and(eq(noteSharesTable.granteeUserId, userId), inArray(noteSharesTable.noteId, noteIds)));
+    return rows.map(row => row.noteId);
+  } catch (error) {
+    console.error("Error getting shared note IDs: ", error);
+    throw new Error("Failed to retrieve shared notes. Please try again.");
+  }
+};
+
+/**
+ * The user who signed up with `email` (case-insensitive), if anyone has.
+ * Temporary profiles from the old payment flow don't count.
+ */
+export const getUserIdByEmail = async (email: string): Promise<string | null> => {
+  try {
+    const [profile] = await db
+      .select({ userId: profilesTable.userId })
+      .from(profilesTable)
+      .where(and(sql`lower(${profilesTable.email}) = ${email.toLowerCase()}`, notLike(profilesTable.userId, "temp_%")))
+      .limit(1);
+    return profile?.userId ?? null;
+  } catch (error) {
+    console.error("Error getting user by email: ", error);
+    throw new Error("Failed to look up user. Please try again.");
+  }
+};
+
+/**
+ * Hands invites sent to any of `emails` (the user's verified, lowercased
+ * addresses) before its account existed to `userId`. Called once, when the
+ * user's profile is created on first sign-in.
+ */
+export const claimNoteShares = async (emails: string[], userId: string): Promise<{ count: number }> => {
+  if (emails.length === 0) {
+    return { count: 0 };
+  }
+  try {
+    const claimed = await db
+      .update(noteSharesTable)
+      .set({ granteeUserId: userId, claimedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          inArray(noteSharesTable.granteeEmail, emails),
+          isNull(noteSharesTable.granteeUserId),
+          ne(noteSharesTable.ownerId, userId) // Nobody needs an invite to their own note
+        )
+      )
+      .returning({ id: noteSharesTable.id });
+    return { count: claimed.length };
+  } catch (error) {
+    console.error("Error claiming note shares: ", error);
+    throw new Error("Failed to claim shared notes. Please try again.");
+  }
+};
@@ -0,0 +1,117 @@
+import { eq, and, isNull, asc, desc, sql } from "drizzle-orm";
+import { db } from "../db";
+import { noteTasksTable, SelectNoteTask } from "../schema/note-tasks-schema";
+import { notesTable, SelectNote } from "../schema/notes-schema";
+import { extractNoteTasks } from "@/lib/note-task-extraction";
+import type { ExtractedNoteTask, NoteTaskProgress } from "@/lib/note-tasks";
+
+/**
+ * Queries for the "note_tasks" table.
+ * Provides functions to rebuild a note's tasks from its content, list open
+ * tasks across all of a workspace's notes, and count done/total tasks per note.
+ * Location: /db/queries/note-tasks-queries.ts
+ */
+
+export type OpenNoteTask = Pick<SelectNoteTask, "id" | "noteId" | "text" | "dueDate" | "position"> & {
+  noteTitle: string;
+  categoryId: string;
+};
+
+/**
+ * Replaces the task rows of a note with `tasks` (in document order).
+ */
+export const syncNoteTasks = async (
+  noteId: string,
+  userId: string,
+  tasks: ExtractedNoteTask[]
+): Promise<{ count: number }> => {
+  try {
+    return await db.transaction(async (tx) => {
+      await tx.delete(noteTasksTable).where(eq(noteTasksTable.noteId, noteId));
+      if (tasks.length === 0) {
+        return { count: 0 };
+      }
+      await tx.insert(noteTasksTable).values(
+        tasks.map((task, position) => ({ noteId, userId, position, ...task }))
+      );
+      return { count: tasks.length };
+    });
+  } catch (error) {
+    console.error("Error syncing note tasks: ", error);
+    throw new Error("Failed to update note tasks. Please try again.");
+  }
+};
+
+// Rebuilds a note's tasks from the task items in its saved content
+export const syncNoteTasksFromContent = async (
+  note: Pick<SelectNote, "id" | "userId" | "content">
+): Promise<{ count: number }> => {
+  return syncNoteTasks(note.id, note.userId, extractNoteTasks(note.content));
+};
+
+/**
+ * Unfinished tasks across the workspace's active (non-trashed) notes: tasks
+ * with a due date first (soonest first), then the rest by most recently
+ * updated note.
+ */
+export const getOpenTasksByWorkspaceId = async (workspaceId: string): Promise<OpenNoteTask[]> => {
+  try {
+    return await db
+      .select({
+        id: noteTasksTable.id,
+        noteId: noteTasksTable.noteId,
+        text: noteTasksTable.text,
+        dueDate: noteTasksTable.dueDate,
+        position: noteTasksTable.position,
+        noteTitle: notesTable.title,
+        categoryId: notesTable.categoryId,
+      })
+      .from(noteTasksTable)
+      .innerJoin(notesTable, eq(noteTasksTable.noteId, notesTable.id))
+      .where(
+        and(
+          eq(noteTasksTable.done, false),
+          eq(notesTable.workspaceId, workspaceId),
+          isNull(notesTable.deletedAt)
+        )
+      )
+      .orderBy(
+        sql`${noteTasksTable.dueDate} asc nulls last`,
+        desc(notesTable.updatedAt),
+        asc(noteTasksTable.position)
+      );
+  } catch (error) {
+    console.error("Error getting open tasks by workspace ID: ", error);
+    throw new Error("Failed to retrieve open tasks. Please try again.");
+  }
+};
+
+/**
+ * Done/total task counts for each of the workspace's notes that has tasks,
+ * keyed by note ID.
+ */
+export const getTaskProgressByWorkspaceId = async (
+  workspaceId: string
+): Promise<Record<string, NoteTaskProgress>> => {
+  try {
+    const rows = await db
+      .select({
+        noteId: noteTasksTable.noteId,
+        total: sql<number>`count(*)::int`,
+        done: sql<number>`count(*) filter (where ${noteTasksTable.done})::int`,
+      })
+      .from(noteTasksTable)
+      .innerJoin(notesTable, eq(noteTasksTable.noteId, notesTable.id))
+      .where(eq(notesTable.workspaceId, workspaceId))
+      .groupBy(noteTasksTable.noteId);
+
+    const progressByNoteId: Record<string, NoteTaskProgress> = {};
+    for (const row of rows) {
+      progressByNoteId[row.noteId] = { done: row.done, total: row.total };
+    }
+    return progressByNoteId;
+  } catch (error) {
+    console.error("Error getting task progress by workspace ID: ", error);
+    throw new Error("Failed to retrieve task progress. Please try again.");
+  }
+};
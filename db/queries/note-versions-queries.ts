@@ -0,0 +1,126 @@
+import { eq, desc, and, notInArray } from "drizzle-orm";
+import { db } from "../db";
+import {
+  noteVersionsTable,
+  InsertNoteVersion,
+  SelectNoteVersion,
+} from "../schema/note-versions-schema";
+import { SelectNote } from "../schema/notes-schema";
+
+/**
+ * Queries for the "note_versions" table.
+ * Provides functions to snapshot, list, and prune note versions.
+ * Location: /db/queries/note-versions-queries.ts
+ */
+
+// Retention rules: saves closer together than this share one snapshot, so a
+// burst of autosaves doesn't flood the history
+export const NOTE_VERSION_COLLAPSE_WINDOW_MINUTES = 10;
+// Oldest snapshots beyond this count are deleted
+export const MAX_NOTE_VERSIONS = 50;
+
+export const createNoteVersion = async (
+  data: InsertNoteVersion
+): Promise<SelectNoteVersion> => {
+  try {
+    const [newVersion] = await db.insert(noteVersionsTable).values(data).returning();
+    return newVersion;
+  } catch (error) {
+    console.error("Error creating note version: ", error);
+    throw new Error("Failed to create note version. Please try again.");
+  }
+};
+
+export const getNoteVersionById = async (
+  id: string
+): Promise<SelectNoteVersion | undefined> => {
+  try {
+    const version = await db.query.noteVersionsTable.findFirst({
+      where: eq(noteVersionsTable.id, id),
+    });
+    return version;
+  } catch (error) {
+    console.error("Error getting note version by ID: ", error);
+    throw new Error("Failed to retrieve note version. Please try again.");
+  }
+};
+
+export const getNoteVersionsByNoteId = async (
+  noteId: string
+): Promise<SelectNoteVersion[]> => {
+  try {
+    const versions = await db.query.noteVersionsTable.findMany({
+      where: eq(noteVersionsTable.noteId, noteId),
+      orderBy: (table, { desc: sortDesc }) => [sortDesc(table.createdAt)],
+    });
+    return versions;
+  } catch (error) {
+    console.error("Error getting note versions by note ID: ", error);
+    throw new Error("Failed to retrieve note history. Please try again.");
+  }
+};
+
+export const pruneNoteVersions = async (
+  noteId: string,
+  keep: number = MAX_NOTE_VERSIONS
+): Promise<{ count: number }> => {
+  try {
+    const newest = await db
+      .select({ id: noteVersionsTable.id })
+      .from(noteVersionsTable)
+      .where(eq(noteVersionsTable.noteId, noteId))
+      .orderBy(desc(noteVersionsTable.createdAt))
+      .limit(keep);
+    if (newest.length < keep) {
+      return { count: 0 };
+    }
+    const result = await db
+      .delete(noteVersionsTable)
+      .where(
+        and(
+          eq(noteVersionsTable.noteId, noteId),
+          notInArray(noteVersionsTable.id, newest.map((version) => version.id))
+        )
+      )
+      .returning({ id: noteVersionsTable.id });
+    return { count: result.length };
+  } catch (error) {
+    console.error("Error pruning note versions: ", error);
+    throw new Error("Failed to prune note history. Please try again.");
+  }
+};
+
+/**
+ * Snapshots a note's current title and content before it is overwritten.
+ * Skipped when the latest snapshot is inside the collapse window, unless
+ * `force` is set (restores always snapshot so they can be undone).
+ * Returns the new version, or null when the save was collapsed.
+ */
+export const snapshotNoteVersion = async (
+  note: SelectNote,
+  { force = false }: { force?: boolean } = {}
+): Promise<SelectNoteVersion | null> => {
+  try {
+    if (!force) {
+      const latest = await db.query.noteVersionsTable.findFirst({
+        where: eq(noteVersionsTable.noteId, note.id),
+        orderBy: (table, { desc: sortDesc }) => [sortDesc(table.createdAt)],
+      });
+      const windowMs = NOTE_VERSION_COLLAPSE_WINDOW_MINUTES * 60 * 1000;
+      if (latest && Date.now() - latest.createdAt.getTime() < windowMs) {
+        return null;
+      }
+    }
+
+    const version = await createNoteVersion({
+      noteId: note.id,
+      title: note.title,
+      content: note.content,
+    });
+    await pruneNoteVersions(note.id);
+    return version;
+  } catch (error) {
+    console.error("Error snapshotting note version: ", error);
+    throw new Error("Failed to save note history. Please try again.");
+  }
+};
@@ -1,20 +1,47 @@
-import { eq, desc, inArray, SQL, and } from "drizzle-orm";
+import { eq, asc, desc, inArray, SQL, and, sql, getTableColumns, isNull, isNotNull, lt } from "drizzle-orm";
 import { db } from "../db";
 import {
   notesTable,
   InsertNote,
   SelectNote,
 } from "../schema/notes-schema";
+import { deleteAttachmentsOfNotes } from "./attachments-queries";
+import {
+  HIGHLIGHT_START,
+  HIGHLIGHT_STOP,
+  HighlightSegment,
+  buildPrefixTsQuery,
+  splitHighlights,
+} from "@/lib/search";
+import { getNoteStats } from "@/lib/note-stats";
 
 /**
  * Queries for the "notes" table.
  * Provides functions to create, read, update, and delete notes.
+ * Deleting moves notes to the trash (sets `deletedAt`); read queries exclude
+ * trashed notes unless they say otherwise. Lists are scoped to a workspace.
+ * Writes that set `content` also refresh the derived excerpt and counts.
  * Location: /db/queries/notes-queries.ts
  */
 
+// Adds the excerpt and counts derived from `content`, when the write sets it
+function withNoteStats<T extends Partial<InsertNote>>(data: T): T {
+  return data.content === undefined ? data : { ...data, ...getNoteStats(data.content) };
+}
+
+// Ahead of every note the workspace already has in the category
+const topPositionIn = (data: InsertNote): SQL =>
+  sql`(select coalesce(min(${notesTable.position}), 1) - 1 from ${notesTable} where ${notesTable.categoryId} = ${data.categoryId} and ${notesTable.workspaceId} = ${data.workspaceId})`;
+
+// New notes start at the top of their category unless a position is given
+const toNewNoteRow = (data: InsertNote) => ({
+  ...withNoteStats(data),
+  position: data.position ?? topPositionIn(data),
+});
+
 export const createNote = async (data: InsertNote): Promise<SelectNote> => {
   try {
-    const [newNote] = await db.insert(notesTable).values(data).returning();
+    const [newNote] = await db.insert(notesTable).values(toNewNoteRow(data)).returning();
     return newNote;
   } catch (error) {
     console.error("Error creating note: ", error);
@@ -22,13 +49,29 @@ export const createNote = async (data: InsertNote): Promise<SelectNote> => {
   }
 };
 
+// Inserts many notes in one statement (used by imports)
+export const createNotes = async (data: InsertNote[]): Promise<SelectNote[]> => {
+  if (data.length === 0) {
+    return [];
+  }
+  try {
+    return await db.insert(notesTable).values(data.map(toNewNoteRow)).returning();
+  } catch (error) {
+    console.error("Error creating notes: ", error);
+    throw new Error("Failed to create notes. Please try again.");
+  }
+};
+
 export const getNoteById = async (
-  id: string
+  id: string,
+  { includeDeleted = false }: { includeDeleted?: boolean } = {}
 ): Promise<SelectNote | undefined> => {
   try {
     // Ensure notesTable is part of the schema in db.ts for db.query.notesTable
     const note = await db.query.notesTable.findFirst({
-      where: eq(notesTable.id, id),
+      where: includeDeleted
+        ? eq(notesTable.id, id)
+        : and(eq(notesTable.id, id), isNull(notesTable.deletedAt)),
       // Example of loading relation if defined in db.ts schema:
       // with: { category: true }
     });
@@ -39,52 +82,89 @@ export const getNoteById = async (
   }
 };
 
-export const getNotesByUserId = async (
-  userId: string
+export const getNotesByIds = async (
+  ids: string[],
+  { includeDeleted = false }: { includeDeleted?: boolean } = {}
+): Promise<SelectNote[]> => {
+  if (ids.length === 0) {
+    return [];
+  }
+  try {
+    const notes = await db.query.notesTable.findMany({
+      where: includeDeleted
+        ? inArray(notesTable.id, ids)
+        : and(inArray(notesTable.id, ids), isNull(notesTable.deletedAt)),
+    });
+    return notes;
+  } catch (error) {
+    console.error("Error getting notes by IDs: ", error);
+    throw new Error("Failed to retrieve notes. Please try again.");
+  }
+};
+
+export const getNotesByWorkspaceId = async (
+  workspaceId: string
 ): Promise<SelectNote[]> => {
   try {
     // Ensure notesTable is part of the schema in db.ts for db.query.notesTable
     const notes = await db.query.notesTable.findMany({
-      where: eq(notesTable.userId, userId),
-      orderBy: (table, { desc: sortDesc }) => [sortDesc(table.updatedAt)],
+      where: and(eq(notesTable.workspaceId, workspaceId), isNull(notesTable.deletedAt)),
+      orderBy: (table, { desc: sortDesc }) => [sortDesc(table.pinned), sortDesc(table.updatedAt)],
       // Example of loading relation:
       // with: { category: true }
     });
     return notes;
   } catch (error) {
-    console.error("Error getting notes by user ID: ", error);
+    console.error("Error getting notes by workspace ID: ", error);
     throw new Error("Failed to retrieve notes. Please try again.");
   }
 };
 
+// Base categories are shared by every workspace, so the workspace is needed too
 export const getNotesByCategoryId = async (
   categoryId: string,
-  userId: string
+  workspaceId: string
 ): Promise<SelectNote[]> => {
   try {
     const notes = await db.query.notesTable.findMany({
       where: and(
         eq(notesTable.categoryId, categoryId),
-        eq(notesTable.userId, userId)
+        eq(notesTable.workspaceId, workspaceId),
+        isNull(notesTable.deletedAt)
       ),
-      orderBy: (table, { desc: sortDesc }) => [sortDesc(table.updatedAt)],
+      orderBy: (table, { asc: sortAsc, desc: sortDesc }) => [
+        sortDesc(table.pinned),
+        sortAsc(table.position),
+        sortDesc(table.updatedAt),
+      ],
     });
     return notes;
   } catch (error) {
-    console.error("Error getting notes by category ID and user ID: ", error);
+    console.error("Error getting notes by category ID and workspace ID: ", error);
     throw new Error("Failed to retrieve notes for category. Please try again.");
   }
 };
 
+// With `expectedUpdatedAt`, the update only applies if the row hasn't changed
+// since then (optimistic concurrency); returns undefined when it has.
 export const updateNote = async (
   id: string,
-  data: Partial<InsertNote>
-): Promise<SelectNote> => {
+  data: Partial<InsertNote>,
+  { expectedUpdatedAt }: { expectedUpdatedAt?: Date } = {}
+): Promise<SelectNote | undefined> => {
   try {
     const [updatedNote] = await db
       .update(notesTable)
-      .set({...data, updatedAt: new Date() }) // Explicitly set updatedAt
-      .where(eq(notesTable.id, id))
+      .set({...withNoteStats(data), updatedAt: new Date() }) // Explicitly set updatedAt
+      .where(
+        expectedUpdatedAt
+          ? and(
+              eq(notesTable.id, id),
+              // JS Dates only carry milliseconds; Postgres stores microseconds
+              sql`date_trunc('milliseconds', ${notesTable.updatedAt}) = ${expectedUpdatedAt}`
+            )
+          : eq(notesTable.id, id)
+      )
       .returning();
     return updatedNote;
   } catch (error) {
@@ -93,11 +173,102 @@ export const updateNote = async (
   }
 };
 
+export type NoteFlags = Partial<Pick<SelectNote, "pinned" | "favorite">>;
+
+// Pinning or favouriting isn't an edit, so updatedAt is left untouched
+export const setNoteFlags = async (
+  id: string,
+  flags: NoteFlags
+): Promise<SelectNote | undefined> => {
+  try {
+    const [updatedNote] = await db
+      .update(notesTable)
+      .set({ ...flags, updatedAt: sql`${notesTable.updatedAt}` })
+      .where(eq(notesTable.id, id))
+      .returning();
+    return updatedNote;
+  } catch (error) {
+    console.error("Error setting note flags: ", error);
+    throw new Error("Failed to update note. Please try again.");
+  }
+};
+
+// Moves a note to a category and/or position; like the flags, not an edit
+export const moveNote = async (
+  id: string,
+  { categoryId, position }: { categoryId: string; position: number }
+): Promise<SelectNote | undefined> => {
+  try {
+    const [movedNote] = await db
+      .update(notesTable)
+      .set({ categoryId, position, updatedAt: sql`${notesTable.updatedAt}` })
+      .where(eq(notesTable.id, id))
+      .returning();
+    return movedNote;
+  } catch (error) {
+    console.error("Error moving note: ", error);
+    throw new Error("Failed to move note. Please try again.");
+  }
+};
+
+// Spaces a workspace's notes in a category evenly again (1, 2, 3, ...) in
+// their current order, once fractional positions have run out of room
+export const renumberNotePositions = async (
+  categoryId: string,
+  workspaceId: string
+): Promise<Record<string, number>> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const notes = await tx
+        .select({ id: notesTable.id })
+        .from(notesTable)
+        .where(and(eq(notesTable.categoryId, categoryId), eq(notesTable.workspaceId, workspaceId)))
+        .orderBy(desc(notesTable.pinned), asc(notesTable.position), desc(notesTable.updatedAt));
+      const positions: Record<string, number> = {};
+      for (let index = 0; index < notes.length; index++) {
+        const position = index + 1;
+        positions[notes[index].id] = position;
+        await tx
+          .update(notesTable)
+          .set({ position, updatedAt: sql`${notesTable.updatedAt}` })
+          .where(eq(notesTable.id, notes[index].id));
+      }
+      return positions;
+    });
+  } catch (error) {
+    console.error("Error renumbering note positions: ", error);
+    throw new Error("Failed to reorder notes. Please try again.");
+  }
+};
+
+export const getFavoriteNotesByWorkspaceId = async (
+  workspaceId: string
+): Promise<Pick<SelectNote, "id" | "title">[]> => {
+  try {
+    return await db
+      .select({ id: notesTable.id, title: notesTable.title })
+      .from(notesTable)
+      .where(
+        and(
+          eq(notesTable.workspaceId, workspaceId),
+          eq(notesTable.favorite, true),
+          isNull(notesTable.deletedAt)
+        )
+      )
+      .orderBy(asc(notesTable.title));
+  } catch (error) {
+    console.error("Error getting favorite notes: ", error);
+    throw new Error("Failed to retrieve favorite notes. Please try again.");
+  }
+};
+
+// Moves a note to the trash; updatedAt is left untouched
 export const deleteNote = async (id: string): Promise<{ id: string }> => {
   try {
     const [deletedNote] = await db
-      .delete(notesTable)
-      .where(eq(notesTable.id, id))
+      .update(notesTable)
+      .set({ deletedAt: new Date(), updatedAt: sql`${notesTable.updatedAt}` })
+      .where(and(eq(notesTable.id, id), isNull(notesTable.deletedAt)))
       .returning({ id: notesTable.id });
     return deletedNote;
   } catch (error) {
@@ -106,16 +277,153 @@ export const deleteNote = async (id: string): Promise<{ id: string }> => {
   }
 };
 
-// For bulk deletion
+// For bulk deletion (moves notes to the trash)
 export const deleteNotes = async (ids: string[]): Promise<{ count: number }> => {
   if (ids.length === 0) {
     return { count: 0 };
   }
   try {
-    const result = await db.delete(notesTable).where(inArray(notesTable.id, ids)).returning();
+    const result = await db
+      .update(notesTable)
+      .set({ deletedAt: new Date(), updatedAt: sql`${notesTable.updatedAt}` })
+      .where(and(inArray(notesTable.id, ids), isNull(notesTable.deletedAt)))
+      .returning({ id: notesTable.id });
     return { count: result.length };
   } catch (error) {
     console.error("Error deleting multiple notes: ", error);
     throw new Error("Failed to delete notes. Please try again.");
   }
-}; 
\ No newline at end of file
+};
+
+export const getTrashedNotesByWorkspaceId = async (
+  workspaceId: string
+): Promise<SelectNote[]> => {
+  try {
+    const notes = await db.query.notesTable.findMany({
+      where: and(eq(notesTable.workspaceId, workspaceId), isNotNull(notesTable.deletedAt)),
+      orderBy: (table, { desc: sortDesc }) => [sortDesc(table.deletedAt)],
+    });
+    return notes;
+  } catch (error) {
+    console.error("Error getting trashed notes by workspace ID: ", error);
+    throw new Error("Failed to retrieve trash. Please try again.");
+  }
+};
+
+export const restoreNotes = async (ids: string[]): Promise<{ count: number }> => {
+  if (ids.length === 0) {
+    return { count: 0 };
+  }
+  try {
+    const result = await db
+      .update(notesTable)
+      .set({ deletedAt: null, updatedAt: sql`${notesTable.updatedAt}` })
+      .where(and(inArray(notesTable.id, ids), isNotNull(notesTable.deletedAt)))
+      .returning({ id: notesTable.id });
+    return { count: result.length };
+  } catch (error) {
+    console.error("Error restoring notes: ", error);
+    throw new Error("Failed to restore notes. Please try again.");
+  }
+};
+
+// Hard delete; only notes that are already in the trash can be removed.
+// Returns the storage keys of the notes' attachments for the caller to delete.
+export const permanentlyDeleteNotes = async (
+  ids: string[]
+): Promise<{ count: number; attachmentKeys: string[] }> => {
+  if (ids.length === 0) {
+    return { count: 0, attachmentKeys: [] };
+  }
+  try {
+    const noteFilter = and(inArray(notesTable.id, ids), isNotNull(notesTable.deletedAt));
+    return await db.transaction(async (tx) => {
+      const attachmentKeys = await deleteAttachmentsOfNotes(tx, noteFilter);
+      const result = await tx
+        .delete(notesTable)
+        .where(noteFilter)
+        .returning({ id: notesTable.id });
+      return { count: result.length, attachmentKeys };
+    });
+  } catch (error) {
+    console.error("Error permanently deleting notes: ", error);
+    throw new Error("Failed to permanently delete notes. Please try again.");
+  }
+};
+
+// Hard-deletes every note that has been in the trash since before `cutoff`
+export const purgeTrashedNotes = async (
+  cutoff: Date
+): Promise<{ count: number; attachmentKeys: string[] }> => {
+  try {
+    const noteFilter = and(isNotNull(notesTable.deletedAt), lt(notesTable.deletedAt, cutoff));
+    return await db.transaction(async (tx) => {
+      const attachmentKeys = await deleteAttachmentsOfNotes(tx, noteFilter);
+      const result = await tx
+        .delete(notesTable)
+        .where(noteFilter)
+        .returning({ id: notesTable.id });
+      return { count: result.length, attachmentKeys };
+    });
+  } catch (error) {
+    console.error("Error purging trashed notes: ", error);
+    throw new Error("Failed to purge trashed notes. Please try again.");
+  }
+};
+
+export interface NoteSearchHit {
+  note: SelectNote;
+  rank: number;
+  titleSegments: HighlightSegment[];
+  snippetSegments: HighlightSegment[];
+}
+
+// Content is stored as HTML; strip tags the same way the search_vector column does
+const plainContent = sql`regexp_replace(coalesce(${notesTable.content}, ''), '<[^>]*>', ' ', 'g')`;
+
+// `categoryIds` limits the search to those categories, e.g. one category's subtree
+export const searchNotes = async (
+  workspaceId: string,
+  query: string,
+  { limit = 50, categoryIds }: { limit?: number; categoryIds?: string[] } = {}
+): Promise<NoteSearchHit[]> => {
+  const tsQueryText = buildPrefixTsQuery(query);
+  if (!tsQueryText) {
+    return [];
+  }
+  try {
+    const tsQuery = sql`to_tsquery('english', ${tsQueryText})`;
+    const titleOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+    const snippetOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`;
+    const rank = sql<number>`ts_rank(${notesTable.searchVector}, ${tsQuery})`;
+
+    const rows = await db
+      .select({
+        ...getTableColumns(notesTable),
+        rank,
+        titleHeadline: sql<string>`ts_headline('english', ${notesTable.title}, ${tsQuery}, ${titleOptions})`,
+        snippetHeadline: sql<string>`ts_headline('english', ${plainContent}, ${tsQuery}, ${snippetOptions})`,
+      })
+      .from(notesTable)
+      .where(
+        and(
+          eq(notesTable.workspaceId, workspaceId),
+          isNull(notesTable.deletedAt),
+          categoryIds ? inArray(notesTable.categoryId, categoryIds) : undefined,
+          sql`${notesTable.searchVector} @@ ${tsQuery}`
+        )
+      )
+      .orderBy(desc(rank), desc(notesTable.updatedAt))
+      .limit(limit);
+
+    return rows.map(({ rank: hitRank, titleHeadline, snippetHeadline, ...note }) => ({
+      note,
+      rank: Number(hitRank),
+      titleSegments: splitHighlights(titleHeadline),
+      snippetSegments: splitHighlights(snippetHeadline.replace(/\s+/g, " ").trim()),
+    }));
+  } catch (error) {
+    console.error("Error searching notes: ", error);
+    throw new Error("Failed to search notes. Please try again.");
+  }
+};
@@ -0,0 +1,33 @@
+import { lt, sql } from "drizzle-orm";
+import { db } from "../db";
+import { publicationUnlockAttemptsTable } from "../schema/publication-unlock-attempts-schema";
+
+/**
+ * Queries for the "publication_unlock_attempts" table.
+ * Location: /db/queries/publication-unlock-attempts-queries.ts
+ */
+
+/**
+ * Counts an attempt under `key` and returns how many it has made in the
+ * current window. Counters whose window started before `windowStart` are
+ * dropped first, so they start over (and the table stays small).
+ */
+export const recordPublicationUnlockAttempt = async (key: string, windowStart: Date): Promise<number> => {
+  try {
+    await db
+      .delete(publicationUnlockAttemptsTable)
+      .where(lt(publicationUnlockAttemptsTable.windowStartedAt, windowStart));
+    const [counter] = await db
+      .insert(publicationUnlockAttemptsTable)
+      .values({ key, attempts: 1 })
+      .onConflictDoUpdate({
+        target: publicationUnlockAttemptsTable.key,
+        set: { attempts: sql`${publicationUnlockAttemptsTable.attempts} + 1` },
+      })
+      .returning({ attempts: publicationUnlockAttemptsTable.attempts });
+    return counter.attempts;
+  } catch (error) {
+    console.error("Error recording publication unlock attempt: ", error);
+    throw new Error("Failed to check the password. Please try again.");
+  }
+};
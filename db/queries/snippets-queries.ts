@@ -0,0 +1,63 @@
+import { eq, and, asc } from "drizzle-orm";
+import { db } from "../db";
+import { snippetsTable, InsertSnippet, SelectSnippet } from "../schema/snippets-schema";
+
+/**
+ * Queries for the "snippets" table.
+ * Every query is scoped to the owning user, so a snippet ID from another
+ * account never matches.
+ * Location: /db/queries/snippets-queries.ts
+ */
+
+export const getSnippetsByUserId = async (userId: string): Promise<SelectSnippet[]> => {
+  try {
+    return await db.query.snippetsTable.findMany({
+      where: eq(snippetsTable.userId, userId),
+      orderBy: [asc(snippetsTable.name)],
+    });
+  } catch (error) {
+    console.error("Error getting snippets by user ID: ", error);
+    throw new Error("Failed to retrieve snippets. Please try again.");
+  }
+};
+
+export const createSnippet = async (data: InsertSnippet): Promise<SelectSnippet> => {
+  try {
+    const [newSnippet] = await db.insert(snippetsTable).values(data).returning();
+    return newSnippet;
+  } catch (error) {
+    console.error("Error creating snippet: ", error);
+    throw new Error("Failed to create snippet. Please try again.");
+  }
+};
+
+export const updateSnippet = async (
+  id: string,
+  userId: string,
+  data: Pick<InsertSnippet, "name" | "body">
+): Promise<SelectSnippet | undefined> => {
+  try {
+    const [updatedSnippet] = await db
+      .update(snippetsTable)
+      .set(data)
+      .where(and(eq(snippetsTable.id, id), eq(snippetsTable.userId, userId)))
+      .returning();
+    return updatedSnippet;
+  } catch (error) {
+    console.error("Error updating snippet: ", error);
+    throw new Error("Failed to update snippet. Please try again.");
+  }
+};
+
+export const deleteSnippet = async (id: string, userId: string): Promise<{ id: string } | undefined> => {
+  try {
+    const [deletedSnippet] = await db
+      .delete(snippetsTable)
+      .where(and(eq(snippetsTable.id, id), eq(snippetsTable.userId, userId)))
+      .returning({ id: snippetsTable.id });
+    return deletedSnippet;
+  } catch (error) {
+    console.error("Error deleting snippet: ", error);
+    throw new Error("Failed to delete snippet. Please try again.");
+  }
+};
@@ -0,0 +1,130 @@
+import { eq, and, inArray, notInArray, isNull, asc, sql } from "drizzle-orm";
+import { db } from "../db";
+import { tagsTable, SelectTag } from "../schema/tags-schema";
+import { noteTagsTable } from "../schema/note-tags-schema";
+import { notesTable, SelectNote } from "../schema/notes-schema";
+
+/**
+ * Queries for the "tags" and "note_tags" tables.
+ * Provides functions to list a workspace's tags, read the tags on notes, and
+ * replace the set of tags on a note.
+ * Tag names are expected to be normalized by the caller (see /lib/tags.ts).
+ * Location: /db/queries/tags-queries.ts
+ */
+
+export const getTagsByWorkspaceId = async (workspaceId: string): Promise<SelectTag[]> => {
+  try {
+    const tags = await db.query.tagsTable.findMany({
+      where: eq(tagsTable.workspaceId, workspaceId),
+      orderBy: [asc(tagsTable.name)],
+    });
+    return tags;
+  } catch (error) {
+    console.error("Error getting tags by workspace ID: ", error);
+    throw new Error("Failed to retrieve tags. Please try again.");
+  }
+};
+
+export const getTagsByNoteId = async (noteId: string): Promise<SelectTag[]> => {
+  try {
+    const rows = await db
+      .select({ tag: tagsTable })
+      .from(noteTagsTable)
+      .innerJoin(tagsTable, eq(noteTagsTable.tagId, tagsTable.id))
+      .where(eq(noteTagsTable.noteId, noteId))
+      .orderBy(asc(tagsTable.name));
+    return rows.map(row => row.tag);
+  } catch (error) {
+    console.error("Error getting tags by note ID: ", error);
+    throw new Error("Failed to retrieve note tags. Please try again.");
+  }
+};
+
+/**
+ * Tags on every active (non-trashed) note in the workspace, keyed by note ID.
+ * Notes without tags are left out of the result.
+ */
+export const getNoteTagsByWorkspaceId = async (
+  workspaceId: string
+): Promise<Record<string, SelectTag[]>> => {
+  try {
+    const rows = await db
+      .select({ noteId: noteTagsTable.noteId, tag: tagsTable })
+      .from(noteTagsTable)
+      .innerJoin(tagsTable, eq(noteTagsTable.tagId, tagsTable.id))
+      .innerJoin(notesTable, eq(noteTagsTable.noteId, notesTable.id))
+      .where(and(eq(notesTable.workspaceId, workspaceId), isNull(notesTable.deletedAt)))
+      .orderBy(asc(tagsTable.name));
+
+    const tagsByNoteId: Record<string, SelectTag[]> = {};
+    for (const row of rows) {
+      if (!tagsByNoteId[row.noteId]) {
+        tagsByNoteId[row.noteId] = [];
+      }
+      tagsByNoteId[row.noteId].push(row.tag);
+    }
+    return tagsByNoteId;
+  } catch (error) {
+    console.error("Error getting note tags by workspace ID: ", error);
+    throw new Error("Failed to retrieve note tags. Please try again.");
+  }
+};
+
+/**
+ * Replaces the tags on a note with `names`, creating any of its workspace's
+ * tags that don't exist yet (recording `userId` as the one who first used
+ * them). Tags of the workspace left attached to no note afterwards are
+ * removed so they stop showing up in autocomplete and the board filter.
+ */
+export const setNoteTags = async (
+  note: Pick<SelectNote, "id" | "workspaceId">,
+  userId: string,
+  names: string[]
+): Promise<SelectTag[]> => {
+  const { id: noteId, workspaceId } = note;
+  try {
+    return await db.transaction(async (tx) => {
+      let tags: SelectTag[] = [];
+      if (names.length > 0) {
+        await tx
+          .insert(tagsTable)
+          .values(names.map(name => ({ userId, workspaceId, name })))
+          .onConflictDoNothing({ target: [tagsTable.workspaceId, tagsTable.name] });
+        tags = await tx
+          .select()
+          .from(tagsTable)
+          .where(and(eq(tagsTable.workspaceId, workspaceId), inArray(tagsTable.name, names)))
+          .orderBy(asc(tagsTable.name));
+      }
+
+      const tagIds = tags.map(tag => tag.id);
+      await tx
+        .delete(noteTagsTable)
+        .where(
+          tagIds.length > 0
+            ? and(eq(noteTagsTable.noteId, noteId), notInArray(noteTagsTable.tagId, tagIds))
+            : eq(noteTagsTable.noteId, noteId)
+        );
+      if (tagIds.length > 0) {
+        await tx
+          .insert(noteTagsTable)
+          .values(tagIds.map(tagId => ({ noteId, tagId })))
+          .onConflictDoNothing();
+      }
+
+      await tx
+        .delete(tagsTable)
+        .where(
+          and(
+            eq(tagsTable.workspaceId, workspaceId),
+            sql`not exists (select 1 from ${noteTagsTable} where ${noteTagsTable.tagId} = ${tagsTable.id})`
+          )
+        );
+
+      return tags;
+    });
+  } catch (error) {
+    console.error("Error setting note tags: ", error);
+    throw new Error("Failed to update note tags. Please try again.");
+  }
+};
@@ -0,0 +1,139 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { db } from "../db";
+import {
+  workspaceInvitationsTable,
+  InsertWorkspaceInvitation,
+  SelectWorkspaceInvitation,
+} from "../schema/workspace-invitations-schema";
+import { workspacesTable, SelectWorkspace } from "../schema/workspaces-schema";
+import { workspaceMembersTable, SelectWorkspaceMember } from "../schema/workspace-members-schema";
+
+/**
+ * Queries for the "workspace_invitations" table.
+ * Invites are matched to people by email when they sign in; accepting one
+ * adds the membership and removes the invite in one transaction.
+ * Location: /db/queries/workspace-invitations-queries.ts
+ */
+
+export interface PendingWorkspaceInvitation {
+  invitation: SelectWorkspaceInvitation;
+  workspace: SelectWorkspace;
+}
+
+export const getWorkspaceInvitationById = async (
+  id: string
+): Promise<SelectWorkspaceInvitation | undefined> => {
+  try {
+    return await db.query.workspaceInvitationsTable.findFirst({
+      where: eq(workspaceInvitationsTable.id, id),
+    });
+  } catch (error) {
+    console.error("Error getting workspace invitation by ID: ", error);
+    throw new Error("Failed to retrieve invitation. Please try again.");
+  }
+};
+
+export const getWorkspaceInvitationsByWorkspaceId = async (
+  workspaceId: string
+): Promise<SelectWorkspaceInvitation[]> => {
+  try {
+    return await db
+      .select()
+      .from(workspaceInvitationsTable)
+      .where(eq(workspaceInvitationsTable.workspaceId, workspaceId))
+      .orderBy(asc(workspaceInvitationsTable.createdAt));
+  } catch (error) {
+    console.error("Error getting workspace invitations: ", error);
+    throw new Error("Failed to retrieve invitations. Please try again.");
+  }
+};
+
+// Invites waiting for any of `emails` (lowercased), with their workspaces
+export const getPendingWorkspaceInvitations = async (
+  emails: string[]
+): Promise<PendingWorkspaceInvitation[]> => {
+  if (emails.length === 0) {
+    return [];
+  }
+  try {
+    return await db
+      .select({ invitation: workspaceInvitationsTable, workspace: workspacesTable })
+      .from(workspaceInvitationsTable)
+      .innerJoin(workspacesTable, eq(workspaceInvitationsTable.workspaceId, workspacesTable.id))
+      .where(inArray(workspaceInvitationsTable.email, emails))
+      .orderBy(asc(workspaceInvitationsTable.createdAt));
+  } catch (error) {
+    console.error("Error getting pending workspace invitations: ", error);
+    throw new Error("Failed to retrieve invitations. Please try again.");
+  }
+};
+
+/**
+ * Invites an email to a workspace, or changes the role of the invite already
+ * sent to it.
+ */
+export const upsertWorkspaceInvitation = async (
+  data: InsertWorkspaceInvitation
+): Promise<SelectWorkspaceInvitation> => {
+  try {
+    const [invitation] = await db
+      .insert(workspaceInvitationsTable)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [workspaceInvitationsTable.workspaceId, workspaceInvitationsTable.email],
+        set: { role: data.role, invitedBy: data.invitedBy },
+      })
+      .returning();
+    return invitation;
+  } catch (error) {
+    console.error("Error inviting to workspace: ", error);
+    throw new Error("Failed to send invitation. Please try again.");
+  }
+};
+
+export const deleteWorkspaceInvitation = async (id: string): Promise<{ id: string } | undefined> => {
+  try {
+    const [invitation] = await db
+      .delete(workspaceInvitationsTable)
+      .where(eq(workspaceInvitationsTable.id, id))
+      .returning({ id: workspaceInvitationsTable.id });
+    return invitation;
+  } catch (error) {
+    console.error("Error deleting workspace invitation: ", error);
+    throw new Error("Failed to remove invitation. Please try again.");
+  }
+};
+
+/**
+ * Makes `userId` a member with the invite's role and removes the invite.
+ * Someone who is already a member keeps their current role.
+ */
+export const acceptWorkspaceInvitation = async (
+  invitation: SelectWorkspaceInvitation,
+  userId: string
+): Promise<SelectWorkspaceMember | undefined> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(workspaceInvitationsTable)
+        .where(eq(workspaceInvitationsTable.id, invitation.id))
+        .returning({ id: workspaceInvitationsTable.id });
+      if (!deleted) {
+        return undefined; // Revoked or already used
+      }
+      await tx
+        .insert(workspaceMembersTable)
+        .values({ workspaceId: invitation.workspaceId, userId, role: invitation.role })
+        .onConflictDoNothing();
+      return await tx.query.workspaceMembersTable.findFirst({
+        where: and(
+          eq(workspaceMembersTable.workspaceId, invitation.workspaceId),
+          eq(workspaceMembersTable.userId, userId)
+        ),
+      });
+    });
+  } catch (error) {
+    console.error("Error accepting workspace invitation: ", error);
+    throw new Error("Failed to join workspace. Please try again.");
+  }
+};
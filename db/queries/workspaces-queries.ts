@@ -0,0 +1,245 @@
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  workspacesTable,
+  InsertWorkspace,
+  SelectWorkspace,
+} from "../schema/workspaces-schema";
+import {
+  workspaceMembersTable,
+  SelectWorkspaceMember,
+  WorkspaceRole,
+} from "../schema/workspace-members-schema";
+import { notesTable } from "../schema/notes-schema";
+import { profilesTable } from "../schema/profiles-schema";
+import { PERSONAL_WORKSPACE_NAME, WorkspaceWithRole } from "@/lib/workspaces";
+
+/**
+ * Queries for the "workspaces" and "workspace_members" tables.
+ * Creating a workspace also makes its owner a member with the "owner" role,
+ * in the same transaction, so every workspace always has its owner as a member.
+ * Location: /db/queries/workspaces-queries.ts
+ */
+
+export interface WorkspaceMember {
+  member: SelectWorkspaceMember;
+  email: string | null;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const insertWorkspaceWithOwner = async (
+  tx: Transaction,
+  data: Pick<InsertWorkspace, "name" | "ownerId" | "personal">
+): Promise<SelectWorkspace | undefined> => {
+  const [workspace] = await tx
+    .insert(workspacesTable)
+    .values({ ...data, billingUserId: data.ownerId })
+    .onConflictDoNothing() // A personal workspace created concurrently
+    .returning();
+  if (workspace) {
+    await tx.insert(workspaceMembersTable).values({ workspaceId: workspace.id, userId: data.ownerId, role: "owner" });
+  }
+  return workspace;
+};
+
+export const createWorkspace = async (
+  data: Pick<InsertWorkspace, "name" | "ownerId">
+): Promise<SelectWorkspace> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const workspace = await insertWorkspaceWithOwner(tx, { ...data, personal: false });
+      if (!workspace) {
+        throw new Error("Workspace was not created");
+      }
+      return workspace;
+    });
+  } catch (error) {
+    console.error("Error creating workspace: ", error);
+    throw new Error("Failed to create workspace. Please try again.");
+  }
+};
+
+export const getWorkspaceById = async (id: string): Promise<SelectWorkspace | undefined> => {
+  try {
+    return await db.query.workspacesTable.findFirst({
+      where: eq(workspacesTable.id, id),
+    });
+  } catch (error) {
+    console.error("Error getting workspace by ID: ", error);
+    throw new Error("Failed to retrieve workspace. Please try again.");
+  }
+};
+
+/**
+ * The user's personal workspace, created (with them as owner) the first time
+ * it's asked for.
+ */
+export const ensurePersonalWorkspace = async (userId: string): Promise<SelectWorkspace> => {
+  try {
+    const findPersonal = () =>
+      db.query.workspacesTable.findFirst({
+        where: and(eq(workspacesTable.ownerId, userId), eq(workspacesTable.personal, true)),
+      });
+    const existing = await findPersonal();
+    if (existing) {
+      return existing;
+    }
+    const created = await db.transaction(tx =>
+      insertWorkspaceWithOwner(tx, { name: PERSONAL_WORKSPACE_NAME, ownerId: userId, personal: true })
+    );
+    const workspace = created ?? (await findPersonal());
+    if (!workspace) {
+      throw new Error("Personal workspace was not created");
+    }
+    return workspace;
+  } catch (error) {
+    console.error("Error ensuring personal workspace: ", error);
+    throw new Error("Failed to load your workspace. Please try again.");
+  }
+};
+
+/**
+ * Every workspace the user is a member of, with their role: the personal
+ * workspace first, then the rest by name.
+ */
+export const getWorkspacesForUser = async (userId: string): Promise<WorkspaceWithRole[]> => {
+  try {
+    const rows = await db
+      .select({ workspace: workspacesTable, role: workspaceMembersTable.role })
+      .from(workspaceMembersTable)
+      .innerJoin(workspacesTable, eq(workspaceMembersTable.workspaceId, workspacesTable.id))
+      .where(eq(workspaceMembersTable.userId, userId))
+      .orderBy(
+        desc(sql`${workspacesTable.personal} and ${workspacesTable.ownerId} = ${userId}`),
+        asc(sql`lower(${workspacesTable.name})`)
+      );
+    return rows;
+  } catch (error) {
+    console.error("Error getting workspaces for user: ", error);
+    throw new Error("Failed to retrieve workspaces. Please try again.");
+  }
+};
+
+// The user's role in a workspace, or null when they aren't a member
+export const getWorkspaceRole = async (
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceRole | null> => {
+  try {
+    const member = await db.query.workspaceMembersTable.findFirst({
+      where: and(eq(workspaceMembersTable.workspaceId, workspaceId), eq(workspaceMembersTable.userId, userId)),
+    });
+    return member?.role ?? null;
+  } catch (error) {
+    console.error("Error getting workspace role: ", error);
+    throw new Error("Failed to retrieve workspace membership. Please try again.");
+  }
+};
+
+export const updateWorkspace = async (
+  id: string,
+  data: Partial<Pick<InsertWorkspace, "name" | "billingUserId">>
+): Promise<SelectWorkspace | undefined> => {
+  try {
+    const [workspace] = await db
+      .update(workspacesTable)
+      .set(data)
+      .where(eq(workspacesTable.id, id))
+      .returning();
+    return workspace;
+  } catch (error) {
+    console.error("Error updating workspace: ", error);
+    throw new Error("Failed to update workspace. Please try again.");
+  }
+};
+
+// Deletes a workspace (with its categories, members and invitations) only if
+// it holds no notes, not even in the trash; returns undefined otherwise.
+export const deleteWorkspace = async (id: string): Promise<{ id: string } | undefined> => {
+  try {
+    const [workspace] = await db
+      .delete(workspacesTable)
+      .where(
+        and(
+          eq(workspacesTable.id, id),
+          sql`not exists (select 1 from ${notesTable} where ${notesTable.workspaceId} = ${workspacesTable.id})`
+        )
+      )
+      .returning({ id: workspacesTable.id });
+    return workspace;
+  } catch (error) {
+    console.error("Error deleting workspace: ", error);
+    throw new Error("Failed to delete workspace. Please try again.");
+  }
+};
+
+/**
+ * Members of a workspace, oldest first (so the owner leads), with their
+ * emails for display.
+ */
+export const getWorkspaceMembers = async (workspaceId: string): Promise<WorkspaceMember[]> => {
+  try {
+    return await db
+      .select({ member: workspaceMembersTable, email: profilesTable.email })
+      .from(workspaceMembersTable)
+      .leftJoin(profilesTable, eq(profilesTable.userId, workspaceMembersTable.userId))
+      .where(eq(workspaceMembersTable.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMembersTable.createdAt));
+  } catch (error) {
+    console.error("Error getting workspace members: ", error);
+    throw new Error("Failed to retrieve workspace members. Please try again.");
+  }
+};
+
+export const getWorkspaceMemberById = async (id: string): Promise<SelectWorkspaceMember | undefined> => {
+  try {
+    return await db.query.workspaceMembersTable.findFirst({
+      where: eq(workspaceMembersTable.id, id),
+    });
+  } catch (error) {
+    console.error("Error getting workspace member by ID: ", error);
+    throw new Error("Failed to retrieve workspace member. Please try again.");
+  }
+};
+
+export const updateWorkspaceMemberRole = async (
+  id: string,
+  role: WorkspaceRole
+): Promise<SelectWorkspaceMember | undefined> => {
+  try {
+    const [member] = await db
+      .update(workspaceMembersTable)
+      .set({ role })
+      .where(eq(workspaceMembersTable.id, id))
+      .returning();
+    return member;
+  } catch (error) {
+    console.error("Error updating workspace member: ", error);
+    throw new Error("Failed to update workspace member. Please try again.");
+  }
+};
+
+// Removes a member; if their plan was covering the workspace, billing goes
+// back to the owner
+export const removeWorkspaceMember = async (id: string): Promise<{ id: string } | undefined> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const [member] = await tx
+        .delete(workspaceMembersTable)
+        .where(eq(workspaceMembersTable.id, id))
+        .returning();
+      if (!member) {
+        return undefined;
+      }
+      await tx
+        .update(workspacesTable)
+        .set({ billingUserId: sql`${workspacesTable.ownerId}` })
+        .where(and(eq(workspacesTable.id, member.workspaceId), eq(workspacesTable.billingUserId, member.userId)));
+      return { id: member.id };
+    });
+  } catch (error) {
+    console.error("Error removing workspace member: ", error);
+    throw new Error("Failed to remove workspace member. Please try again.");
+  }
+};
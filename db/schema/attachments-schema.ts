@@ -0,0 +1,28 @@
+import { pgTable, uuid, timestamp, varchar, text, integer, index } from "drizzle-orm/pg-core";
+import { notesTable } from "./notes-schema";
+
+/**
+ * Schema for the "attachments" table.
+ * One row per file uploaded to a note. The bytes live in the configured
+ * storage backend (see /lib/attachment-storage.ts) under `storageKey`; the
+ * row is what quotas are counted from and what the download route checks.
+ * Location: /db/schema/attachments-schema.ts
+ */
+export const attachmentsTable = pgTable("attachments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  noteId: uuid("note_id")
+    .references(() => notesTable.id, { onDelete: "cascade" })
+    .notNull(),
+  userId: varchar("user_id", { length: 255 }).notNull(), // Uploader, whose quota the file counts against
+  fileName: text("file_name").notNull(),
+  contentType: varchar("content_type", { length: 255 }).notNull(),
+  size: integer("size").notNull(), // Bytes
+  storageKey: text("storage_key").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  noteIdIdx: index("attachments_note_id_idx").on(table.noteId),
+  userIdIdx: index("attachments_user_id_idx").on(table.userId), // For quota totals
+}));
+
+export type InsertAttachment = typeof attachmentsTable.$inferInsert;
+export type SelectAttachment = typeof attachmentsTable.$inferSelect;
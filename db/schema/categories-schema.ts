@@ -1,17 +1,28 @@
-import { pgTable, text, uuid, timestamp, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, uuid, timestamp, varchar, index, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { workspacesTable } from "./workspaces-schema";
 
 /**
  * Schema for the "categories" table.
- * Each category belongs to a user and has a name, color, and creation timestamp.
+ * Each category belongs to a workspace and has a name, color, and creation timestamp.
+ * Base categories (no workspace and no user) are offered in every workspace.
+ * `parentId` nests a category inside another one (e.g. Clients → Acme →
+ * Meetings); null for top-level categories. The queries keep it acyclic.
+ * `deletedAt` is set while the category is in the trash (soft delete).
  * Location: /db/schema/categories-schema.ts
  */
 export const categoriesTable = pgTable("categories", {
   id: uuid("id").primaryKey().defaultRandom(),
-  userId: varchar("user_id", { length: 255 }), // Clerk user ID, null for base categories
+  userId: varchar("user_id", { length: 255 }), // Clerk user ID of the creator, null for base categories
+  workspaceId: uuid("workspace_id").references(() => workspacesTable.id, { onDelete: "cascade" }), // Null for base categories
+  parentId: uuid("parent_id").references((): AnyPgColumn => categoriesTable.id, { onDelete: "set null" }),
   name: text("name").notNull(),
   color: varchar("color", { length: 7 }).notNull(), // e.g. "#aabbcc"
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+  deletedAt: timestamp("deleted_at"), // Set when moved to the trash, null while active
+}, (table) => ({
+  parentIdIdx: index("categories_parent_id_idx").on(table.parentId),
+  workspaceIdIdx: index("categories_workspace_id_idx").on(table.workspaceId),
+}));
 
 export type InsertCategory = typeof categoriesTable.$inferInsert;
-export type SelectCategory = typeof categoriesTable.$inferSelect; 
\ No newline at end of file
+export type SelectCategory = typeof categoriesTable.$inferSelect;
\ No newline at end of file
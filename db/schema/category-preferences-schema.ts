@@ -0,0 +1,24 @@
+import { pgTable, uuid, varchar, boolean, doublePrecision, primaryKey } from "drizzle-orm/pg-core";
+import { categoriesTable } from "./categories-schema";
+
+/**
+ * Schema for the "category_preferences" table.
+ * How one user arranges the categories they can see: the order of the board's
+ * columns (`position`, ascending) and which of them are hidden. Base
+ * categories are shared by everyone, so these live here rather than on the
+ * category row. Categories without a row keep their default place.
+ * Location: /db/schema/category-preferences-schema.ts
+ */
+export const categoryPreferencesTable = pgTable("category_preferences", {
+  userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID
+  categoryId: uuid("category_id")
+    .references(() => categoriesTable.id, { onDelete: "cascade" })
+    .notNull(),
+  position: doublePrecision("position"), // Null until the user orders their categories
+  hidden: boolean("hidden").default(false).notNull(), // Archived (own) or hidden (base) column
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.categoryId] }),
+}));
+
+export type InsertCategoryPreference = typeof categoryPreferencesTable.$inferInsert;
+export type SelectCategoryPreference = typeof categoryPreferencesTable.$inferSelect;
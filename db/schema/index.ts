@@ -1,4 +1,20 @@
 export * from "./profiles-schema";
 export * from "./pending-profiles-schema";
 export * from "./categories-schema";
-export * from "./notes-schema";
\ No newline at end of file
+export * from "./notes-schema";
+export * from "./note-versions-schema";
+export * from "./tags-schema";
+export * from "./note-tags-schema";
+export * from "./note-links-schema";
+export * from "./snippets-schema";
+export * from "./note-tasks-schema";
+export * from "./attachments-schema";
+export * from "./category-preferences-schema";
+export * from "./note-documents-schema";
+export * from "./note-shares-schema";
+export * from "./note-publications-schema";
+export * from "./workspaces-schema";
+export * from "./workspace-members-schema";
+export * from "./workspace-invitations-schema";
+export * from "./note-comments-schema";
+export * from "./publication-unlock-attempts-schema";
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { pgTable, text, uuid, varchar, timestamp, index, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { notesTable } from "./notes-schema";
+
+/**
+ * Schema for the "note_comments" table.
+ * Comments form threads anchored to a passage of a note: the first comment of
+ * a thread has no `parentId`, keeps the commented text in `quote` and whether
+ * the thread is resolved; replies point to it through `parentId`. The note's
+ * content marks the passage with the first comment's ID. Resolved threads are
+ * kept, only hidden.
+ * Location: /db/schema/note-comments-schema.ts
+ */
+export const noteCommentsTable = pgTable("note_comments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  noteId: uuid("note_id")
+    .references(() => notesTable.id, { onDelete: "cascade" }) // Comments go away with their note
+    .notNull(),
+  parentId: uuid("parent_id").references((): AnyPgColumn => noteCommentsTable.id, { onDelete: "cascade" }),
+  userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID of the author
+  content: text("content").notNull(),
+  quote: text("quote"), // First comment only
+  resolvedAt: timestamp("resolved_at"), // First comment only; null while the thread is open
+  resolvedBy: varchar("resolved_by", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  noteIdCreatedAtIdx: index("note_comments_note_id_created_at_idx").on(table.noteId, table.createdAt),
+  parentIdIdx: index("note_comments_parent_id_idx").on(table.parentId),
+}));
+
+export type InsertNoteComment = typeof noteCommentsTable.$inferInsert;
+export type SelectNoteComment = typeof noteCommentsTable.$inferSelect;
\ No newline at end of file
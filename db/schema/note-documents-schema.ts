@@ -0,0 +1,32 @@
+import { pgTable, uuid, timestamp, varchar, customType } from "drizzle-orm/pg-core";
+import { notesTable } from "./notes-schema";
+
+/**
+ * Postgres `bytea` column type, read and written as a Buffer.
+ */
+const bytea = customType<{ data: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
+/**
+ * Schema for the "note_documents" table.
+ * The collaborative (Yjs) document of a note that has been edited live, saved
+ * by the collaboration server alongside the HTML it writes to `notes.content`.
+ * `contentHash` is the hash of that HTML: if the note's content no longer
+ * matches it (edited outside a live session), the document is rebuilt from
+ * the HTML instead. Kept out of `notes` so note rows stay plain JSON.
+ * Location: /db/schema/note-documents-schema.ts
+ */
+export const noteDocumentsTable = pgTable("note_documents", {
+  noteId: uuid("note_id")
+    .primaryKey()
+    .references(() => notesTable.id, { onDelete: "cascade" }),
+  state: bytea("state").notNull(), // Y.encodeStateAsUpdate of the document
+  contentHash: varchar("content_hash", { length: 64 }).notNull(), // sha256 hex
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type InsertNoteDocument = typeof noteDocumentsTable.$inferInsert;
+export type SelectNoteDocument = typeof noteDocumentsTable.$inferSelect;
\ No newline at end of file
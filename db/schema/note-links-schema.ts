@@ -0,0 +1,25 @@
+import { pgTable, uuid, timestamp, primaryKey, index } from "drizzle-orm/pg-core";
+import { notesTable } from "./notes-schema";
+
+/**
+ * Schema for the "note_links" table.
+ * One row per wiki-style [[link]] from a note's content to another note.
+ * Links are stored by note ID, so renaming the target doesn't break them.
+ * The rows are rebuilt from the source note's content whenever it is saved.
+ * Location: /db/schema/note-links-schema.ts
+ */
+export const noteLinksTable = pgTable("note_links", {
+  sourceNoteId: uuid("source_note_id")
+    .references(() => notesTable.id, { onDelete: "cascade" })
+    .notNull(),
+  targetNoteId: uuid("target_note_id")
+    .references(() => notesTable.id, { onDelete: "cascade" })
+    .notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.sourceNoteId, table.targetNoteId] }),
+  targetNoteIdIdx: index("note_links_target_note_id_idx").on(table.targetNoteId), // For backlink lookups
+}));
+
+export type InsertNoteLink = typeof noteLinksTable.$inferInsert;
+export type SelectNoteLink = typeof noteLinksTable.$inferSelect;
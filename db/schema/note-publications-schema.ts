@@ -0,0 +1,28 @@
+import { pgTable, uuid, timestamp, varchar, text } from "drizzle-orm/pg-core";
+import { notesTable } from "./notes-schema";
+
+/**
+ * Schema for the "note_publications" table.
+ * A note published as a public read-only page at /p/<publishedSlug>. Deleting
+ * the row unpublishes it. `expiresAt` and `passwordHash` (scrypt, see
+ * /lib/note-publishing-access.ts) are optional. Kept out of `notes` so the
+ * hash never travels with note rows.
+ * Location: /db/schema/note-publications-schema.ts
+ */
+export const notePublicationsTable = pgTable("note_publications", {
+  noteId: uuid("note_id")
+    .primaryKey()
+    .references(() => notesTable.id, { onDelete: "cascade" }),
+  userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID of the note's owner
+  publishedSlug: varchar("published_slug", { length: 120 }).notNull().unique(),
+  expiresAt: timestamp("expires_at"), // The page 404s from then on; null for never
+  passwordHash: text("password_hash"), // Null when no password is needed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .notNull()
+    .$onUpdate(() => new Date()),
+});
+
+export type InsertNotePublication = typeof notePublicationsTable.$inferInsert;
+export type SelectNotePublication = typeof notePublicationsTable.$inferSelect;
\ No newline at end of file
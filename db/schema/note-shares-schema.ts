@@ -0,0 +1,34 @@
+import { pgEnum, pgTable, uuid, varchar, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { notesTable } from "./notes-schema";
+
+export const noteShareRoleEnum = pgEnum("note_share_role", ["viewer", "editor"]);
+
+/**
+ * Schema for the "note_shares" table.
+ * Gives another person access to a note: "viewer" can read it, "editor" can
+ * also change its title and content. Invites are made by email; when nobody
+ * has signed up with that email yet `granteeUserId` stays null until they do
+ * (see claimNoteShares), much like pending_profiles for payments.
+ * Location: /db/schema/note-shares-schema.ts
+ */
+export const noteSharesTable = pgTable("note_shares", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  noteId: uuid("note_id")
+    .references(() => notesTable.id, { onDelete: "cascade" })
+    .notNull(),
+  ownerId: varchar("owner_id", { length: 255 }).notNull(), // Clerk user ID of the note's owner, who shared it
+  granteeEmail: varchar("grantee_email", { length: 320 }).notNull(), // Lowercased
+  granteeUserId: varchar("grantee_user_id", { length: 255 }), // Clerk user ID, once known
+  role: noteShareRoleEnum("role").notNull().default("viewer"),
+  claimedAt: timestamp("claimed_at"), // When an invite to a new account was picked up on signup
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  noteEmailIdx: uniqueIndex("note_shares_note_id_grantee_email_idx").on(table.noteId, table.granteeEmail),
+  granteeUserIdIdx: index("note_shares_grantee_user_id_idx").on(table.granteeUserId), // "Shared with me"
+  granteeEmailIdx: index("note_shares_grantee_email_idx").on(table.granteeEmail), // Claiming invites
+}));
+
+export type NoteShareRole = (typeof noteShareRoleEnum.enumValues)[number];
+export type InsertNoteShare = typeof noteSharesTable.$inferInsert;
+export type SelectNoteShare = typeof noteSharesTable.$inferSelect;
\ No newline at end of file
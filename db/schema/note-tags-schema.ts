@@ -0,0 +1,25 @@
+import { pgTable, uuid, timestamp, primaryKey, index } from "drizzle-orm/pg-core";
+import { notesTable } from "./notes-schema";
+import { tagsTable } from "./tags-schema";
+
+/**
+ * Schema for the "note_tags" join table.
+ * Links notes to tags (many-to-many). Rows are removed automatically when
+ * either the note or the tag is permanently deleted.
+ * Location: /db/schema/note-tags-schema.ts
+ */
+export const noteTagsTable = pgTable("note_tags", {
+  noteId: uuid("note_id")
+    .references(() => notesTable.id, { onDelete: "cascade" })
+    .notNull(),
+  tagId: uuid("tag_id")
+    .references(() => tagsTable.id, { onDelete: "cascade" })
+    .notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.noteId, table.tagId] }),
+  tagIdIdx: index("note_tags_tag_id_idx").on(table.tagId), // For "notes with this tag" lookups
+}));
+
+export type InsertNoteTag = typeof noteTagsTable.$inferInsert;
+export type SelectNoteTag = typeof noteTagsTable.$inferSelect;
@@ -0,0 +1,28 @@
+import { pgTable, uuid, timestamp, varchar, text, boolean, integer, date, index } from "drizzle-orm/pg-core";
+import { notesTable } from "./notes-schema";
+
+/**
+ * Schema for the "note_tasks" table.
+ * One row per checklist item in a note's content, in document order.
+ * The rows are rebuilt from the note's content whenever it is saved (see
+ * /lib/note-task-extraction.ts), so the note's HTML stays the source of truth.
+ * Location: /db/schema/note-tasks-schema.ts
+ */
+export const noteTasksTable = pgTable("note_tasks", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  noteId: uuid("note_id")
+    .references(() => notesTable.id, { onDelete: "cascade" })
+    .notNull(),
+  userId: varchar("user_id", { length: 255 }).notNull(), // Owner of the note, for cross-note task lists
+  position: integer("position").notNull(), // Order of the task within the note
+  text: text("text").notNull(),
+  done: boolean("done").default(false).notNull(),
+  dueDate: date("due_date"), // Parsed from "due YYYY-MM-DD" / "@YYYY-MM-DD" in the text
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  noteIdIdx: index("note_tasks_note_id_idx").on(table.noteId),
+  userIdDoneIdx: index("note_tasks_user_id_done_idx").on(table.userId, table.done), // For the open tasks view
+}));
+
+export type InsertNoteTask = typeof noteTasksTable.$inferInsert;
+export type SelectNoteTask = typeof noteTasksTable.$inferSelect;
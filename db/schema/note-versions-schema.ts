@@ -0,0 +1,23 @@
+import { pgTable, text, uuid, timestamp, index } from "drizzle-orm/pg-core";
+import { notesTable } from "./notes-schema";
+
+/**
+ * Schema for the "note_versions" table.
+ * Each row is a snapshot of a note's title and content as it was before a save
+ * overwrote it, so earlier text can be compared and restored.
+ * Location: /db/schema/note-versions-schema.ts
+ */
+export const noteVersionsTable = pgTable("note_versions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  noteId: uuid("note_id")
+    .references(() => notesTable.id, { onDelete: "cascade" }) // Versions go away with their note
+    .notNull(),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  noteIdCreatedAtIdx: index("note_versions_note_id_created_at_idx").on(table.noteId, table.createdAt),
+}));
+
+export type InsertNoteVersion = typeof noteVersionsTable.$inferInsert;
+export type SelectNoteVersion = typeof noteVersionsTable.$inferSelect;
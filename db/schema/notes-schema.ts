@@ -1,25 +1,63 @@
-import { pgTable, text, uuid, timestamp, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, uuid, timestamp, varchar, index, integer, boolean, doublePrecision, customType } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { categoriesTable } from "./categories-schema"; // Import for the foreign key reference
+import { workspacesTable } from "./workspaces-schema";
+
+/**
+ * Postgres `tsvector` column type (not built into drizzle-orm).
+ */
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
 
 /**
  * Schema for the "notes" table.
- * Each note belongs to a user and a category, and includes title, content, and timestamps.
+ * Each note belongs to a workspace and a category, and includes title, content, and timestamps.
+ * `userId` is the member who created it; access follows the workspace's members.
+ * `deletedAt` is set while the note is in the trash (soft delete).
+ * `pinned` notes are listed first in their category; `favorite` notes are
+ * linked from the sidebar. Within a category, notes are ordered by the
+ * fractional `position` the user sets by dragging (see /lib/note-order.ts).
+ * `searchVector` is generated by Postgres from the title (weight A) and the
+ * HTML-stripped content (weight B) and backs full-text search via a GIN index.
+ * `excerpt`, `wordCount`, `charCount` and `readingMinutes` are derived from the
+ * content by the note queries on every write (see /lib/note-stats.ts).
  * Location: /db/schema/notes-schema.ts
  */
 export const notesTable = pgTable("notes", {
   id: uuid("id").primaryKey().defaultRandom(),
-  userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID
+  userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID of the creator
+  workspaceId: uuid("workspace_id")
+    .references(() => workspacesTable.id, { onDelete: "restrict" }) // Workspaces can only be deleted once they hold no notes
+    .notNull(),
   categoryId: uuid("category_id")
-    .references(() => categoriesTable.id, { onDelete: "cascade" }) // Added onDelete cascade for referential integrity
+    .references(() => categoriesTable.id, { onDelete: "restrict" }) // Categories can't be hard-deleted while notes still reference them
     .notNull(),
   title: text("title").notNull(),
   content: text("content").notNull(), // Rich text content, potentially HTML
+  excerpt: text("excerpt").default("").notNull(), // Plain-text start of the content
+  wordCount: integer("word_count").default(0).notNull(),
+  charCount: integer("char_count").default(0).notNull(),
+  readingMinutes: integer("reading_minutes").default(0).notNull(),
+  pinned: boolean("pinned").default(false).notNull(),
+  favorite: boolean("favorite").default(false).notNull(),
+  position: doublePrecision("position").default(0).notNull(), // Manual order within the category, ascending
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
     .notNull()
     .$onUpdate(() => new Date()), // Ensures updatedAt is updated on record changes
-});
+  deletedAt: timestamp("deleted_at"), // Set when moved to the trash, null while active
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', regexp_replace(coalesce(content, ''), '<[^>]*>', ' ', 'g')), 'B')`
+  ),
+}, (table) => ({
+  searchVectorIdx: index("notes_search_vector_idx").using("gin", table.searchVector),
+  categoryIdPositionIdx: index("notes_category_id_position_idx").on(table.categoryId, table.position),
+  workspaceIdIdx: index("notes_workspace_id_idx").on(table.workspaceId),
+}));
 
 export type InsertNote = typeof notesTable.$inferInsert;
-export type SelectNote = typeof notesTable.$inferSelect; 
\ No newline at end of file
+export type SelectNote = typeof notesTable.$inferSelect;
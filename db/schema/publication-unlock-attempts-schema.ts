@@ -0,0 +1,21 @@
+import { pgTable, varchar, integer, timestamp, index } from "drizzle-orm/pg-core";
+
+/**
+ * Schema for the "publication_unlock_attempts" table.
+ * Counts password attempts on protected public pages (see
+ * /lib/note-publishing-access.ts) so passwords can't be guessed online: one
+ * row per visitor IP (`ip:<address>`) and per visitor IP and page
+ * (`page:<address>:<slug>`), counting the attempts since `windowStartedAt`.
+ * Rows are dropped once their window is over.
+ * Location: /db/schema/publication-unlock-attempts-schema.ts
+ */
+export const publicationUnlockAttemptsTable = pgTable("publication_unlock_attempts", {
+  key: varchar("key", { length: 200 }).primaryKey(),
+  attempts: integer("attempts").notNull().default(0),
+  windowStartedAt: timestamp("window_started_at").defaultNow().notNull(),
+}, (table) => ({
+  windowStartedAtIdx: index("publication_unlock_attempts_window_started_at_idx").on(table.windowStartedAt),
+}));
+
+export type InsertPublicationUnlockAttempt = typeof publicationUnlockAttemptsTable.$inferInsert;
+export type SelectPublicationUnlockAttempt = typeof publicationUnlockAttemptsTable.$inferSelect;
\ No newline at end of file
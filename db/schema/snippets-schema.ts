@@ -0,0 +1,22 @@
+import { pgTable, text, uuid, timestamp, varchar, index } from "drizzle-orm/pg-core";
+
+/**
+ * Schema for the "snippets" table.
+ * Snippets are reusable blocks of text a user defines once and inserts into
+ * any note from the editor's "/" command menu. The body is plain text; each
+ * line becomes a paragraph when inserted.
+ * Location: /db/schema/snippets-schema.ts
+ */
+export const snippetsTable = pgTable("snippets", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID of the snippet's owner
+  name: text("name").notNull(), // Shown (and matched) in the "/" menu
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull().$onUpdate(() => new Date()),
+}, (table) => ({
+  userIdIdx: index("snippets_user_id_idx").on(table.userId),
+}));
+
+export type InsertSnippet = typeof snippetsTable.$inferInsert;
+export type SelectSnippet = typeof snippetsTable.$inferSelect;
@@ -0,0 +1,24 @@
+import { pgTable, text, uuid, timestamp, varchar, uniqueIndex } from "drizzle-orm/pg-core";
+import { workspacesTable } from "./workspaces-schema";
+
+/**
+ * Schema for the "tags" table.
+ * Tags are labels shared by everyone in a workspace that can be attached to
+ * any number of its notes, across categories. Names are stored normalized
+ * (see /lib/tags.ts), so each workspace has at most one tag per name.
+ * Location: /db/schema/tags-schema.ts
+ */
+export const tagsTable = pgTable("tags", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID of whoever first used the tag
+  workspaceId: uuid("workspace_id")
+    .references(() => workspacesTable.id, { onDelete: "cascade" })
+    .notNull(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  workspaceIdNameIdx: uniqueIndex("tags_workspace_id_name_idx").on(table.workspaceId, table.name),
+}));
+
+export type InsertTag = typeof tagsTable.$inferInsert;
+export type SelectTag = typeof tagsTable.$inferSelect;
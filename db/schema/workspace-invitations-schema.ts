@@ -0,0 +1,27 @@
+import { pgTable, uuid, varchar, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { workspacesTable } from "./workspaces-schema";
+import { workspaceRoleEnum } from "./workspace-members-schema";
+
+/**
+ * Schema for the "workspace_invitations" table.
+ * An invite to join a workspace, sent by email. Whoever signs in with that
+ * email sees it in the workspace switcher and can accept it (becoming a
+ * member with `role`) or decline it; either way the row is removed.
+ * Location: /db/schema/workspace-invitations-schema.ts
+ */
+export const workspaceInvitationsTable = pgTable("workspace_invitations", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  workspaceId: uuid("workspace_id")
+    .references(() => workspacesTable.id, { onDelete: "cascade" })
+    .notNull(),
+  email: varchar("email", { length: 320 }).notNull(), // Lowercased
+  role: workspaceRoleEnum("role").notNull().default("viewer"), // Never "owner"
+  invitedBy: varchar("invited_by", { length: 255 }).notNull(), // Clerk user ID
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  workspaceEmailIdx: uniqueIndex("workspace_invitations_workspace_id_email_idx").on(table.workspaceId, table.email),
+  emailIdx: index("workspace_invitations_email_idx").on(table.email), // Invites waiting for a user
+}));
+
+export type InsertWorkspaceInvitation = typeof workspaceInvitationsTable.$inferInsert;
+export type SelectWorkspaceInvitation = typeof workspaceInvitationsTable.$inferSelect;
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { pgEnum, pgTable, uuid, varchar, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { workspacesTable } from "./workspaces-schema";
+
+export const workspaceRoleEnum = pgEnum("workspace_role", ["owner", "editor", "viewer"]);
+
+/**
+ * Schema for the "workspace_members" table.
+ * Who belongs to a workspace and what they may do there: "owner" manages the
+ * workspace and its members, "editor" creates and changes notes and
+ * categories, "viewer" only reads them. The workspace's owner is its only
+ * "owner" member.
+ * Location: /db/schema/workspace-members-schema.ts
+ */
+export const workspaceMembersTable = pgTable("workspace_members", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  workspaceId: uuid("workspace_id")
+    .references(() => workspacesTable.id, { onDelete: "cascade" })
+    .notNull(),
+  userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID
+  role: workspaceRoleEnum("role").notNull().default("viewer"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  workspaceUserIdx: uniqueIndex("workspace_members_workspace_id_user_id_idx").on(table.workspaceId, table.userId),
+  userIdIdx: index("workspace_members_user_id_idx").on(table.userId), // A user's workspaces
+}));
+
+export type WorkspaceRole = (typeof workspaceRoleEnum.enumValues)[number];
+export type InsertWorkspaceMember = typeof workspaceMembersTable.$inferInsert;
+export type SelectWorkspaceMember = typeof workspaceMembersTable.$inferSelect;
\ No newline at end of file
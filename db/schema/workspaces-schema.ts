@@ -0,0 +1,29 @@
+import { pgTable, uuid, varchar, boolean, timestamp, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+/**
+ * Schema for the "workspaces" table.
+ * A workspace holds notes and categories and is shared by its members (see
+ * workspace_members). Every user gets a `personal` workspace of their own the
+ * first time they need one; more can be created and shared.
+ * `billingUserId` is the member whose plan (on their profile) covers the
+ * workspace, e.g. for its attachment storage; it starts as the owner.
+ * Location: /db/schema/workspaces-schema.ts
+ */
+export const workspacesTable = pgTable("workspaces", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: varchar("name", { length: 100 }).notNull(),
+  ownerId: varchar("owner_id", { length: 255 }).notNull(), // Clerk user ID of the owner
+  personal: boolean("personal").default(false).notNull(),
+  billingUserId: varchar("billing_user_id", { length: 255 }).notNull(), // Clerk user ID whose plan applies
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .notNull()
+    .$onUpdate(() => new Date()),
+}, (table) => ({
+  personalOwnerIdx: uniqueIndex("workspaces_personal_owner_id_idx").on(table.ownerId).where(sql`${table.personal}`), // One personal workspace per user
+}));
+
+export type InsertWorkspace = typeof workspacesTable.$inferInsert;
+export type SelectWorkspace = typeof workspacesTable.$inferSelect;
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SelectWorkspace } from "@/db/schema/workspaces-schema";
+
+vi.mock("next/headers", () => ({ cookies: vi.fn() }));
+vi.mock("@/db/queries/workspaces-queries", () => ({
+  ensurePersonalWorkspace: vi.fn(),
+  getWorkspaceById: vi.fn(),
+  getWorkspaceRole: vi.fn(),
+}));
+
+import { cookies } from "next/headers";
+import { ensurePersonalWorkspace, getWorkspaceById, getWorkspaceRole } from "@/db/queries/workspaces-queries";
+import { resolveActiveWorkspace } from "./active-workspace";
+import { hasWorkspaceAccess, isInvitableWorkspaceRole, validateWorkspaceName } from "./workspaces";
+
+const TEAM_ID = "11111111-1111-4111-8111-111111111111";
+const team = { id: TEAM_ID, name: "Team", personal: false } as SelectWorkspace;
+const personal = { id: "22222222-2222-4222-8222-222222222222", name: "Personal", personal: true } as SelectWorkspace;
+
+function setActiveCookie(value: string | undefined) {
+  vi.mocked(cookies).mockReturnValue({
+    get: () => (value === undefined ? undefined : { name: "active_workspace", value }),
+  } as unknown as ReturnType<typeof cookies>);
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.mocked(ensurePersonalWorkspace).mockResolvedValue(personal);
+  vi.mocked(getWorkspaceById).mockResolvedValue(team);
+});
+
+describe("resolveActiveWorkspace", () => {
+  it("uses the chosen workspace while the user is a member", async () => {
+    setActiveCookie(TEAM_ID);
+    vi.mocked(getWorkspaceRole).mockResolvedValue("viewer");
+    expect(await resolveActiveWorkspace("user_me")).toEqual({ workspace: team, role: "viewer" });
+    expect(getWorkspaceRole).toHaveBeenCalledWith(TEAM_ID, "user_me");
+  });
+
+  it("falls back to the personal workspace once the user leaves the chosen one", async () => {
+    setActiveCookie(TEAM_ID);
+    vi.mocked(getWorkspaceRole).mockResolvedValue(null);
+    expect(await resolveActiveWorkspace("user_me")).toEqual({ workspace: personal, role: "owner" });
+    expect(getWorkspaceById).not.toHaveBeenCalled();
+  });
+
+  it("never looks up cookie values that aren't workspace IDs", async () => {
+    for (const value of [undefined, "", "not-a-uuid", `${TEAM_ID}' OR 1=1`]) {
+      setActiveCookie(value);
+      expect(await resolveActiveWorkspace("user_me")).toEqual({ workspace: personal, role: "owner" });
+    }
+    expect(getWorkspaceRole).not.toHaveBeenCalled();
+  });
+});
+
+describe("workspace roles", () => {
+  it("grants each level to the roles that have it", () => {
+    expect(hasWorkspaceAccess("viewer", "view")).toBe(true);
+    expect(hasWorkspaceAccess("viewer", "edit")).toBe(false);
+    expect(hasWorkspaceAccess("editor", "edit")).toBe(true);
+    expect(hasWorkspaceAccess("editor", "manage")).toBe(false);
+    expect(hasWorkspaceAccess("owner", "manage")).toBe(true);
+  });
+
+  it("never lets invitations make owners", () => {
+    expect(isInvitableWorkspaceRole("editor")).toBe(true);
+    expect(isInvitableWorkspaceRole("viewer")).toBe(true);
+    expect(isInvitableWorkspaceRole("owner")).toBe(false);
+    expect(isInvitableWorkspaceRole("admin")).toBe(false);
+  });
+});
+
+describe("validateWorkspaceName", () => {
+  it("trims names and rejects empty and overlong ones", () => {
+    expect(validateWorkspaceName("  Team  ")).toEqual({ name: "Team", error: null });
+    expect(validateWorkspaceName("   ").error).toBe("Enter a name for the workspace.");
+    expect(validateWorkspaceName("x".repeat(101)).error).toBe("Workspace names can be at most 100 characters.");
+  });
+});
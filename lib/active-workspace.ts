@@ -0,0 +1,42 @@
+/**
+ * Server-side tracking of the workspace the user is working in. The choice
+ * lives in a cookie set by the workspace switcher; it is only a preference,
+ * so it's checked against the user's memberships on every read and falls
+ * back to their personal workspace when it no longer applies.
+ * Location: /lib/active-workspace.ts
+ */
+import { cookies } from "next/headers";
+import { ensurePersonalWorkspace, getWorkspaceById, getWorkspaceRole } from "@/db/queries/workspaces-queries";
+import { ACTIVE_WORKSPACE_COOKIE, WorkspaceWithRole } from "./workspaces";
+
+const ACTIVE_WORKSPACE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365; // A year, in seconds
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * The user's active workspace and their role in it.
+ */
+export async function resolveActiveWorkspace(userId: string): Promise<WorkspaceWithRole> {
+  const workspaceId = cookies().get(ACTIVE_WORKSPACE_COOKIE)?.value;
+  if (workspaceId && UUID_PATTERN.test(workspaceId)) {
+    const role = await getWorkspaceRole(workspaceId, userId);
+    const workspace = role ? await getWorkspaceById(workspaceId) : undefined;
+    if (role && workspace) {
+      return { workspace, role };
+    }
+  }
+  return { workspace: await ensurePersonalWorkspace(userId), role: "owner" };
+}
+
+/**
+ * Remembers the workspace to work in. Only callable from server actions and
+ * route handlers, where cookies can be set.
+ */
+export function setActiveWorkspace(workspaceId: string): void {
+  cookies().set(ACTIVE_WORKSPACE_COOKIE, workspaceId, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: ACTIVE_WORKSPACE_COOKIE_MAX_AGE,
+  });
+}
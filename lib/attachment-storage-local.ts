@@ -0,0 +1,47 @@
+/**
+ * Attachment storage on the local filesystem, for development and
+ * single-server deployments. Keys map to paths below the root directory.
+ * Location: /lib/attachment-storage-local.ts
+ */
+import { createReadStream } from "fs";
+import { mkdir, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import type { AttachmentStorage } from "@/lib/attachment-storage";
+
+export function createLocalAttachmentStorage(rootDir: string): AttachmentStorage {
+  const root = path.resolve(rootDir);
+
+  // Keys are generated by the server, but never let one point outside the root
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid attachment storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+
+    async get(key) {
+      const filePath = resolveKey(key);
+      try {
+        const { size } = await stat(filePath);
+        const body = Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>;
+        return { body, size };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async delete(keys) {
+      await Promise.all(keys.map(key => rm(resolveKey(key), { force: true })));
+    },
+  };
+}
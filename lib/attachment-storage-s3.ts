@@ -0,0 +1,70 @@
+/**
+ * Attachment storage in an S3-compatible bucket.
+ * Configured with S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID and
+ * S3_SECRET_ACCESS_KEY; set S3_ENDPOINT (and S3_FORCE_PATH_STYLE=true) for
+ * services other than AWS, e.g. a local MinIO at http://localhost:9000.
+ * Location: /lib/attachment-storage-s3.ts
+ */
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import type { AttachmentStorage } from "@/lib/attachment-storage";
+
+const MAX_KEYS_PER_DELETE = 1000; // S3 limit for DeleteObjects
+
+export function createS3AttachmentStorage(): AttachmentStorage {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error("S3_BUCKET environment variable is not set");
+  }
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+  const client = new S3Client({
+    region: process.env.S3_REGION || "us-east-1",
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+    // Without explicit keys the SDK falls back to its default chain (IAM role etc.)
+    credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+  });
+
+  return {
+    async put(key, data, contentType) {
+      await client.send(
+        new PutObjectCommand({ Bucket: bucket, Key: key, Body: data, ContentType: contentType })
+      );
+    },
+
+    async get(key) {
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+        if (!object.Body) return null;
+        return {
+          body: object.Body.transformToWebStream() as ReadableStream<Uint8Array>,
+          size: object.ContentLength,
+        };
+      } catch (error) {
+        if (error instanceof NoSuchKey) return null;
+        throw error;
+      }
+    },
+
+    async delete(keys) {
+      for (let start = 0; start < keys.length; start += MAX_KEYS_PER_DELETE) {
+        const batch = keys.slice(start, start + MAX_KEYS_PER_DELETE);
+        const result = await client.send(
+          new DeleteObjectsCommand({
+            Bucket: bucket,
+            Delete: { Objects: batch.map(Key => ({ Key })), Quiet: true },
+          })
+        );
+        if (result.Errors && result.Errors.length > 0) {
+          throw new Error(`Failed to delete ${result.Errors.length} object(s), first: ${result.Errors[0].Message}`);
+        }
+      }
+    },
+  };
+}
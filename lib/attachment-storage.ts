@@ -0,0 +1,66 @@
+/**
+ * Storage backends for attachment files.
+ * The database only keeps each attachment's metadata and storage key; the
+ * bytes go to the backend picked by ATTACHMENT_STORAGE_DRIVER:
+ * - "local" (default): files under ATTACHMENT_STORAGE_DIR on this server.
+ * - "s3": any S3-compatible bucket (AWS S3, MinIO, R2, ...), see
+ *   /lib/attachment-storage-s3.ts for its settings.
+ * Location: /lib/attachment-storage.ts
+ */
+import { randomUUID } from "crypto";
+import { createLocalAttachmentStorage } from "@/lib/attachment-storage-local";
+import { createS3AttachmentStorage } from "@/lib/attachment-storage-s3";
+
+export interface StoredAttachment {
+  body: ReadableStream<Uint8Array>;
+  size?: number;
+}
+
+export interface AttachmentStorage {
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>;
+  // null when nothing is stored under the key
+  get(key: string): Promise<StoredAttachment | null>;
+  // Missing keys are ignored
+  delete(keys: string[]): Promise<void>;
+}
+
+let storage: AttachmentStorage | null = null;
+
+export function getAttachmentStorage(): AttachmentStorage {
+  if (storage) return storage;
+  const driver = process.env.ATTACHMENT_STORAGE_DRIVER || "local";
+  switch (driver) {
+    case "local":
+      storage = createLocalAttachmentStorage(process.env.ATTACHMENT_STORAGE_DIR || ".data/attachments");
+      break;
+    case "s3":
+      storage = createS3AttachmentStorage();
+      break;
+    default:
+      throw new Error(`Unknown ATTACHMENT_STORAGE_DRIVER "${driver}" (expected "local" or "s3")`);
+  }
+  return storage;
+}
+
+/**
+ * A new, unguessable key for a user's upload; keeps the extension so stored
+ * files are recognizable when browsing the bucket.
+ */
+export function createAttachmentStorageKey(userId: string, fileName: string): string {
+  const extension = /\.[a-z0-9]{1,10}$/i.exec(fileName)?.[0].toLowerCase() ?? "";
+  return `${userId.replace(/[^\w-]/g, "_")}/${randomUUID()}${extension}`;
+}
+
+/**
+ * Deletes stored files whose attachment rows are already gone. Failures are
+ * only logged: the notes are deleted either way, and a leftover file is
+ * harmless apart from the space it takes.
+ */
+export async function deleteAttachmentFiles(keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+  try {
+    await getAttachmentStorage().delete(keys);
+  } catch (error) {
+    console.error(`Failed to delete ${keys.length} attachment file(s) from storage:`, error);
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { matchesAttachmentSignature, resolveAttachmentType, validateAttachmentFile } from "./attachments";
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+describe("resolveAttachmentType", () => {
+  it("accepts a declared type when the extension agrees", () => {
+    expect(resolveAttachmentType("photo.PNG", "image/png")).toBe("image/png");
+    expect(resolveAttachmentType("notes.md", "text/markdown; charset=utf-8")).toBe("text/markdown");
+    expect(resolveAttachmentType("photo.png", "image/jpeg")).toBeNull();
+  });
+
+  it("falls back to the extension when the browser sends no useful type", () => {
+    expect(resolveAttachmentType("data.csv", "")).toBe("text/csv");
+    expect(resolveAttachmentType("report.pdf", "application/octet-stream")).toBe("application/pdf");
+    expect(resolveAttachmentType("page.html", "")).toBeNull();
+    expect(resolveAttachmentType("no-extension", "")).toBeNull();
+  });
+
+  it("rejects scriptable and unknown types", () => {
+    expect(resolveAttachmentType("logo.svg", "image/svg+xml")).toBeNull();
+    expect(resolveAttachmentType("page.html", "text/html")).toBeNull();
+  });
+
+  it("never resolves declared types to Object.prototype members", () => {
+    for (const type of ["constructor", "toString", "__proto__", "hasOwnProperty"]) {
+      expect(() => resolveAttachmentType("file.txt", type)).not.toThrow();
+      expect(resolveAttachmentType("file.txt", type)).toBeNull();
+    }
+    expect(validateAttachmentFile({ name: "file.txt", type: "constructor", size: 1 })).toBe(
+      '"file.txt" is not a supported file type'
+    );
+  });
+});
+
+describe("matchesAttachmentSignature", () => {
+  it("checks binary formats against their leading bytes", () => {
+    expect(matchesAttachmentSignature("image/png", PNG_BYTES)).toBe(true);
+    expect(matchesAttachmentSignature("application/pdf", PNG_BYTES)).toBe(false);
+  });
+
+  it("requires the WEBP marker after the RIFF header", () => {
+    const riff = [0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0];
+    expect(matchesAttachmentSignature("image/webp", new Uint8Array([...riff, 0x57, 0x45, 0x42, 0x50]))).toBe(true);
+    expect(matchesAttachmentSignature("image/webp", new Uint8Array([...riff, 0x57, 0x41, 0x56, 0x45]))).toBe(false);
+  });
+
+  it("lets text formats through", () => {
+    expect(matchesAttachmentSignature("text/plain", new Uint8Array([0x00]))).toBe(true);
+  });
+});
+
+describe("validateAttachmentFile", () => {
+  it("rejects empty and oversized files", () => {
+    expect(validateAttachmentFile({ name: "a.txt", type: "text/plain", size: 0 })).toBe('"a.txt" is empty');
+    expect(validateAttachmentFile({ name: "a.txt", type: "text/plain", size: 26 * 1024 * 1024 })).toBe(
+      '"a.txt" is larger than 25 MB'
+    );
+    expect(validateAttachmentFile({ name: "a.txt", type: "text/plain", size: 10 })).toBeNull();
+  });
+});
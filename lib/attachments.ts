@@ -0,0 +1,155 @@
+/**
+ * Limits, accepted file types and helpers for note attachments, shared by
+ * the editor, the attachments panel and the upload route.
+ * Location: /lib/attachments.ts
+ */
+import type { SelectAttachment, SelectProfile } from "@/db/schema";
+
+export const MAX_ATTACHMENT_MB = 25; // Size of a single uploaded file
+
+// Total size of all attachments a workspace can store, by the plan paying for it
+export const ATTACHMENT_QUOTA_MB: Record<SelectProfile["membership"], number> = {
+  free: 100,
+  pro: 5 * 1024,
+};
+
+// Accepted MIME types and the file extensions each may use. SVG and HTML are
+// deliberately missing: both can carry scripts.
+export const ATTACHMENT_TYPES: Record<string, string[]> = {
+  "image/png": [".png"],
+  "image/jpeg": [".jpg", ".jpeg"],
+  "image/gif": [".gif"],
+  "image/webp": [".webp"],
+  "application/pdf": [".pdf"],
+  "text/plain": [".txt", ".log"],
+  "text/markdown": [".md", ".markdown"],
+  "text/csv": [".csv"],
+  "application/json": [".json"],
+  "application/zip": [".zip"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": [".pptx"],
+};
+
+// Value for file inputs' `accept` attribute
+export const ATTACHMENT_ACCEPT = Object.keys(ATTACHMENT_TYPES).join(",");
+
+// Types the browser may display instead of downloading
+const INLINE_ATTACHMENT_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp", "application/pdf"]);
+
+// Leading bytes of binary formats, checked so a renamed file can't pass as another type
+const FILE_SIGNATURES: Record<string, number[][]> = {
+  "image/png": [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  "image/jpeg": [[0xff, 0xd8, 0xff]],
+  "image/gif": [[0x47, 0x49, 0x46, 0x38]],
+  "image/webp": [[0x52, 0x49, 0x46, 0x46]], // "RIFF"; "WEBP" follows at offset 8
+  "application/pdf": [[0x25, 0x50, 0x44, 0x46]], // "%PDF"
+  "application/zip": [[0x50, 0x4b, 0x03, 0x04], [0x50, 0x4b, 0x05, 0x06]],
+};
+// Office documents are zip archives
+for (const type of Object.keys(ATTACHMENT_TYPES)) {
+  if (type.startsWith("application/vnd.openxmlformats")) {
+    FILE_SIGNATURES[type] = FILE_SIGNATURES["application/zip"];
+  }
+}
+
+export interface AttachmentUsage {
+  usedBytes: number;
+  quotaBytes: number;
+}
+
+// What the upload route returns and the attachments panel lists
+export type AttachmentInfo = Pick<SelectAttachment, "id" | "noteId" | "fileName" | "contentType" | "size">;
+
+export function getAttachmentQuotaBytes(membership: SelectProfile["membership"] | null | undefined): number {
+  return ATTACHMENT_QUOTA_MB[membership ?? "free"] * 1024 * 1024;
+}
+
+export function getAttachmentUrl(attachmentId: string): string {
+  return `/api/attachments/${attachmentId}`;
+}
+
+export function isImageAttachment(contentType: string): boolean {
+  return contentType.startsWith("image/");
+}
+
+export function isInlineAttachment(contentType: string): boolean {
+  return INLINE_ATTACHMENT_TYPES.has(contentType);
+}
+
+function getExtension(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf(".");
+  return dotIndex > 0 ? fileName.slice(dotIndex).toLowerCase() : "";
+}
+
+/**
+ * The accepted MIME type for an upload, or null if the file type isn't
+ * allowed. Browsers often send no type (or a generic one) for text formats,
+ * so the extension decides then; otherwise both must agree.
+ */
+export function resolveAttachmentType(fileName: string, declaredType: string): string | null {
+  const extension = getExtension(fileName);
+  const type = declaredType.split(";")[0].trim().toLowerCase();
+  if (!type || type === "application/octet-stream") {
+    const match = Object.entries(ATTACHMENT_TYPES).find(([, extensions]) => extensions.includes(extension));
+    return match ? match[0] : null;
+  }
+  // Own keys only, so types like "constructor" never resolve to Object.prototype members
+  const extensions = Object.prototype.hasOwnProperty.call(ATTACHMENT_TYPES, type) ? ATTACHMENT_TYPES[type] : undefined;
+  return extensions?.includes(extension) ? type : null;
+}
+
+/**
+ * Whether the file's first bytes match its type. Text formats have no
+ * signature and always pass.
+ */
+export function matchesAttachmentSignature(contentType: string, bytes: Uint8Array): boolean {
+  const signatures = Object.prototype.hasOwnProperty.call(FILE_SIGNATURES, contentType)
+    ? FILE_SIGNATURES[contentType]
+    : undefined;
+  if (!signatures) return true;
+  const matches = signatures.some(signature => signature.every((byte, index) => bytes[index] === byte));
+  if (!matches || contentType !== "image/webp") return matches;
+  return String.fromCharCode(...Array.from(bytes.slice(8, 12))) === "WEBP";
+}
+
+/**
+ * Checks an upload against the size limit and accepted types before it is
+ * sent. Returns an error message, or null if the file can be uploaded.
+ */
+export function validateAttachmentFile(file: { name: string; type: string; size: number }): string | null {
+  if (file.size === 0) return `"${file.name}" is empty`;
+  if (file.size > MAX_ATTACHMENT_MB * 1024 * 1024) {
+    return `"${file.name}" is larger than ${MAX_ATTACHMENT_MB} MB`;
+  }
+  if (!resolveAttachmentType(file.name, file.type)) {
+    return `"${file.name}" is not a supported file type`;
+  }
+  return null;
+}
+
+/**
+ * Human-readable file size ("820 KB", "4.2 MB").
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+/**
+ * Uploads a file to a note via /api/attachments. Throws with the server's
+ * message if the upload is rejected.
+ */
+export async function uploadAttachment(noteId: string, file: File): Promise<AttachmentInfo> {
+  const body = new FormData();
+  body.append("noteId", noteId);
+  body.append("file", file);
+  const response = await fetch("/api/attachments", { method: "POST", body });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(payload?.error || `Upload of "${file.name}" failed`);
+  }
+  return payload as AttachmentInfo;
+}
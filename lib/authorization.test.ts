@@ -0,0 +1,256 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SelectNote } from "@/db/schema/notes-schema";
+import type { SelectCategory } from "@/db/schema/categories-schema";
+import type { SelectNoteShare } from "@/db/schema/note-shares-schema";
+import type { SelectWorkspace } from "@/db/schema/workspaces-schema";
+import type { WorkspaceRole } from "@/db/schema/workspace-members-schema";
+
+vi.mock("@clerk/nextjs/server", () => ({ auth: vi.fn() }));
+vi.mock("@/db/queries/notes-queries", () => ({ getNoteById: vi.fn(), getNotesByIds: vi.fn() }));
+vi.mock("@/db/queries/categories-queries", () => ({ getCategoryById: vi.fn() }));
+vi.mock("@/db/queries/note-shares-queries", () => ({ getNoteShareForUser: vi.fn() }));
+vi.mock("@/db/queries/workspaces-queries", () => ({
+  getWorkspaceById: vi.fn(),
+  getWorkspaceRole: vi.fn(),
+  getWorkspacesForUser: vi.fn(),
+}));
+vi.mock("@/lib/active-workspace", () => ({ resolveActiveWorkspace: vi.fn() }));
+
+import { auth } from "@clerk/nextjs/server";
+import { getNoteById, getNotesByIds } from "@/db/queries/notes-queries";
+import { getCategoryById } from "@/db/queries/categories-queries";
+import { getNoteShareForUser } from "@/db/queries/note-shares-queries";
+import { getWorkspaceById, getWorkspaceRole, getWorkspacesForUser } from "@/db/queries/workspaces-queries";
+import { resolveActiveWorkspace } from "@/lib/active-workspace";
+import {
+  getGuardHttpStatus,
+  requireCategoryAccess,
+  requireNoteAccess,
+  requireNoteOwner,
+  requireNotesOwner,
+  requireUser,
+  requireWorkspace,
+  requireWorkspaceAccess,
+} from "./authorization";
+
+const USER_ID = "user_me";
+const WORKSPACE_ID = "11111111-1111-4111-8111-111111111111";
+const OTHER_WORKSPACE_ID = "22222222-2222-4222-8222-222222222222";
+
+const workspace = { id: WORKSPACE_ID, name: "Team" } as SelectWorkspace;
+const note = (overrides: Partial<SelectNote> = {}) =>
+  ({ id: "note-1", workspaceId: WORKSPACE_ID, deletedAt: null, ...overrides }) as SelectNote;
+const category = (overrides: Partial<SelectCategory> = {}) =>
+  ({ id: "category-1", workspaceId: WORKSPACE_ID, ...overrides }) as SelectCategory;
+const share = (role: SelectNoteShare["role"]) => ({ id: "share-1", role }) as SelectNoteShare;
+
+function signIn(userId: string | null = USER_ID) {
+  vi.mocked(auth).mockReturnValue({ userId } as ReturnType<typeof auth>);
+}
+
+function setWorkspaceRole(role: WorkspaceRole | null) {
+  vi.mocked(getWorkspaceRole).mockResolvedValue(role);
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  signIn();
+  setWorkspaceRole(null);
+  vi.mocked(getNoteShareForUser).mockResolvedValue(undefined);
+});
+
+describe("getGuardHttpStatus", () => {
+  it("maps guard codes to HTTP statuses", () => {
+    expect(getGuardHttpStatus({ isSuccess: false, code: "unauthorized", message: "" })).toBe(401);
+    expect(getGuardHttpStatus({ isSuccess: false, code: "forbidden", message: "" })).toBe(403);
+    expect(getGuardHttpStatus({ isSuccess: false, code: "not_found", message: "" })).toBe(404);
+    expect(getGuardHttpStatus({ isSuccess: false, message: "" })).toBe(400);
+  });
+});
+
+describe("requireUser", () => {
+  it("returns the signed-in user", async () => {
+    expect(await requireUser()).toEqual({ ok: true, userId: USER_ID, data: null });
+  });
+
+  it("rejects anonymous visitors", async () => {
+    signIn(null);
+    const guard = await requireUser();
+    expect(guard.ok).toBe(false);
+    expect(!guard.ok && guard.result.code).toBe("unauthorized");
+  });
+});
+
+describe("requireWorkspace", () => {
+  it("allows the levels the active role has", async () => {
+    vi.mocked(resolveActiveWorkspace).mockResolvedValue({ workspace, role: "editor" });
+    expect((await requireWorkspace("edit")).ok).toBe(true);
+    const guard = await requireWorkspace("manage");
+    expect(!guard.ok && guard.result.code).toBe("forbidden");
+  });
+
+  it("never resolves a workspace for anonymous visitors", async () => {
+    signIn(null);
+    expect((await requireWorkspace("view")).ok).toBe(false);
+    expect(resolveActiveWorkspace).not.toHaveBeenCalled();
+  });
+});
+
+describe("requireWorkspaceAccess", () => {
+  it("hides workspaces the user isn't a member of", async () => {
+    vi.mocked(getWorkspaceById).mockResolvedValue(workspace);
+    const guard = await requireWorkspaceAccess(WORKSPACE_ID, "view");
+    expect(!guard.ok && guard.result.code).toBe("not_found");
+  });
+
+  it("checks the member's role against the level", async () => {
+    vi.mocked(getWorkspaceById).mockResolvedValue(workspace);
+    setWorkspaceRole("viewer");
+    expect(await requireWorkspaceAccess(WORKSPACE_ID, "view")).toEqual({
+      ok: true,
+      userId: USER_ID,
+      data: { workspace, role: "viewer" },
+    });
+    const guard = await requireWorkspaceAccess(WORKSPACE_ID, "edit");
+    expect(!guard.ok && guard.result.code).toBe("forbidden");
+  });
+});
+
+describe("requireNoteOwner", () => {
+  it("allows owners and editors of the note's workspace", async () => {
+    vi.mocked(getNoteById).mockResolvedValue(note());
+    for (const role of ["owner", "editor"] as const) {
+      setWorkspaceRole(role);
+      expect((await requireNoteOwner("note-1")).ok).toBe(true);
+    }
+  });
+
+  it("rejects viewers and outsiders", async () => {
+    vi.mocked(getNoteById).mockResolvedValue(note());
+    for (const role of ["viewer", null] as const) {
+      setWorkspaceRole(role);
+      const guard = await requireNoteOwner("note-1");
+      expect(!guard.ok && guard.result.code).toBe("forbidden");
+    }
+  });
+
+  it("reports missing notes and only looks in the trash when asked", async () => {
+    vi.mocked(getNoteById).mockResolvedValue(undefined);
+    const guard = await requireNoteOwner("note-1", { includeDeleted: true });
+    expect(!guard.ok && guard.result.code).toBe("not_found");
+    expect(getNoteById).toHaveBeenCalledWith("note-1", { includeDeleted: true });
+  });
+});
+
+describe("requireNoteAccess", () => {
+  it("treats workspace owners and editors as the note's owner", async () => {
+    vi.mocked(getNoteById).mockResolvedValue(note());
+    setWorkspaceRole("editor");
+    const guard = await requireNoteAccess("note-1", "edit");
+    expect(guard.ok && guard.data.role).toBe("owner");
+    expect(getNoteShareForUser).not.toHaveBeenCalled();
+  });
+
+  it("lets workspace viewers read but not edit", async () => {
+    vi.mocked(getNoteById).mockResolvedValue(note());
+    setWorkspaceRole("viewer");
+    const viewGuard = await requireNoteAccess("note-1", "view");
+    expect(viewGuard.ok && viewGuard.data.role).toBe("viewer");
+    const editGuard = await requireNoteAccess("note-1", "edit");
+    expect(!editGuard.ok && editGuard.result.code).toBe("forbidden");
+  });
+
+  it("follows the role of a share", async () => {
+    vi.mocked(getNoteById).mockResolvedValue(note());
+    vi.mocked(getNoteShareForUser).mockResolvedValue(share("viewer"));
+    expect((await requireNoteAccess("note-1", "view")).ok).toBe(true);
+    expect((await requireNoteAccess("note-1", "edit")).ok).toBe(false);
+
+    vi.mocked(getNoteShareForUser).mockResolvedValue(share("editor"));
+    const guard = await requireNoteAccess("note-1", "edit");
+    expect(guard.ok && guard.data.role).toBe("editor");
+  });
+
+  it("lets a workspace viewer edit a note shared with them as editor", async () => {
+    vi.mocked(getNoteById).mockResolvedValue(note());
+    setWorkspaceRole("viewer");
+    vi.mocked(getNoteShareForUser).mockResolvedValue(share("editor"));
+    const guard = await requireNoteAccess("note-1", "edit");
+    expect(guard.ok && guard.data.role).toBe("editor");
+  });
+
+  it("keeps trashed notes from everyone but workspace owners and editors", async () => {
+    vi.mocked(getNoteById).mockResolvedValue(note({ deletedAt: new Date() }));
+    vi.mocked(getNoteShareForUser).mockResolvedValue(share("editor"));
+    setWorkspaceRole("viewer");
+    const guard = await requireNoteAccess("note-1", "view", { includeDeleted: true });
+    expect(!guard.ok && guard.result.code).toBe("not_found");
+
+    setWorkspaceRole("owner");
+    expect((await requireNoteAccess("note-1", "view", { includeDeleted: true })).ok).toBe(true);
+  });
+
+  it("rejects people with neither membership nor a share", async () => {
+    vi.mocked(getNoteById).mockResolvedValue(note());
+    const guard = await requireNoteAccess("note-1", "view");
+    expect(!guard.ok && guard.result.code).toBe("forbidden");
+  });
+
+  it("rejects anonymous visitors before loading the note", async () => {
+    signIn(null);
+    const guard = await requireNoteAccess("note-1", "view");
+    expect(!guard.ok && guard.result.code).toBe("unauthorized");
+    expect(getNoteById).not.toHaveBeenCalled();
+  });
+});
+
+describe("requireNotesOwner", () => {
+  const memberships = [
+    { workspace, role: "editor" as const },
+    { workspace: { ...workspace, id: OTHER_WORKSPACE_ID }, role: "viewer" as const },
+  ];
+
+  it("allows a batch the user can manage entirely, counting duplicates once", async () => {
+    vi.mocked(getNotesByIds).mockResolvedValue([note()]);
+    vi.mocked(getWorkspacesForUser).mockResolvedValue(memberships);
+    expect((await requireNotesOwner(["note-1", "note-1"])).ok).toBe(true);
+    expect(getNotesByIds).toHaveBeenCalledWith(["note-1"]);
+  });
+
+  it("rejects the whole batch when one note is out of reach", async () => {
+    vi.mocked(getNotesByIds).mockResolvedValue([note(), note({ id: "note-2", workspaceId: OTHER_WORKSPACE_ID })]);
+    vi.mocked(getWorkspacesForUser).mockResolvedValue(memberships);
+    const guard = await requireNotesOwner(["note-1", "note-2"]);
+    expect(!guard.ok && guard.result.code).toBe("forbidden");
+  });
+
+  it("rejects the whole batch when one note is missing", async () => {
+    vi.mocked(getNotesByIds).mockResolvedValue([note()]);
+    const guard = await requireNotesOwner(["note-1", "note-2"]);
+    expect(!guard.ok && guard.result.code).toBe("not_found");
+  });
+});
+
+describe("requireCategoryAccess", () => {
+  it("makes base categories readable by everyone but writable by nobody", async () => {
+    vi.mocked(getCategoryById).mockResolvedValue(category({ workspaceId: null }));
+    expect((await requireCategoryAccess("category-1", "read")).ok).toBe(true);
+    const guard = await requireCategoryAccess("category-1", "write");
+    expect(!guard.ok && guard.result.code).toBe("forbidden");
+  });
+
+  it("lets members read and owners and editors write workspace categories", async () => {
+    vi.mocked(getCategoryById).mockResolvedValue(category());
+    setWorkspaceRole("viewer");
+    expect((await requireCategoryAccess("category-1", "read")).ok).toBe(true);
+    expect((await requireCategoryAccess("category-1", "write")).ok).toBe(false);
+    setWorkspaceRole("editor");
+    expect((await requireCategoryAccess("category-1", "write")).ok).toBe(true);
+  });
+
+  it("rejects categories of other workspaces", async () => {
+    vi.mocked(getCategoryById).mockResolvedValue(category({ workspaceId: OTHER_WORKSPACE_ID }));
+    const guard = await requireCategoryAccess("category-1", "read");
+    expect(!guard.ok && guard.result.code).toBe("forbidden");
+  });
+});
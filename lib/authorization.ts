@@ -0,0 +1,266 @@
+/**
+ * Authorization guards shared by the notes and categories server actions.
+ * Every guard resolves the user from the Clerk session itself, so actions
+ * never have to trust a userId sent by the client.
+ * Notes and categories belong to workspaces: members can read them, and
+ * owners and editors of the workspace can change and manage them
+ * (requireNoteOwner). Notes can also be opened by the people they are shared
+ * with (requireNoteAccess). Lists follow the active workspace (requireWorkspace).
+ * Location: /lib/authorization.ts
+ */
+import { auth } from "@clerk/nextjs/server";
+import { getNoteById, getNotesByIds } from "@/db/queries/notes-queries";
+import { getCategoryById } from "@/db/queries/categories-queries";
+import { getNoteShareForUser } from "@/db/queries/note-shares-queries";
+import { getWorkspaceById, getWorkspaceRole, getWorkspacesForUser } from "@/db/queries/workspaces-queries";
+import type { SelectNote } from "@/db/schema/notes-schema";
+import type { SelectCategory } from "@/db/schema/categories-schema";
+import type { ActionResult } from "@/types";
+import type { NoteRole } from "@/lib/note-sharing";
+import { hasWorkspaceAccess, WorkspaceAccessLevel, WorkspaceWithRole } from "@/lib/workspaces";
+import { resolveActiveWorkspace } from "@/lib/active-workspace";
+
+/**
+ * Outcome of a guard: either the authorized user (plus the loaded row),
+ * or a failed ActionResult the action can return as-is.
+ */
+export type GuardResult<T> =
+  | { ok: true; userId: string; data: T }
+  | { ok: false; result: ActionResult<never> };
+
+export const unauthorizedResult = (): ActionResult<never> => ({
+  isSuccess: false,
+  code: "unauthorized",
+  message: "You must be signed in to do that.",
+});
+
+export const forbiddenResult = (resource: string): ActionResult<never> => ({
+  isSuccess: false,
+  code: "forbidden",
+  message: `You do not have permission to access this ${resource}.`,
+});
+
+export const notFoundResult = (resource: string): ActionResult<never> => ({
+  isSuccess: false,
+  code: "not_found",
+  message: `${resource.charAt(0).toUpperCase()}${resource.slice(1)} not found`,
+});
+
+/**
+ * HTTP status for a failed guard, for route handlers that can't return an
+ * ActionResult.
+ */
+export function getGuardHttpStatus(result: ActionResult<never>): number {
+  switch (result.code) {
+    case "unauthorized":
+      return 401;
+    case "forbidden":
+      return 403;
+    case "not_found":
+      return 404;
+    default:
+      return 400;
+  }
+}
+
+/**
+ * Requires a signed-in user and returns their Clerk user ID.
+ */
+export async function requireUser(): Promise<GuardResult<null>> {
+  const { userId } = auth();
+  if (!userId) {
+    return { ok: false, result: unauthorizedResult() };
+  }
+  return { ok: true, userId, data: null };
+}
+
+interface GuardOptions {
+  includeDeleted?: boolean; // Also match rows that are in the trash
+}
+
+/**
+ * Requires the signed-in user to be able to work in the active workspace
+ * (see /lib/active-workspace.ts) at the given level:
+ * - "view": any member.
+ * - "edit": owners and editors.
+ * - "manage": the owner.
+ */
+export async function requireWorkspace(
+  access: WorkspaceAccessLevel
+): Promise<GuardResult<WorkspaceWithRole>> {
+  const session = await requireUser();
+  if (!session.ok) {
+    return session;
+  }
+
+  const active = await resolveActiveWorkspace(session.userId);
+  if (!hasWorkspaceAccess(active.role, access)) {
+    return { ok: false, result: forbiddenResult("workspace") };
+  }
+  return { ok: true, userId: session.userId, data: active };
+}
+
+/**
+ * Like requireWorkspace, for a given workspace rather than the active one.
+ */
+export async function requireWorkspaceAccess(
+  workspaceId: string,
+  access: WorkspaceAccessLevel
+): Promise<GuardResult<WorkspaceWithRole>> {
+  const session = await requireUser();
+  if (!session.ok) {
+    return session;
+  }
+
+  const workspace = await getWorkspaceById(workspaceId);
+  const role = workspace ? await getWorkspaceRole(workspaceId, session.userId) : null;
+  if (!workspace || !role) {
+    return { ok: false, result: notFoundResult("workspace") };
+  }
+  if (!hasWorkspaceAccess(role, access)) {
+    return { ok: false, result: forbiddenResult("workspace") };
+  }
+  return { ok: true, userId: session.userId, data: { workspace, role } };
+}
+
+/**
+ * Whether notes of `workspaceId` can be filed under the category: one of the
+ * workspace's own categories, or a base category.
+ */
+export function isCategoryInWorkspace(category: SelectCategory, workspaceId: string): boolean {
+  return category.workspaceId === null || category.workspaceId === workspaceId;
+}
+
+/**
+ * Requires the signed-in user to manage the given note: an owner or editor of
+ * the workspace it belongs to.
+ */
+export async function requireNoteOwner(
+  noteId: string,
+  { includeDeleted = false }: GuardOptions = {}
+): Promise<GuardResult<SelectNote>> {
+  const session = await requireUser();
+  if (!session.ok) {
+    return session;
+  }
+
+  const note = await getNoteById(noteId, { includeDeleted });
+  if (!note) {
+    return { ok: false, result: notFoundResult("note") };
+  }
+  const role = await getWorkspaceRole(note.workspaceId, session.userId);
+  if (!role || !hasWorkspaceAccess(role, "edit")) {
+    return { ok: false, result: forbiddenResult("note") };
+  }
+  return { ok: true, userId: session.userId, data: note };
+}
+
+export interface NoteAccess {
+  note: SelectNote;
+  role: NoteRole; // How the signed-in user relates to the note
+}
+
+/**
+ * Requires the signed-in user to belong to the note's workspace or to have it
+ * shared with them.
+ * - "view": workspace members, viewers and editors.
+ * - "edit": workspace owners and editors ("owner" of the note), and editors.
+ * Only workspace owners and editors get at a note in the trash.
+ */
+export async function requireNoteAccess(
+  noteId: string,
+  access: "view" | "edit",
+  { includeDeleted = false }: GuardOptions = {}
+): Promise<GuardResult<NoteAccess>> {
+  const session = await requireUser();
+  if (!session.ok) {
+    return session;
+  }
+
+  const note = await getNoteById(noteId, { includeDeleted });
+  if (!note) {
+    return { ok: false, result: notFoundResult("note") };
+  }
+  const workspaceRole = await getWorkspaceRole(note.workspaceId, session.userId);
+  if (workspaceRole && hasWorkspaceAccess(workspaceRole, "edit")) {
+    return { ok: true, userId: session.userId, data: { note, role: "owner" } };
+  }
+  if (note.deletedAt) {
+    return { ok: false, result: notFoundResult("note") };
+  }
+
+  // A workspace viewer may still have been made an editor of this one note
+  const share = await getNoteShareForUser(noteId, session.userId);
+  if (share && (access === "view" || share.role === "editor")) {
+    return { ok: true, userId: session.userId, data: { note, role: share.role } };
+  }
+  if (workspaceRole && access === "view") {
+    return { ok: true, userId: session.userId, data: { note, role: "viewer" } };
+  }
+  return { ok: false, result: forbiddenResult("note") };
+}
+
+/**
+ * Requires the signed-in user to manage every one of the given notes.
+ * The whole batch is rejected if any note is missing or in a workspace where
+ * they are not an owner or editor.
+ */
+export async function requireNotesOwner(
+  noteIds: string[]
+): Promise<GuardResult<SelectNote[]>> {
+  const session = await requireUser();
+  if (!session.ok) {
+    return session;
+  }
+
+  const uniqueIds = Array.from(new Set(noteIds));
+  const notes = await getNotesByIds(uniqueIds);
+  if (notes.length !== uniqueIds.length) {
+    return { ok: false, result: notFoundResult("note") };
+  }
+  const roleByWorkspaceId = new Map(
+    (await getWorkspacesForUser(session.userId)).map(({ workspace, role }) => [workspace.id, role])
+  );
+  const canManage = (workspaceId: string) => {
+    const role = roleByWorkspaceId.get(workspaceId);
+    return !!role && hasWorkspaceAccess(role, "edit");
+  };
+  if (notes.some((note) => !canManage(note.workspaceId))) {
+    return { ok: false, result: forbiddenResult("note") };
+  }
+  return { ok: true, userId: session.userId, data: notes };
+}
+
+/**
+ * Requires the signed-in user to be able to use the given category.
+ * - "read": base categories (workspaceId IS NULL) and the categories of the
+ *   user's workspaces.
+ * - "write": categories of workspaces where the user is an owner or editor;
+ *   base categories are read-only.
+ * Whether a note may be filed under it is checked with isCategoryInWorkspace.
+ */
+export async function requireCategoryAccess(
+  categoryId: string,
+  access: "read" | "write",
+  { includeDeleted = false }: GuardOptions = {}
+): Promise<GuardResult<SelectCategory>> {
+  const session = await requireUser();
+  if (!session.ok) {
+    return session;
+  }
+
+  const category = await getCategoryById(categoryId, { includeDeleted });
+  if (!category) {
+    return { ok: false, result: notFoundResult("category") };
+  }
+
+  const isBase = category.workspaceId === null;
+  const role = category.workspaceId ? await getWorkspaceRole(category.workspaceId, session.userId) : null;
+  const allowed = isBase
+    ? access === "read"
+    : !!role && hasWorkspaceAccess(role, access === "read" ? "view" : "edit");
+  if (!allowed) {
+    return { ok: false, result: forbiddenResult("category") };
+  }
+  return { ok: true, userId: session.userId, data: category };
+}
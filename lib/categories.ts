@@ -0,0 +1,47 @@
+/**
+ * Shared category helpers: the color palette and the naming rules checked by
+ * the category manager and the category actions.
+ * Location: /lib/categories.ts
+ */
+
+// Colors offered for new categories, in the order they are handed out
+export const CATEGORY_COLOR_PALETTE = [
+  "#3b82f6", // blue
+  "#10b981", // emerald
+  "#f59e0b", // amber
+  "#ef4444", // red
+  "#8b5cf6", // violet
+  "#ec4899", // pink
+  "#14b8a6", // teal
+  "#f97316", // orange
+  "#6366f1", // indigo
+  "#84cc16", // lime
+];
+
+/**
+ * Picks a palette color for the n-th category (wraps around).
+ */
+export function getCategoryColor(index: number): string {
+  return CATEGORY_COLOR_PALETTE[Math.abs(index) % CATEGORY_COLOR_PALETTE.length];
+}
+
+export const MAX_CATEGORY_NAME_LENGTH = 50;
+
+const CATEGORY_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Checks a category's name and/or color as entered in the category manager.
+ * Returns an error message, or null if the values can be saved.
+ */
+export function validateCategoryFields({ name, color }: { name?: string; color?: string }): string | null {
+  if (name !== undefined) {
+    if (!name.trim()) return "Category name cannot be empty.";
+    if (name.trim().length > MAX_CATEGORY_NAME_LENGTH) {
+      return `Category names can be at most ${MAX_CATEGORY_NAME_LENGTH} characters.`;
+    }
+  }
+  if (color !== undefined && !CATEGORY_COLOR_PATTERN.test(color)) {
+    return "Pick a color like #3b82f6.";
+  }
+  return null;
+}
@@ -0,0 +1,136 @@
+/**
+ * Helpers for nested categories (`parentId`). They work on any flat list of
+ * categories, e.g. the ordered list from getCategoriesForWorkspaceAndBase: a
+ * category whose parent is missing from the list (hidden, trashed) is treated
+ * as top-level, and siblings keep the list's order.
+ * Location: /lib/category-tree.ts
+ */
+
+interface TreeCategory {
+  id: string;
+  parentId: string | null;
+  name: string;
+}
+
+export interface CategoryTreeNode<T extends TreeCategory> {
+  category: T;
+  depth: number; // 0 for top-level categories
+  children: CategoryTreeNode<T>[];
+}
+
+export function buildCategoryTree<T extends TreeCategory>(categories: T[]): CategoryTreeNode<T>[] {
+  const nodeById = new Map<string, CategoryTreeNode<T>>();
+  categories.forEach(category => nodeById.set(category.id, { category, depth: 0, children: [] }));
+
+  const roots: CategoryTreeNode<T>[] = [];
+  categories.forEach(category => {
+    const node = nodeById.get(category.id)!;
+    const parent = category.parentId ? nodeById.get(category.parentId) : undefined;
+    // Anything that would close a loop is shown top-level rather than dropped
+    if (parent && !isAncestor(nodeById, category.id, parent.category.id)) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const setDepth = (node: CategoryTreeNode<T>, depth: number) => {
+    node.depth = depth;
+    node.children.forEach(child => setDepth(child, depth + 1));
+  };
+  roots.forEach(root => setDepth(root, 0));
+  return roots;
+}
+
+// True if `ancestorId` is `id` itself or above it in the tree
+function isAncestor<T extends TreeCategory>(
+  nodeById: Map<string, CategoryTreeNode<T>>,
+  ancestorId: string,
+  id: string
+): boolean {
+  const seen = new Set<string>();
+  let currentId: string | null = id;
+  while (currentId && !seen.has(currentId)) {
+    if (currentId === ancestorId) return true;
+    seen.add(currentId);
+    currentId = nodeById.get(currentId)?.category.parentId ?? null;
+  }
+  return false;
+}
+
+/**
+ * The tree in display order (each category followed by its subtree).
+ */
+export function flattenCategoryTree<T extends TreeCategory>(roots: CategoryTreeNode<T>[]): CategoryTreeNode<T>[] {
+  return roots.flatMap(root => [root, ...flattenCategoryTree(root.children)]);
+}
+
+/**
+ * IDs of a category and everything nested inside it.
+ */
+export function getSubtreeIds<T extends TreeCategory>(categories: T[], categoryId: string): string[] {
+  const find = (nodes: CategoryTreeNode<T>[]): CategoryTreeNode<T> | undefined => {
+    for (const node of nodes) {
+      if (node.category.id === categoryId) return node;
+      const match = find(node.children);
+      if (match) return match;
+    }
+    return undefined;
+  };
+  const node = find(buildCategoryTree(categories));
+  return node ? flattenCategoryTree([node]).map(descendant => descendant.category.id) : [categoryId];
+}
+
+/**
+ * Sums a per-category value (e.g. note counts) over each category's subtree.
+ */
+export function sumOverSubtrees<T extends TreeCategory>(
+  categories: T[],
+  valueById: Record<string, number>
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+  const sum = (node: CategoryTreeNode<T>): number => {
+    const total = node.children.reduce((acc, child) => acc + sum(child), valueById[node.category.id] ?? 0);
+    totals[node.category.id] = total;
+    return total;
+  };
+  buildCategoryTree(categories).forEach(sum);
+  return totals;
+}
+
+/**
+ * Whether nesting `categoryId` under `parentId` would put it inside itself.
+ */
+export function wouldCreateCycle<T extends TreeCategory>(
+  categories: T[],
+  categoryId: string,
+  parentId: string | null
+): boolean {
+  if (!parentId) return false;
+  const parentById = new Map(categories.map(category => [category.id, category.parentId]));
+  const seen = new Set<string>();
+  let currentId: string | null = parentId;
+  while (currentId && !seen.has(currentId)) {
+    if (currentId === categoryId) return true;
+    seen.add(currentId);
+    currentId = parentById.get(currentId) ?? null;
+  }
+  return false;
+}
+
+/**
+ * Names from the top-level category down to `categoryId`,
+ * e.g. ["Clients", "Acme", "Meetings"].
+ */
+export function getCategoryPath<T extends TreeCategory>(categories: T[], categoryId: string): string[] {
+  const categoryById = new Map(categories.map(category => [category.id, category]));
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let current = categoryById.get(categoryId);
+  while (current && !seen.has(current.id)) {
+    path.unshift(current.name);
+    seen.add(current.id);
+    current = current.parentId ? categoryById.get(current.parentId) : undefined;
+  }
+  return path;
+}
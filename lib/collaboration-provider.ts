@@ -0,0 +1,215 @@
+/**
+ * Browser side of live note editing: keeps a note's Yjs document and
+ * awareness (who is here, where their cursor is) in sync with the
+ * collaboration server over a WebSocket, reconnecting with a fresh session
+ * token when the connection drops.
+ * Location: /lib/collaboration-provider.ts
+ */
+import * as Y from "yjs";
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+import * as syncProtocol from "y-protocols/sync";
+import * as awarenessProtocol from "y-protocols/awareness";
+import {
+  CLOSE_FORBIDDEN,
+  CLOSE_NOT_FOUND,
+  getNoteRoomPath,
+  MESSAGE_AWARENESS,
+  MESSAGE_SYNC,
+} from "./collaboration";
+
+export type CollaborationStatus = "connecting" | "connected" | "disconnected";
+
+export interface NoteCollaborationProvider {
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  getStatus(): CollaborationStatus;
+  // True once the note's content has arrived from the server
+  isSynced(): boolean;
+  onStatusChange(listener: (status: CollaborationStatus) => void): () => void;
+  onSynced(listener: () => void): () => void;
+  // The server refused the note (no access, deleted); the provider stops reconnecting
+  onRefused(listener: (closeCode: number) => void): () => void;
+  destroy(): void;
+}
+
+interface NoteCollaborationProviderOptions {
+  url: string; // Base URL of the collaboration server, see getCollaborationUrl
+  noteId: string;
+  doc: Y.Doc;
+  getToken: () => Promise<string | null>; // A current Clerk session token
+}
+
+const MAX_RECONNECT_DELAY = 30_000; // ms
+
+export function createNoteCollaborationProvider({
+  url,
+  noteId,
+  doc,
+  getToken,
+}: NoteCollaborationProviderOptions): NoteCollaborationProvider {
+  const awareness = new awarenessProtocol.Awareness(doc);
+  const statusListeners = new Set<(status: CollaborationStatus) => void>();
+  const syncedListeners = new Set<() => void>();
+  const refusedListeners = new Set<(closeCode: number) => void>();
+  let status: CollaborationStatus = "connecting";
+  let synced = false;
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let failedAttempts = 0;
+  let isDestroyed = false;
+
+  const setStatus = (nextStatus: CollaborationStatus) => {
+    if (status === nextStatus) return;
+    status = nextStatus;
+    statusListeners.forEach(listener => listener(nextStatus));
+  };
+
+  const send = (encoder: encoding.Encoder) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(encoding.toUint8Array(encoder));
+  };
+
+  const handleMessage = (data: Uint8Array) => {
+    const decoder = decoding.createDecoder(data);
+    const messageType = decoding.readVarUint(decoder);
+    if (messageType === MESSAGE_SYNC) {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      const syncMessageType = syncProtocol.readSyncMessage(decoder, encoder, doc, provider);
+      if (encoding.length(encoder) > 1) send(encoder);
+      if (syncMessageType === syncProtocol.messageYjsSyncStep2 && !synced) {
+        synced = true;
+        syncedListeners.forEach(listener => listener());
+      }
+    } else if (messageType === MESSAGE_AWARENESS) {
+      awarenessProtocol.applyAwarenessUpdate(awareness, decoding.readVarUint8Array(decoder), provider);
+    }
+  };
+
+  const connect = async () => {
+    if (isDestroyed) return;
+    setStatus("connecting");
+    let token: string | null = null;
+    try {
+      token = await getToken();
+    } catch (error) {
+      console.error("Collaboration: failed to get a session token:", error);
+    }
+    if (isDestroyed) return;
+    if (!token) {
+      scheduleReconnect();
+      return;
+    }
+
+    const roomUrl = `${url.replace(/\/$/, "")}${getNoteRoomPath(noteId)}?token=${encodeURIComponent(token)}`;
+    const nextSocket = new WebSocket(roomUrl);
+    nextSocket.binaryType = "arraybuffer";
+    socket = nextSocket;
+
+    nextSocket.onopen = () => {
+      failedAttempts = 0;
+      setStatus("connected");
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeSyncStep1(encoder, doc);
+      send(encoder);
+      if (awareness.getLocalState() !== null) {
+        const awarenessEncoder = encoding.createEncoder();
+        encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(
+          awarenessEncoder,
+          awarenessProtocol.encodeAwarenessUpdate(awareness, [doc.clientID])
+        );
+        send(awarenessEncoder);
+      }
+    };
+    nextSocket.onmessage = event => handleMessage(new Uint8Array(event.data as ArrayBuffer));
+    nextSocket.onclose = event => {
+      if (socket !== nextSocket) return;
+      socket = null;
+      // Everyone else's cursor is stale until we're back
+      const remoteClients = Array.from(awareness.getStates().keys()).filter(clientId => clientId !== doc.clientID);
+      awarenessProtocol.removeAwarenessStates(awareness, remoteClients, provider);
+      setStatus("disconnected");
+      if (event.code === CLOSE_FORBIDDEN || event.code === CLOSE_NOT_FOUND) {
+        refusedListeners.forEach(listener => listener(event.code));
+        return;
+      }
+      scheduleReconnect();
+    };
+  };
+
+  const scheduleReconnect = () => {
+    if (isDestroyed || reconnectTimer) return;
+    setStatus("disconnected");
+    const delay = Math.min(1000 * 2 ** failedAttempts, MAX_RECONNECT_DELAY);
+    failedAttempts++;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      void connect();
+    }, delay);
+  };
+
+  const handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin === provider) return; // Came from the server
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    send(encoder);
+  };
+
+  const handleAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    if (origin === provider) return;
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(
+      encoder,
+      awarenessProtocol.encodeAwarenessUpdate(awareness, added.concat(updated, removed))
+    );
+    send(encoder);
+  };
+
+  const provider: NoteCollaborationProvider = {
+    doc,
+    awareness,
+    getStatus: () => status,
+    isSynced: () => synced,
+    onStatusChange(listener) {
+      statusListeners.add(listener);
+      return () => statusListeners.delete(listener);
+    },
+    onSynced(listener) {
+      syncedListeners.add(listener);
+      return () => syncedListeners.delete(listener);
+    },
+    onRefused(listener) {
+      refusedListeners.add(listener);
+      return () => refusedListeners.delete(listener);
+    },
+    destroy() {
+      if (isDestroyed) return;
+      isDestroyed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      // Tell the others we left before closing, so our cursor disappears right away
+      awarenessProtocol.removeAwarenessStates(awareness, [doc.clientID], "destroy");
+      doc.off("update", handleDocUpdate);
+      awareness.off("update", handleAwarenessUpdate);
+      awareness.destroy();
+      const closingSocket = socket;
+      socket = null;
+      closingSocket?.close();
+      statusListeners.clear();
+      syncedListeners.clear();
+      refusedListeners.clear();
+    },
+  };
+
+  doc.on("update", handleDocUpdate);
+  awareness.on("update", handleAwarenessUpdate);
+  void connect();
+
+  return provider;
+}
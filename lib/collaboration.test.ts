@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { CATEGORY_COLOR_PALETTE } from "./categories";
+import {
+  getCollaborationUrl,
+  getNoteRoomPath,
+  getPresenceColor,
+  parseNoteRoomPath,
+} from "./collaboration";
+
+const NOTE_ID = "3f2b8c1e-1d2a-4c3b-9e8f-0a1b2c3d4e5f";
+
+describe("note room paths", () => {
+  it("reads the note ID back out of a room path", () => {
+    expect(parseNoteRoomPath(getNoteRoomPath(NOTE_ID))).toBe(NOTE_ID);
+    expect(parseNoteRoomPath(`/notes/${NOTE_ID.toUpperCase()}`)).toBe(NOTE_ID.toUpperCase());
+  });
+
+  it("rejects paths that aren't a note's room", () => {
+    expect(parseNoteRoomPath("/")).toBeNull();
+    expect(parseNoteRoomPath("/notes")).toBeNull();
+    expect(parseNoteRoomPath("/notes/")).toBeNull();
+    expect(parseNoteRoomPath(`/notes/${NOTE_ID}/extra`)).toBeNull();
+    expect(parseNoteRoomPath(`/other/${NOTE_ID}`)).toBeNull();
+  });
+
+  it("rejects IDs that aren't UUIDs", () => {
+    expect(parseNoteRoomPath("/notes/abc")).toBeNull();
+    expect(parseNoteRoomPath(`/notes/${NOTE_ID}x`)).toBeNull();
+    expect(parseNoteRoomPath(`/notes/${encodeURIComponent(`${NOTE_ID}/..`)}`)).toBeNull();
+  });
+
+  it("returns null instead of throwing on malformed escapes", () => {
+    expect(() => parseNoteRoomPath("/notes/%E0%A4%A")).not.toThrow();
+    expect(parseNoteRoomPath("/notes/%E0%A4%A")).toBeNull();
+    expect(parseNoteRoomPath("/notes/%")).toBeNull();
+  });
+});
+
+describe("getPresenceColor", () => {
+  it("gives each user the same palette color every time", () => {
+    const color = getPresenceColor("user_123");
+    expect(CATEGORY_COLOR_PALETTE).toContain(color);
+    expect(getPresenceColor("user_123")).toBe(color);
+  });
+
+  it("handles empty and very long IDs", () => {
+    expect(CATEGORY_COLOR_PALETTE).toContain(getPresenceColor(""));
+    expect(CATEGORY_COLOR_PALETTE).toContain(getPresenceColor("u".repeat(10_000)));
+  });
+});
+
+describe("getCollaborationUrl", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("is null while live editing isn't configured", () => {
+    vi.stubEnv("NEXT_PUBLIC_COLLAB_URL", "");
+    expect(getCollaborationUrl()).toBeNull();
+  });
+
+  it("returns the configured server URL", () => {
+    vi.stubEnv("NEXT_PUBLIC_COLLAB_URL", "ws://localhost:1234");
+    expect(getCollaborationUrl()).toBe("ws://localhost:1234");
+  });
+});
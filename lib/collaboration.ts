@@ -0,0 +1,74 @@
+/**
+ * Shared pieces of live note editing, used by both the browser
+ * (NoteCollaborationProvider) and the collaboration server (/collab/server.ts).
+ * Messages follow the y-websocket wire format: a varint message type, then a
+ * y-protocols sync or awareness message.
+ * Location: /lib/collaboration.ts
+ */
+import { CATEGORY_COLOR_PALETTE } from "./categories";
+
+// Name of the Y.XmlFragment the editor content lives in (Tiptap's default)
+export const COLLABORATION_FIELD = "default";
+
+export const MESSAGE_SYNC = 0;
+export const MESSAGE_AWARENESS = 1;
+
+// WebSocket close codes the server uses when it refuses a connection
+export const CLOSE_UNAUTHORIZED = 4401; // Missing or expired session token; retry with a new one
+export const CLOSE_FORBIDDEN = 4403;
+export const CLOSE_NOT_FOUND = 4404;
+
+const NOTE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Base URL of the collaboration server, e.g. "ws://localhost:1234", or null
+ * when live editing isn't configured and notes are saved by autosave alone.
+ */
+export function getCollaborationUrl(): string | null {
+  return process.env.NEXT_PUBLIC_COLLAB_URL || null;
+}
+
+/**
+ * Path of a note's room; the server reads the note ID back out of it.
+ */
+export function getNoteRoomPath(noteId: string): string {
+  return `/notes/${encodeURIComponent(noteId)}`;
+}
+
+/**
+ * The note ID in a room path, or null when the path isn't a room of a note
+ * (including malformed escapes and IDs that aren't UUIDs).
+ */
+export function parseNoteRoomPath(pathname: string): string | null {
+  const match = /^\/notes\/([^/]+)$/.exec(pathname);
+  if (!match) return null;
+  let noteId: string;
+  try {
+    noteId = decodeURIComponent(match[1]);
+  } catch {
+    return null; // Malformed escape, e.g. "%E0%A4%A"
+  }
+  return NOTE_ID_PATTERN.test(noteId) ? noteId : null;
+}
+
+/**
+ * What each client shares about itself through Yjs awareness. The editor's
+ * collaboration cursors use `name` and `color`; NoteHeader shows the avatars.
+ */
+export interface CollaboratorPresence {
+  userId: string;
+  name: string;
+  color: string;
+  avatarUrl?: string;
+}
+
+/**
+ * A stable cursor color per user, so people keep their color across sessions.
+ */
+export function getPresenceColor(userId: string): string {
+  let hash = 0;
+  for (let index = 0; index < userId.length; index++) {
+    hash = (hash * 31 + userId.charCodeAt(index)) | 0;
+  }
+  return CATEGORY_COLOR_PALETTE[Math.abs(hash) % CATEGORY_COLOR_PALETTE.length];
+}
@@ -0,0 +1,92 @@
+/**
+ * Line-based diff used by the note history panel.
+ * Produces rows for a side-by-side view: unchanged lines appear on both sides,
+ * removed lines only on the left, added lines only on the right, and a removed
+ * line directly followed by an added one is paired up as a change.
+ * Location: /lib/diff.ts
+ */
+
+export type DiffRowType = "unchanged" | "removed" | "added" | "changed";
+
+export interface DiffRow {
+  type: DiffRowType;
+  left: string | null;
+  right: string | null;
+}
+
+type DiffOp = { type: "unchanged" | "removed" | "added"; text: string };
+
+/**
+ * Longest-common-subsequence diff of two line arrays.
+ */
+function diffOps(oldLines: string[], newLines: string[]): DiffOp[] {
+  const rows = oldLines.length;
+  const cols = newLines.length;
+  // lcs[i * (cols + 1) + j] = LCS length of oldLines[i..] and newLines[j..]
+  const lcs = new Uint32Array((rows + 1) * (cols + 1));
+  const at = (i: number, j: number) => i * (cols + 1) + j;
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[at(i, j)] = oldLines[i] === newLines[j]
+        ? lcs[at(i + 1, j + 1)] + 1
+        : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      ops.push({ type: "unchanged", text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[at(i + 1, j)] >= lcs[at(i, j + 1)]) {
+      ops.push({ type: "removed", text: oldLines[i++] });
+    } else {
+      ops.push({ type: "added", text: newLines[j++] });
+    }
+  }
+  while (i < rows) ops.push({ type: "removed", text: oldLines[i++] });
+  while (j < cols) ops.push({ type: "added", text: newLines[j++] });
+  return ops;
+}
+
+/**
+ * Diffs two line arrays into side-by-side rows.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffRow[] {
+  const ops = diffOps(oldLines, newLines);
+  const rows: DiffRow[] = [];
+
+  let index = 0;
+  while (index < ops.length) {
+    const op = ops[index];
+    if (op.type === "unchanged") {
+      rows.push({ type: "unchanged", left: op.text, right: op.text });
+      index++;
+      continue;
+    }
+
+    // Collect a run of removals and additions and pair them line by line
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < ops.length && ops[index].type !== "unchanged") {
+      (ops[index].type === "removed" ? removed : added).push(ops[index].text);
+      index++;
+    }
+    const length = Math.max(removed.length, added.length);
+    for (let k = 0; k < length; k++) {
+      const left = removed[k] ?? null;
+      const right = added[k] ?? null;
+      rows.push({
+        type: left !== null && right !== null ? "changed" : left !== null ? "removed" : "added",
+        left,
+        right,
+      });
+    }
+  }
+
+  return rows;
+}
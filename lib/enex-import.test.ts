@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from "vitest";
+import { getEnexNotebookName, parseEnexDate, parseEnexStream } from "./enex-import";
+
+vi.mock("@/lib/import", () => ({ MAX_IMPORT_NOTES: 2 }));
+
+const MAX_BYTES = 1024 * 1024;
+
+// Streams `xml` in small chunks, so elements and multi-byte characters are split across reads
+function toStream(xml: string, chunkSize = 7): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(xml);
+  return new ReadableStream({
+    start(controller) {
+      for (let start = 0; start < bytes.length; start += chunkSize) {
+        controller.enqueue(bytes.slice(start, start + chunkSize));
+      }
+      controller.close();
+    },
+  });
+}
+
+const enexNote = (body: string) => `<note>${body}</note>`;
+
+const enexExport = (...notes: string[]) =>
+  '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<!DOCTYPE en-export SYSTEM "http://xml.evernote.com/pub/evernote-export3.dtd">\n' +
+  `<en-export export-date="20240201T000000Z" application="Evernote">${notes.join("\n")}</en-export>`;
+
+const enml = (content: string) =>
+  `<content><![CDATA[<?xml version="1.0" encoding="UTF-8"?><!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd"><en-note>${content}</en-note>]]></content>`;
+
+describe("parseEnexDate", () => {
+  it("reads ENEX timestamps as UTC", () => {
+    expect(parseEnexDate("20240131T154500Z")).toEqual(new Date("2024-01-31T15:45:00Z"));
+    expect(parseEnexDate(" 20240131T154500Z\n")).toEqual(new Date("2024-01-31T15:45:00Z"));
+  });
+
+  it("returns undefined for anything else", () => {
+    expect(parseEnexDate("")).toBeUndefined();
+    expect(parseEnexDate("2024-01-31T15:45:00Z")).toBeUndefined();
+    expect(parseEnexDate("20240131T154500")).toBeUndefined();
+  });
+});
+
+describe("getEnexNotebookName", () => {
+  it("names the notebook after the export file", () => {
+    expect(getEnexNotebookName("Recipes.enex")).toBe("Recipes");
+    expect(getEnexNotebookName("exports/Work Notes.ENEX")).toBe("Work Notes");
+  });
+
+  it("leaves generic export names without a notebook", () => {
+    expect(getEnexNotebookName("Evernote.enex")).toBeUndefined();
+    expect(getEnexNotebookName("export.enex")).toBeUndefined();
+    expect(getEnexNotebookName(".enex")).toBeUndefined();
+  });
+});
+
+describe("parseEnexStream", () => {
+  it("turns each note into a draft", async () => {
+    const xml = enexExport(
+      enexNote(
+        "<title>Café  notes</title>" +
+          enml("<div>Hello <b>wörld</b></div>") +
+          "<created>20240131T154500Z</created><updated>20240201T101500Z</updated>" +
+          "<tag>Client X</tag><tag>urgent</tag>"
+      )
+    );
+    const { drafts, results } = await parseEnexStream(toStream(xml), "Recipes.enex", MAX_BYTES);
+    expect(results).toEqual([]);
+    expect(drafts).toEqual([
+      {
+        path: "Recipes.enex/Café  notes",
+        title: "Café notes",
+        body: { format: "html", text: "<p>Hello <strong>wörld</strong></p>" },
+        categoryName: "Recipes",
+        tags: ["client-x", "urgent"],
+        createdAt: new Date("2024-01-31T15:45:00Z"),
+        updatedAt: new Date("2024-02-01T10:15:00Z"),
+        warnings: [],
+      },
+    ]);
+  });
+
+  it("warns about dropped attachments and encrypted text without keeping their data", async () => {
+    const xml = enexExport(
+      enexNote(
+        "<title>With files</title>" +
+          enml('<div>Text</div><en-media type="image/png" hash="abc"/><en-crypt>c2VjcmV0</en-crypt>') +
+          '<resource><data encoding="base64">iVBORw0KGgo=</data><mime>image/png</mime>' +
+          "<resource-attributes><file-name>photo.png</file-name></resource-attributes></resource>"
+      )
+    );
+    const { drafts } = await parseEnexStream(toStream(xml), "Evernote.enex", MAX_BYTES);
+    expect(drafts[0].warnings).toEqual(["1 attachment dropped (photo.png)", "encrypted text dropped"]);
+    expect(drafts[0].body.text).toBe("<p>Text</p>");
+    expect(drafts[0].body.text).not.toContain("iVBORw0KGgo");
+    expect(drafts[0].categoryName).toBeUndefined();
+  });
+
+  it("falls back to placeholder titles and missing dates", async () => {
+    const xml = enexExport(enexNote("<title>  </title>" + enml("x") + "<created>yesterday</created>"));
+    const { drafts } = await parseEnexStream(toStream(xml), "Recipes.enex", MAX_BYTES);
+    expect(drafts[0]).toMatchObject({ path: "Recipes.enex/Note 1", title: "Untitled Note" });
+    expect(drafts[0].createdAt).toBeUndefined();
+    expect(drafts[0].updatedAt).toBeUndefined();
+  });
+
+  it("skips the notes over the import limit", async () => {
+    const notes = ["One", "Two", "Three"].map(title => enexNote(`<title>${title}</title>${enml(title)}`));
+    const { drafts, results } = await parseEnexStream(toStream(enexExport(...notes)), "Recipes.enex", MAX_BYTES);
+    expect(drafts.map(draft => draft.title)).toEqual(["One", "Two"]);
+    expect(results).toEqual([
+      { path: "Recipes.enex/Three", status: "skipped", message: "Only 2 notes can be imported at once" },
+    ]);
+  });
+
+  it("rejects files that aren't ENEX exports", async () => {
+    await expect(parseEnexStream(toStream("<html><body>hi</body></html>"), "page.enex", MAX_BYTES)).rejects.toThrow(
+      "This file is not an Evernote export (.enex)"
+    );
+  });
+
+  it("stops reading files over the size limit", async () => {
+    const xml = enexExport(enexNote(`<title>Big</title>${enml("x".repeat(4096))}`));
+    await expect(parseEnexStream(toStream(xml, 1024), "Big.enex", 2048)).rejects.toThrow(
+      "Evernote exports are limited to 0 MB per file"
+    );
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Evernote (ENEX) import.
+ * Reads an .enex export as a stream so large exports never sit in memory as
+ * a whole: each <note> is converted to an ImportNoteDraft as soon as it has
+ * been read, and embedded resources (base64 attachments) are skipped without
+ * being buffered. The drafts are then created by the shared import pipeline.
+ * Location: /lib/enex-import.ts
+ */
+import { Parser } from "htmlparser2";
+import type { ImportFileResult } from "@/types";
+import { enmlToHtml } from "@/lib/enml";
+import { MAX_IMPORT_NOTES } from "@/lib/import";
+import type { ImportNoteDraft } from "@/lib/note-import";
+import { normalizeTagNames } from "@/lib/tags";
+
+interface EnexResource {
+  fileName?: string;
+  mime?: string;
+}
+
+interface EnexNote {
+  title: string;
+  content: string;
+  created: string;
+  updated: string;
+  tags: string[];
+  resources: EnexResource[];
+}
+
+const MAX_TITLE_LENGTH = 200;
+
+/**
+ * Parses ENEX timestamps ("20240131T154500Z", always UTC).
+ */
+export function parseEnexDate(value: string): Date | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value.trim());
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Notebook name for an export file: Evernote names notebook exports after
+ * the notebook ("Recipes.enex"); a generic "Evernote.enex" has no notebook.
+ */
+export function getEnexNotebookName(fileName: string): string | undefined {
+  const baseName = fileName.split("/").pop()?.replace(/\.enex$/i, "").trim();
+  if (!baseName || /^(evernote|export|my notes)$/i.test(baseName)) return undefined;
+  return baseName;
+}
+
+function describeDroppedResources(resources: EnexResource[], droppedMediaCount: number): string | undefined {
+  const count = Math.max(resources.length, droppedMediaCount);
+  if (count === 0) return undefined;
+  const names = resources.map(resource => resource.fileName || resource.mime).filter(Boolean);
+  const list = names.length > 0 ? ` (${names.slice(0, 3).join(", ")}${names.length > 3 ? ", …" : ""})` : "";
+  return `${count} attachment${count === 1 ? "" : "s"} dropped${list}`;
+}
+
+function toDraft(note: EnexNote, path: string, notebookName: string | undefined): ImportNoteDraft {
+  const { html, droppedMediaCount, droppedEncryptedCount } = enmlToHtml(note.content);
+  const warnings: string[] = [];
+  const resourceWarning = describeDroppedResources(note.resources, droppedMediaCount);
+  if (resourceWarning) warnings.push(resourceWarning);
+  if (droppedEncryptedCount > 0) warnings.push("encrypted text dropped");
+
+  const createdAt = parseEnexDate(note.created);
+  return {
+    path,
+    title: note.title.replace(/\s+/g, " ").trim().slice(0, MAX_TITLE_LENGTH) || "Untitled Note",
+    body: { format: "html", text: html },
+    categoryName: notebookName,
+    tags: normalizeTagNames(note.tags),
+    createdAt,
+    updatedAt: parseEnexDate(note.updated) ?? createdAt,
+    warnings,
+  };
+}
+
+/**
+ * Streams an ENEX export and returns a draft per note, plus report entries
+ * for notes that couldn't be read or exceed the import limit.
+ * Throws when the file isn't an ENEX export or is larger than `maxBytes`.
+ */
+export async function parseEnexStream(
+  stream: ReadableStream<Uint8Array>,
+  fileName: string,
+  maxBytes: number
+): Promise<{ drafts: ImportNoteDraft[]; results: ImportFileResult[] }> {
+  const drafts: ImportNoteDraft[] = [];
+  const results: ImportFileResult[] = [];
+  const notebookName = getEnexNotebookName(fileName);
+
+  const path: string[] = []; // Open element names, e.g. ["en-export", "note", "title"]
+  let note: EnexNote | null = null;
+  let resource: EnexResource | null = null;
+  let text = ""; // Text of the current leaf element (never resource data)
+  let noteCount = 0;
+  let sawExportRoot = false;
+
+  const isCollecting = () => {
+    const current = path[path.length - 1];
+    const parent = path[path.length - 2];
+    if (parent === "note") return ["title", "content", "created", "updated", "tag"].includes(current);
+    return current === "mime" || (parent === "resource-attributes" && current === "file-name");
+  };
+
+  const parser = new Parser(
+    {
+      onopentag(name) {
+        path.push(name);
+        text = "";
+        if (name === "en-export") sawExportRoot = true;
+        if (name === "note") {
+          note = { title: "", content: "", created: "", updated: "", tags: [], resources: [] };
+        } else if (name === "resource" && note) {
+          resource = {};
+        }
+      },
+      ontext(data) {
+        if (note && isCollecting()) text += data;
+      },
+      onclosetag(name) {
+        const parent = path[path.length - 2];
+        const currentNote: EnexNote | null = note;
+        if (currentNote && parent === "note") {
+          if (name === "title") currentNote.title = text;
+          else if (name === "content") currentNote.content = text;
+          else if (name === "created") currentNote.created = text;
+          else if (name === "updated") currentNote.updated = text;
+          else if (name === "tag") currentNote.tags.push(text);
+        }
+        if (resource && name === "mime") resource.mime = text.trim();
+        if (resource && name === "file-name") resource.fileName = text.trim();
+        if (currentNote && resource && name === "resource") {
+          currentNote.resources.push(resource);
+          resource = null;
+        }
+
+        if (currentNote && name === "note") {
+          noteCount++;
+          const notePath = `${fileName}/${currentNote.title.trim() || `Note ${noteCount}`}`;
+          if (noteCount > MAX_IMPORT_NOTES) {
+            results.push({ path: notePath, status: "skipped", message: `Only ${MAX_IMPORT_NOTES} notes can be imported at once` });
+          } else {
+            try {
+              drafts.push(toDraft(currentNote, notePath, notebookName));
+            } catch (error) {
+              results.push({
+                path: notePath,
+                status: "failed",
+                title: currentNote.title,
+                message: error instanceof Error ? error.message : "Could not convert the note",
+              });
+            }
+          }
+          note = null;
+        }
+        path.pop();
+        text = "";
+      },
+    },
+    { xmlMode: true }
+  );
+
+  const reader = stream.getReader();
+  const decoder = new TextDecoder("utf-8");
+  let bytesRead = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    if (bytesRead > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Evernote exports are limited to ${Math.round(maxBytes / (1024 * 1024))} MB per file`);
+    }
+    parser.write(decoder.decode(value, { stream: true }));
+  }
+  parser.write(decoder.decode());
+  parser.end();
+
+  if (!sawExportRoot) {
+    throw new Error("This file is not an Evernote export (.enex)");
+  }
+  return { drafts, results };
+}
@@ -0,0 +1,236 @@
+/**
+ * Converts Evernote's ENML (the XHTML dialect inside ENEX exports) into the
+ * HTML the note editor's schema understands: paragraphs, headings, lists,
+ * quotes, code blocks, rules, bold/italic/strike/code and text colour.
+ * Everything else is unwrapped to its text or dropped, so the output is safe
+ * to store as note content.
+ * Location: /lib/enml.ts
+ */
+import { Parser } from "htmlparser2";
+
+export interface EnmlConversion {
+  html: string;
+  droppedMediaCount: number; // <en-media> references (images, PDFs, ...)
+  droppedEncryptedCount: number; // <en-crypt> blocks
+}
+
+// Block elements kept as they are
+const BLOCK_TAGS = new Set(["h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li", "blockquote", "pre"]);
+// Blocks whose content is inline and needs no wrapping paragraph
+const INLINE_CONTAINER_TAGS = new Set(["h1", "h2", "h3", "h4", "h5", "h6", "pre"]);
+// Layout elements that only separate paragraphs (tables have no equivalent yet)
+const PARAGRAPH_BREAK_TAGS = new Set([
+  "en-note", "div", "p", "section", "article", "header", "footer", "center",
+  "table", "thead", "tbody", "tfoot", "tr", "td", "th", "caption", "dl", "dt", "dd",
+]);
+// Elements dropped together with their content
+const DROPPED_TAGS = new Set([
+  "en-crypt", "script", "style", "head", "title", "object", "embed", "iframe",
+  "applet", "form", "input", "button", "select", "textarea", "map", "area",
+]);
+const INLINE_MARKS: Record<string, string> = {
+  b: "strong",
+  strong: "strong",
+  i: "em",
+  em: "em",
+  cite: "em",
+  s: "s",
+  strike: "s",
+  del: "s",
+  code: "code",
+  tt: "code",
+};
+
+// Only plain colour values make it into a style attribute
+const SAFE_COLOR = /^(#[0-9a-f]{3,8}|rgba?\([\d\s.,%]+\)|[a-z]+)$/i;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function parseStyle(style: string | undefined): Record<string, string> {
+  const declarations: Record<string, string> = {};
+  for (const declaration of (style ?? "").split(";")) {
+    const colonIndex = declaration.indexOf(":");
+    if (colonIndex < 0) continue;
+    const property = declaration.slice(0, colonIndex).trim().toLowerCase();
+    const value = declaration.slice(colonIndex + 1).trim().toLowerCase();
+    if (property && value) declarations[property] = value;
+  }
+  return declarations;
+}
+
+/**
+ * Marks (as tag names, outermost first) and an optional colour that an
+ * inline element such as <b> or <span style="font-weight: bold"> stands for.
+ */
+function getInlineFormatting(name: string, attribs: Record<string, string>): { marks: string[]; color?: string } {
+  const marks: string[] = [];
+  if (INLINE_MARKS[name]) marks.push(INLINE_MARKS[name]);
+
+  const style = parseStyle(attribs.style);
+  if (style["font-weight"] === "bold" || Number(style["font-weight"]) >= 600) marks.push("strong");
+  if (style["font-style"] === "italic") marks.push("em");
+  if ((style["text-decoration"] ?? "").includes("line-through")) marks.push("s");
+
+  const color = style.color ?? (name === "font" ? attribs.color?.toLowerCase() : undefined);
+  return { marks, color: color && SAFE_COLOR.test(color) ? color : undefined };
+}
+
+/**
+ * Converts one note's ENML to editor HTML. Attachments and encrypted blocks
+ * are dropped and counted so the caller can warn about them.
+ */
+export function enmlToHtml(enml: string): EnmlConversion {
+  const output: string[] = [];
+  const blockStack: string[] = []; // Open block tags in the output
+  const markStack: { open: string; close: string }[] = []; // Active inline formatting in the source
+  const sourceStack: { kind: "block" | "mark" | "link" | "other"; href?: string; text?: string }[] = [];
+  let emittedMarks = 0; // How many of markStack are open inside the current paragraph
+  let paragraphOpen = false;
+  let droppedDepth = 0;
+  let droppedMediaCount = 0;
+  let droppedEncryptedCount = 0;
+
+  const inPre = () => blockStack.includes("pre");
+  const needsParagraph = () => {
+    const current = blockStack[blockStack.length - 1];
+    return !current || !INLINE_CONTAINER_TAGS.has(current);
+  };
+
+  const closeMarks = () => {
+    while (emittedMarks > 0) {
+      emittedMarks--;
+      output.push(markStack[emittedMarks].close);
+    }
+  };
+
+  const closeParagraph = () => {
+    closeMarks();
+    if (paragraphOpen) {
+      output.push("</p>");
+      paragraphOpen = false;
+    }
+  };
+
+  // Opens the paragraph and formatting that inline content needs
+  const prepareInline = () => {
+    if (needsParagraph() && !paragraphOpen) {
+      output.push("<p>");
+      paragraphOpen = true;
+    }
+    if (inPre()) return; // Code blocks hold plain text only
+    while (emittedMarks < markStack.length) {
+      output.push(markStack[emittedMarks].open);
+      emittedMarks++;
+    }
+  };
+
+  const writeText = (text: string) => {
+    if (!inPre()) {
+      text = text.replace(/\s+/g, " ");
+      // Whitespace between blocks is layout, not content
+      if (!text.trim() && !paragraphOpen && needsParagraph()) return;
+    }
+    prepareInline();
+    output.push(escapeHtml(text));
+  };
+
+  const parser = new Parser(
+    {
+      onopentag(name, attribs) {
+        if (droppedDepth > 0 || DROPPED_TAGS.has(name)) {
+          if (droppedDepth === 0 && name === "en-crypt") droppedEncryptedCount++;
+          droppedDepth++;
+          return;
+        }
+
+        if (name === "en-media") {
+          droppedMediaCount++;
+          sourceStack.push({ kind: "other" });
+        } else if (name === "en-todo") {
+          writeText(attribs.checked === "true" ? "☑ " : "☐ ");
+          sourceStack.push({ kind: "other" });
+        } else if (name === "br") {
+          if (paragraphOpen || !needsParagraph()) {
+            closeMarks();
+            output.push("<br>");
+          } else {
+            output.push("<p></p>"); // A line break on its own is an empty line
+          }
+          sourceStack.push({ kind: "other" });
+        } else if (name === "hr") {
+          closeParagraph();
+          if (!inPre()) output.push("<hr>");
+          sourceStack.push({ kind: "other" });
+        } else if (BLOCK_TAGS.has(name) && !inPre()) {
+          closeParagraph();
+          output.push(`<${name}>`);
+          blockStack.push(name);
+          sourceStack.push({ kind: "block" });
+        } else if (PARAGRAPH_BREAK_TAGS.has(name)) {
+          closeParagraph();
+          sourceStack.push({ kind: "other" });
+        } else if (name === "a") {
+          sourceStack.push({ kind: "link", href: attribs.href, text: "" });
+        } else {
+          const { marks, color } = getInlineFormatting(name, attribs);
+          const open = (color ? `<span style="color: ${color}">` : "") + marks.map(mark => `<${mark}>`).join("");
+          const close = marks.slice().reverse().map(mark => `</${mark}>`).join("") + (color ? "</span>" : "");
+          if (open) {
+            markStack.push({ open, close });
+            sourceStack.push({ kind: "mark" });
+          } else {
+            sourceStack.push({ kind: "other" }); // Unknown wrapper: keep its text only
+          }
+        }
+      },
+
+      ontext(text) {
+        if (droppedDepth > 0) return;
+        for (const entry of sourceStack) {
+          if (entry.kind === "link") entry.text += text;
+        }
+        writeText(text);
+      },
+
+      onclosetag(name) {
+        if (droppedDepth > 0) {
+          droppedDepth--;
+          return;
+        }
+        const entry = sourceStack.pop();
+        if (!entry) return;
+
+        if (entry.kind === "block") {
+          closeParagraph();
+          output.push(`</${blockStack.pop()}>`);
+        } else if (entry.kind === "mark") {
+          if (emittedMarks === markStack.length) {
+            emittedMarks--;
+            output.push(markStack[emittedMarks].close);
+          }
+          markStack.pop();
+        } else if (entry.kind === "link") {
+          // The editor has no links yet, so keep the address next to the text
+          const href = entry.href?.trim();
+          if (href && /^(https?:|mailto:)/i.test(href) && entry.text?.trim() !== href) {
+            writeText(` (${href})`);
+          }
+        } else if (PARAGRAPH_BREAK_TAGS.has(name)) {
+          closeParagraph();
+        }
+      },
+    },
+    { decodeEntities: true, lowerCaseTags: true, lowerCaseAttributeNames: true, recognizeSelfClosing: true }
+  );
+
+  parser.write(enml);
+  parser.end();
+  closeParagraph();
+  while (blockStack.length > 0) {
+    output.push(`</${blockStack.pop()}>`);
+  }
+
+  return { html: output.join(""), droppedMediaCount, droppedEncryptedCount };
+}
@@ -0,0 +1,61 @@
+/**
+ * Shared helpers for exporting notes as Markdown.
+ * Safe to import from client components (no server-only dependencies).
+ * Location: /lib/export.ts
+ */
+
+export type ExportScope =
+  | { noteId: string }
+  | { categoryId: string }
+  | Record<string, never>; // Whole account
+
+/**
+ * URL of the export route for a note (a single .md file), a category, or the
+ * whole account (zip archives organised by category folder).
+ */
+export function getExportUrl(scope: ExportScope = {}): string {
+  const params = new URLSearchParams(scope as Record<string, string>);
+  const query = params.toString();
+  return `/api/export${query ? `?${query}` : ""}`;
+}
+
+const MAX_FILE_NAME_LENGTH = 80;
+
+/**
+ * Turns a note or category name into a portable file/folder name.
+ */
+export function toSafeFileName(name: string, fallback = "untitled"): string {
+  const safeName = name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, "") // Characters not allowed on common file systems
+    .replace(/\s+/g, " ")
+    .replace(/^[.\s]+|[.\s]+$/g, "") // No leading dots (hidden files) or trailing dots/spaces
+    .slice(0, MAX_FILE_NAME_LENGTH)
+    .trim();
+  return safeName || fallback;
+}
+
+/**
+ * Hands out unique archive paths, appending " (2)", " (3)" … when two notes
+ * in the same folder share a title.
+ */
+export function createUniquePathAllocator() {
+  const usedPaths = new Set<string>();
+  return (folder: string, baseName: string, extension: string): string => {
+    const prefix = folder ? `${folder}/` : "";
+    let path = `${prefix}${baseName}${extension}`;
+    for (let counter = 2; usedPaths.has(path.toLowerCase()); counter++) {
+      path = `${prefix}${baseName} (${counter})${extension}`;
+    }
+    usedPaths.add(path.toLowerCase());
+    return path;
+  };
+}
+
+/**
+ * Content-Disposition header value for a download, with an ASCII fallback
+ * name and the full UTF-8 name for clients that support it.
+ */
+export function getAttachmentDisposition(fileName: string): string {
+  const asciiName = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/"/g, "'");
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
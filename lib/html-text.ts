@@ -0,0 +1,46 @@
+/**
+ * Helpers for turning stored note HTML (Tiptap output) into plain text.
+ * Used wherever note content has to be shown or compared as text rather than markup.
+ * Location: /lib/html-text.ts
+ */
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Decodes the handful of entities Tiptap emits plus numeric references.
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const codePoint = entity[1].toLowerCase() === "x"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isNaN(codePoint) ? match : String.fromCodePoint(codePoint);
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Tags that start a new line of text when flattened
+const BLOCK_TAGS = "p|div|h[1-6]|li|blockquote|pre|tr|br|hr|ul|ol|table";
+
+/**
+ * Converts note HTML into plain text with one line per block element
+ * (paragraph, heading, list item, ...). Blank lines are dropped.
+ */
+export function htmlToPlainTextLines(html: string): string[] {
+  const text = html
+    .replace(new RegExp(`<(?:/)?(?:${BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n")
+    .replace(/<[^>]*>/g, "");
+  return decodeHtmlEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line) => line.length > 0);
+}
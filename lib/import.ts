@@ -0,0 +1,44 @@
+/**
+ * Import limits and accepted file types shared by the import dialog and the
+ * import routes.
+ * Location: /lib/import.ts
+ */
+import type { ImportReport } from "@/types";
+
+export const MARKDOWN_EXTENSIONS = [".md", ".markdown"];
+export const HTML_EXTENSIONS = [".html", ".htm"];
+export const ZIP_EXTENSIONS = [".zip"];
+export const ENEX_EXTENSIONS = [".enex"]; // Evernote exports, streamed to /api/import/enex
+
+// Value for the file input's `accept` attribute
+export const IMPORT_ACCEPT = [...MARKDOWN_EXTENSIONS, ...HTML_EXTENSIONS, ...ZIP_EXTENSIONS, ...ENEX_EXTENSIONS].join(",");
+
+export const MAX_IMPORT_UPLOAD_MB = 25; // Total size of one import request
+export const MAX_IMPORT_FILE_MB = 5; // Size of a single note file (also inside zips)
+export const MAX_IMPORT_NOTES = 1000; // Notes created by one import
+export const MAX_IMPORT_UNZIPPED_MB = 100; // Unpacked size of all zip entries in one import
+export const MAX_ENEX_UPLOAD_MB = 200; // One Evernote export; streamed, so it can exceed the upload limit
+
+/**
+ * Combines the reports of several import requests (e.g. Markdown files and
+ * Evernote exports uploaded together) into one.
+ */
+export function mergeImportReports(reports: ImportReport[]): ImportReport {
+  const files = reports.flatMap(report => report.files);
+  return {
+    files,
+    importedCount: reports.reduce((sum, report) => sum + report.importedCount, 0),
+    skippedCount: reports.reduce((sum, report) => sum + report.skippedCount, 0),
+    failedCount: reports.reduce((sum, report) => sum + report.failedCount, 0),
+    createdCategories: Array.from(new Set(reports.flatMap(report => report.createdCategories))),
+  };
+}
+
+/**
+ * Lower-cased extension of a path, including the dot ("" when there is none).
+ */
+export function getFileExtension(path: string): string {
+  const fileName = path.split("/").pop() ?? "";
+  const dotIndex = fileName.lastIndexOf(".");
+  return dotIndex > 0 ? fileName.slice(dotIndex).toLowerCase() : "";
+}
@@ -0,0 +1,211 @@
+/**
+ * Conversion between the editor's HTML and Markdown files.
+ * Notes are stored as Tiptap HTML; exports are CommonMark with a YAML
+ * front-matter block carrying the note's metadata, and imports read the same
+ * format back (plus Obsidian-style [[links]]).
+ * Location: /lib/markdown.ts
+ */
+import TurndownService from "turndown";
+import MarkdownIt from "markdown-it";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { NOTE_LINK_ID_ATTRIBUTE, getNoteHref } from "@/lib/note-links";
+
+export interface NoteFrontMatter {
+  title: string;
+  category?: string | null;
+  tags?: string[];
+  created?: Date;
+  updated?: Date;
+}
+
+let turndownService: TurndownService | null = null;
+
+function getTurndownService(): TurndownService {
+  if (turndownService) return turndownService;
+
+  const service = new TurndownService({
+    headingStyle: "atx",
+    codeBlockStyle: "fenced",
+    bulletListMarker: "-",
+    emDelimiter: "*",
+    hr: "---",
+  });
+
+  // Tiptap wraps every list item in <p>; keep lists tight with a single space after the marker
+  service.addRule("listItem", {
+    filter: "li",
+    replacement: (content, node, options) => {
+      const parent = node.parentNode as HTMLElement | null;
+      let marker = `${options.bulletListMarker} `;
+      if (parent?.nodeName === "OL") {
+        const start = Number(parent.getAttribute("start") || 1);
+        marker = `${start + Array.prototype.indexOf.call(parent.children, node)}. `;
+      }
+      const body = content
+        .replace(/^\n+|\n+$/g, "")
+        .replace(/\n{2,}/g, "\n")
+        .replace(/\n/g, `\n${" ".repeat(marker.length)}`);
+      // Task items use the GFM checkbox form, "- [ ] text" / "- [x] text"
+      const checkbox = (node as HTMLElement).getAttribute("data-type") === "taskItem"
+        ? ((node as HTMLElement).getAttribute("data-checked") === "true" ? "[x] " : "[ ] ")
+        : "";
+      return `${marker}${checkbox}${body}${node.nextSibling ? "\n" : ""}`;
+    },
+  });
+
+  // CommonMark has no strikethrough; the GFM form is understood almost everywhere
+  service.addRule("strikethrough", {
+    filter: ["s", "del"],
+    replacement: content => (content ? `~~${content}~~` : ""),
+  });
+
+  // [[links]] between notes keep their wiki form
+  service.addRule("noteLink", {
+    filter: node => node.nodeName === "A" && node.hasAttribute(NOTE_LINK_ID_ATTRIBUTE),
+    replacement: content => `[[${content}]]`,
+  });
+
+  // No Markdown equivalent; keep the text
+  service.addRule("underline", {
+    filter: ["u"],
+    replacement: content => content,
+  });
+
+  turndownService = service;
+  return service;
+}
+
+/**
+ * Converts editor HTML to Markdown (headings, lists and task lists, marks,
+ * code blocks, links).
+ */
+export function htmlToMarkdown(html: string | null | undefined): string {
+  if (!html) return "";
+  return getTurndownService().turndown(html).trim();
+}
+
+/**
+ * Renders a YAML front-matter block, including the closing `---` line.
+ */
+export function buildFrontMatter({ title, category, tags, created, updated }: NoteFrontMatter): string {
+  const data: Record<string, unknown> = { title };
+  if (category) data.category = category;
+  if (tags && tags.length > 0) data.tags = tags;
+  if (created) data.created = created.toISOString();
+  if (updated) data.updated = updated.toISOString();
+  return `---\n${stringifyYaml(data)}---\n`;
+}
+
+/**
+ * A complete Markdown file for a note: front-matter followed by the body.
+ */
+export function noteToMarkdown(content: string | null | undefined, frontMatter: NoteFrontMatter): string {
+  const body = htmlToMarkdown(content);
+  return `${buildFrontMatter(frontMatter)}\n${body}${body ? "\n" : ""}`;
+}
+
+export interface ParsedFrontMatter {
+  data: Record<string, unknown>; // Empty when the file has no front-matter
+  body: string;
+}
+
+const FRONT_MATTER_PATTERN = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Splits a leading YAML front-matter block off a Markdown file.
+ * Throws if the block is present but isn't a YAML mapping.
+ */
+export function parseFrontMatter(text: string): ParsedFrontMatter {
+  const match = FRONT_MATTER_PATTERN.exec(text);
+  if (!match) {
+    return { data: {}, body: text.replace(/^\uFEFF/, "") };
+  }
+  let data: unknown;
+  try {
+    data = parseYaml(match[1]);
+  } catch (error) {
+    throw new Error(`Invalid front-matter: ${error instanceof Error ? error.message : "could not parse YAML"}`);
+  }
+  if (data !== null && data !== undefined && (typeof data !== "object" || Array.isArray(data))) {
+    throw new Error("Invalid front-matter: expected key/value pairs");
+  }
+  return { data: (data as Record<string, unknown> | null) ?? {}, body: text.slice(match[0].length) };
+}
+
+export interface MarkdownToHtmlOptions {
+  // Returns the ID of the note a [[Title]] link points to, if it can be found
+  resolveNoteLink?: (title: string) => string | undefined;
+}
+
+let markdownRenderer: MarkdownIt | null = null;
+
+function getMarkdownRenderer(): MarkdownIt {
+  if (markdownRenderer) return markdownRenderer;
+
+  // Raw HTML inside Markdown is shown as text rather than trusted
+  const md = new MarkdownIt({ html: false, linkify: true });
+
+  // Obsidian-style [[Target]], [[Target|Label]] and [[Target#Heading]]
+  md.inline.ruler.before("link", "wikilink", (state, silent) => {
+    const start = state.pos;
+    if (state.src.charCodeAt(start) !== 0x5b || state.src.charCodeAt(start + 1) !== 0x5b) {
+      return false;
+    }
+    const end = state.src.indexOf("]]", start + 2);
+    if (end < 0) return false;
+    const inner = state.src.slice(start + 2, end);
+    if (!inner.trim() || /[\n[\]]/.test(inner)) return false;
+    if (!silent) {
+      const [target, alias] = inner.split("|");
+      const token = state.push("wikilink", "", 0);
+      token.meta = { target: target.split("#")[0].trim(), label: (alias ?? target).trim() };
+    }
+    state.pos = end + 2;
+    return true;
+  });
+
+  md.renderer.rules.wikilink = (tokens, index, _options, env: MarkdownToHtmlOptions) => {
+    const { target, label } = tokens[index].meta as { target: string; label: string };
+    const escapedLabel = md.utils.escapeHtml(label);
+    const noteId = env?.resolveNoteLink?.(target);
+    if (!noteId) {
+      return `[[${escapedLabel}]]`; // Unresolved links stay as plain text
+    }
+    return `<a ${NOTE_LINK_ID_ATTRIBUTE}="${noteId}" href="${getNoteHref(noteId)}">${escapedLabel}</a>`;
+  };
+
+  // GFM task lists: "- [ ] text" becomes an editor task item
+  md.core.ruler.after("inline", "task_lists", state => {
+    const tokens = state.tokens;
+    for (let index = 2; index < tokens.length; index++) {
+      const inline = tokens[index];
+      const listItem = tokens[index - 2];
+      if (inline.type !== "inline" || listItem.type !== "list_item_open" || tokens[index - 1].type !== "paragraph_open") {
+        continue;
+      }
+      const match = /^\[([ xX])\][ \t]+/.exec(inline.content);
+      const firstChild = inline.children?.[0];
+      if (!match || firstChild?.type !== "text" || !firstChild.content.startsWith(match[0])) continue;
+
+      let listIndex = index - 3;
+      while (listIndex >= 0 && tokens[listIndex].level >= listItem.level) listIndex--;
+      if (listIndex < 0 || tokens[listIndex].type !== "bullet_list_open") continue;
+
+      tokens[listIndex].attrSet("data-type", "taskList");
+      listItem.attrSet("data-type", "taskItem");
+      listItem.attrSet("data-checked", match[1] === " " ? "false" : "true");
+      firstChild.content = firstChild.content.slice(match[0].length);
+      inline.content = inline.content.slice(match[0].length);
+    }
+  });
+
+  markdownRenderer = md;
+  return md;
+}
+
+/**
+ * Converts Markdown to HTML the editor can load.
+ */
+export function markdownToHtml(markdown: string, options: MarkdownToHtmlOptions = {}): string {
+  return getMarkdownRenderer().render(markdown, options).trim();
+}
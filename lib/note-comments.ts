@@ -0,0 +1,62 @@
+/**
+ * Helpers for inline comment threads on notes.
+ * A thread is anchored to the text it was started on by a comment mark,
+ * serialized as `<span data-comment-id="...">` with the ID of the thread's
+ * first comment (see /components/rich-text-editor/extensions/comment.ts).
+ * The mark moves with its text as the note is edited, so the anchor survives
+ * edits around it.
+ * Location: /lib/note-comments.ts
+ */
+import type { NoteComment } from "@/db/queries/note-comments-queries";
+
+export const COMMENT_ID_ATTRIBUTE = "data-comment-id";
+
+export const MAX_COMMENT_LENGTH = 5000;
+export const MAX_COMMENT_QUOTE_LENGTH = 500; // Of the commented text kept with the thread
+
+// A thread's first comment (which holds the quote and the resolved state) and its replies
+export interface NoteCommentThread {
+  comment: NoteComment;
+  replies: NoteComment[];
+}
+
+/**
+ * Checks the text of a comment; returns the problem, or null if it's fine.
+ */
+export function validateCommentContent(content: string): string | null {
+  if (!content.trim()) return "Write a comment first.";
+  if (content.length > MAX_COMMENT_LENGTH) {
+    return `Comments can be at most ${MAX_COMMENT_LENGTH} characters.`;
+  }
+  return null;
+}
+
+/**
+ * The commented text as kept with a thread: whitespace collapsed and cut to
+ * MAX_COMMENT_QUOTE_LENGTH.
+ */
+export function normalizeCommentQuote(quote: string): string {
+  const collapsed = quote.replace(/\s+/g, " ").trim();
+  return collapsed.length > MAX_COMMENT_QUOTE_LENGTH
+    ? `${collapsed.slice(0, MAX_COMMENT_QUOTE_LENGTH - 1)}…`
+    : collapsed;
+}
+
+/**
+ * Groups a note's comments (oldest first) into threads, in the order the
+ * threads were started.
+ */
+export function groupCommentThreads(comments: NoteComment[]): NoteCommentThread[] {
+  const threads = new Map<string, NoteCommentThread>();
+  for (const comment of comments) {
+    if (!comment.parentId) {
+      threads.set(comment.id, { comment, replies: [] });
+    }
+  }
+  for (const comment of comments) {
+    if (comment.parentId) {
+      threads.get(comment.parentId)?.replies.push(comment);
+    }
+  }
+  return Array.from(threads.values());
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { sanitizeNoteHtml } from "./note-html-sanitizer";
+
+const THREAD_ID = "3f2b8c1e-1d2a-4c3b-9e8f-0a1b2c3d4e5f";
+
+describe("sanitizeNoteHtml", () => {
+  it("returns an empty string for empty input", () => {
+    expect(sanitizeNoteHtml(null)).toBe("");
+    expect(sanitizeNoteHtml(undefined)).toBe("");
+    expect(sanitizeNoteHtml("")).toBe("");
+  });
+
+  it("keeps what the editor writes unchanged", () => {
+    const html = [
+      '<h2 style="text-align: center">Title</h2>',
+      "<p>Some <strong>bold</strong>, <em>italic</em>, <u>underlined</u> and <s>struck</s> text<br></p>",
+      '<p><span style="color: #ff0000">red</span> and <a href="https://example.com" target="_blank" rel="noopener noreferrer nofollow">a link</a></p>',
+      '<ul data-type="taskList"><li data-type="taskItem" data-checked="true"><label><input type="checkbox" checked="checked"></label><p>Done</p></li></ul>',
+      '<pre><code class="language-ts">const a = 1;</code></pre>',
+      '<table style="min-width: 50px"><colgroup><col style="min-width: 25px"></colgroup><tbody><tr><th colspan="1" rowspan="1"><p>Head</p></th></tr></tbody></table>',
+      `<p><span data-comment-id="${THREAD_ID}">commented</span></p>`,
+      '<img src="https://example.com/a.png" alt="A">',
+    ].join("");
+    expect(sanitizeNoteHtml(html)).toBe(html);
+  });
+
+  it("renames tags the editor reads as its own marks", () => {
+    expect(sanitizeNoteHtml("<b>a</b><i>b</i><del>c</del><strike>d</strike>")).toBe(
+      "<strong>a</strong><em>b</em><s>c</s><s>d</s>"
+    );
+  });
+
+  it("removes scripts, styles and embeds together with their content", () => {
+    expect(
+      sanitizeNoteHtml('<p>a<script>alert(1)</script>b</p><style>p{}</style><iframe src="x">c</iframe><svg><a>d</a></svg>')
+    ).toBe("<p>ab</p>");
+  });
+
+  it("unwraps unknown tags so their text survives", () => {
+    expect(sanitizeNoteHtml("<section><article><p>kept</p></article></section><marquee>too</marquee>")).toBe(
+      "<p>kept</p>too"
+    );
+  });
+
+  it("drops event handlers and attributes the editor never writes", () => {
+    expect(sanitizeNoteHtml('<p onclick="alert(1)" class="x" id="y">a</p>')).toBe("<p>a</p>");
+    expect(sanitizeNoteHtml('<img src="https://e.com/a.png" onerror="alert(1)">')).toBe(
+      '<img src="https://e.com/a.png">'
+    );
+  });
+
+  it("drops javascript: and other non-web URLs, however they are disguised", () => {
+    expect(sanitizeNoteHtml('<a href="javascript:alert(1)">x</a>')).toBe("<a>x</a>");
+    expect(sanitizeNoteHtml('<a href="java\tscript:alert(1)">x</a>')).toBe("<a>x</a>");
+    expect(sanitizeNoteHtml('<a href="&#106;avascript:alert(1)">x</a>')).toBe("<a>x</a>");
+    expect(sanitizeNoteHtml('<a href="data:text/html,x">x</a>')).toBe("<a>x</a>");
+    expect(sanitizeNoteHtml('<a href="/dashboard/notes">x</a>')).toBe('<a href="/dashboard/notes">x</a>');
+    expect(sanitizeNoteHtml('<a href="mailto:a@b.co">x</a>')).toBe('<a href="mailto:a@b.co">x</a>');
+  });
+
+  it("drops images without a safe source entirely", () => {
+    expect(sanitizeNoteHtml('<p><img src="javascript:alert(1)"><img alt="no source"></p>')).toBe("<p></p>");
+  });
+
+  it("keeps only the CSS properties and values the editor writes", () => {
+    expect(sanitizeNoteHtml('<span style="color: red; background: url(x); position: fixed">a</span>')).toBe(
+      '<span style="color: red">a</span>'
+    );
+    expect(sanitizeNoteHtml('<span style="color: expression(alert(1))">a</span>')).toBe("<span>a</span>");
+    expect(sanitizeNoteHtml('<p style="text-align: middle">a</p>')).toBe("<p>a</p>");
+  });
+
+  it("only keeps comment anchors and note links with UUID values", () => {
+    expect(sanitizeNoteHtml('<span data-comment-id="x&quot; onclick=&quot;alert(1)">a</span>')).toBe(
+      "<span>a</span>"
+    );
+    expect(sanitizeNoteHtml('<a data-note-id="not-a-uuid">a</a>')).toBe("<a>a</a>");
+  });
+
+  it("escapes text and attribute values", () => {
+    expect(sanitizeNoteHtml("<p>&lt;script&gt;alert(1)&lt;/script&gt; &amp;</p>")).toBe(
+      "<p>&lt;script&gt;alert(1)&lt;/script&gt; &amp;</p>"
+    );
+    expect(sanitizeNoteHtml('<img src="https://e.com/a.png" alt="&quot;><script>">')).toBe(
+      '<img src="https://e.com/a.png" alt="&quot;><script>">'
+    );
+  });
+
+  it("never resolves tag or attribute names to Object.prototype members", () => {
+    expect(sanitizeNoteHtml('<constructor>a</constructor><p constructor="x" __proto__="y">b</p>')).toBe("a<p>b</p>");
+  });
+
+  it("closes tags left open and ignores stray closing tags", () => {
+    expect(sanitizeNoteHtml("<p><strong>open")).toBe("<p><strong>open</strong></p>");
+    expect(sanitizeNoteHtml("a</div></strong>b")).toBe("ab");
+  });
+});
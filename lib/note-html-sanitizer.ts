@@ -0,0 +1,212 @@
+/**
+ * Server-side sanitizer for note HTML.
+ * The allow-list below mirrors the note editor's Tiptap schema (StarterKit,
+ * text color, underline, alignment, links and note links, inline images,
+ * task lists, tables, highlighted code blocks, callouts and comment anchors): anything the
+ * editor can produce passes through unchanged, everything else is dropped.
+ * Tags the editor reads as one of its own (<b>, <i>, <del>, ...) are renamed
+ * to it. Unknown tags are unwrapped so their text survives; scripts, styles,
+ * embeds and comments are removed together with their content, and so are
+ * event handler attributes and javascript: (or any non-web) URLs.
+ * Location: /lib/note-html-sanitizer.ts
+ */
+import { Parser } from "htmlparser2";
+import { NOTE_LINK_ID_ATTRIBUTE } from "@/lib/note-links";
+import { COMMENT_ID_ATTRIBUTE } from "@/lib/note-comments";
+
+// Returns the value to keep, or null to drop the attribute
+type AttributeRule = (value: string) => string | null;
+
+interface TagRule {
+  attributes: Record<string, AttributeRule>;
+  required?: string[]; // The whole tag is dropped when one of these is missing
+}
+
+// Own-property lookup, so names like "constructor" never resolve to Object.prototype members
+function lookup<T>(record: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+}
+
+const anyValue: AttributeRule = value => value;
+
+const oneOf = (...allowed: string[]): AttributeRule => value => (allowed.includes(value) ? value : null);
+
+const matching = (pattern: RegExp): AttributeRule => value => (pattern.test(value) ? value : null);
+
+const NUMBER = matching(/^\d{1,4}$/);
+
+/**
+ * Keeps relative URLs and absolute ones using one of `protocols`. Whitespace
+ * and control characters are removed first, since browsers ignore them inside
+ * a scheme ("java\tscript:").
+ */
+const safeUrl = (protocols: string[]): AttributeRule => value => {
+  // eslint-disable-next-line no-control-regex
+  const url = value.replace(/[\u0000-\u0020\u007f]/g, "");
+  if (!url) return null;
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url);
+  return !scheme || protocols.includes(scheme[1].toLowerCase()) ? url : null;
+};
+
+const STYLE_VALUE_RULES: Record<string, RegExp> = {
+  color: /^(#[0-9a-f]{3,8}|rgba?\(\s*[\d.\s,%]+\)|[a-z]{3,20})$/i,
+  "text-align": /^(left|center|right|justify)$/,
+  width: /^\d+(\.\d+)?px$/,
+  "min-width": /^\d+(\.\d+)?px$/,
+};
+
+/**
+ * Keeps only the listed CSS properties, each with a value of the shape the
+ * editor writes.
+ */
+const styleWith = (...properties: string[]): AttributeRule => value => {
+  const declarations: string[] = [];
+  for (const declaration of value.split(";")) {
+    const separatorIndex = declaration.indexOf(":");
+    if (separatorIndex === -1) continue;
+    const property = declaration.slice(0, separatorIndex).trim().toLowerCase();
+    const propertyValue = declaration.slice(separatorIndex + 1).trim();
+    if (properties.includes(property) && !!lookup(STYLE_VALUE_RULES, property)?.test(propertyValue)) {
+      declarations.push(`${property}: ${propertyValue}`);
+    }
+  }
+  return declarations.length > 0 ? declarations.join("; ") : null;
+};
+
+const TEXT_BLOCK: TagRule = { attributes: { style: styleWith("text-align") } };
+const PLAIN: TagRule = { attributes: {} };
+const TABLE_CELL: TagRule = {
+  attributes: { colspan: NUMBER, rowspan: NUMBER, colwidth: matching(/^\d{1,5}(,\d{1,5})*$/) },
+};
+
+const TAG_RULES: Record<string, TagRule> = {
+  // Blocks
+  p: TEXT_BLOCK,
+  h1: TEXT_BLOCK,
+  h2: TEXT_BLOCK,
+  h3: TEXT_BLOCK,
+  h4: TEXT_BLOCK,
+  h5: TEXT_BLOCK,
+  h6: TEXT_BLOCK,
+  blockquote: PLAIN,
+  hr: PLAIN,
+  br: PLAIN,
+  pre: PLAIN,
+  ul: { attributes: { "data-type": oneOf("taskList") } },
+  ol: { attributes: { start: NUMBER, type: oneOf("1", "a", "A", "i", "I") } },
+  li: { attributes: { "data-type": oneOf("taskItem"), "data-checked": oneOf("true", "false") } },
+  label: PLAIN, // Task item checkbox wrapper
+  input: { attributes: { type: oneOf("checkbox"), checked: () => "checked" }, required: ["type"] },
+  div: { attributes: { "data-callout": matching(/^[a-z-]{1,20}$/), class: oneOf("callout") } },
+  table: { attributes: { style: styleWith("width", "min-width") } },
+  colgroup: PLAIN,
+  col: { attributes: { style: styleWith("width", "min-width") } },
+  thead: PLAIN,
+  tbody: PLAIN,
+  tr: PLAIN,
+  th: TABLE_CELL,
+  td: TABLE_CELL,
+  // Marks and inline nodes
+  strong: PLAIN,
+  em: PLAIN,
+  s: PLAIN,
+  u: PLAIN,
+  code: { attributes: { class: matching(/^language-[\w+#.-]{1,30}$/) } },
+  span: { attributes: { style: styleWith("color"), [COMMENT_ID_ATTRIBUTE]: matching(/^[0-9a-f-]{36}$/i) } },
+  a: {
+    attributes: {
+      href: safeUrl(["http", "https", "mailto", "tel"]),
+      target: oneOf("_blank"),
+      rel: matching(/^[a-z ]{1,50}$/),
+      class: matching(/^[\w :-]{1,200}$/),
+      [NOTE_LINK_ID_ATTRIBUTE]: matching(/^[0-9a-f-]{36}$/i),
+    },
+  },
+  img: {
+    attributes: { src: safeUrl(["http", "https"]), alt: anyValue, title: anyValue },
+    required: ["src"],
+  },
+};
+
+// Tags the editor's marks also parse, mapped to the tag the editor writes
+const TAG_ALIASES: Record<string, string> = {
+  b: "strong",
+  i: "em",
+  strike: "s",
+  del: "s",
+};
+
+// Removed together with everything inside them
+const DROPPED_WITH_CONTENT = new Set([
+  "script", "style", "iframe", "frame", "frameset", "object", "embed", "applet",
+  "noscript", "noembed", "noframes", "template", "textarea", "select", "option",
+  "svg", "math", "head", "title", "xmp",
+]);
+
+const VOID_TAGS = new Set(["br", "hr", "img", "input", "col"]);
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\u00a0/g, "&nbsp;");
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/\u00a0/g, "&nbsp;");
+}
+
+/**
+ * Returns `html` reduced to the tags and attributes the note editor supports.
+ */
+export function sanitizeNoteHtml(html: string | null | undefined): string {
+  if (!html) return "";
+
+  let output = "";
+  let droppedDepth = 0; // > 0 while inside a tag removed with its content
+  const openTags: (string | null)[] = []; // Each open tag as written to the output, or null if it was dropped
+
+  const parser = new Parser(
+    {
+      onopentag(sourceName, attribs) {
+        if (droppedDepth > 0 || DROPPED_WITH_CONTENT.has(sourceName)) {
+          droppedDepth++;
+          return;
+        }
+        const name = lookup(TAG_ALIASES, sourceName) ?? sourceName;
+        const rule = lookup(TAG_RULES, name);
+        const attributes: string[] = [];
+        const kept = new Set<string>();
+        if (rule) {
+          for (const [attribute, value] of Object.entries(attribs)) {
+            const attributeRule = lookup(rule.attributes, attribute);
+            const cleaned = attributeRule ? attributeRule(value) : null;
+            if (cleaned === null) continue;
+            kept.add(attribute);
+            attributes.push(` ${attribute}="${escapeAttribute(cleaned)}"`);
+          }
+        }
+        const isWritten = !!rule && (rule.required ?? []).every(attribute => kept.has(attribute));
+        if (isWritten) {
+          output += `<${name}${attributes.join("")}>`;
+        }
+        openTags.push(isWritten ? name : null);
+      },
+      ontext(text) {
+        if (droppedDepth === 0) output += escapeText(text);
+      },
+      onclosetag() {
+        if (droppedDepth > 0) {
+          droppedDepth--;
+          return;
+        }
+        const writtenName = openTags.pop();
+        if (writtenName && !VOID_TAGS.has(writtenName)) {
+          output += `</${writtenName}>`;
+        }
+      },
+    },
+    { decodeEntities: true, lowerCaseTags: true, lowerCaseAttributeNames: true }
+  );
+  parser.write(html);
+  parser.end();
+
+  return output;
+}
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { strToU8, zipSync } from "fflate";
+
+vi.mock("@/db/queries/categories-queries", () => ({}));
+vi.mock("@/db/queries/notes-queries", () => ({}));
+vi.mock("@/db/queries/tags-queries", () => ({}));
+vi.mock("@/db/queries/note-links-queries", () => ({}));
+vi.mock("@/db/queries/note-tasks-queries", () => ({}));
+vi.mock("@/lib/import", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/import")>()),
+  MAX_IMPORT_NOTES: 3,
+  MAX_IMPORT_UNZIPPED_MB: 1,
+}));
+
+import { expandImportUploads } from "./note-import";
+
+const KB = 1024;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const zip = (entries: Record<string, Uint8Array>) => zipSync(entries, { level: 9 });
+
+describe("expandImportUploads", () => {
+  it("replaces zips with their entries and keeps other files", () => {
+    const { files, results } = expandImportUploads([
+      { path: "notes.zip", data: zip({ "Work/a.md": strToU8("# A"), ".DS_Store": strToU8("x") }) },
+      { path: "b.md", data: strToU8("# B") },
+    ]);
+    expect(files.map(file => file.path)).toEqual(["notes.zip/Work/a.md", "b.md"]);
+    expect(results).toEqual([]);
+  });
+
+  it("skips entries over the per-file limit without inflating them", () => {
+    const { files, results } = expandImportUploads([
+      { path: "big.zip", data: zip({ "huge.md": new Uint8Array(6 * KB * KB), "small.md": strToU8("# S") }) },
+    ]);
+    expect(files.map(file => file.path)).toEqual(["big.zip/small.md"]);
+    expect(results).toEqual([{ path: "big.zip/huge.md", status: "skipped", message: "Larger than 5 MB" }]);
+  });
+
+  it("stops unpacking once the entries of all zips reach the note limit", () => {
+    const entries = (prefix: string) => ({ [`${prefix}1.md`]: strToU8("1"), [`${prefix}2.md`]: strToU8("2") });
+    const { files, results } = expandImportUploads([
+      { path: "a.zip", data: zip(entries("a")) },
+      { path: "b.zip", data: zip(entries("b")) },
+    ]);
+    expect(files).toHaveLength(3);
+    expect(results).toEqual([
+      { path: "b.zip/b2.md", status: "skipped", message: "Only 3 notes can be imported at once" },
+    ]);
+  });
+
+  it("stops unpacking once the entries reach the total size limit", () => {
+    const { files, results } = expandImportUploads([
+      {
+        path: "bomb.zip",
+        data: zip({
+          "1.md": new Uint8Array(400 * KB),
+          "2.md": new Uint8Array(400 * KB),
+          "3.md": new Uint8Array(400 * KB),
+        }),
+      },
+    ]);
+    expect(files.map(file => file.path)).toEqual(["bomb.zip/1.md", "bomb.zip/2.md"]);
+    expect(results).toEqual([
+      { path: "bomb.zip/3.md", status: "skipped", message: "Zip contents are limited to 1 MB per import" },
+    ]);
+  });
+
+  it("reports zips that can't be read", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { files, results } = expandImportUploads([{ path: "broken.zip", data: strToU8("not a zip") }]);
+    expect(files).toEqual([]);
+    expect(results).toEqual([{ path: "broken.zip", status: "failed", message: "Could not read the zip archive" }]);
+  });
+});
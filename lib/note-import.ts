@@ -0,0 +1,407 @@
+/**
+ * Server-side note import pipeline.
+ * Turns uploaded Markdown, HTML and zip files into notes: expands zips,
+ * parses front-matter, maps top-level folders to categories (creating the
+ * missing ones), resolves [[links]] between imported notes, and creates the
+ * notes in bulk. Every input file ends up in the returned per-file report.
+ * Location: /lib/note-import.ts
+ */
+import { randomUUID } from "crypto";
+import { unzipSync } from "fflate";
+import { createCategory, getCategoriesForWorkspaceAndBase } from "@/db/queries/categories-queries";
+import { createNotes, getNotesByWorkspaceId } from "@/db/queries/notes-queries";
+import { setNoteTags } from "@/db/queries/tags-queries";
+import { syncNoteLinksFromContent } from "@/db/queries/note-links-queries";
+import { syncNoteTasksFromContent } from "@/db/queries/note-tasks-queries";
+import type { InsertNote, SelectCategory } from "@/db/schema";
+import type { ImportFileResult, ImportReport } from "@/types";
+import { getCategoryColor } from "@/lib/categories";
+import { decodeHtmlEntities } from "@/lib/html-text";
+import {
+  HTML_EXTENSIONS,
+  MARKDOWN_EXTENSIONS,
+  MAX_IMPORT_FILE_MB,
+  MAX_IMPORT_NOTES,
+  MAX_IMPORT_UNZIPPED_MB,
+  ZIP_EXTENSIONS,
+  getFileExtension,
+} from "@/lib/import";
+import { markdownToHtml, parseFrontMatter } from "@/lib/markdown";
+import { extractNoteLinkIds } from "@/lib/note-links";
+import { extractNoteTasks } from "@/lib/note-task-extraction";
+import { sanitizeNoteHtml } from "@/lib/note-html-sanitizer";
+import { normalizeTagNames } from "@/lib/tags";
+
+export interface ImportSourceFile {
+  path: string; // File name, or "archive.zip/folder/file.md" for zip entries
+  data: Uint8Array;
+}
+
+/**
+ * A note ready to be created. Importers for other formats (e.g. Evernote)
+ * produce these directly and hand them to `importNoteDrafts`.
+ */
+export interface ImportNoteDraft {
+  path: string; // Shown in the report
+  title: string;
+  body: { format: "markdown" | "html"; text: string };
+  categoryName?: string; // Folder or notebook name; falls back to the default category
+  tags: string[];
+  createdAt?: Date;
+  updatedAt?: Date;
+  warnings?: string[]; // Content that couldn't be imported, shown in the report
+}
+
+const MAX_IMPORT_FILE_BYTES = MAX_IMPORT_FILE_MB * 1024 * 1024;
+const MAX_IMPORT_UNZIPPED_BYTES = MAX_IMPORT_UNZIPPED_MB * 1024 * 1024;
+const CREATE_BATCH_SIZE = 100;
+const MAX_TITLE_LENGTH = 200;
+
+// Zip entries that are never notes and not worth a line in the report
+const IGNORED_ZIP_ENTRY = /(^|\/)(__MACOSX|\.DS_Store|Thumbs\.db|\.git|\.obsidian|\.trash)(\/|$)/;
+
+const utf8Decoder = new TextDecoder("utf-8");
+
+// --- Expanding uploads ------------------------------------------------------
+
+/**
+ * Drops a single wrapping folder shared by every entry (e.g. "My Vault/…"),
+ * so the folders inside it become the categories.
+ */
+function stripSharedRootFolder(paths: string[]): (path: string) => string {
+  const firstSegments = new Set(paths.map(path => (path.includes("/") ? path.split("/")[0] : "")));
+  const [root] = Array.from(firstSegments);
+  const hasNestedFolders = paths.some(path => path.split("/").length > 2);
+  if (firstSegments.size !== 1 || !root || !hasNestedFolders) {
+    return path => path;
+  }
+  return path => path.slice(root.length + 1);
+}
+
+/**
+ * Replaces zip uploads with the note files inside them. Entries that can't be
+ * imported are reported as skipped. Entries are checked against the limits
+ * before they are inflated, so a zip bomb never makes it into memory.
+ */
+export function expandImportUploads(uploads: ImportSourceFile[]): {
+  files: ImportSourceFile[];
+  results: ImportFileResult[];
+} {
+  const files: ImportSourceFile[] = [];
+  const results: ImportFileResult[] = [];
+  // Shared by every zip of the upload
+  let unzippedBytes = 0;
+  let unzippedCount = 0;
+
+  for (const upload of uploads) {
+    if (!ZIP_EXTENSIONS.includes(getFileExtension(upload.path))) {
+      files.push(upload);
+      continue;
+    }
+
+    let entries: Record<string, Uint8Array>;
+    const skippedEntries: ImportFileResult[] = [];
+    const skipEntry = (name: string, message: string) => {
+      skippedEntries.push({ path: `${upload.path}/${name}`, status: "skipped", message });
+      return false;
+    };
+    try {
+      entries = unzipSync(upload.data, {
+        filter: entry => {
+          if (entry.name.endsWith("/") || IGNORED_ZIP_ENTRY.test(entry.name)) return false;
+          if (entry.originalSize > MAX_IMPORT_FILE_BYTES) {
+            return skipEntry(entry.name, `Larger than ${MAX_IMPORT_FILE_MB} MB`);
+          }
+          if (unzippedCount >= MAX_IMPORT_NOTES) {
+            return skipEntry(entry.name, `Only ${MAX_IMPORT_NOTES} notes can be imported at once`);
+          }
+          if (unzippedBytes + entry.originalSize > MAX_IMPORT_UNZIPPED_BYTES) {
+            return skipEntry(entry.name, `Zip contents are limited to ${MAX_IMPORT_UNZIPPED_MB} MB per import`);
+          }
+          unzippedCount++;
+          unzippedBytes += entry.originalSize;
+          return true;
+        },
+      });
+    } catch (error) {
+      console.error(`Error reading zip ${upload.path}:`, error);
+      results.push({ path: upload.path, status: "failed", message: "Could not read the zip archive" });
+      continue;
+    }
+
+    results.push(...skippedEntries);
+
+    const entryNames = Object.keys(entries);
+    const toRelativePath = stripSharedRootFolder(entryNames);
+    for (const name of entryNames) {
+      files.push({ path: `${upload.path}/${toRelativePath(name)}`, data: entries[name] });
+    }
+  }
+
+  return { files, results };
+}
+
+// --- Parsing files ----------------------------------------------------------
+
+function getFileBaseName(path: string): string {
+  const fileName = path.split("/").pop() ?? path;
+  const dotIndex = fileName.lastIndexOf(".");
+  return dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName;
+}
+
+/**
+ * Top-level folder of a file, relative to its zip (null for loose files and
+ * files at the root of a zip).
+ */
+function getTopLevelFolder(path: string): string | null {
+  const zipIndex = path.toLowerCase().indexOf(".zip/");
+  if (zipIndex < 0) return null;
+  const segments = path.slice(zipIndex + ".zip/".length).split("/");
+  return segments.length > 1 && segments[0].trim() ? segments[0].trim() : null;
+}
+
+function toOptionalString(value: unknown): string | undefined {
+  if (typeof value === "string" && value.trim()) return value.trim();
+  if (typeof value === "number") return String(value);
+  return undefined;
+}
+
+function toOptionalDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? undefined : value;
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// Accepts `tags: [a, b]`, `tags: "a, b"` and `tags: "#a #b"`
+function toTagList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return normalizeTagNames(value.map(String));
+  }
+  if (typeof value === "string") {
+    return normalizeTagNames(value.split(value.includes(",") ? "," : /\s+/));
+  }
+  return [];
+}
+
+function clampTitle(title: string): string {
+  return title.replace(/\s+/g, " ").trim().slice(0, MAX_TITLE_LENGTH);
+}
+
+function parseMarkdownFile(path: string, text: string): ImportNoteDraft {
+  const { data, body } = parseFrontMatter(text);
+  let markdown = body;
+  let title = toOptionalString(data.title);
+
+  // Bear and many plain files keep the title as the first "# Heading"
+  const headingMatch = /^\s*#\s+(.+?)\s*#*\s*(?:\r?\n|$)/.exec(markdown);
+  if (headingMatch && (!title || headingMatch[1].trim() === title)) {
+    title = title ?? headingMatch[1];
+    markdown = markdown.slice(headingMatch[0].length);
+  }
+
+  return {
+    path,
+    title: clampTitle(title ?? getFileBaseName(path)),
+    body: { format: "markdown", text: markdown },
+    categoryName: getTopLevelFolder(path) ?? toOptionalString(data.category),
+    tags: toTagList(data.tags ?? data.tag),
+    createdAt: toOptionalDate(data.created ?? data.created_at ?? data.date),
+    updatedAt: toOptionalDate(data.updated ?? data.updated_at ?? data.modified),
+  };
+}
+
+function parseHtmlFile(path: string, text: string): ImportNoteDraft {
+  const titleMatch = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(text);
+  const bodyMatch = /<body[^>]*>([\s\S]*)<\/body>/i.exec(text);
+  const html = (bodyMatch ? bodyMatch[1] : text)
+    .replace(/<(script|style|head|template|iframe|object)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!DOCTYPE[^>]*>|<\/?(html|body|meta|link)\b[^>]*>/gi, "")
+    .trim();
+  const headingMatch = /<h1[^>]*>([\s\S]*?)<\/h1>/i.exec(html);
+  const title = [titleMatch?.[1], headingMatch?.[1]]
+    .map(value => (value ? decodeHtmlEntities(value.replace(/<[^>]*>/g, "")).trim() : ""))
+    .find(Boolean);
+
+  return {
+    path,
+    title: clampTitle(title || getFileBaseName(path)),
+    body: { format: "html", text: html },
+    categoryName: getTopLevelFolder(path) ?? undefined,
+    tags: [],
+  };
+}
+
+/**
+ * Parses one Markdown or HTML file into a draft. Returns a report entry
+ * instead when the file is skipped or can't be parsed.
+ */
+export function parseImportFile(file: ImportSourceFile): ImportNoteDraft | ImportFileResult {
+  const extension = getFileExtension(file.path);
+  const isMarkdown = MARKDOWN_EXTENSIONS.includes(extension);
+  if (!isMarkdown && !HTML_EXTENSIONS.includes(extension)) {
+    return { path: file.path, status: "skipped", message: "Not a Markdown or HTML file" };
+  }
+  if (file.data.byteLength > MAX_IMPORT_FILE_BYTES) {
+    return { path: file.path, status: "skipped", message: `Larger than ${MAX_IMPORT_FILE_MB} MB` };
+  }
+
+  const text = utf8Decoder.decode(file.data);
+  if (!text.trim()) {
+    return { path: file.path, status: "skipped", message: "Empty file" };
+  }
+  try {
+    return isMarkdown ? parseMarkdownFile(file.path, text) : parseHtmlFile(file.path, text);
+  } catch (error) {
+    return {
+      path: file.path,
+      status: "failed",
+      message: error instanceof Error ? error.message : "Could not parse the file",
+    };
+  }
+}
+
+// --- Creating notes ---------------------------------------------------------
+
+/**
+ * Creates notes for the drafts in `workspaceId` and returns the combined
+ * report (including `priorResults` from earlier stages such as zip expansion).
+ * Drafts without a category name go to `defaultCategory`.
+ */
+export async function importNoteDrafts(
+  userId: string,
+  workspaceId: string,
+  drafts: ImportNoteDraft[],
+  defaultCategory: SelectCategory,
+  priorResults: ImportFileResult[] = []
+): Promise<ImportReport> {
+  const results: ImportFileResult[] = [...priorResults];
+  const createdCategories: string[] = [];
+
+  const acceptedDrafts = drafts.slice(0, MAX_IMPORT_NOTES);
+  for (const draft of drafts.slice(MAX_IMPORT_NOTES)) {
+    results.push({
+      path: draft.path,
+      status: "skipped",
+      message: `Only ${MAX_IMPORT_NOTES} notes can be imported at once`,
+    });
+  }
+
+  // Folders/notebooks map to categories by name, creating the missing ones
+  const existingCategories = await getCategoriesForWorkspaceAndBase(workspaceId, userId);
+  const categoriesByName = new Map(existingCategories.map(category => [category.name.toLowerCase(), category]));
+  const resolveCategory = async (name: string | undefined): Promise<SelectCategory> => {
+    if (!name) return defaultCategory;
+    const existing = categoriesByName.get(name.toLowerCase());
+    if (existing) return existing;
+    const created = await createCategory({
+      name,
+      color: getCategoryColor(existingCategories.length + createdCategories.length),
+      userId,
+      workspaceId,
+    });
+    categoriesByName.set(name.toLowerCase(), created);
+    createdCategories.push(name);
+    return created;
+  };
+
+  // IDs are assigned up front so [[links]] between imported notes resolve
+  const plannedNotes = acceptedDrafts.map(draft => ({ draft, id: randomUUID() }));
+  const noteIdsByTitle = new Map<string, string>();
+  for (const note of await getNotesByWorkspaceId(workspaceId)) {
+    noteIdsByTitle.set(note.title.toLowerCase(), note.id);
+  }
+  for (const { draft, id } of plannedNotes) {
+    noteIdsByTitle.set(draft.title.toLowerCase(), id); // Imported notes win over same-titled existing ones
+  }
+  const resolveNoteLink = (title: string) => noteIdsByTitle.get(title.toLowerCase());
+
+  const rows: { draft: ImportNoteDraft; values: InsertNote; categoryName: string }[] = [];
+  for (const { draft, id } of plannedNotes) {
+    try {
+      const category = await resolveCategory(draft.categoryName);
+      // Imported HTML is untrusted; keep only what the editor's schema allows
+      const content = sanitizeNoteHtml(
+        draft.body.format === "markdown"
+          ? markdownToHtml(draft.body.text, { resolveNoteLink })
+          : draft.body.text
+      );
+      rows.push({
+        draft,
+        categoryName: category.name,
+        values: {
+          id,
+          userId,
+          workspaceId,
+          categoryId: category.id,
+          title: draft.title || "Untitled Note",
+          content,
+          createdAt: draft.createdAt,
+          updatedAt: draft.updatedAt ?? draft.createdAt,
+        },
+      });
+    } catch (error) {
+      results.push({
+        path: draft.path,
+        status: "failed",
+        title: draft.title,
+        message: error instanceof Error ? error.message : "Could not prepare the note",
+      });
+    }
+  }
+
+  for (let start = 0; start < rows.length; start += CREATE_BATCH_SIZE) {
+    const batch = rows.slice(start, start + CREATE_BATCH_SIZE);
+    try {
+      await createNotes(batch.map(row => row.values));
+    } catch (error) {
+      console.error("importNoteDrafts: failed to create a batch of notes", error);
+      for (const row of batch) {
+        results.push({ path: row.draft.path, status: "failed", title: row.draft.title, message: "Could not save the note" });
+      }
+      continue;
+    }
+
+    for (const row of batch) {
+      const noteId = row.values.id as string;
+      const warnings: string[] = [...(row.draft.warnings ?? [])];
+      if (row.draft.tags.length > 0) {
+        try {
+          await setNoteTags({ id: noteId, workspaceId }, userId, row.draft.tags);
+        } catch {
+          warnings.push("tags could not be added");
+        }
+      }
+      if (extractNoteLinkIds(row.values.content).length > 0) {
+        try {
+          await syncNoteLinksFromContent({ id: noteId, workspaceId, content: row.values.content });
+        } catch {
+          warnings.push("links could not be indexed");
+        }
+      }
+      if (extractNoteTasks(row.values.content).length > 0) {
+        try {
+          await syncNoteTasksFromContent({ id: noteId, userId, content: row.values.content });
+        } catch {
+          warnings.push("tasks could not be indexed");
+        }
+      }
+      results.push({
+        path: row.draft.path,
+        status: "imported",
+        noteId,
+        title: row.values.title,
+        categoryName: row.categoryName,
+        message: warnings.length > 0 ? `Imported, but ${warnings.join(", ")}` : undefined,
+      });
+    }
+  }
+
+  return {
+    files: results,
+    importedCount: results.filter(result => result.status === "imported").length,
+    skippedCount: results.filter(result => result.status === "skipped").length,
+    failedCount: results.filter(result => result.status === "failed").length,
+    createdCategories,
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Helpers for wiki-style [[links]] between notes.
+ * Link nodes are serialized as `<a data-note-id="...">` (see
+ * /components/rich-text-editor/extensions/note-link.ts); the server reads the
+ * IDs back out of saved HTML to maintain the note_links table.
+ * Location: /lib/note-links.ts
+ */
+
+export const NOTE_LINK_ID_ATTRIBUTE = "data-note-id";
+
+const NOTE_LINK_ID_PATTERN = /data-note-id="([0-9a-fA-F-]{36})"/g;
+
+export function getNoteHref(noteId: string): string {
+  return `/dashboard/notes/${noteId}`;
+}
+
+/**
+ * IDs of all notes linked from the given HTML, without duplicates.
+ */
+export function extractNoteLinkIds(html: string | null | undefined): string[] {
+  if (!html) return [];
+  const ids = new Set<string>();
+  for (const match of Array.from(html.matchAll(NOTE_LINK_ID_PATTERN))) {
+    ids.add(match[1].toLowerCase());
+  }
+  return Array.from(ids);
+}
@@ -0,0 +1,60 @@
+/**
+ * Fractional ordering of notes within a category. Each note stores a
+ * `position`; moving a note gives it a value between its new neighbours, so
+ * only the moved row is written. When two neighbours get too close for
+ * another value to fit between them, the server renumbers the category.
+ * Location: /lib/note-order.ts
+ */
+
+const POSITION_STEP = 1; // Gap left before the first or after the last note
+const MIN_POSITION_GAP = 1e-9;
+
+/**
+ * A position that sorts after `before` and ahead of `after`; either side may
+ * be missing (moving to the top or bottom, or into an empty category).
+ */
+export function positionBetween(before: number | undefined, after: number | undefined): number {
+  if (before === undefined && after === undefined) return POSITION_STEP;
+  if (before === undefined) return after! - POSITION_STEP;
+  if (after === undefined) return before + POSITION_STEP;
+  return (before + after) / 2;
+}
+
+// Whether a position can still be placed strictly between the two neighbours
+export function hasRoomBetween(before: number | undefined, after: number | undefined): boolean {
+  return before === undefined || after === undefined || after - before > MIN_POSITION_GAP;
+}
+
+export type NoteMoveCommand = "up" | "down" | "previous-category" | "next-category";
+
+export interface NoteMoveTarget {
+  categoryId: string;
+  index: number; // Into the target column's notes, not counting the moved note
+}
+
+/**
+ * Where a keyboard move command takes a note, given the board's columns in
+ * display order. Returns null when the note can't move that way (already at
+ * the top, the bottom or in the outermost column).
+ */
+export function getNoteMoveTarget(
+  columns: { categoryId: string; noteIds: string[] }[],
+  noteId: string,
+  command: NoteMoveCommand
+): NoteMoveTarget | null {
+  const columnIndex = columns.findIndex(column => column.noteIds.includes(noteId));
+  if (columnIndex === -1) return null;
+  const { categoryId, noteIds } = columns[columnIndex];
+  const index = noteIds.indexOf(noteId);
+
+  if (command === "up") {
+    return index > 0 ? { categoryId, index: index - 1 } : null;
+  }
+  if (command === "down") {
+    return index < noteIds.length - 1 ? { categoryId, index: index + 1 } : null;
+  }
+  const target = columns[columnIndex + (command === "previous-category" ? -1 : 1)];
+  if (!target) return null;
+  // Keep the note at the same height where the other column allows it
+  return { categoryId: target.categoryId, index: Math.min(index, target.noteIds.length) };
+}
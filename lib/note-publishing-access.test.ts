@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("next/headers", () => ({ cookies: vi.fn(), headers: vi.fn() }));
+vi.mock("@/db/queries/publication-unlock-attempts-queries", () => ({ recordPublicationUnlockAttempt: vi.fn() }));
+
+import { headers } from "next/headers";
+import { recordPublicationUnlockAttempt } from "@/db/queries/publication-unlock-attempts-queries";
+import {
+  allowPublicationUnlockAttempt,
+  hashPublishPassword,
+  verifyPublishPassword,
+} from "./note-publishing-access";
+
+function setRequestHeaders(values: Record<string, string>) {
+  vi.mocked(headers).mockReturnValue(new Headers(values) as unknown as ReturnType<typeof headers>);
+}
+
+// Every key has made `attempts` attempts, this one included
+function setAttempts(attempts: Record<string, number>) {
+  vi.mocked(recordPublicationUnlockAttempt).mockImplementation(async key => attempts[key] ?? 1);
+}
+
+const recordedKeys = () => vi.mocked(recordPublicationUnlockAttempt).mock.calls.map(([key]) => key);
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  setRequestHeaders({});
+  setAttempts({});
+});
+
+describe("publish passwords", () => {
+  it("verifies the password a hash was made from", async () => {
+    const hash = await hashPublishPassword("correct horse");
+    expect(hash).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+    expect(await verifyPublishPassword("correct horse", hash)).toBe(true);
+    expect(await verifyPublishPassword("wrong horse", hash)).toBe(false);
+  });
+
+  it("rejects malformed hashes", async () => {
+    expect(await verifyPublishPassword("anything", "")).toBe(false);
+    expect(await verifyPublishPassword("anything", "bcrypt$aa$bb")).toBe(false);
+  });
+});
+
+describe("allowPublicationUnlockAttempt", () => {
+  it("counts attempts by the IP the proxy appended, not the one the client sent", async () => {
+    setRequestHeaders({ "x-forwarded-for": "1.1.1.1, 2.2.2.2, 203.0.113.7" });
+    await allowPublicationUnlockAttempt("plan-x7k2m9pq");
+    expect(recordedKeys()).toEqual(["ip:203.0.113.7", "page:203.0.113.7:plan-x7k2m9pq"]);
+  });
+
+  it("falls back to X-Real-IP without X-Forwarded-For", async () => {
+    setRequestHeaders({ "x-real-ip": "203.0.113.7" });
+    await allowPublicationUnlockAttempt("plan-x7k2m9pq");
+    expect(recordedKeys()).toContain("ip:203.0.113.7");
+  });
+
+  it("allows 10 attempts per visitor and page", async () => {
+    setRequestHeaders({ "x-forwarded-for": "203.0.113.7" });
+    setAttempts({ "page:203.0.113.7:plan-x7k2m9pq": 10 });
+    expect(await allowPublicationUnlockAttempt("plan-x7k2m9pq")).toBe(true);
+    setAttempts({ "page:203.0.113.7:plan-x7k2m9pq": 11 });
+    expect(await allowPublicationUnlockAttempt("plan-x7k2m9pq")).toBe(false);
+  });
+
+  it("allows 50 attempts per visitor across all pages", async () => {
+    setRequestHeaders({ "x-forwarded-for": "203.0.113.7" });
+    setAttempts({ "ip:203.0.113.7": 51 });
+    expect(await allowPublicationUnlockAttempt("other-page")).toBe(false);
+  });
+
+  it("never locks other visitors out of a page", async () => {
+    setAttempts({ "page:198.51.100.1:plan-x7k2m9pq": 1000, "ip:198.51.100.1": 1000 });
+    setRequestHeaders({ "x-forwarded-for": "203.0.113.7" });
+    expect(await allowPublicationUnlockAttempt("plan-x7k2m9pq")).toBe(true);
+  });
+});
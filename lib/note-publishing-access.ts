@@ -0,0 +1,98 @@
+/**
+ * Server-side access to password-protected public note pages: hashing the
+ * page password, and the cookie that remembers a visitor typed it. The
+ * cookie holds an HMAC of the slug keyed with the password hash, so it can't
+ * be forged and stops working as soon as the password changes or is removed.
+ * Password attempts are rate limited per visitor IP, overall and per page.
+ * Location: /lib/note-publishing-access.ts
+ */
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { cookies, headers } from "next/headers";
+import type { SelectNotePublication } from "@/db/schema/note-publications-schema";
+import { recordPublicationUnlockAttempt } from "@/db/queries/publication-unlock-attempts-queries";
+import { isPublicationExpired } from "./note-publishing";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+const ACCESS_COOKIE_MAX_AGE = 60 * 60 * 24 * 7; // A week, in seconds
+const UNLOCK_WINDOW_MS = 15 * 60 * 1000;
+const MAX_UNLOCK_ATTEMPTS_PER_PAGE = 10; // Per visitor and window
+const MAX_UNLOCK_ATTEMPTS_PER_VISITOR = 50; // Per window, across all pages
+
+export async function hashPublishPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+export async function verifyPublishPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = passwordHash.split("$");
+  if (scheme !== "scrypt" || !saltHex || !keyHex) return false;
+  const expected = Buffer.from(keyHex, "hex");
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// The visitor's IP as seen by the proxy in front of the app. Clients can send
+// their own X-Forwarded-For, so only the last hop, the one the proxy appended,
+// is trusted.
+function getVisitorIp(): string {
+  const forwardedFor = headers().get("x-forwarded-for")?.split(",").pop()?.trim();
+  return (forwardedFor || headers().get("x-real-ip") || "unknown").slice(0, 64);
+}
+
+/**
+ * Counts an attempt at the password of the page at `slug` and returns
+ * whether it may be checked: false once the visitor made too many attempts
+ * on this page, or on all pages together, in the last UNLOCK_WINDOW_MS.
+ * Limits are per visitor so nobody can lock others out of a page.
+ */
+export async function allowPublicationUnlockAttempt(slug: string): Promise<boolean> {
+  const windowStart = new Date(Date.now() - UNLOCK_WINDOW_MS);
+  const ip = getVisitorIp();
+  const [visitorAttempts, pageAttempts] = await Promise.all([
+    recordPublicationUnlockAttempt(`ip:${ip}`, windowStart),
+    recordPublicationUnlockAttempt(`page:${ip}:${slug}`, windowStart),
+  ]);
+  return visitorAttempts <= MAX_UNLOCK_ATTEMPTS_PER_VISITOR && pageAttempts <= MAX_UNLOCK_ATTEMPTS_PER_PAGE;
+}
+
+function getAccessCookieName(slug: string): string {
+  return `published_note_${slug}`;
+}
+
+function getAccessToken(publication: SelectNotePublication): string {
+  return createHmac("sha256", publication.passwordHash ?? "")
+    .update(publication.publishedSlug)
+    .digest("hex");
+}
+
+/**
+ * Whether the current visitor may read the published note: it hasn't
+ * expired, and it has no password or they have already entered it.
+ */
+export function canReadPublication(publication: SelectNotePublication): boolean {
+  if (isPublicationExpired(publication)) return false;
+  if (!publication.passwordHash) return true;
+  const cookie = cookies().get(getAccessCookieName(publication.publishedSlug));
+  if (!cookie) return false;
+  const expected = Buffer.from(getAccessToken(publication));
+  const actual = Buffer.from(cookie.value);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Remembers that the visitor entered the page's password. Only callable from
+ * server actions and route handlers, where cookies can be set.
+ */
+export function grantPublicationAccess(publication: SelectNotePublication): void {
+  cookies().set(getAccessCookieName(publication.publishedSlug), getAccessToken(publication), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/", // Also sent to /api/attachments for the page's images
+    maxAge: ACCESS_COOKIE_MAX_AGE,
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * Public note pages shared by the publish dialog, the publishing actions and
+ * the /p/[slug] page: page URLs, slugs, expiry and password rules.
+ * Password hashing lives in /lib/note-publishing-access.ts (server only).
+ * Location: /lib/note-publishing.ts
+ */
+import type { SelectNotePublication } from "@/db/schema/note-publications-schema";
+
+// What the owner sees about a publication; never includes the password hash
+export interface NotePublicationInfo {
+  slug: string;
+  expiresAt: Date | null;
+  hasPassword: boolean;
+  publishedAt: Date;
+}
+
+export interface PublishSettings {
+  expiresAt: Date | null;
+  // A new password, null to remove it, or undefined to keep the current one
+  password?: string | null;
+}
+
+export const MIN_PUBLISH_PASSWORD_LENGTH = 8;
+export const MAX_PUBLISH_PASSWORD_LENGTH = 128;
+
+const SLUG_TITLE_LENGTH = 60;
+const SLUG_SUFFIX_LENGTH = 8;
+const SLUG_SUFFIX_ALPHABET = "abcdefghijkmnpqrstuvwxyz23456789"; // No look-alikes
+
+export function getPublishedNotePath(slug: string): string {
+  return `/p/${encodeURIComponent(slug)}`;
+}
+
+export function toNotePublicationInfo(publication: SelectNotePublication): NotePublicationInfo {
+  return {
+    slug: publication.publishedSlug,
+    expiresAt: publication.expiresAt,
+    hasPassword: !!publication.passwordHash,
+    publishedAt: publication.createdAt,
+  };
+}
+
+/**
+ * A readable slug from the title plus a random suffix, so published URLs
+ * can't be guessed from a note's title: "Release plan" → "release-plan-x7k2m9pq".
+ */
+export function createPublishedSlug(title: string): string {
+  const base = title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // Drop accents: "café" → "cafe"
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, SLUG_TITLE_LENGTH)
+    .replace(/^-+|-+$/g, "");
+  const randomValues = crypto.getRandomValues(new Uint8Array(SLUG_SUFFIX_LENGTH));
+  const suffix = Array.from(randomValues, value => SLUG_SUFFIX_ALPHABET[value % SLUG_SUFFIX_ALPHABET.length]).join("");
+  return base ? `${base}-${suffix}` : suffix;
+}
+
+export function isPublicationExpired(publication: Pick<SelectNotePublication, "expiresAt">, now = new Date()): boolean {
+  return !!publication.expiresAt && publication.expiresAt.getTime() <= now.getTime();
+}
+
+/**
+ * Checks the publish settings; returns the problem, or null if they're fine.
+ */
+export function validatePublishSettings(settings: PublishSettings, now = new Date()): string | null {
+  if (settings.expiresAt) {
+    if (Number.isNaN(settings.expiresAt.getTime())) return "Enter a valid expiry date.";
+    if (settings.expiresAt.getTime() <= now.getTime()) return "The expiry date must be in the future.";
+  }
+  if (typeof settings.password === "string") {
+    if (settings.password.length < MIN_PUBLISH_PASSWORD_LENGTH) {
+      return `Passwords need at least ${MIN_PUBLISH_PASSWORD_LENGTH} characters.`;
+    }
+    if (settings.password.length > MAX_PUBLISH_PASSWORD_LENGTH) {
+      return `Passwords can have at most ${MAX_PUBLISH_PASSWORD_LENGTH} characters.`;
+    }
+  }
+  return null;
+}
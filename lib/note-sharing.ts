@@ -0,0 +1,56 @@
+/**
+ * Note sharing rules shared by the share dialog, the note page and the
+ * sharing actions: who may do what with a note, and how invite emails are
+ * checked.
+ * Location: /lib/note-sharing.ts
+ */
+import type { NoteShareRole } from "@/db/schema/note-shares-schema";
+
+// How the signed-in user relates to a note they can open
+export type NoteRole = "owner" | NoteShareRole;
+
+export const NOTE_SHARE_ROLES: { value: NoteShareRole; label: string; description: string }[] = [
+  { value: "viewer", label: "Viewer", description: "Can read the note" },
+  { value: "editor", label: "Editor", description: "Can change the title and content" },
+];
+
+export const MAX_SHARES_PER_NOTE = 50;
+
+export function isNoteShareRole(value: unknown): value is NoteShareRole {
+  return NOTE_SHARE_ROLES.some(role => role.value === value);
+}
+
+export function canEditNote(role: NoteRole): boolean {
+  return role === "owner" || role === "editor";
+}
+
+export function normalizeShareEmail(raw: string): string {
+  return raw.trim().toLowerCase();
+}
+
+// The part of a Clerk user getVerifiedEmails reads
+interface UserWithEmails {
+  emailAddresses: { emailAddress: string; verification: { status: string } | null }[];
+}
+
+/**
+ * A user's verified email addresses, normalized like invite emails. Only
+ * these claim shares and invitations: anyone can add an address they don't
+ * own to their account without verifying it.
+ */
+export function getVerifiedEmails(user: UserWithEmails | null | undefined): string[] {
+  return (user?.emailAddresses ?? [])
+    .filter(address => address.verification?.status === "verified")
+    .map(address => normalizeShareEmail(address.emailAddress));
+}
+
+/**
+ * Checks a (normalized) invite email; returns the problem, or null if it's fine.
+ */
+export function validateShareEmail(email: string): string | null {
+  if (!email) return "Enter an email address.";
+  if (email.length > 320 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return "Enter a valid email address.";
+  }
+  return null;
+}
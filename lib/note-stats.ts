@@ -0,0 +1,47 @@
+/**
+ * Plain-text statistics derived from note HTML: the excerpt shown on cards,
+ * word and character counts and an estimated reading time. The note queries
+ * store them alongside the content on every write; the note header computes
+ * them live while editing.
+ * Location: /lib/note-stats.ts
+ */
+import { htmlToPlainTextLines } from "./html-text";
+
+export const NOTE_EXCERPT_LENGTH = 200; // Characters, before the ellipsis
+const WORDS_PER_MINUTE = 200;
+
+export interface NoteStats {
+  excerpt: string;
+  wordCount: number;
+  charCount: number;
+  readingMinutes: number;
+}
+
+/**
+ * Shortens `text` to at most `maxLength` characters, cutting at the last
+ * word boundary when there is one, and marks the cut with an ellipsis.
+ */
+function truncateAtWord(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+export function getNoteStats(html: string | null | undefined): NoteStats {
+  const text = htmlToPlainTextLines(html ?? "").join(" ");
+  const wordCount = text ? text.split(" ").length : 0;
+  return {
+    excerpt: truncateAtWord(text, NOTE_EXCERPT_LENGTH),
+    wordCount,
+    charCount: Array.from(text).length, // Code points, so emoji count once
+    readingMinutes: wordCount > 0 ? Math.ceil(wordCount / WORDS_PER_MINUTE) : 0,
+  };
+}
+
+/**
+ * "1 min read", "7 min read"; empty for notes without text.
+ */
+export function formatReadingTime(readingMinutes: number): string {
+  return readingMinutes > 0 ? `${readingMinutes} min read` : "";
+}
@@ -0,0 +1,54 @@
+/**
+ * Server-side extraction of checklist items from note HTML, used to rebuild
+ * the note_tasks rows whenever a note's content is saved.
+ * Location: /lib/note-task-extraction.ts
+ */
+import { Parser } from "htmlparser2";
+import { ExtractedNoteTask, MAX_TASK_TEXT_LENGTH, parseTaskDueDate } from "@/lib/note-tasks";
+
+/**
+ * Lists the task items in note HTML in document order. Nested task items are
+ * separate tasks; a parent's text doesn't include its children's.
+ */
+export function extractNoteTasks(html: string | null | undefined): ExtractedNoteTask[] {
+  if (!html || !html.includes('data-type="taskItem"')) return [];
+
+  const tasks: ExtractedNoteTask[] = [];
+  // One entry per open <li>; task items collect their own text
+  const itemStack: ({ done: boolean; text: string; index: number } | null)[] = [];
+
+  const parser = new Parser(
+    {
+      onopentag(name, attribs) {
+        if (name !== "li") return;
+        if (attribs["data-type"] === "taskItem") {
+          // Reserve the slot now so parents come before their children
+          tasks.push({ text: "", done: false, dueDate: null });
+          itemStack.push({ done: attribs["data-checked"] === "true", text: "", index: tasks.length - 1 });
+        } else {
+          itemStack.push(null);
+        }
+      },
+      ontext(text) {
+        const current = itemStack[itemStack.length - 1];
+        if (current) current.text += text;
+      },
+      onclosetag(name) {
+        if (name === "p" || name === "br") {
+          const current = itemStack[itemStack.length - 1];
+          if (current) current.text += " ";
+        }
+        if (name !== "li") return;
+        const item = itemStack.pop();
+        if (!item) return;
+        const text = item.text.replace(/\s+/g, " ").trim().slice(0, MAX_TASK_TEXT_LENGTH);
+        tasks[item.index] = { text, done: item.done, dueDate: parseTaskDueDate(text) };
+      },
+    },
+    { decodeEntities: true }
+  );
+  parser.write(html);
+  parser.end();
+
+  return tasks.filter(task => task.text.length > 0);
+}
@@ -0,0 +1,40 @@
+/**
+ * Shared types and helpers for the checklist items (Tiptap task items) inside
+ * note content. The server extracts them on every save into the note_tasks
+ * table (see /lib/note-task-extraction.ts), which feeds the "Open tasks" view
+ * and the progress shown on note cards.
+ * Location: /lib/note-tasks.ts
+ */
+
+export interface ExtractedNoteTask {
+  text: string;
+  done: boolean;
+  dueDate: string | null; // YYYY-MM-DD
+}
+
+export interface NoteTaskProgress {
+  done: number;
+  total: number;
+}
+
+export const MAX_TASK_TEXT_LENGTH = 500;
+
+// "due 2025-03-31", "due: 2025-03-31" or "@2025-03-31" anywhere in the task text
+const DUE_DATE_PATTERN = /(?:\bdue:?\s*|@)(\d{4}-\d{2}-\d{2})\b/i;
+
+/**
+ * Due date written in a task's text, if it is a real calendar date.
+ */
+export function parseTaskDueDate(text: string): string | null {
+  const match = DUE_DATE_PATTERN.exec(text);
+  if (!match) return null;
+  const date = new Date(`${match[1]}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(match[1]) ? match[1] : null;
+}
+
+/**
+ * "3/7 done" style label for a note's task progress.
+ */
+export function formatTaskProgress({ done, total }: NoteTaskProgress): string {
+  return `${done}/${total} done`;
+}
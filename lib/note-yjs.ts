@@ -0,0 +1,119 @@
+/**
+ * Conversions between note HTML and the Yjs documents used for live editing,
+ * for the collaboration server. The editor binds its content to the
+ * `COLLABORATION_FIELD` fragment of the document, so these use the same
+ * field and the same node types as NoteEditor (its schema, without the
+ * browser-only parts such as node views and suggestion popups).
+ * Location: /lib/note-yjs.ts
+ */
+import { createHash } from "crypto";
+import * as Y from "yjs";
+import { getSchema, type Extensions } from "@tiptap/core";
+import { generateHTML, generateJSON } from "@tiptap/html";
+import { prosemirrorJSONToYDoc, yXmlFragmentToProsemirrorJSON } from "y-prosemirror";
+import StarterKit from "@tiptap/starter-kit";
+import CodeBlock from "@tiptap/extension-code-block";
+import TextStyle from "@tiptap/extension-text-style";
+import { Color } from "@tiptap/extension-color";
+import Underline from "@tiptap/extension-underline";
+import TextAlign from "@tiptap/extension-text-align";
+import Link from "@tiptap/extension-link";
+import Image from "@tiptap/extension-image";
+import TaskList from "@tiptap/extension-task-list";
+import TaskItem from "@tiptap/extension-task-item";
+import Table from "@tiptap/extension-table";
+import TableRow from "@tiptap/extension-table-row";
+import TableHeader from "@tiptap/extension-table-header";
+import TableCell from "@tiptap/extension-table-cell";
+import { Callout } from "@/components/rich-text-editor/extensions/callout";
+import { NoteLink } from "@/components/rich-text-editor/extensions/note-link";
+import { CommentMark } from "@/components/rich-text-editor/extensions/comment";
+import { COLLABORATION_FIELD } from "./collaboration";
+
+// The server-side DOM differs from a browser's in two ways that matter here:
+// it has no `classList`, which the stock code block reads its language from,
+// and it writes boolean attributes without a value, where the sanitizer and
+// task extraction expect data-checked="true" / "false".
+const ServerCodeBlock = CodeBlock.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      language: {
+        default: null,
+        parseHTML: (element: HTMLElement) => {
+          const className = element.querySelector("code")?.getAttribute("class") ?? "";
+          const match = /(?:^|\s)language-(\S+)/.exec(className);
+          return match ? match[1] : null;
+        },
+        rendered: false,
+      },
+    };
+  },
+});
+
+const ServerTaskItem = TaskItem.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      checked: {
+        default: false,
+        keepOnSplit: false,
+        parseHTML: (element: HTMLElement) => {
+          const dataChecked = element.getAttribute("data-checked");
+          return dataChecked === "" || dataChecked === "true";
+        },
+        renderHTML: (attributes: Record<string, unknown>) => ({
+          "data-checked": attributes.checked ? "true" : "false",
+        }),
+      },
+    };
+  },
+});
+
+// Keep in step with the extensions in NoteEditor. The plain code block has the
+// same schema as the editor's highlighted CodeBlock.
+const NOTE_EXTENSIONS: Extensions = [
+  StarterKit.configure({ codeBlock: false }),
+  ServerCodeBlock,
+  TextStyle,
+  Color,
+  Underline,
+  TextAlign.configure({ types: ["heading", "paragraph"] }),
+  Link,
+  Image.configure({ inline: true }),
+  TaskList,
+  ServerTaskItem.configure({ nested: true }),
+  Table,
+  TableRow,
+  TableHeader,
+  TableCell,
+  Callout,
+  NoteLink,
+  CommentMark,
+];
+
+const noteSchema = getSchema(NOTE_EXTENSIONS);
+
+/**
+ * A new Yjs document holding `html`, as a Yjs update.
+ */
+export function htmlToYjsUpdate(html: string): Uint8Array {
+  const json = generateJSON(html || "<p></p>", NOTE_EXTENSIONS);
+  const doc = prosemirrorJSONToYDoc(noteSchema, json, COLLABORATION_FIELD);
+  const update = Y.encodeStateAsUpdate(doc);
+  doc.destroy();
+  return update;
+}
+
+export function yDocToHtml(doc: Y.Doc): string {
+  const json = yXmlFragmentToProsemirrorJSON(doc.getXmlFragment(COLLABORATION_FIELD));
+  return generateHTML(json, NOTE_EXTENSIONS);
+}
+
+/**
+ * Hash stored with a saved document to tell whether the note's HTML still
+ * matches it.
+ */
+export function hashNoteContent(html: string): string {
+  return createHash("sha256").update(html).digest("hex");
+}
@@ -0,0 +1,53 @@
+/**
+ * Helpers for Postgres full-text search over notes.
+ * Shared by the search query (building tsquery input, parsing ts_headline
+ * output) and the UI that renders highlighted snippets.
+ * Location: /lib/search.ts
+ */
+import { decodeHtmlEntities } from "./html-text";
+
+/**
+ * Markers passed to ts_headline as StartSel/StopSel. Control characters are
+ * used so highlights can be split out without ever rendering note text as HTML.
+ */
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_STOP = "\u0003";
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Builds a prefix-matching tsquery string ("foo:* & bar:*") from free text,
+ * so results update while the user is still typing a word.
+ * Returns null when the input has no searchable terms.
+ */
+export function buildPrefixTsQuery(input: string): string | null {
+  // Split on whitespace and ASCII punctuation so tsquery operators can't be injected
+  const terms = input.toLowerCase().match(/[^\s!-/:-@[-`{-~]+/g);
+  if (!terms || terms.length === 0) {
+    return null;
+  }
+  return terms.map((term) => `${term}:*`).join(" & ");
+}
+
+/**
+ * Splits ts_headline output into plain and highlighted segments.
+ */
+export function splitHighlights(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  const parts = headline.split(HIGHLIGHT_START);
+
+  parts.forEach((part, index) => {
+    if (index === 0) {
+      if (part) segments.push({ text: decodeHtmlEntities(part), highlighted: false });
+      return;
+    }
+    const [highlighted, rest = ""] = part.split(HIGHLIGHT_STOP);
+    if (highlighted) segments.push({ text: decodeHtmlEntities(highlighted), highlighted: true });
+    if (rest) segments.push({ text: decodeHtmlEntities(rest), highlighted: false });
+  });
+
+  return segments;
+}
@@ -0,0 +1,36 @@
+/**
+ * Snippet rules shared by the snippet manager, the snippet actions and the
+ * editor's "/" menu.
+ * Location: /lib/snippets.ts
+ */
+
+export const MAX_SNIPPET_NAME_LENGTH = 60;
+export const MAX_SNIPPET_BODY_LENGTH = 5000;
+export const MAX_SNIPPETS_PER_USER = 100;
+
+/**
+ * Returns an error message for an invalid snippet, or null when it's fine.
+ */
+export function validateSnippet({ name, body }: { name: string; body: string }): string | null {
+  if (!name.trim()) return "Snippet name cannot be empty.";
+  if (name.trim().length > MAX_SNIPPET_NAME_LENGTH) {
+    return `Snippet names can be at most ${MAX_SNIPPET_NAME_LENGTH} characters.`;
+  }
+  if (!body.trim()) return "Snippet text cannot be empty.";
+  if (body.length > MAX_SNIPPET_BODY_LENGTH) {
+    return `Snippet text can be at most ${MAX_SNIPPET_BODY_LENGTH} characters.`;
+  }
+  return null;
+}
+
+/**
+ * Turns a snippet body into editor content: one paragraph per line, with
+ * blank lines kept as empty paragraphs.
+ */
+export function snippetBodyToContent(body: string) {
+  return body
+    .replace(/\r\n?/g, "\n")
+    .replace(/^\n+|\n+$/g, "")
+    .split("\n")
+    .map(line => (line ? { type: "paragraph", content: [{ type: "text", text: line }] } : { type: "paragraph" }));
+}
@@ -0,0 +1,36 @@
+/**
+ * Tag naming rules shared by the tag input and the tag actions.
+ * Location: /lib/tags.ts
+ */
+
+export const MAX_TAG_LENGTH = 40;
+export const MAX_TAGS_PER_NOTE = 20;
+
+/**
+ * Normalizes a user-typed tag: trimmed, lower-cased, inner whitespace turned
+ * into dashes and a leading "#" dropped, so "Client X" and "#client-x" are the
+ * same tag. Returns an empty string when nothing usable is left.
+ */
+export function normalizeTagName(raw: string): string {
+  return raw
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/,/g, "")
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Normalizes a list of tag names, dropping empty entries and duplicates.
+ */
+export function normalizeTagNames(rawNames: string[]): string[] {
+  const names = new Set<string>();
+  for (const rawName of rawNames) {
+    const name = normalizeTagName(rawName);
+    if (name) {
+      names.add(name);
+    }
+  }
+  return Array.from(names);
+}
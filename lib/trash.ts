@@ -0,0 +1,24 @@
+/**
+ * Trash retention rules shared by the trash page and the scheduled purge.
+ * Location: /lib/trash.ts
+ */
+
+// Items stay in the trash this long before the purge deletes them for good
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Items trashed before this moment are due for permanent deletion.
+ */
+export function getTrashPurgeCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Whole days left before an item trashed at `deletedAt` is purged (never negative).
+ */
+export function getDaysUntilPurge(deletedAt: Date, now: Date = new Date()): number {
+  const purgeAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS));
+}
@@ -0,0 +1,62 @@
+/**
+ * Workspace rules shared by the workspace switcher, the workspace settings
+ * dialog and the workspace actions: what each role may do, and how names and
+ * invites are checked.
+ * Location: /lib/workspaces.ts
+ */
+import type { WorkspaceRole } from "@/db/schema/workspace-members-schema";
+import type { SelectWorkspace } from "@/db/schema/workspaces-schema";
+
+// What an action needs from the signed-in user's role in a workspace
+export type WorkspaceAccessLevel = "view" | "edit" | "manage";
+
+// A workspace together with the signed-in user's role in it
+export interface WorkspaceWithRole {
+  workspace: SelectWorkspace;
+  role: WorkspaceRole;
+}
+
+export const WORKSPACE_ROLES: { value: WorkspaceRole; label: string; description: string }[] = [
+  { value: "owner", label: "Owner", description: "Manages the workspace and its members" },
+  { value: "editor", label: "Editor", description: "Creates and changes notes and categories" },
+  { value: "viewer", label: "Viewer", description: "Can read notes" },
+];
+
+// Roles that can be given by invite or changed later; there is one owner
+export const INVITABLE_WORKSPACE_ROLES = WORKSPACE_ROLES.filter(role => role.value !== "owner");
+
+export const ACTIVE_WORKSPACE_COOKIE = "active_workspace";
+export const PERSONAL_WORKSPACE_NAME = "Personal";
+export const MAX_WORKSPACE_NAME_LENGTH = 100;
+export const MAX_WORKSPACE_MEMBERS = 50;
+
+export function isInvitableWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return INVITABLE_WORKSPACE_ROLES.some(role => role.value === value);
+}
+
+export function getWorkspaceRoleLabel(role: WorkspaceRole): string {
+  return WORKSPACE_ROLES.find(option => option.value === role)?.label ?? role;
+}
+
+export function hasWorkspaceAccess(role: WorkspaceRole, access: WorkspaceAccessLevel): boolean {
+  switch (access) {
+    case "view":
+      return true;
+    case "edit":
+      return role === "owner" || role === "editor";
+    case "manage":
+      return role === "owner";
+  }
+}
+
+/**
+ * Trims a workspace name; returns it with the problem, if any.
+ */
+export function validateWorkspaceName(raw: string): { name: string; error: string | null } {
+  const name = raw.trim();
+  if (!name) return { name, error: "Enter a name for the workspace." };
+  if (name.length > MAX_WORKSPACE_NAME_LENGTH) {
+    return { name, error: `Workspace names can be at most ${MAX_WORKSPACE_NAME_LENGTH} characters.` };
+  }
+  return { name, error: null };
+}
@@ -0,0 +1,58 @@
+/**
+ * Zip archive helpers built on fflate.
+ * Location: /lib/zip.ts
+ */
+import { Zip, ZipDeflate, strToU8 } from "fflate";
+
+export interface ZipEntry {
+  path: string; // Path inside the archive, using "/" separators
+  content: string | Uint8Array;
+  modifiedAt?: Date;
+}
+
+/**
+ * Streams a zip archive of `entries`. Entries are pulled one at a time as the
+ * consumer reads, so large exports never sit in memory as a whole archive.
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>): ReadableStream<Uint8Array> {
+  let zip: Zip;
+  let iterator: AsyncIterator<ZipEntry> | Iterator<ZipEntry>;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      iterator = Symbol.asyncIterator in entries
+        ? (entries as AsyncIterable<ZipEntry>)[Symbol.asyncIterator]()
+        : (entries as Iterable<ZipEntry>)[Symbol.iterator]();
+      zip = new Zip((error, chunk, final) => {
+        if (error) {
+          controller.error(error);
+          return;
+        }
+        controller.enqueue(chunk);
+        if (final) {
+          controller.close();
+        }
+      });
+    },
+
+    async pull() {
+      // ZipDeflate compresses synchronously, so each pull emits one whole entry
+      const next = await iterator.next();
+      if (next.done) {
+        zip.end();
+        return;
+      }
+      const entry = next.value;
+      const file = new ZipDeflate(entry.path, { level: 6 });
+      if (entry.modifiedAt) {
+        file.mtime = entry.modifiedAt;
+      }
+      zip.add(file);
+      file.push(typeof entry.content === "string" ? strToU8(entry.content) : entry.content, true);
+    },
+
+    cancel() {
+      zip.terminate();
+    },
+  });
+}
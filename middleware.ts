@@ -2,6 +2,8 @@ import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 
 const isProtectedRoute = createRouteMatcher(["/dashboard(.*)"]);
+// Published notes are readable without an account
+const isPublicNoteRoute = createRouteMatcher(["/p/(.*)"]);
 
 // This handles both payment provider use cases from whop-setup.md and stripe-setup.md
 export default clerkMiddleware(async (auth, req) => {
@@ -10,6 +12,11 @@ export default clerkMiddleware(async (auth, req) => {
     console.log("Skipping Clerk auth for Whop webhook endpoint");
     return NextResponse.next();
   }
+
+  // Shared links to published notes must open as-is, signed in or not
+  if (isPublicNoteRoute(req)) {
+    return NextResponse.next();
+  }
   
   // Check for problematic URLs that might cause 431 errors
   // This covers both Clerk handshake params and payment provider redirects
@@ -1,5 +1,12 @@
+/**
+ * Machine-readable reason attached to a failed ActionResult so callers can
+ * branch on the failure kind instead of parsing `message`.
+ */
+export type ActionErrorCode = "unauthorized" | "forbidden" | "not_found" | "conflict";
+
 export type ActionResult<T> = {
   isSuccess: boolean;
   message: string;
   data?: T;
+  code?: ActionErrorCode;
 };
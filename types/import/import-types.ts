@@ -0,0 +1,21 @@
+export type ImportFileStatus = "imported" | "skipped" | "failed";
+
+/**
+ * Outcome for one uploaded file (or one file inside an uploaded zip).
+ */
+export type ImportFileResult = {
+  path: string;
+  status: ImportFileStatus;
+  message?: string;
+  noteId?: string;
+  title?: string;
+  categoryName?: string;
+};
+
+export type ImportReport = {
+  files: ImportFileResult[];
+  importedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  createdCategories: string[]; // Names of categories created for folders
+};
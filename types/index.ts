@@ -1 +1,2 @@
 export * from "./actions/actions-types";
+export * from "./import/import-types";
@@ -0,0 +1,19 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+/**
+ * Unit tests: `*.test.ts` files next to the modules they cover, run in Node.
+ * Location: /vitest.config.mts
+ */
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL(".", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**"],
+  },
+});